@@ -4,7 +4,7 @@ import { useAuth } from './context/AuthContext';
 import LoginScreen from './components/LoginScreen';
 import { AppShell } from './components/AppShell';
 // FIX: Import Status, Priority, and WorkItemType enums to fix type errors.
-import { WorkItem, Notification, ItemUpdateEvent, Epic, Team, Status, Priority, WorkItemType, Sprint, ToastNotification, EpicStatus, SprintState, Board, JoinRequest, InviteCode, CalendarEvent, SavedView, ViewVisibility, ItemUpdateEventType, User } from './types';
+import { WorkItem, Notification, ItemUpdateEvent, Epic, Team, Priority, WorkItemType, Sprint, ToastNotification, EpicStatus, SprintState, Board, JoinRequest, InviteCode, CalendarEvent, SavedView, ViewVisibility, ItemUpdateEventType, User, NewItemOptions } from './types';
 import { WorkItemDetailModal } from './components/WorkItemDetailModal';
 import { WorkItemEditor } from './components/WorkItemEditor';
 import { UserSettingsModal } from './components/UserSettingsModal';
@@ -13,6 +13,7 @@ import { useSettings } from './context/SettingsContext';
 import { EpicEditor } from './components/EpicEditor';
 import { useIdleReminder } from './hooks/useIdleReminder';
 import { useBoard } from './context/BoardContext';
+import { useWorkflow } from './context/WorkflowContext';
 import { ToastManager } from './components/ToastManager';
 import { useLocale } from './context/LocaleContext';
 import { ALL_USERS, EPIC_COLORS } from './constants';
@@ -30,17 +31,46 @@ import LegalPage from './components/LegalPage';
 import * as calendarService from './services/calendarService';
 import { EventEditorModal } from './components/EventEditorModal';
 import { EventViewModal } from './components/EventViewModal';
-import { load, save } from './services/persistence';
+import { ImportBoardModal } from './components/ImportBoardModal';
+import { CsvImportModal } from './components/CsvImportModal';
+import { ExternalImportModal } from './components/ExternalImportModal';
+import { ExternalImportPlan } from './services/externalImport';
+import { buildBoardArchive, downloadBoardArchive, BoardImportPlan, ExistingIds } from './services/boardArchive';
+import { onMigrationFailure, onStorageError, clearCollection, replayOutbox } from './services/persistence';
+import { usePersistedCollection } from './hooks/usePersistedCollection';
 import { isEqual } from 'lodash-es';
+import { useUndoHistory } from './hooks/useUndoHistory';
+import { defaultStatusId } from './services/workflow';
+import { describeWipBreach } from './services/wipLimits';
+import { BoardMoveOptions } from './services/swimlanes';
+import { rankAtTop, ranksBetween, sortByRank } from './services/ranking';
+import { useAuditLog } from './context/AuditLogContext';
+import { RecordPatch, UndoEntry, diffRecords, isEmptyPatch, applyPatch, reusedIds } from './services/undoHistory';
+import { newWorkItemId } from './services/workItemIds';
+import { removeWorkItems, purgeExpiredWorkItems, purgeExpired } from './services/trash';
+import { syncChildrenIds } from './services/subtasks';
+import { applyTemplate } from './services/itemTemplates';
+import { generateDueInstances } from './services/recurrence';
+import { useItemTemplates } from './context/ItemTemplateContext';
+import { useAuditTrail } from './hooks/useAuditTrail';
+import { useLeaderTab } from './hooks/useLeaderTab';
+import { isStaleWrite } from './services/workItemMerge';
+import { MergeConflictModal } from './components/MergeConflictModal';
 
 
 const TWELVE_HOURS = 12 * 60 * 60 * 1000;
 
+const forBoard = <T extends { boardId: string }>(records: T[], boardId: string | undefined): T[] =>
+    records.filter(record => record.boardId === boardId);
+
 const App: React.FC = () => {
     const { isAuthenticated, user, logout, lastAuthTime, updateLastAuthTime } = useAuth();
     const { settings } = useSettings();
-    const { activeBoard, boards, setActiveBoard, can, createBoard, activeBoardMembers } = useBoard();
+    const { activeBoard, boards, isLoaded: isBoardsLoaded, setActiveBoard, can, createBoard, addBoard, activeBoardMembers } = useBoard();
     const { t, locale } = useLocale();
+    const { workflow, saveWorkflow, statusCategory, statusName, guardViolations } = useWorkflow();
+    const { templates } = useItemTemplates();
+    const { log } = useAuditLog();
     
     // App Flow State
     const [viewState, setViewState] = useState<'LANDING' | 'APP'>('LANDING');
@@ -52,16 +82,32 @@ const App: React.FC = () => {
     const [onboardingModal, setOnboardingModal] = useState<'CREATE_BOARD' | 'JOIN_BOARD' | null>(null);
 
     // Main data state
-    const [workItems, setWorkItems] = useState<WorkItem[]>(() => load('workItems', []));
-    const [epics, setEpics] = useState<Epic[]>(() => load('epics', []));
-    const [teams, setTeams] = useState<Team[]>(() => load('teams', []));
-    const [sprints, setSprints] = useState<Sprint[]>(() => load('sprints', []));
-    const [notifications, setNotifications] = useState<Notification[]>(() => load('notifications', []));
-    const [joinRequests, setJoinRequests] = useState<JoinRequest[]>(() => load('joinRequests', []));
-    const [inviteCodes, setInviteCodes] = useState<InviteCode[]>(() => load('inviteCodes', []));
-    const [savedViews, setSavedViews] = useState<SavedView[]>(() => load('savedViews', []));
+    // Collections hold every board's records; the views only ever see the active board's (below).
+    const [allWorkItems, setWorkItems, workItemsStore] = usePersistedCollection<WorkItem>('workItems');
+    const [allEpics, setEpics, epicsStore] = usePersistedCollection<Epic>('epics');
+    const [allTeams, setTeams, teamsStore] = usePersistedCollection<Team>('teams');
+    const [allSprints, setSprints, sprintsStore] = usePersistedCollection<Sprint>('sprints');
+    const [allNotifications, setNotifications, notificationsStore] = usePersistedCollection<Notification>('notifications');
+    const [allJoinRequests, setJoinRequests, joinRequestsStore] = usePersistedCollection<JoinRequest>('joinRequests');
+    const [allInviteCodes, setInviteCodes, inviteCodesStore] = usePersistedCollection<InviteCode>('inviteCodes');
+    const [allSavedViews, setSavedViews, savedViewsStore] = usePersistedCollection<SavedView>('savedViews');
+    const isDataLoaded = [workItemsStore, epicsStore, teamsStore, sprintsStore, notificationsStore, joinRequestsStore, inviteCodesStore, savedViewsStore].every(store => store.isLoaded);
     const [allEvents, setAllEvents] = useState<CalendarEvent[]>([]);
-    const [todaysEvents, setTodaysEvents] = useState<CalendarEvent[]>([]);
+    const [allTodaysEvents, setTodaysEvents] = useState<CalendarEvent[]>([]);
+
+    const activeBoardId = activeBoard?.id;
+    const workItems = useMemo(() => forBoard(allWorkItems, activeBoardId), [allWorkItems, activeBoardId]);
+    const epics = useMemo(() => forBoard(allEpics, activeBoardId), [allEpics, activeBoardId]);
+    const teams = useMemo(() => forBoard(allTeams, activeBoardId), [allTeams, activeBoardId]);
+    const sprints = useMemo(() => forBoard(allSprints, activeBoardId), [allSprints, activeBoardId]);
+    const notifications = useMemo(() => forBoard(allNotifications, activeBoardId), [allNotifications, activeBoardId]);
+    const inviteCodes = useMemo(() => forBoard(allInviteCodes, activeBoardId), [allInviteCodes, activeBoardId]);
+    const savedViews = useMemo(() => forBoard(allSavedViews, activeBoardId), [allSavedViews, activeBoardId]);
+    const events = useMemo(() => forBoard(allEvents, activeBoardId), [allEvents, activeBoardId]);
+    const todaysEvents = useMemo(() => forBoard(allTodaysEvents, activeBoardId), [allTodaysEvents, activeBoardId]);
+    // `workItems` keeps trashed items so commands can restore them; everything else sees only live ones.
+    const liveWorkItems = useMemo(() => workItems.filter(item => !item.deletedAt), [workItems]);
+    const trashedWorkItems = useMemo(() => workItems.filter(item => !!item.deletedAt), [workItems]);
     
     // UI state
     const [selectedWorkItem, setSelectedWorkItem] = useState<WorkItem | null>(null);
@@ -75,55 +121,78 @@ const App: React.FC = () => {
     const coalescingRef = useRef<Map<string, { data: ToastNotification, timer: number }>>(new Map());
     const [viewingEvent, setViewingEvent] = useState<CalendarEvent | null>(null);
     const [editingEvent, setEditingEvent] = useState<Partial<CalendarEvent> | null>(null);
-
-    // Save state changes to localStorage
-    useEffect(() => { save('workItems', workItems); }, [workItems]);
-    useEffect(() => { save('epics', epics); }, [epics]);
-    useEffect(() => { save('teams', teams); }, [teams]);
-    useEffect(() => { save('sprints', sprints); }, [sprints]);
-    useEffect(() => { save('notifications', notifications); }, [notifications]);
-    useEffect(() => { save('joinRequests', joinRequests); }, [joinRequests]);
-    useEffect(() => { save('inviteCodes', inviteCodes); }, [inviteCodes]);
-    useEffect(() => { save('savedViews', savedViews); }, [savedViews]);
-
-    // One-time migrations
+    const [isImportBoardOpen, setIsImportBoardOpen] = useState(false);
+    const [isCsvImportOpen, setIsCsvImportOpen] = useState(false);
+    const [isExternalImportOpen, setIsExternalImportOpen] = useState(false);
+    // A work item write that was based on an outdated version, waiting to be merged
+    const [mergeConflict, setMergeConflict] = useState<{ base: WorkItem; mine: WorkItem; theirs: WorkItem; fromEditor: boolean } | null>(null);
+    const history = useUndoHistory();
+    const isLeaderTab = useLeaderTab();
+
+    // Audit every change to work items, epics and sprints. Timers that change data on
+    // their own (sprint state, trash purge) raise `systemChangeRef` so no user is blamed.
+    const systemChangeRef = useRef(false);
+    useAuditTrail('work_item', 'workItems', allWorkItems, workItemsStore.isLoaded, item => `${item.id} ${item.title}`, systemChangeRef);
+    useAuditTrail('epic', 'epics', allEpics, epicsStore.isLoaded, epic => epic.name, systemChangeRef);
+    useAuditTrail('sprint', 'sprints', allSprints, sprintsStore.isLoaded, sprint => sprint.name, systemChangeRef);
+    useEffect(() => { systemChangeRef.current = false; });
+
+    // Report storage migrations that could not be applied
     useEffect(() => {
-        let items = load<WorkItem[] | any[]>('workItems', []);
-        if (items.length === 0) return;
+        return onMigrationFailure(failure => {
+            const toastId = `toast-migration-${failure.key}-${failure.fromVersion}`;
+            setToastQueue(prev => prev.some(toast => toast.id === toastId) ? prev : [{
+                id: toastId,
+                itemId: '',
+                title: t('migration_failed_title'),
+                changes: [t(failure.backupKey ? 'migration_failed_body' : 'migration_failed_noBackup').replace('{key}', failure.key).replace('{version}', String(failure.fromVersion))],
+            }, ...prev]);
+        });
+    }, []); // Subscribe once; failures are replayed on subscribe
 
-        const sprintsList = load<Sprint[]>('sprints', []);
-        let needsSave = false;
-        
-        const migratedItems: WorkItem[] = items.map(item => {
-            let newItem = { ...item };
-            
-            // Migration 1: sprint -> sprintId
-            const anyItem = item as any;
-            if (anyItem.sprint && !anyItem.sprintId) {
-                const matchingSprint = sprintsList.find(s => s.name === anyItem.sprint);
-                if (matchingSprint) {
-                    needsSave = true;
-                    newItem.sprintId = matchingSprint.id;
-                }
-            }
-            if (anyItem.sprint) {
-                needsSave = true;
-                delete (newItem as any).sprint;
-            }
+    // Ctrl+Z / Ctrl+Shift+Z undo and redo board changes; text fields keep their own undo
+    useEffect(() => {
+        const handleKeydown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+            const target = e.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+            e.preventDefault();
+            const entry = e.shiftKey ? history.redo() : history.undo();
+            if (!entry) return;
+            setToastQueue(prev => [{
+                id: `toast-history-${entry.id}-${Date.now()}`,
+                itemId: '',
+                title: t(e.shiftKey ? 'undo_redone' : 'undo_undone').replace('{label}', entry.label),
+                changes: [],
+            }, ...prev]);
+        };
+        window.addEventListener('keydown', handleKeydown);
+        return () => window.removeEventListener('keydown', handleKeydown);
+    }, [history, t]);
 
-            // Migration 2: Add sprintBinding (EP-SSR-01)
-            if (!newItem.sprintBinding) {
-                needsSave = true;
-                newItem.sprintBinding = 'manual';
+    // Let the user know when the browser refuses to store more data, or to keep an offline change for later
+    useEffect(() => {
+        return onStorageError(error => {
+            if (error.isQueueing) {
+                const toastId = `toast-storage-queue-${error.key}`;
+                setToastQueue(prev => prev.some(toast => toast.id === toastId) ? prev : [{
+                    id: toastId,
+                    itemId: '',
+                    title: t('storage_queue_title'),
+                    changes: [t(error.isQuotaExceeded ? 'storage_queue_quota' : 'storage_queue_body')],
+                }, ...prev]);
+                return;
             }
-
-            return newItem;
+            if (!error.isQuotaExceeded) return;
+            const toastId = `toast-storage-quota-${error.key}`;
+            setToastQueue(prev => prev.some(toast => toast.id === toastId) ? prev : [{
+                id: toastId,
+                itemId: '',
+                title: t('storage_quota_title'),
+                changes: [t('storage_quota_body')],
+            }, ...prev]);
         });
-
-        if (needsSave) {
-            setWorkItems(migratedItems);
-        }
-    }, []); // Run only once on mount
+    }, []);
 
     // Re-authentication state
     const [isReAuthModalOpen, setIsReAuthModalOpen] = useState(false);
@@ -202,6 +271,7 @@ const App: React.FC = () => {
     // ONB-01: Determine user status after login
     useEffect(() => {
         if (isAuthenticated) {
+            if (!isBoardsLoaded) return; // Not knowing the boards yet is not having none
             if (boards.length === 0) {
                 setOnboardingStatus('NEEDS_ONBOARDING');
             } else {
@@ -213,7 +283,7 @@ const App: React.FC = () => {
         } else {
             setOnboardingStatus('UNKNOWN');
         }
-    }, [isAuthenticated, boards, activeBoard, setActiveBoard]);
+    }, [isAuthenticated, isBoardsLoaded, boards, activeBoard, setActiveBoard]);
 
     const fetchAllEvents = useCallback(async () => {
         if (!user) return;
@@ -236,15 +306,16 @@ const App: React.FC = () => {
 
         } else if (!isAuthenticated) {
             // Clear data on logout
-            setWorkItems([]); save('workItems', []);
-            setEpics([]); save('epics', []);
-            setTeams([]); save('teams', []);
-            setSprints([]); save('sprints', []);
-            setNotifications([]); save('notifications', []);
-            setJoinRequests([]); save('joinRequests', []);
-            setInviteCodes([]); save('inviteCodes', []);
-            setSavedViews([]); save('savedViews', []);
-            save('events', []); // Clear calendar events
+            workItemsStore.clear();
+            epicsStore.clear();
+            teamsStore.clear();
+            sprintsStore.clear();
+            notificationsStore.clear();
+            joinRequestsStore.clear();
+            inviteCodesStore.clear();
+            savedViewsStore.clear();
+            history.clear();
+            clearCollection('events'); // Clear calendar events
             setAllEvents([]);
             setTodaysEvents([]);
             setToastQueue([]);
@@ -274,7 +345,7 @@ const App: React.FC = () => {
         
         const formatChange = (): string => {
             switch (change.field) {
-                case 'status': return t('toast_change_status').replace('{status}', change.to);
+                case 'status': return t('toast_change_status').replace('{status}', statusName(change.to));
                 case 'assignee': return t('toast_change_assignee').replace('{assignee}', change.to);
                 case 'dueDate': return t('toast_change_due').replace('{date}', new Date(change.to).toLocaleDateString());
                 case 'comment': return t('toast_change_comment');
@@ -309,18 +380,13 @@ const App: React.FC = () => {
 
         coalescingRef.current.set(item.id, { data: toastData, timer });
 
-    }, [user, t]);
+    }, [user, t, statusName]);
     
-    const { connectionStatus } = useRealtime(settings.enableRealtime, workItems, user, handleRealtimeMessage);
+    const { connectionStatus, publish: publishRealtime } = useRealtime(settings.enableRealtime, activeBoardId ?? null, user, handleRealtimeMessage);
 
     const dispatchUpdateNotification = useCallback((change: { field: string, from: any, to: any }, item: WorkItem) => {
         if (!user) return;
 
-        // In a real app, the actor would be the current user, and the notification
-        // would be sent to other relevant users via a backend. For this demo,
-        // we simulate an event coming from another user to show the toast.
-        const mockActor = ALL_USERS.find(u => u.id !== user.id) || user;
-
         let eventType: ItemUpdateEventType;
         const changePayload: any = { field: change.field, from: change.from, to: change.to };
 
@@ -355,14 +421,20 @@ const App: React.FC = () => {
             change: changePayload,
             watchers: item.watchers || [],
             at: new Date().toISOString(),
-            actor: mockActor,
+            actor: user,
         };
-        
-        handleRealtimeMessage(event);
-    }, [user, handleRealtimeMessage]);
 
-    // Automatically update sprint states based on dates
+        if (publishRealtime) {
+            publishRealtime(event);
+        } else {
+            // No realtime server: simulate the event coming from another user so the toast shows.
+            handleRealtimeMessage({ ...event, actor: ALL_USERS.find(u => u.id !== user.id) || user });
+        }
+    }, [user, handleRealtimeMessage, publishRealtime]);
+
+    // Automatically update sprint states based on dates. Only the leader tab does it; the others get the result synced.
     useEffect(() => {
+        if (!isLeaderTab) return;
         const updateSprintStates = () => {
             setSprints(prevSprints => {
                 const now = new Date();
@@ -391,6 +463,7 @@ const App: React.FC = () => {
                     return sprint;
                 });
 
+                if (hasChanged) systemChangeRef.current = true;
                 return hasChanged ? updatedSprints : prevSprints;
             });
         };
@@ -399,7 +472,64 @@ const App: React.FC = () => {
         const intervalId = setInterval(updateSprintStates, 60000); // Check every minute
 
         return () => clearInterval(intervalId);
-    }, []);
+    }, [isLeaderTab]);
+
+    // Purge trashed records once they are past the retention period (leader tab only)
+    useEffect(() => {
+        if (!isLeaderTab) return;
+        const purgeTrash = () => {
+            const now = new Date();
+            const markIfPurged = <T,>(prev: T[], next: T[]) => {
+                if (next !== prev) systemChangeRef.current = true;
+                return next;
+            };
+            setWorkItems(prev => markIfPurged(prev, purgeExpiredWorkItems(prev, now)));
+            setEpics(prev => markIfPurged(prev, purgeExpired(prev, now)));
+            setSprints(prev => markIfPurged(prev, purgeExpired(prev, now)));
+        };
+
+        purgeTrash();
+        const intervalId = setInterval(purgeTrash, 60 * 60 * 1000); // Check every hour
+
+        return () => clearInterval(intervalId);
+    }, [isLeaderTab]);
+
+    // Create the next item of each recurring series as it comes due (leader tab only). Sprint series
+    // wait for the sprints to load, so their new sprint is not mistaken for a missing one.
+    useEffect(() => {
+        if (!isLeaderTab || !isDataLoaded) return;
+        const generateRecurring = () => {
+            setWorkItems(prev => {
+                const next = generateDueInstances(prev, allSprints);
+                if (next === prev) return prev;
+                systemChangeRef.current = true;
+                return next;
+            });
+        };
+
+        generateRecurring();
+        const intervalId = setInterval(generateRecurring, 60000); // Check every minute
+
+        return () => clearInterval(intervalId);
+    }, [isLeaderTab, isDataLoaded, allSprints]);
+
+    // Replay changes queued while the backend was unreachable (leader tab only): when the browser
+    // comes back online, when the realtime connection is back, and every half minute meanwhile.
+    useEffect(() => {
+        if (!isLeaderTab) return;
+        const replay = () => { replayOutbox(); };
+        replay();
+        window.addEventListener('online', replay);
+        const intervalId = setInterval(replay, 30 * 1000);
+        return () => {
+            window.removeEventListener('online', replay);
+            clearInterval(intervalId);
+        };
+    }, [isLeaderTab]);
+
+    useEffect(() => {
+        if (isLeaderTab && connectionStatus === 'CONNECTED') replayOutbox();
+    }, [isLeaderTab, connectionStatus]);
 
 
     // FIX: Moved sprint-related memos and effects from AppShell to App
@@ -411,12 +541,12 @@ const App: React.FC = () => {
             return activeSprints;
         }
         const sprintsWithUserItems = new Set(
-            workItems
+            liveWorkItems
                 .filter(item => item.sprintId && item.assignees?.some(a => a.id === user.id))
                 .map(item => item.sprintId)
         );
         return activeSprints.filter(s => sprintsWithUserItems.has(s.id));
-    }, [activeSprints, workItems, user, can]);
+    }, [activeSprints, liveWorkItems, user, can]);
 
     useEffect(() => {
         const currentSelectionStillAvailable = availableActiveSprints.some(s => s.id === selectedSprintId);
@@ -433,7 +563,7 @@ const App: React.FC = () => {
     
     const enrichedEpics = useMemo(() => {
         return epics.map(epic => {
-            const childItems = workItems.filter(item => item.epicId === epic.id);
+            const childItems = liveWorkItems.filter(item => item.epicId === epic.id);
             const totalItemsCount = childItems.length;
 
             if (totalItemsCount === 0) {
@@ -446,7 +576,7 @@ const App: React.FC = () => {
                 };
             }
 
-            const doneItems = childItems.filter(item => item.status === Status.DONE);
+            const doneItems = childItems.filter(item => statusCategory(item.status) === 'done');
             const openItemsCount = totalItemsCount - doneItems.length;
             
             const totalEstimation = childItems.reduce((sum, item) => sum + (item.estimationPoints || 0), 0);
@@ -469,10 +599,20 @@ const App: React.FC = () => {
                 percentDoneWeighted,
             };
         });
-    }, [epics, workItems]);
+    }, [epics, liveWorkItems, statusCategory]);
     
     const activeEpics = useMemo(() => enrichedEpics.filter(e => (e.status === EpicStatus.ACTIVE || e.status === EpicStatus.ON_HOLD) && e.status !== EpicStatus.DELETED), [enrichedEpics]);
     const boardUsers = useMemo(() => activeBoardMembers.map(m => m.user), [activeBoardMembers]);
+    const existingIds: ExistingIds = useMemo(() => ({
+        boards: boards.map(b => b.id),
+        workItems: allWorkItems.map(i => i.id),
+        epics: allEpics.map(e => e.id),
+        sprints: allSprints.map(s => s.id),
+        teams: allTeams.map(team => team.id),
+        events: allEvents.map(e => e.id),
+        savedViews: allSavedViews.map(v => v.id),
+        inviteCodes: allInviteCodes.map(c => c.code),
+    }), [boards, allWorkItems, allEpics, allSprints, allTeams, allEvents, allSavedViews, allInviteCodes]);
 
     // US-42: Clear highlight states when modals are closed
     useEffect(() => {
@@ -482,6 +622,56 @@ const App: React.FC = () => {
         }
     }, [selectedWorkItem, editingEpic, editingWorkItem]);
 
+    // Applies a change to work items, epics and/or sprints as one undoable command.
+    // `next` holds the full collections as they should look afterwards; only the
+    // records that differ are kept, so side effects on other records undo too.
+    const recordChange = (label: string, next: { workItems?: WorkItem[]; epics?: Epic[]; sprints?: Sprint[] }): UndoEntry | undefined => {
+        const patches = {
+            // Every save goes through here, so this is where parents' childrenIds are kept in step with parentId
+            workItems: next.workItems ? diffRecords(workItems, syncChildrenIds(next.workItems)) : undefined,
+            epics: next.epics ? diffRecords(epics, next.epics) : undefined,
+            sprints: next.sprints ? diffRecords(sprints, next.sprints) : undefined,
+        };
+        if (Object.values(patches).every(patch => !patch || isEmptyPatch(patch))) return undefined;
+        const reused = [
+            ...(patches.workItems ? reusedIds(patches.workItems, workItems, allWorkItems) : []),
+            ...(patches.epics ? reusedIds(patches.epics, epics, allEpics) : []),
+            ...(patches.sprints ? reusedIds(patches.sprints, sprints, allSprints) : []),
+        ];
+        if (reused.length > 0) {
+            console.error(`Refused "${label}": new records would replace existing ones with the same IDs.`, reused);
+            return undefined;
+        }
+
+        const apply = (direction: 'undo' | 'redo') => {
+            if (patches.workItems) setWorkItems(prev => {
+                // Every apply, undo and redo included, is a new write, so versions only go up
+                const versions = new Map(prev.map(item => [item.id, item.version]));
+                const touched = new Set([...patches.workItems!.before, ...patches.workItems!.after].map(item => item.id));
+                return applyPatch(prev, patches.workItems as RecordPatch<WorkItem>, direction).map(item =>
+                    touched.has(item.id) && versions.has(item.id) ? { ...item, version: Math.max(item.version, versions.get(item.id)! + 1) } : item);
+            });
+            if (patches.epics) setEpics(prev => applyPatch(prev, patches.epics as RecordPatch<Epic>, direction));
+            if (patches.sprints) setSprints(prev => applyPatch(prev, patches.sprints as RecordPatch<Sprint>, direction));
+        };
+        const entry: UndoEntry = {
+            id: `cmd-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`,
+            label,
+            undo: () => apply('undo'),
+            redo: () => apply('redo'),
+        };
+        apply('redo');
+        history.push(entry);
+        setToastQueue(prev => [{
+            id: `toast-${entry.id}`,
+            itemId: '',
+            title: label,
+            changes: [],
+            undoAction: () => history.undoEntry(entry.id),
+        }, ...prev]);
+        return entry;
+    };
+
     const confirmAndExecute = (action: () => void) => {
         if (!lastAuthTime || (new Date().getTime() - lastAuthTime > TWELVE_HOURS)) {
             setActionToReAuth(() => action);
@@ -507,15 +697,16 @@ const App: React.FC = () => {
         setSelectedWorkItem(item);
     };
 
-    const handleEditWorkItem = (item: WorkItem) => {
+    const handleEditWorkItem = (item: WorkItem, highlight?: string) => {
         setSelectedWorkItem(null);
+        setHighlightSection(highlight);
         setEditingWorkItem(item);
         setIsNewItem(false);
     };
 
     // US-42: Refactored to open VIEW modal instead of edit.
     const handleOpenItemForView = (itemId: string, highlight?: string) => {
-        const item = workItems.find(w => w.id === itemId);
+        const item = liveWorkItems.find(w => w.id === itemId);
         if (item) {
             setEditingWorkItem(null); // Close editor if open
             setEditingEpic(null);
@@ -524,12 +715,24 @@ const App: React.FC = () => {
         }
     };
 
-    const handleNewItem = (options?: { epicId?: string }) => {
+    // A sub-task starts out in its parent's board, sprint, epic and team; those win over a template's team.
+    const handleNewItem = (options?: NewItemOptions) => {
         if (!user || !activeBoard) return;
+        const parent = options?.parentId ? liveWorkItems.find(item => item.id === options.parentId) : undefined;
         const linkedEpic = options?.epicId ? epics.find(e => e.id === options.epicId) : undefined;
+        const template = options?.templateId ? templates.find(tpl => tpl.id === options.templateId) : undefined;
+        const sprintId = parent ? parent.sprintId : selectedSprint?.id;
+        const prefilled = template ? applyTemplate(template, {
+            sprint: sprints.find(s => s.id === sprintId)?.name,
+            date: new Date().toLocaleDateString(locale),
+            board: activeBoard.name,
+            user: user.name,
+            epic: linkedEpic?.name ?? parent?.epicInfo?.name,
+        }, boardUsers) : {};
+        setSelectedWorkItem(null);
         setEditingWorkItem({
             reporter: user,
-            status: Status.TODO,
+            status: defaultStatusId(workflow),
             type: WorkItemType.TASK,
             priority: Priority.MEDIUM,
             boardId: activeBoard.id,
@@ -546,6 +749,16 @@ const App: React.FC = () => {
             // EP-SSR-01: New items have manual binding
             sprintId: selectedSprint ? selectedSprint.id : undefined,
             sprintBinding: 'manual',
+            ...prefilled,
+            ...(parent && {
+                boardId: parent.boardId,
+                parentId: parent.id,
+                sprintId: parent.sprintId,
+                epicId: parent.epicId,
+                epicInfo: parent.epicInfo,
+                teamId: parent.teamId,
+                teamInfo: parent.teamInfo,
+            }),
         });
         setIsNewItem(true);
     };
@@ -558,16 +771,24 @@ const App: React.FC = () => {
         };
 
         if (isNewItem) {
+            const id = newWorkItemId(new Set(allWorkItems.map(item => item.id)));
             const newWorkItem: WorkItem = {
-                id: `PROJ-${Math.floor(Math.random() * 1000) + 100}`,
+                id,
                 createdAt: new Date().toISOString(),
                 updatedAt: new Date().toISOString(),
                 version: 1,
+                rank: rankAtTop(workItems, id),
                 ...itemWithTeamInfo
             } as WorkItem;
-            setWorkItems(prev => [newWorkItem, ...prev]);
+            recordChange(t('undo_item_created').replace('{itemId}', newWorkItem.id), { workItems: [newWorkItem, ...workItems] });
         } else {
             const originalItem = workItems.find(item => item.id === itemToSave.id);
+            // Reject the save if someone else saved the item since the editor opened
+            if (originalItem && isStaleWrite(itemWithTeamInfo as WorkItem, originalItem)) {
+                const base = editingWorkItem as WorkItem;
+                setMergeConflict({ base, mine: { ...base, ...itemWithTeamInfo } as WorkItem, theirs: originalItem, fromEditor: true });
+                return;
+            }
             if (originalItem) {
                 if (itemToSave.status && itemToSave.status !== originalItem.status) {
                     dispatchUpdateNotification({ field: 'status', from: originalItem.status, to: itemToSave.status }, itemToSave as WorkItem);
@@ -579,14 +800,21 @@ const App: React.FC = () => {
                      dispatchUpdateNotification({ field: 'dueDate', from: originalItem.dueDate, to: itemToSave.dueDate }, itemToSave as WorkItem);
                 }
             }
-            setWorkItems(prev => prev.map(item => item.id === itemWithTeamInfo.id ? { ...item, ...itemWithTeamInfo, updatedAt: new Date().toISOString() } as WorkItem : item));
+            recordChange(t('undo_item_saved').replace('{itemId}', itemWithTeamInfo.id || ''), {
+                workItems: workItems.map(item => item.id === itemWithTeamInfo.id ? { ...item, ...itemWithTeamInfo, version: item.version + 1, updatedAt: new Date().toISOString() } as WorkItem : item),
+            });
         }
         setEditingWorkItem(null);
         setIsNewItem(false);
     };
 
-    const handleItemUpdate = (updatedItem: WorkItem) => {
+    // `base` is the item the change was made on; it is needed to merge a stale write.
+    const handleItemUpdate = (updatedItem: WorkItem, base?: WorkItem) => {
         const originalItem = workItems.find(item => item.id === updatedItem.id);
+        if (originalItem && isStaleWrite(updatedItem, originalItem)) {
+            setMergeConflict({ base: base || originalItem, mine: updatedItem, theirs: originalItem, fromEditor: false });
+            return;
+        }
         if (originalItem && !isEqual(originalItem.checklist, updatedItem.checklist)) {
             const completedBefore = originalItem.checklist.filter(i => i.isCompleted).length;
             const completedAfter = updatedItem.checklist.filter(i => i.isCompleted).length;
@@ -595,31 +823,106 @@ const App: React.FC = () => {
             }
         }
 
-        const updatedItemWithTimestamp = { ...updatedItem, updatedAt: new Date().toISOString() };
-        setWorkItems(prev => prev.map(item => item.id === updatedItemWithTimestamp.id ? updatedItemWithTimestamp : item));
+        const updatedItemWithTimestamp = { ...updatedItem, version: updatedItem.version + 1, updatedAt: new Date().toISOString() };
+        // The item may be a copy from before its sub-tasks last changed
+        setWorkItems(prev => syncChildrenIds(prev.map(item => item.id === updatedItemWithTimestamp.id ? updatedItemWithTimestamp : item)));
         if (selectedWorkItem && selectedWorkItem.id === updatedItem.id) {
             setSelectedWorkItem(updatedItemWithTimestamp);
         }
     };
     
-    const handleItemStatusChange = (itemId: string, newStatus: Status) => {
-        const originalItem = workItems.find(i => i.id === itemId);
-        if (originalItem && originalItem.status !== newStatus) {
-            const updatedItem: WorkItem = { ...originalItem, status: newStatus, isUpdated: true, updatedAt: new Date().toISOString() };
-            
-            // EP-SSR-01: Set doneInSprintId when item is completed, if not already set
-            if (newStatus === Status.DONE && !originalItem.doneInSprintId) {
-                updatedItem.doneInSprintId = originalItem.sprintId;
+    // A bulk edit from the item list is a single undo step, however many items it changed.
+    const handleBulkUpdate = (updatedItems: WorkItem[]) => {
+        const updates = new Map(updatedItems.map(item => [item.id, item]));
+        workItems.forEach(originalItem => {
+            const updatedItem = updates.get(originalItem.id);
+            if (!updatedItem) return;
+            if (updatedItem.status !== originalItem.status) {
+                dispatchUpdateNotification({ field: 'status', from: originalItem.status, to: updatedItem.status }, updatedItem);
             }
+            if (updatedItem.assignee && updatedItem.assignee.id !== originalItem.assignee?.id) {
+                dispatchUpdateNotification({ field: 'assignee', from: originalItem.assignee, to: updatedItem.assignee }, updatedItem);
+            }
+        });
+        const now = new Date().toISOString();
+        recordChange(t('undo_bulk_edit').replace('{count}', updatedItems.length.toString()), {
+            workItems: workItems.map(item => updates.has(item.id) ? { ...updates.get(item.id)!, version: item.version + 1, updatedAt: now } : item),
+        });
+    };
 
+    // A Kanban drop: a new status, plus the lane's field when the card crossed swimlanes and its new rank.
+    const handleItemStatusChange = (itemId: string, newStatus: string, options: BoardMoveOptions = {}) => {
+        const originalItem = workItems.find(i => i.id === itemId);
+        if (!originalItem) return;
+        const movedItem: WorkItem = { ...originalItem, ...options.changes };
+        // The board shows what is missing before it gets here; this only stops moves that slipped past it.
+        if (guardViolations(movedItem, newStatus, liveWorkItems).length > 0) return;
+        const statusChanged = originalItem.status !== newStatus;
+        if (!statusChanged && !options.changes) return;
+
+        const updatedItem: WorkItem = { ...movedItem, status: newStatus, isUpdated: true, version: originalItem.version + 1, updatedAt: new Date().toISOString() };
+        
+        // EP-SSR-01: Set doneInSprintId when item is completed, if not already set
+        if (statusChanged && statusCategory(newStatus) === 'done' && !originalItem.doneInSprintId) {
+            updatedItem.doneInSprintId = originalItem.sprintId;
+        }
+
+        if (statusChanged) {
             dispatchUpdateNotification({ field: 'status', from: originalItem.status, to: newStatus }, updatedItem);
-            
-            setWorkItems(prevItems =>
-                prevItems.map(i =>
-                    i.id === itemId ? updatedItem : { ...i, isUpdated: false }
-                )
-            );
         }
+        if (updatedItem.assignee && updatedItem.assignee.id !== originalItem.assignee?.id) {
+            dispatchUpdateNotification({ field: 'assignee', from: originalItem.assignee, to: updatedItem.assignee }, updatedItem);
+        }
+        
+        const reorderOnly = !statusChanged && Object.keys(options.changes ?? {}).every(field => field === 'rank');
+        const label = statusChanged
+            ? t('undo_status_changed').replace('{itemId}', itemId).replace('{status}', statusName(newStatus))
+            : t(reorderOnly ? 'undo_item_reordered' : 'undo_item_saved').replace('{itemId}', itemId);
+        recordChange(label, {
+            workItems: workItems.map(i => i.id === itemId ? updatedItem : i),
+        });
+        // Only the moved item keeps its real-time highlight
+        setWorkItems(prevItems => prevItems.map(i => i.id === itemId || !i.isUpdated ? i : { ...i, isUpdated: false }));
+
+        const { wipOverride } = options;
+        if (wipOverride) {
+            log([{
+                boardId: originalItem.boardId,
+                entity: 'work_item',
+                entityId: itemId,
+                entityLabel: `${itemId} ${originalItem.title}`,
+                action: 'update',
+                changes: [
+                    { field: 'wipOverrideReason', after: wipOverride.reason },
+                    { field: 'wipLimitsExceeded', after: wipOverride.breaches.map(breach => describeWipBreach(workflow, breach)) },
+                ],
+            }]);
+            console.log('TELEMETRY: item.wip_override', { itemId, breaches: wipOverride.breaches.length }); // Simulate telemetry
+        }
+    };
+
+    const handleResolveMergeConflict = (merged: WorkItem) => {
+        if (!mergeConflict) return;
+        const current = workItems.find(item => item.id === merged.id);
+        if (!current) {
+            setMergeConflict(null);
+            return;
+        }
+        // It changed again while the dialog was open: merge against the newest version
+        if (isStaleWrite(merged, current)) {
+            setMergeConflict({ ...mergeConflict, base: mergeConflict.theirs, mine: merged, theirs: current });
+            return;
+        }
+        const saved: WorkItem = { ...merged, version: current.version + 1, updatedAt: new Date().toISOString() };
+        recordChange(t('undo_item_saved').replace('{itemId}', saved.id), {
+            workItems: workItems.map(item => item.id === saved.id ? saved : item),
+        });
+        if (selectedWorkItem?.id === saved.id) setSelectedWorkItem(saved);
+        if (mergeConflict.fromEditor) {
+            setEditingWorkItem(null);
+            setIsNewItem(false);
+        }
+        setMergeConflict(null);
     };
 
     const handleNewComment = (itemId: string, commentText: string) => {
@@ -661,9 +964,11 @@ const App: React.FC = () => {
                 confidence: epicToSave.confidence || 5,
                 iceScore: iceScore,
             };
-            setEpics(prev => [newEpic, ...prev]);
+            recordChange(t('undo_epic_created').replace('{name}', newEpic.name), { epics: [newEpic, ...epics] });
         } else {
-            setEpics(prev => prev.map(item => item.id === epicToSave.id ? { ...item, ...epicToSave, iceScore, updatedAt: new Date().toISOString() } as Epic : item));
+            recordChange(t('undo_epic_saved').replace('{name}', epicToSave.name || ''), {
+                epics: epics.map(item => item.id === epicToSave.id ? { ...item, ...epicToSave, iceScore, updatedAt: new Date().toISOString() } as Epic : item),
+            });
         }
         setEditingEpic(null);
         setIsNewEpic(false);
@@ -689,61 +994,95 @@ const App: React.FC = () => {
     const handleConfirmDeleteEpic = (epicId: string, itemAction: 'detach') => {
         confirmAndExecute(() => {
             console.log(`TELEMETRY: epic.deleted`, { epicId, itemAction }); // Simulate telemetry
-            // 1. Update related work items
-            if (itemAction === 'detach') {
-                setWorkItems(prev => prev.map(item => item.epicId === epicId ? { ...item, epicId: undefined, epicInfo: undefined } : item));
-            }
-            // 2. Soft delete the epic
-            handleUpdateEpicStatus(epicId, EpicStatus.DELETED);
+            const now = new Date().toISOString();
+            // 1. Update related work items and 2. soft delete the epic, as one undoable command
+            recordChange(t('undo_epic_deleted').replace('{name}', epics.find(e => e.id === epicId)?.name || ''), {
+                workItems: itemAction === 'detach'
+                    ? workItems.map(item => item.epicId === epicId ? { ...item, epicId: undefined, epicInfo: undefined } : item)
+                    : undefined,
+                epics: epics.map(epic => epic.id === epicId ? { ...epic, status: EpicStatus.DELETED, deletedAt: now, updatedAt: now } : epic),
+            });
             // 3. Close the modal
             setDeletingEpic(null);
-            // 4. Show Undo toast
-            setToastQueue(prev => [{
-                id: `undo-epic-${epicId}-${Date.now()}`,
-                itemId: epicId,
-                title: `Epic "${epics.find(e => e.id === epicId)?.name}" deleted.`,
-                changes: [],
-                undoAction: () => handleRestoreEpic(epicId),
-            }, ...prev]);
         });
     };
 
     const handleRestoreEpic = (epicId: string) => {
         console.log(`TELEMETRY: epic.restored`, { epicId }); // Simulate telemetry
         // Note: Restoring items is complex. This simple restore just brings back the epic.
-        handleUpdateEpicStatus(epicId, EpicStatus.ACTIVE);
+        recordChange(t('undo_epic_restored').replace('{name}', epics.find(e => e.id === epicId)?.name || ''), {
+            epics: epics.map(epic => epic.id === epicId ? { ...epic, status: EpicStatus.ACTIVE, deletedAt: undefined, updatedAt: new Date().toISOString() } : epic),
+        });
     };
     
     const handleConfirmDeleteSprint = (sprintId: string, itemAction: 'unassign' | 'move', targetSprintId?: string) => {
         confirmAndExecute(() => {
             console.log(`TELEMETRY: sprint.deleted`, { sprintId, itemAction, targetSprintId }); // Simulate telemetry
             // 1. Update related work items
+            let nextWorkItems = workItems;
             if (itemAction === 'unassign') {
-                setWorkItems(prev => prev.map(item => item.sprintId === sprintId ? { ...item, sprintId: undefined } : item));
+                nextWorkItems = workItems.map(item => item.sprintId === sprintId ? { ...item, sprintId: undefined } : item);
             } else if (itemAction === 'move' && targetSprintId) {
                 const targetSprint = sprints.find(s => s.id === targetSprintId);
                 if (targetSprint) {
-                    setWorkItems(prev => prev.map(item => item.sprintId === sprintId ? { ...item, sprintId: targetSprint.id } : item));
+                    nextWorkItems = workItems.map(item => item.sprintId === sprintId ? { ...item, sprintId: targetSprint.id } : item);
                 }
             }
-            // 2. Soft delete the sprint
-            setSprints(prev => prev.map(s => s.id === sprintId ? { ...s, state: SprintState.DELETED, deletedAt: new Date().toISOString() } : s));
+            // 2. Soft delete the sprint, together with the item changes as one undoable command
+            recordChange(t('undo_sprint_deleted').replace('{name}', sprints.find(s => s.id === sprintId)?.name || ''), {
+                workItems: nextWorkItems,
+                sprints: sprints.map(s => s.id === sprintId ? { ...s, state: SprintState.DELETED, deletedAt: new Date().toISOString() } : s),
+            });
             // 3. Close modal
             setDeletingSprint(null);
-            // 4. Show Undo toast
-             setToastQueue(prev => [{
-                id: `undo-sprint-${sprintId}-${Date.now()}`,
-                itemId: sprintId,
-                title: `Sprint "${sprints.find(s => s.id === sprintId)?.name}" deleted.`,
-                changes: [],
-                undoAction: () => handleRestoreSprint(sprintId),
-            }, ...prev]);
         });
     };
 
     const handleRestoreSprint = (sprintId: string) => {
         console.log(`TELEMETRY: sprint.restored`, { sprintId }); // Simulate telemetry
-        setSprints(prev => prev.map(s => s.id === sprintId ? { ...s, state: SprintState.PLANNED } : s));
+        recordChange(t('undo_sprint_restored').replace('{name}', sprints.find(s => s.id === sprintId)?.name || ''), {
+            sprints: sprints.map(s => s.id === sprintId ? { ...s, state: SprintState.PLANNED, deletedAt: undefined } : s),
+        });
+    };
+
+    // Work items are soft-deleted into the trash; the trash is purged after TRASH_RETENTION_DAYS.
+    const handleDeleteWorkItem = (itemId: string) => {
+        if (!can('item.delete')) return;
+        console.log(`TELEMETRY: item.deleted`, { itemId }); // Simulate telemetry
+        const now = new Date().toISOString();
+        recordChange(t('undo_item_trashed').replace('{itemId}', itemId), {
+            workItems: workItems.map(item => item.id === itemId ? { ...item, deletedAt: now, version: item.version + 1, updatedAt: now } : item),
+        });
+        setSelectedWorkItem(null);
+    };
+
+    const handleRestoreWorkItem = (itemId: string) => {
+        console.log(`TELEMETRY: item.restored`, { itemId }); // Simulate telemetry
+        recordChange(t('undo_item_restored').replace('{itemId}', itemId), {
+            workItems: workItems.map(item => item.id === itemId ? { ...item, deletedAt: undefined, version: item.version + 1, updatedAt: new Date().toISOString() } : item),
+        });
+    };
+
+    // Purging is permanent, so it asks for re-authentication and is not recorded for undo.
+    const handlePurgeWorkItem = (itemId: string) => {
+        confirmAndExecute(() => {
+            console.log(`TELEMETRY: item.purged`, { itemId }); // Simulate telemetry
+            setWorkItems(prev => removeWorkItems(prev, new Set([itemId])));
+        });
+    };
+
+    const handlePurgeEpic = (epicId: string) => {
+        confirmAndExecute(() => {
+            console.log(`TELEMETRY: epic.purged`, { epicId }); // Simulate telemetry
+            setEpics(prev => prev.filter(epic => epic.id !== epicId));
+        });
+    };
+
+    const handlePurgeSprint = (sprintId: string) => {
+        confirmAndExecute(() => {
+            console.log(`TELEMETRY: sprint.purged`, { sprintId }); // Simulate telemetry
+            setSprints(prev => prev.filter(s => s.id !== sprintId));
+        });
     };
 
 
@@ -774,52 +1113,50 @@ const App: React.FC = () => {
         };
 
         // 3. Apply inheritance policy
+        let nextWorkItems = workItems;
         if (addedEpicIds.length > 0 || removedEpicIds.length > 0) {
-            setWorkItems(prevItems => {
-                return prevItems.map(item => {
-                    // Policy A: Assign open, auto-bound/unassigned items from ADDED epics
-                    if (item.epicId && addedEpicIds.includes(item.epicId)) {
-                        const isUnassigned = !item.sprintId;
-                        const isAutoBound = item.sprintBinding === 'auto';
-                        const isNotDone = item.status !== Status.DONE;
-                        
-                        if ((isUnassigned || isAutoBound) && isNotDone) {
-                            return { ...item, sprintId: finalSprint.id, sprintBinding: 'auto' };
-                        }
+            nextWorkItems = workItems.map((item): WorkItem => {
+                // Policy A: Assign open, auto-bound/unassigned items from ADDED epics
+                if (item.epicId && addedEpicIds.includes(item.epicId)) {
+                    const isUnassigned = !item.sprintId;
+                    const isAutoBound = item.sprintBinding === 'auto';
+                    const isNotDone = statusCategory(item.status) !== 'done';
+                    
+                    if ((isUnassigned || isAutoBound) && isNotDone) {
+                        return { ...item, sprintId: finalSprint.id, sprintBinding: 'auto' };
                     }
+                }
 
-                    // Policy D (simplified): Unassign open, auto-bound items from REMOVED epics
-                    // that were in the sprint being edited.
-                    if (item.epicId && removedEpicIds.includes(item.epicId)) {
-                        const wasInThisSprint = item.sprintId === sprintId;
-                        const isAutoBound = item.sprintBinding === 'auto';
-                        const isNotDone = item.status !== Status.DONE;
+                // Policy D (simplified): Unassign open, auto-bound items from REMOVED epics
+                // that were in the sprint being edited.
+                if (item.epicId && removedEpicIds.includes(item.epicId)) {
+                    const wasInThisSprint = item.sprintId === sprintId;
+                    const isAutoBound = item.sprintBinding === 'auto';
+                    const isNotDone = statusCategory(item.status) !== 'done';
 
-                        if (wasInThisSprint && isAutoBound && isNotDone) {
-                            return { ...item, sprintId: undefined, sprintBinding: 'auto' };
-                        }
+                    if (wasInThisSprint && isAutoBound && isNotDone) {
+                        return { ...item, sprintId: undefined, sprintBinding: 'auto' };
                     }
-                    
-                    return item;
-                });
+                }
+                
+                return item;
             });
         }
 
-        // 4. Save the sprint itself
-        if (isNew) {
-            setSprints(prev => [...prev, finalSprint]);
-        } else {
-            setSprints(prev => prev.map(s => s.id === finalSprint.id ? finalSprint : s));
-        }
+        // 4. Save the sprint itself; undoing it also reverts the inheritance changes
+        recordChange(t(isNew ? 'undo_sprint_created' : 'undo_sprint_saved').replace('{name}', finalSprint.name), {
+            workItems: nextWorkItems,
+            sprints: isNew ? [...sprints, finalSprint] : sprints.map(s => s.id === finalSprint.id ? finalSprint : s),
+        });
     };
     
     const onMarkAllNotificationsRead = () => {
-        setNotifications(prev => prev.map(n => ({...n, isRead: true})));
+        setNotifications(prev => prev.map(n => n.boardId === activeBoardId ? {...n, isRead: true} : n));
     };
 
     const onShowNotification = (notification: Notification) => {
         if (notification.target?.entity === 'work_item' && notification.target.id) {
-            const item = workItems.find(w => w.id === notification.target!.id);
+            const item = liveWorkItems.find(w => w.id === notification.target!.id);
             if (item) {
                 handleOpenItemForView(item.id, notification.target.section);
             } else {
@@ -864,12 +1201,95 @@ const App: React.FC = () => {
             const originalEvent = allEvents.find(e => e.id === eventData.id)!;
             await calendarService.updateEvent({ ...originalEvent, ...eventData } as CalendarEvent, teams);
         } else {
-            await calendarService.createEvent(eventData as any, user, teams);
+            await calendarService.createEvent({ ...eventData, boardId: activeBoard!.id } as any, user, teams);
         }
         setEditingEvent(null);
         await fetchAllEvents();
     };
 
+    const handleExportBoard = () => {
+        if (!user || !activeBoard) return;
+        const archive = buildBoardArchive({
+            board: activeBoard,
+            workflow,
+            members: activeBoardMembers,
+            workItems,
+            epics,
+            sprints,
+            teams,
+            events,
+            savedViews,
+            inviteCodes,
+        }, user);
+        downloadBoardArchive(archive);
+    };
+
+    const handleConfirmBoardImport = async (plan: BoardImportPlan) => {
+        addBoard(plan.board, plan.members);
+        saveWorkflow(plan.workflow);
+        setWorkItems(prev => [...plan.workItems, ...prev]);
+        setEpics(prev => [...plan.epics, ...prev]);
+        setSprints(prev => [...prev, ...plan.sprints]);
+        setTeams(prev => [...prev, ...plan.teams]);
+        setSavedViews(prev => [...prev, ...plan.savedViews]);
+        setInviteCodes(prev => [...plan.inviteCodes, ...prev]);
+        await calendarService.importEvents(plan.events);
+        await fetchAllEvents();
+        setActiveBoard(plan.board.id);
+        setIsImportBoardOpen(false);
+        setToastQueue(prev => [{
+            id: `toast-board-imported-${plan.board.id}`,
+            itemId: '',
+            title: t('importBoard_success_title').replace('{boardName}', plan.board.name),
+            changes: [t('importBoard_success_body').replace('{count}', plan.counts.workItems.toString())],
+        }, ...prev]);
+    };
+
+    const handleConfirmCsvImport = (items: Partial<WorkItem>[]) => {
+        const takenIds = new Set(allWorkItems.map(item => item.id));
+        const nextId = () => {
+            const id = newWorkItemId(takenIds);
+            takenIds.add(id);
+            return id;
+        };
+        const now = new Date().toISOString();
+        // Imported items go to the top of the board, in file order.
+        const ranks = ranksBetween(undefined, sortByRank(workItems)[0]?.rank, items.length);
+        const newItems = items.map((item, index) => ({
+            id: nextId(),
+            createdAt: now,
+            updatedAt: now,
+            version: 1,
+            rank: ranks[index],
+            ...item,
+        }) as WorkItem);
+        setWorkItems(prev => [...newItems, ...prev]);
+        setIsCsvImportOpen(false);
+        setToastQueue(prev => [{
+            id: `toast-csv-import-${Date.now()}`,
+            itemId: '',
+            title: t('csvImport_success_title'),
+            changes: [t('csvImport_success_body').replace('{count}', newItems.length.toString())],
+        }, ...prev]);
+    };
+
+    const handleConfirmExternalImport = (plan: ExternalImportPlan) => {
+        const ranks = ranksBetween(undefined, sortByRank(workItems)[0]?.rank, plan.workItems.length);
+        setWorkItems(prev => [...plan.workItems.map((item, index) => ({ ...item, rank: ranks[index] })), ...prev]);
+        setEpics(prev => [...plan.epics, ...prev]);
+        setSprints(prev => [...prev, ...plan.sprints]);
+        setIsExternalImportOpen(false);
+        setToastQueue(prev => [{
+            id: `toast-external-import-${Date.now()}`,
+            itemId: '',
+            title: t('externalImport_success_title'),
+            changes: [t('externalImport_success_body')
+                .replace('{items}', plan.workItems.length.toString())
+                .replace('{epics}', plan.epics.length.toString())
+                .replace('{sprints}', plan.sprints.length.toString())],
+        }, ...prev]);
+    };
+
     if (isDevRoute) {
         return <DevCrashInspector />;
     }
@@ -922,15 +1342,16 @@ const App: React.FC = () => {
         return <PendingApprovalScreen />;
     }
 
-    if (onboardingStatus === 'UNKNOWN' || !activeBoard) {
+    if (onboardingStatus === 'UNKNOWN' || !activeBoard || !isDataLoaded) {
         return <div className="flex h-screen w-screen items-center justify-center">Loading...</div>;
     }
 
     return (
         <div className={`h-screen w-screen font-sans ${locale === 'fa-IR' ? 'font-vazir' : 'font-sans'}`}>
             <AppShell 
-                workItems={workItems}
+                workItems={liveWorkItems}
                 onItemUpdate={handleItemUpdate}
+                onBulkUpdate={handleBulkUpdate}
                 epics={enrichedEpics}
                 teams={teams}
                 setTeams={setTeams}
@@ -956,22 +1377,35 @@ const App: React.FC = () => {
                 setSelectedSprintId={setSelectedSprintId}
                 availableActiveSprints={availableActiveSprints}
                 onLogout={logout}
-                events={allEvents}
+                events={events}
                 todaysEvents={todaysEvents}
                 onViewEvent={handleViewEvent}
                 onAddNewEvent={handleAddNewEvent}
                 savedViews={savedViews}
                 setSavedViews={setSavedViews}
+                onExportBoard={handleExportBoard}
+                onImportBoard={() => setIsImportBoardOpen(true)}
+                onImportCsv={() => setIsCsvImportOpen(true)}
+                onImportExternal={() => setIsExternalImportOpen(true)}
+                trashedWorkItems={trashedWorkItems}
+                onRestoreWorkItem={handleRestoreWorkItem}
+                onPurgeWorkItem={handlePurgeWorkItem}
+                onPurgeEpic={handlePurgeEpic}
+                onPurgeSprint={handlePurgeSprint}
             />
             
             {selectedWorkItem && (
                 <WorkItemDetailModal 
                     workItem={selectedWorkItem} 
+                    workItems={liveWorkItems}
                     sprints={sprints}
                     onClose={() => setSelectedWorkItem(null)} 
                     onEdit={handleEditWorkItem}
+                    onDelete={handleDeleteWorkItem}
                     onItemUpdate={handleItemUpdate}
                     onNewComment={(commentText) => handleNewComment(selectedWorkItem.id, commentText)}
+                    onOpenItem={handleOpenItemForView}
+                    onNewSubtask={parentId => handleNewItem({ parentId })}
                     highlightSection={highlightSection}
                 />
             )}
@@ -987,6 +1421,18 @@ const App: React.FC = () => {
                     sprints={sprints}
                     highlightSection={highlightSection}
                     boardUsers={boardUsers}
+                    workItems={liveWorkItems}
+                />
+            )}
+
+            {mergeConflict && (
+                <MergeConflictModal
+                    key={`${mergeConflict.theirs.id}-${mergeConflict.theirs.version}`}
+                    base={mergeConflict.base}
+                    mine={mergeConflict.mine}
+                    theirs={mergeConflict.theirs}
+                    onResolve={handleResolveMergeConflict}
+                    onCancel={() => setMergeConflict(null)}
                 />
             )}
 
@@ -1007,7 +1453,7 @@ const App: React.FC = () => {
             {deletingEpic && (
                 <DeleteEpicModal 
                     epic={deletingEpic}
-                    workItems={workItems}
+                    workItems={liveWorkItems}
                     onClose={() => setDeletingEpic(null)}
                     onConfirm={handleConfirmDeleteEpic}
                 />
@@ -1025,11 +1471,11 @@ const App: React.FC = () => {
             {viewingEvent && (
                 <EventViewModal
                     event={viewingEvent}
-                    workItems={workItems}
+                    workItems={liveWorkItems}
                     onClose={() => setViewingEvent(null)}
                     onEdit={handleEditEvent}
                     onOpenWorkItem={(itemId) => {
-                        const item = workItems.find(wi => wi.id === itemId);
+                        const item = liveWorkItems.find(wi => wi.id === itemId);
                         if (item) {
                             setViewingEvent(null); // Close current modal
                             handleSelectWorkItem(item); // Open read-only detail modal
@@ -1041,13 +1487,38 @@ const App: React.FC = () => {
             {editingEvent && (
                 <EventEditorModal
                     event={editingEvent}
-                    workItems={workItems}
+                    workItems={liveWorkItems}
                     teams={teams}
                     onSave={handleSaveEvent}
                     onClose={() => setEditingEvent(null)}
                 />
             )}
 
+            {isImportBoardOpen && (
+                <ImportBoardModal
+                    existingIds={existingIds}
+                    onClose={() => setIsImportBoardOpen(false)}
+                    onConfirm={handleConfirmBoardImport}
+                />
+            )}
+
+            {isCsvImportOpen && (
+                <CsvImportModal
+                    epics={epics}
+                    onClose={() => setIsCsvImportOpen(false)}
+                    onConfirm={handleConfirmCsvImport}
+                />
+            )}
+
+            {isExternalImportOpen && (
+                <ExternalImportModal
+                    existingIds={existingIds}
+                    nextSprintNumber={Math.max(0, ...sprints.map(s => s.number)) + 1}
+                    onClose={() => setIsExternalImportOpen(false)}
+                    onConfirm={handleConfirmExternalImport}
+                />
+            )}
+
             <ToastManager
                 toasts={toastQueue}
                 onDismiss={(id) => setToastQueue(q => q.filter(t => t.id !== id))}
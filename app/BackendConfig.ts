@@ -0,0 +1,9 @@
+// Injected via Vite define() from the SCRUMOWL_API_URL environment variable (see vite.config.ts).
+// Empty means browser-only mode: data stays in this browser's IndexedDB/localStorage.
+export const BACKEND_API_URL: string = (typeof __SCRUMOWL_API_URL__ !== 'undefined') ? __SCRUMOWL_API_URL__ : '';
+
+// WebSocket URL for live item notifications. Set SCRUMOWL_REALTIME_URL to use a separate server;
+// otherwise the REST server's /realtime endpoint is used. Empty means notifications are simulated locally.
+const CONFIGURED_REALTIME_URL: string = (typeof __SCRUMOWL_REALTIME_URL__ !== 'undefined') ? __SCRUMOWL_REALTIME_URL__ : '';
+export const REALTIME_URL: string = CONFIGURED_REALTIME_URL
+  || (BACKEND_API_URL ? `${BACKEND_API_URL.replace(/^http/, 'ws').replace(/\/$/, '')}/realtime` : '');
@@ -10,10 +10,12 @@ import { MembersView } from './MembersView';
 import { EventsView } from './EventsView';
 import { SprintsView } from './SprintsView';
 import { ReportsDashboard } from './ReportsDashboard';
-import { SettingsPlaceholder } from './SettingsPlaceholder';
+import { BoardSettingsView } from './BoardSettingsView';
+import { TrashView } from './TrashView';
+import { AuditView } from './AuditView';
 import { useNavigation } from '../context/NavigationContext';
 import { useAuth } from '../context/AuthContext';
-import { WorkItem, Notification, Epic, FilterSet, SavedView, ViewVisibility, Team, Sprint, SprintState, Status, EpicStatus, CalendarEvent, WorkItemType } from '../types';
+import { WorkItem, Notification, Epic, FilterSet, SavedView, ViewVisibility, Team, Sprint, SprintState, Status, EpicStatus, CalendarEvent, WorkItemType, KanbanGroupBy, NewItemOptions } from '../types';
 import { SaveViewModal } from './SaveViewModal';
 import { ManageViewsModal } from './ManageViewsModal';
 import { faker } from 'https://cdn.skypack.dev/@faker-js/faker';
@@ -21,10 +23,12 @@ import { ALL_USERS, WORK_ITEM_TYPES, ALL_TEAMS } from '../constants';
 import { TodaysMeetingsBanner } from './TodaysMeetingsBanner';
 import { useBoard } from '../context/BoardContext';
 import { useLocale } from '../context/LocaleContext';
+import { BoardMoveOptions } from '../services/swimlanes';
 
 interface AppShellProps {
     workItems: WorkItem[];
-    onItemUpdate: (item: WorkItem) => void;
+    onItemUpdate: (item: WorkItem, base?: WorkItem) => void;
+    onBulkUpdate: (items: WorkItem[]) => void;
     epics: Epic[];
     teams: Team[];
     setTeams: React.Dispatch<React.SetStateAction<Team[]>>;
@@ -35,7 +39,7 @@ interface AppShellProps {
     onMarkAllNotificationsRead: () => void;
     onShowNotification: (notification: Notification) => void;
     onOpenSettings: () => void;
-    onNewItem: (options?: { epicId?: string }) => void;
+    onNewItem: (options?: NewItemOptions) => void;
     onNewEpic: () => void;
     onEditEpic: (epic: Epic) => void;
     onUpdateEpicStatus: (epicId: string, newStatus: EpicStatus) => void;
@@ -43,8 +47,8 @@ interface AppShellProps {
     onRestoreEpic: (epicId: string) => void; // EP-DEL-001
     onDeleteSprint: (sprint: Sprint) => void; // EP-DEL-001
     onRestoreSprint: (sprintId: string) => void; // EP-DEL-001
-    onEditWorkItem: (workItem: WorkItem) => void;
-    onItemStatusChange: (itemId: string, newStatus: Status) => void;
+    onEditWorkItem: (workItem: WorkItem, highlight?: string) => void;
+    onItemStatusChange: (itemId: string, newStatus: string, options?: BoardMoveOptions) => void;
     realtimeStatus: any; // ConnectionStatus
     // FIX: Add sprint state props from App
     selectedSprint: Sprint | null | undefined;
@@ -57,11 +61,20 @@ interface AppShellProps {
     onAddNewEvent: () => void;
     savedViews: SavedView[];
     setSavedViews: React.Dispatch<React.SetStateAction<SavedView[]>>;
+    onExportBoard: () => void;
+    onImportBoard: () => void;
+    onImportCsv: () => void;
+    onImportExternal: () => void;
+    trashedWorkItems: WorkItem[];
+    onRestoreWorkItem: (itemId: string) => void;
+    onPurgeWorkItem: (itemId: string) => void;
+    onPurgeEpic: (epicId: string) => void;
+    onPurgeSprint: (sprintId: string) => void;
 }
 
 export const AppShell: React.FC<AppShellProps> = (props) => {
     const { user } = useAuth();
-    const { can, activeBoardMembers } = useBoard();
+    const { activeBoard, can, activeBoardMembers } = useBoard();
     const { t } = useLocale();
     const { currentView, setCurrentView } = useNavigation();
     const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
@@ -73,7 +86,7 @@ export const AppShell: React.FC<AppShellProps> = (props) => {
     // Filter and Grouping State
     // US-45: Updated filter state for multi-type
     const [filterSet, setFilterSet] = useState<FilterSet>({ searchQuery: '', assigneeIds: [], assigneeMatch: 'any', typeIds: [], teamIds: [] });
-    const [groupBy, setGroupBy] = useState<'status' | 'epic'>('epic');
+    const [groupBy, setGroupBy] = useState<KanbanGroupBy>('epic');
     const [collapsedEpics, setCollapsedEpics] = useState<Set<string>>(new Set());
     const [includeUnassignedEpicItems, setIncludeUnassignedEpicItems] = useState(false);
 
@@ -90,8 +103,8 @@ export const AppShell: React.FC<AppShellProps> = (props) => {
         // First, get all items belonging to the selected sprint.
         const itemsInSprint = props.workItems.filter(item => item.sprintId === selectedSprint.id);
 
-        // If grouping by status, no further epic filtering is needed.
-        if (groupBy === 'status') {
+        // Only the epic grouping narrows the sprint down further.
+        if (groupBy !== 'epic') {
           return itemsInSprint;
         }
     
@@ -160,9 +173,10 @@ export const AppShell: React.FC<AppShellProps> = (props) => {
     }, []);
     
     const handleSaveView = (name: string, visibility: ViewVisibility) => {
-        if (!user) return;
+        if (!user || !activeBoard) return;
         const newView: SavedView = {
             id: `view-${Date.now()}`,
+            boardId: activeBoard.id,
             name,
             visibility,
             ownerId: user.id,
@@ -183,7 +197,8 @@ export const AppShell: React.FC<AppShellProps> = (props) => {
     };
     
     const handleSetDefaultView = (viewId: string) => {
-        setSavedViews(prev => prev.map(v => ({ ...v, isDefault: v.id === viewId })));
+        // Each board has its own default view
+        setSavedViews(prev => prev.map(v => v.boardId === activeBoard?.id ? { ...v, isDefault: v.id === viewId } : v));
     };
 
     const handleRenameView = (viewId: string, newName: string) => {
@@ -225,10 +240,13 @@ export const AppShell: React.FC<AppShellProps> = (props) => {
                 return (
                     <KanbanBoard
                         workItems={filteredWorkItems}
+                        allWorkItems={props.workItems}
                         onItemStatusChange={props.onItemStatusChange}
                         onSelectWorkItem={props.onSelectWorkItem}
+                        onEditWorkItem={props.onEditWorkItem}
                         groupBy={groupBy}
                         epics={enrichedEpics}
+                        teams={props.teams}
                         collapsedEpics={collapsedEpics}
                         onToggleEpic={handleToggleEpic}
                         activeSprint={selectedSprint}
@@ -241,8 +259,11 @@ export const AppShell: React.FC<AppShellProps> = (props) => {
                     workItems={props.workItems} 
                     epics={enrichedEpics}
                     sprints={props.sprints}
+                    teams={props.teams}
                     onItemUpdate={props.onItemUpdate}
+                    onBulkUpdate={props.onBulkUpdate}
                     onSelectWorkItem={props.onSelectWorkItem}
+                    onImportCsv={props.onImportCsv}
                 />;
             case 'SPRINTS':
                 return (
@@ -284,7 +305,24 @@ export const AppShell: React.FC<AppShellProps> = (props) => {
             case 'MEMBERS':
                 return <MembersView teams={props.teams} setTeams={props.setTeams} />;
             case 'SETTINGS':
-                 return <SettingsPlaceholder />;
+                 return <BoardSettingsView onExportBoard={props.onExportBoard} onImportBoard={props.onImportBoard} onImportExternal={props.onImportExternal} workItems={[...props.workItems, ...props.trashedWorkItems]} teams={props.teams} />;
+            case 'AUDIT':
+                // Not just hidden from the sidebar: a saved or stale view must not open it either
+                return can('member.manage') ? <AuditView /> : null;
+            case 'TRASH':
+                return (
+                    <TrashView
+                        workItems={props.trashedWorkItems}
+                        epics={props.epics}
+                        sprints={props.sprints}
+                        onRestoreWorkItem={props.onRestoreWorkItem}
+                        onPurgeWorkItem={props.onPurgeWorkItem}
+                        onRestoreEpic={props.onRestoreEpic}
+                        onPurgeEpic={props.onPurgeEpic}
+                        onRestoreSprint={props.onRestoreSprint}
+                        onPurgeSprint={props.onPurgeSprint}
+                    />
+                );
             default:
                 return null;
         }
@@ -306,7 +344,7 @@ export const AppShell: React.FC<AppShellProps> = (props) => {
                     onOpenSettings={props.onOpenSettings}
                     onLogout={props.onLogout}
                     realtimeStatus={props.realtimeStatus}
-                    onNewItem={() => props.onNewItem()}
+                    onNewItem={templateId => props.onNewItem({ templateId })}
                     availableSprints={props.availableActiveSprints}
                     selectedSprint={selectedSprint}
                     onSelectSprint={props.setSelectedSprintId}
@@ -0,0 +1,133 @@
+// components/AuditView.tsx
+import React, { useMemo, useState } from 'react';
+import { AuditEntity, AuditAction } from '../types';
+import { useLocale } from '../context/LocaleContext';
+import { useBoard } from '../context/BoardContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { formatAuditValue } from '../services/auditLog';
+
+const ENTITIES: AuditEntity[] = ['work_item', 'epic', 'sprint', 'member', 'invite_code', 'join_request', 'workflow', 'item_template'];
+const ACTIONS: AuditAction[] = ['create', 'update', 'delete'];
+const SYSTEM_ACTOR = '__system__';
+
+const selectClassName = "text-sm px-3 py-1.5 bg-white border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary";
+
+export const AuditView: React.FC = () => {
+    const { t } = useLocale();
+    const { activeBoard } = useBoard();
+    const { entries } = useAuditLog();
+    const [entityFilter, setEntityFilter] = useState<AuditEntity | ''>('');
+    const [actionFilter, setActionFilter] = useState<AuditAction | ''>('');
+    const [actorFilter, setActorFilter] = useState('');
+    const [searchQuery, setSearchQuery] = useState('');
+
+    const entityLabels: Record<AuditEntity, string> = {
+        work_item: t('audit_entity_work_item'),
+        epic: t('audit_entity_epic'),
+        sprint: t('audit_entity_sprint'),
+        member: t('audit_entity_member'),
+        invite_code: t('audit_entity_invite_code'),
+        join_request: t('audit_entity_join_request'),
+        workflow: t('audit_entity_workflow'),
+        item_template: t('audit_entity_item_template'),
+    };
+    const actionLabels: Record<AuditAction, string> = {
+        create: t('audit_action_create'),
+        update: t('audit_action_update'),
+        delete: t('audit_action_delete'),
+    };
+    const actionColors: Record<AuditAction, string> = {
+        create: 'bg-green-100 text-green-800',
+        update: 'bg-blue-100 text-blue-800',
+        delete: 'bg-red-100 text-red-800',
+    };
+
+    const boardEntries = useMemo(() => entries.filter(e => e.boardId === activeBoard?.id), [entries, activeBoard]);
+
+    const actors = useMemo(() => {
+        const byId = new Map<string, string>();
+        boardEntries.forEach(e => { if (e.actor) byId.set(e.actor.id, e.actor.name); });
+        return [...byId.entries()].sort((a, b) => a[1].localeCompare(b[1]));
+    }, [boardEntries]);
+
+    const filteredEntries = useMemo(() => {
+        const query = searchQuery.trim().toLowerCase();
+        return boardEntries.filter(e =>
+            (!entityFilter || e.entity === entityFilter) &&
+            (!actionFilter || e.action === actionFilter) &&
+            (!actorFilter || (actorFilter === SYSTEM_ACTOR ? !e.actor : e.actor?.id === actorFilter)) &&
+            (!query || e.entityLabel.toLowerCase().includes(query) || e.entityId.toLowerCase().includes(query) || e.changes.some(c => c.field.toLowerCase().includes(query)))
+        );
+    }, [boardEntries, entityFilter, actionFilter, actorFilter, searchQuery]);
+
+    return (
+        <div className="p-4 bg-white rounded-lg shadow space-y-4 overflow-y-auto">
+            <div>
+                <h2 className="text-xl font-bold text-[#3B3936]">{t('audit_title')}</h2>
+                <p className="text-sm text-slate-600">{t('audit_desc')}</p>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                <input
+                    type="search"
+                    value={searchQuery}
+                    onChange={e => setSearchQuery(e.target.value)}
+                    placeholder={t('audit_search_placeholder')}
+                    className="text-sm px-3 py-1.5 border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                />
+                <select value={entityFilter} onChange={e => setEntityFilter(e.target.value as AuditEntity | '')} className={selectClassName} aria-label={t('audit_filter_entity')}>
+                    <option value="">{t('audit_filter_allEntities')}</option>
+                    {ENTITIES.map(entity => <option key={entity} value={entity}>{entityLabels[entity]}</option>)}
+                </select>
+                <select value={actionFilter} onChange={e => setActionFilter(e.target.value as AuditAction | '')} className={selectClassName} aria-label={t('audit_filter_action')}>
+                    <option value="">{t('audit_filter_allActions')}</option>
+                    {ACTIONS.map(action => <option key={action} value={action}>{actionLabels[action]}</option>)}
+                </select>
+                <select value={actorFilter} onChange={e => setActorFilter(e.target.value)} className={selectClassName} aria-label={t('audit_filter_actor')}>
+                    <option value="">{t('audit_filter_allActors')}</option>
+                    {actors.map(([id, name]) => <option key={id} value={id}>{name}</option>)}
+                    <option value={SYSTEM_ACTOR}>{t('audit_actor_system')}</option>
+                </select>
+            </div>
+
+            <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{t('audit_header_when')}</th>
+                        <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{t('audit_header_who')}</th>
+                        <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{t('audit_header_what')}</th>
+                        <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{t('audit_header_changes')}</th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                    {filteredEntries.map(entry => (
+                        <tr key={entry.id} className="align-top">
+                            <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{new Date(entry.at).toLocaleString()}</td>
+                            <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-900">{entry.actor?.name || t('audit_actor_system')}</td>
+                            <td className="px-4 py-3 text-sm text-gray-900">
+                                <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${actionColors[entry.action]}`}>{actionLabels[entry.action]}</span>
+                                <span className="ms-2 text-gray-500">{entityLabels[entry.entity]}</span>
+                                <p className="mt-1 font-medium truncate max-w-xs">{entry.entityLabel}</p>
+                            </td>
+                            <td className="px-4 py-3 text-xs text-gray-700">
+                                <ul className="space-y-0.5">
+                                    {entry.changes.map(change => (
+                                        <li key={change.field}>
+                                            <span className="font-semibold">{change.field}</span>:{' '}
+                                            {entry.action !== 'create' && <span className="text-red-700 line-through">{formatAuditValue(change.before)}</span>}
+                                            {entry.action === 'update' && ' → '}
+                                            {entry.action !== 'delete' && <span className="text-green-700">{formatAuditValue(change.after)}</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                            </td>
+                        </tr>
+                    ))}
+                    {filteredEntries.length === 0 && (
+                        <tr><td colSpan={4} className="text-center py-6 text-sm text-gray-500">{t('audit_empty')}</td></tr>
+                    )}
+                </tbody>
+            </table>
+        </div>
+    );
+};
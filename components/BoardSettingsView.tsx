@@ -0,0 +1,63 @@
+// components/BoardSettingsView.tsx
+import React, { useMemo } from 'react';
+import { Team, WorkItem } from '../types';
+import { useLocale } from '../context/LocaleContext';
+import { useBoard } from '../context/BoardContext';
+import { WorkflowEditor } from './WorkflowEditor';
+import { ItemTemplateEditor } from './ItemTemplateEditor';
+
+interface BoardSettingsViewProps {
+    onExportBoard: () => void;
+    onImportBoard: () => void;
+    onImportExternal: () => void;
+    workItems: WorkItem[]; // The board's items, trashed ones included
+    teams: Team[];
+}
+
+const SettingsSection: React.FC<{ title: string; description: string; children: React.ReactNode }> = ({ title, description, children }) => (
+    <section className="p-4 border rounded-lg space-y-3">
+        <div>
+            <h3 className="text-base font-semibold text-slate-800">{title}</h3>
+            <p className="text-sm text-slate-600">{description}</p>
+        </div>
+        {children}
+    </section>
+);
+
+export const BoardSettingsView: React.FC<BoardSettingsViewProps> = ({ onExportBoard, onImportBoard, onImportExternal, workItems, teams }) => {
+    const { t } = useLocale();
+    const { activeBoard } = useBoard();
+
+    const statusUsage = useMemo(() => workItems.reduce<Record<string, number>>((counts, item) => {
+        counts[item.status] = (counts[item.status] ?? 0) + 1;
+        return counts;
+    }, {}), [workItems]);
+
+    return (
+        <div className="p-4 bg-white rounded-lg shadow space-y-4 overflow-y-auto">
+            <h2 className="text-xl font-bold text-[#3B3936]">{t('boardSettings_title').replace('{boardName}', activeBoard?.name || '')}</h2>
+
+            <SettingsSection title={t('boardSettings_data_title')} description={t('boardSettings_data_desc')}>
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={onExportBoard} className="py-2 px-4 text-sm font-medium rounded-md text-white bg-[#486966] hover:bg-[#3a5a58]">
+                        {t('boardSettings_export_button')}
+                    </button>
+                    <button onClick={onImportBoard} className="py-2 px-4 text-sm font-medium rounded-md border border-slate-400 text-slate-800 hover:bg-slate-100">
+                        {t('boardSettings_import_button')}
+                    </button>
+                    <button onClick={onImportExternal} className="py-2 px-4 text-sm font-medium rounded-md border border-slate-400 text-slate-800 hover:bg-slate-100">
+                        {t('boardSettings_importExternal_button')}
+                    </button>
+                </div>
+            </SettingsSection>
+
+            <SettingsSection title={t('workflow_title')} description={t('workflow_desc')}>
+                <WorkflowEditor statusUsage={statusUsage} />
+            </SettingsSection>
+
+            <SettingsSection title={t('templates_title')} description={t('templates_desc')}>
+                <ItemTemplateEditor teams={teams} />
+            </SettingsSection>
+        </div>
+    );
+};
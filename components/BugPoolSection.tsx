@@ -1,10 +1,10 @@
 // components/BugPoolSection.tsx
 import React, { useState, useMemo } from 'react';
-import { WorkItem, Status, WorkItemType } from '../types';
+import { WorkItem, WorkItemType } from '../types';
 import { BugIcon, ChevronRightIcon } from './icons';
-import { KANBAN_COLUMNS } from '../constants';
 import { WorkItemCard } from './WorkItemCard';
 import { useLocale } from '../context/LocaleContext';
+import { useWorkflow } from '../context/WorkflowContext';
 
 interface BugPoolSectionProps {
     isCollapsed: boolean;
@@ -13,7 +13,7 @@ interface BugPoolSectionProps {
     onSelectWorkItem: (item: WorkItem) => void;
     onDragStart: (e: React.DragEvent, id: string) => void;
     onDragOver: (e: React.DragEvent) => void;
-    onDrop: (e: React.DragEvent, newStatus: Status) => void;
+    onDrop: (e: React.DragEvent, newStatus: string) => void;
 }
 
 export const BugPoolSection: React.FC<BugPoolSectionProps> = ({
@@ -26,9 +26,10 @@ export const BugPoolSection: React.FC<BugPoolSectionProps> = ({
     onDrop,
 }) => {
     const { t } = useLocale();
+    const { statuses, statusCategory } = useWorkflow();
     const [onlyUrgent, setOnlyUrgent] = useState(false);
 
-    const openBugs = useMemo(() => bugItems.filter(b => b.status !== Status.DONE), [bugItems]);
+    const openBugs = useMemo(() => bugItems.filter(b => statusCategory(b.status) !== 'done'), [bugItems, statusCategory]);
     const urgentOpenBugs = useMemo(() => openBugs.filter(b => b.type === WorkItemType.BUG_URGENT), [openBugs]);
 
     const itemsToDisplay = useMemo(() => onlyUrgent ? urgentOpenBugs : bugItems, [onlyUrgent, urgentOpenBugs, bugItems]);
@@ -79,23 +80,23 @@ export const BugPoolSection: React.FC<BugPoolSectionProps> = ({
                             {t('bugpool_showUrgentOnly')}
                         </label>
                     </div>
-                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3 p-2">
-                        {KANBAN_COLUMNS.map(col => (
+                    <div className="grid grid-flow-col auto-cols-[minmax(14rem,1fr)] overflow-x-auto gap-3 p-2">
+                        {statuses.map(col => (
                             <div 
-                                key={col.status} 
+                                key={col.id} 
                                 className="bg-slate-100/50 rounded p-2 min-h-[80px]" 
                                 onDragOver={onDragOver} 
-                                onDrop={(e) => onDrop(e, col.status)}
+                                onDrop={(e) => onDrop(e, col.id)}
                             >
                                 <h3 className="text-xs font-semibold text-slate-600 mb-2 px-1">
-                                    {col.title} 
+                                    {col.name} 
                                     <span className="font-normal text-slate-500">
-                                        ({itemsToDisplay.filter(i => i.status === col.status).length})
+                                        ({itemsToDisplay.filter(i => i.status === col.id).length})
                                     </span>
                                 </h3>
                                 <div className="space-y-2">
                                     {itemsToDisplay
-                                        .filter(item => item.status === col.status)
+                                        .filter(item => item.status === col.id)
                                         .map(item => (
                                             <div key={item.id} draggable onDragStart={(e) => onDragStart(e, item.id)}>
                                                 <WorkItemCard workItem={item} onSelect={() => onSelectWorkItem(item)} />
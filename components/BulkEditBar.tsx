@@ -0,0 +1,196 @@
+// components/BulkEditBar.tsx
+import React, { useState } from 'react';
+import { Epic, Priority, Sprint, Team, WorkItem } from '../types';
+import { useLocale } from '../context/LocaleContext';
+import { useBoard } from '../context/BoardContext';
+import { useWorkflow } from '../context/WorkflowContext';
+import { PRIORITIES } from '../constants';
+import { XMarkIcon } from './icons';
+import { GuardViolationList } from './GuardViolationList';
+import { BULK_EDIT_FIELDS, BulkEdit, BulkEditField, BulkEditResult, BulkSkipReason } from '../services/bulkEdit';
+
+interface BulkEditBarProps {
+    selectedCount: number;
+    epics: Epic[];
+    sprints: Sprint[];
+    teams: Team[];
+    onApply: (edit: BulkEdit) => void;
+    onClearSelection: () => void;
+}
+
+const selectClass = 'text-sm px-3 py-1.5 bg-white border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary';
+
+export const BulkEditBar: React.FC<BulkEditBarProps> = ({ selectedCount, epics, sprints, teams, onApply, onClearSelection }) => {
+    const { t } = useLocale();
+    const { activeBoardMembers } = useBoard();
+    const { statuses } = useWorkflow();
+    const [field, setField] = useState<BulkEditField>('status');
+    const [value, setValue] = useState('');
+    const [labelAction, setLabelAction] = useState<'add' | 'remove'>('add');
+
+    const fieldLabels: Record<BulkEditField, string> = {
+        status: t('status'),
+        assignee: t('assignee'),
+        priority: t('priority'),
+        sprint: t('sprint'),
+        epic: t('epic'),
+        labels: t('labels'),
+        team: t('team'),
+    };
+
+    // Status, priority and labels need a value; for the rest an empty value clears the field.
+    const needsValue = field === 'status' || field === 'priority' || field === 'labels';
+
+    const buildEdit = (): BulkEdit => {
+        switch (field) {
+            case 'status': return { field, status: value };
+            case 'assignee': return { field, assignee: activeBoardMembers.find(m => m.user.id === value)?.user };
+            case 'priority': return { field, priority: value as Priority };
+            case 'sprint': return { field, sprint: sprints.find(s => s.id === value) };
+            case 'epic': return { field, epic: epics.find(e => e.id === value) };
+            case 'labels': return { field, action: labelAction, label: value.trim() };
+            case 'team': return { field, team: teams.find(team => team.id === value) };
+        }
+    };
+
+    const handleApply = () => {
+        onApply(buildEdit());
+        setValue('');
+    };
+
+    const renderValueInput = () => {
+        switch (field) {
+            case 'status':
+                return (
+                    <select value={value} onChange={e => setValue(e.target.value)} className={selectClass}>
+                        <option value="">{t('select')}</option>
+                        {statuses.map(status => <option key={status.id} value={status.id}>{status.name}</option>)}
+                    </select>
+                );
+            case 'assignee':
+                return (
+                    <select value={value} onChange={e => setValue(e.target.value)} className={selectClass}>
+                        <option value="">{t('kanban_lane_unassigned')}</option>
+                        {activeBoardMembers.map(({ user }) => <option key={user.id} value={user.id}>{user.name}</option>)}
+                    </select>
+                );
+            case 'priority':
+                return (
+                    <select value={value} onChange={e => setValue(e.target.value)} className={selectClass}>
+                        <option value="">{t('select')}</option>
+                        {PRIORITIES.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                );
+            case 'sprint':
+                return (
+                    <select value={value} onChange={e => setValue(e.target.value)} className={selectClass}>
+                        <option value="">{t('noSprint')}</option>
+                        {sprints.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                );
+            case 'epic':
+                return (
+                    <select value={value} onChange={e => setValue(e.target.value)} className={selectClass}>
+                        <option value="">{t('noEpic')}</option>
+                        {epics.map(e => <option key={e.id} value={e.id}>{e.name}</option>)}
+                    </select>
+                );
+            case 'labels':
+                return (
+                    <>
+                        <select value={labelAction} onChange={e => setLabelAction(e.target.value as 'add' | 'remove')} className={selectClass}>
+                            <option value="add">{t('bulk_label_add')}</option>
+                            <option value="remove">{t('bulk_label_remove')}</option>
+                        </select>
+                        <input type="text" value={value} onChange={e => setValue(e.target.value)} placeholder={t('labels')} className={selectClass} />
+                    </>
+                );
+            case 'team':
+                return (
+                    <select value={value} onChange={e => setValue(e.target.value)} className={selectClass}>
+                        <option value="">{t('noTeam')}</option>
+                        {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                    </select>
+                );
+        }
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 p-2 bg-slate-100 border border-slate-200 rounded-md">
+            <span className="text-sm font-semibold text-slate-800 me-2">{t('bulk_selected').replace('{count}', selectedCount.toString())}</span>
+            <select value={field} onChange={e => { setField(e.target.value as BulkEditField); setValue(''); }} className={selectClass} aria-label={t('bulk_field')}>
+                {BULK_EDIT_FIELDS.map(f => <option key={f} value={f}>{fieldLabels[f]}</option>)}
+            </select>
+            {renderValueInput()}
+            <button
+                onClick={handleApply}
+                disabled={needsValue && !value.trim()}
+                className="py-1.5 px-4 text-sm bg-[#486966] text-white rounded-md hover:bg-[#3a5a58] disabled:opacity-50"
+            >
+                {t('bulk_apply')}
+            </button>
+            <button onClick={onClearSelection} className="ms-auto text-sm text-slate-600 hover:underline">{t('bulk_clearSelection')}</button>
+        </div>
+    );
+};
+
+interface BulkEditSummaryProps {
+    edit: BulkEdit;
+    result: BulkEditResult;
+    onSelectWorkItem: (workItem: WorkItem) => void;
+    onDismiss: () => void;
+}
+
+// What the last bulk edit changed, and each item it left alone and why.
+export const BulkEditSummary: React.FC<BulkEditSummaryProps> = ({ edit, result, onSelectWorkItem, onDismiss }) => {
+    const { t } = useLocale();
+    const { statusName } = useWorkflow();
+
+    const skipReasons: Record<BulkSkipReason, string> = {
+        permission: t('bulk_skip_permission'),
+        transition: t('bulk_skip_transition'),
+        guard: t('bulk_skip_guard'),
+        wip: t('bulk_skip_wip'),
+    };
+
+    const describeEdit = (): string => {
+        switch (edit.field) {
+            case 'status': return `${t('status')}: ${statusName(edit.status)}`;
+            case 'assignee': return `${t('assignee')}: ${edit.assignee?.name ?? t('kanban_lane_unassigned')}`;
+            case 'priority': return `${t('priority')}: ${edit.priority}`;
+            case 'sprint': return `${t('sprint')}: ${edit.sprint?.name ?? t('noSprint')}`;
+            case 'epic': return `${t('epic')}: ${edit.epic?.name ?? t('noEpic')}`;
+            case 'labels': return `${t('labels')}: ${edit.action === 'add' ? '+' : '−'}${edit.label}`;
+            case 'team': return `${t('team')}: ${edit.team?.name ?? t('noTeam')}`;
+        }
+    };
+
+    return (
+        <div className="p-3 bg-white border border-slate-200 rounded-md text-sm" role="status">
+            <div className="flex items-start justify-between gap-2">
+                <div>
+                    <p className="font-semibold text-slate-800">{describeEdit()}</p>
+                    <p className="text-slate-600">
+                        {t('bulk_summary_updated').replace('{count}', result.updated.length.toString())}
+                        {result.unchanged.length > 0 && <> · {t('bulk_summary_unchanged').replace('{count}', result.unchanged.length.toString())}</>}
+                        {result.skipped.length > 0 && <> · {t('bulk_summary_skipped').replace('{count}', result.skipped.length.toString())}</>}
+                    </p>
+                </div>
+                <button type="button" onClick={onDismiss} className="p-1 rounded-full hover:bg-gray-200" aria-label={t('close')}>
+                    <XMarkIcon className="w-4 h-4 text-[#889C9B]" />
+                </button>
+            </div>
+            {result.skipped.length > 0 && (
+                <ul className="mt-2 space-y-2 border-t pt-2">
+                    {result.skipped.map(({ item, reason, violations }) => (
+                        <li key={item.id}>
+                            <button type="button" onClick={() => onSelectWorkItem(item)} className="font-medium text-slate-800 hover:underline">{item.id} {item.title}</button>
+                            <span className="text-slate-600"> — {reason === 'transition' ? skipReasons.transition.replace('{from}', statusName(item.status)) : skipReasons[reason]}</span>
+                            {violations && <div className="ms-4 mt-1"><GuardViolationList violations={violations} onFix={() => onSelectWorkItem(item)} /></div>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
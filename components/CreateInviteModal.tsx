@@ -7,7 +7,7 @@ import { useLocale } from '../context/LocaleContext';
 interface CreateInviteModalProps {
     roles: Role[];
     onClose: () => void;
-    onCreate: (invite: Omit<InviteCode, 'code' | 'createdBy' | 'createdAt' | 'uses'>) => void;
+    onCreate: (invite: Omit<InviteCode, 'code' | 'boardId' | 'createdBy' | 'createdAt' | 'uses'>) => void;
 }
 
 const CreateInviteModal: React.FC<CreateInviteModalProps> = ({ roles, onClose, onCreate }) => {
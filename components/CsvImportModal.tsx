@@ -0,0 +1,194 @@
+// components/CsvImportModal.tsx
+import React, { useMemo, useState } from 'react';
+import { XMarkIcon } from './icons';
+import { useLocale } from '../context/LocaleContext';
+import { useAuth } from '../context/AuthContext';
+import { useBoard } from '../context/BoardContext';
+import { useWorkflow } from '../context/WorkflowContext';
+import { Epic, WorkItem } from '../types';
+import { CSV_FIELDS, CsvField, CsvMapping, CsvRowErrorCode, ParsedCsv, parseCsv, guessMapping, buildImportRows, loadMappingTemplate, saveMappingTemplate } from '../services/csvImport';
+
+interface CsvImportModalProps {
+    epics: Epic[];
+    onClose: () => void;
+    onConfirm: (items: Partial<WorkItem>[]) => void;
+}
+
+type Step = 'UPLOAD' | 'MAPPING' | 'PREVIEW';
+
+export const CsvImportModal: React.FC<CsvImportModalProps> = ({ epics, onClose, onConfirm }) => {
+    const { t } = useLocale();
+    const { user } = useAuth();
+    const { activeBoard, activeBoardMembers } = useBoard();
+    const { workflow } = useWorkflow();
+    const [step, setStep] = useState<Step>('UPLOAD');
+    const [csv, setCsv] = useState<ParsedCsv | null>(null);
+    const [mapping, setMapping] = useState<CsvMapping>({});
+    const [error, setError] = useState<string | null>(null);
+    const [templateSaved, setTemplateSaved] = useState(false);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file || !activeBoard) return;
+        setError(null);
+        const parsed = parseCsv(await file.text());
+        if (parsed.headers.length === 0 || parsed.rows.length === 0) {
+            setCsv(null);
+            setError(t('csvImport_error_empty'));
+            return;
+        }
+        // A saved template wins over guessing, for the headers this file actually has.
+        const template = loadMappingTemplate(activeBoard.id);
+        const initial = template
+            ? Object.fromEntries(Object.entries(template).filter(([, header]) => header && parsed.headers.includes(header))) as CsvMapping
+            : guessMapping(parsed.headers);
+        setCsv(parsed);
+        setMapping(initial);
+        setTemplateSaved(false);
+        setStep('MAPPING');
+    };
+
+    const rows = useMemo(() => {
+        if (!csv || !user || !activeBoard || step !== 'PREVIEW') return [];
+        return buildImportRows(csv, mapping, {
+            boardId: activeBoard.id,
+            reporter: user,
+            users: activeBoardMembers.map(m => m.user),
+            epics: epics.filter(e => !e.deletedAt),
+            workflow,
+        });
+    }, [csv, mapping, user, activeBoard, activeBoardMembers, epics, step, workflow]);
+
+    const validRows = rows.filter(r => r.errors.length === 0);
+    const invalidRows = rows.filter(r => r.errors.length > 0);
+
+    const handleMappingChange = (field: CsvField, header: string) => {
+        setMapping(prev => ({ ...prev, [field]: header || undefined }));
+        setTemplateSaved(false);
+    };
+
+    const handleSaveTemplate = () => {
+        if (!activeBoard) return;
+        saveMappingTemplate(activeBoard.id, mapping);
+        setTemplateSaved(true);
+    };
+
+    const fieldLabels: Record<CsvField, string> = {
+        title: t('csvImport_field_title'),
+        type: t('csvImport_field_type'),
+        status: t('csvImport_field_status'),
+        priority: t('csvImport_field_priority'),
+        estimationPoints: t('csvImport_field_estimationPoints'),
+        labels: t('csvImport_field_labels'),
+        dueDate: t('csvImport_field_dueDate'),
+        assignee: t('csvImport_field_assignee'),
+        epic: t('csvImport_field_epic'),
+    };
+
+    const errorMessages: Record<CsvRowErrorCode, string> = {
+        required: t('csvImport_error_required'),
+        invalid_type: t('csvImport_error_invalid_type'),
+        invalid_status: t('csvImport_error_invalid_status'),
+        invalid_priority: t('csvImport_error_invalid_priority'),
+        invalid_number: t('csvImport_error_invalid_number'),
+        invalid_date: t('csvImport_error_invalid_date'),
+        unknown_assignee: t('csvImport_error_unknown_assignee'),
+        unknown_epic: t('csvImport_error_unknown_epic'),
+    };
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="csv-import-title" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <header className="flex items-center justify-between p-4 border-b">
+                    <h2 id="csv-import-title" className="text-xl font-bold text-[#3B3936]">{t('csvImport_title')}</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full hover:bg-gray-200">
+                        <XMarkIcon className="w-6 h-6 text-[#889C9B]" />
+                    </button>
+                </header>
+                <main className="p-6 space-y-4 overflow-y-auto">
+                    {step === 'UPLOAD' && (
+                        <div>
+                            <label htmlFor="csvFile" className="block text-sm font-medium text-[#486966] mb-1">{t('csvImport_file_label')}</label>
+                            <input id="csvFile" type="file" accept="text/csv,.csv" onChange={handleFileChange} className="block w-full text-sm text-slate-700" />
+                            {error && (
+                                <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">{error}</div>
+                            )}
+                        </div>
+                    )}
+
+                    {step === 'MAPPING' && csv && (
+                        <div className="space-y-3">
+                            <p className="text-sm text-slate-700">{t('csvImport_mapping_intro').replace('{count}', csv.rows.length.toString())}</p>
+                            <table className="min-w-full text-sm">
+                                <tbody className="divide-y divide-gray-200">
+                                    {CSV_FIELDS.map(field => (
+                                        <tr key={field}>
+                                            <td className="py-2 text-slate-700 font-medium">
+                                                {fieldLabels[field]}{field === 'title' && <span className="text-red-600"> *</span>}
+                                            </td>
+                                            <td className="py-2">
+                                                <select
+                                                    value={mapping[field] || ''}
+                                                    onChange={e => handleMappingChange(field, e.target.value)}
+                                                    className="w-full text-sm px-3 py-1.5 bg-white border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                                                >
+                                                    <option value="">{t('csvImport_mapping_skip')}</option>
+                                                    {csv.headers.map(header => <option key={header} value={header}>{header}</option>)}
+                                                </select>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            <div className="flex items-center gap-2">
+                                <button type="button" onClick={handleSaveTemplate} className="py-1.5 px-3 text-sm border border-slate-400 rounded-md text-slate-800 hover:bg-slate-100">
+                                    {t('csvImport_save_template')}
+                                </button>
+                                {templateSaved && <span className="text-sm text-green-700">{t('csvImport_template_saved')}</span>}
+                            </div>
+                        </div>
+                    )}
+
+                    {step === 'PREVIEW' && (
+                        <div className="space-y-3">
+                            <p className="text-sm text-slate-700">
+                                {t('csvImport_preview_summary').replace('{valid}', validRows.length.toString()).replace('{invalid}', invalidRows.length.toString())}
+                            </p>
+                            {invalidRows.length > 0 && (
+                                <div className="p-3 bg-red-50 border border-red-200 rounded-md">
+                                    <p className="font-semibold text-sm text-red-800">{t('csvImport_preview_errors')}</p>
+                                    <ul className="mt-1 text-xs text-red-800 space-y-1 max-h-64 overflow-y-auto">
+                                        {invalidRows.map(row => (
+                                            <li key={row.rowNumber}>
+                                                <span className="font-semibold">{t('csvImport_row').replace('{row}', row.rowNumber.toString())}</span>{' '}
+                                                {row.errors.map(err => errorMessages[err.code].replace('{field}', fieldLabels[err.field]).replace('{value}', err.value)).join(' · ')}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </main>
+                <footer className="p-4 border-t bg-gray-50 flex justify-between gap-2">
+                    <div>
+                        {step !== 'UPLOAD' && (
+                            <button onClick={() => setStep(step === 'PREVIEW' ? 'MAPPING' : 'UPLOAD')} className="py-2 px-4 border border-slate-400 rounded-md text-slate-800 hover:bg-slate-100">{t('csvImport_back_button')}</button>
+                        )}
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={onClose} className="py-2 px-4 border border-slate-400 rounded-md text-slate-800 hover:bg-slate-100">{t('cancel')}</button>
+                        {step === 'MAPPING' && (
+                            <button onClick={() => setStep('PREVIEW')} disabled={!mapping.title} className="py-2 px-4 bg-[#486966] text-white rounded-md disabled:bg-gray-400">{t('csvImport_validate_button')}</button>
+                        )}
+                        {step === 'PREVIEW' && (
+                            <button onClick={() => onConfirm(validRows.map(r => r.item))} disabled={validRows.length === 0} className="py-2 px-4 bg-[#486966] text-white rounded-md disabled:bg-gray-400">
+                                {t('csvImport_import_button').replace('{count}', validRows.length.toString())}
+                            </button>
+                        )}
+                    </div>
+                </footer>
+            </div>
+        </div>
+    );
+};
@@ -1,16 +1,18 @@
 // components/EpicsView.tsx
 import React, { useState, useMemo } from 'react';
-import { Epic, WorkItem, Status, EpicStatus } from '../types';
+import { Epic, WorkItem, EpicStatus, NewItemOptions } from '../types';
 import { useLocale } from '../context/LocaleContext';
 import { useBoard } from '../context/BoardContext';
+import { useWorkflow } from '../context/WorkflowContext';
 import { XMarkIcon } from './icons';
+import { NewItemMenu } from './NewItemMenu';
 
 interface EpicsViewProps {
     epics: Epic[];
     workItems: WorkItem[];
     onNewEpic: () => void;
     onEditEpic: (epic: Epic) => void;
-    onNewItem: (options: { epicId: string }) => void;
+    onNewItem: (options: NewItemOptions) => void;
     onSelectWorkItem: (workItem: WorkItem) => void;
     onUpdateStatus: (epicId: string, newStatus: EpicStatus) => void;
     onDeleteEpic: (epic: Epic) => void;
@@ -50,11 +52,12 @@ const ActionsMenu: React.FC<{
     workItems: WorkItem[], 
 }> = ({ epic, onUpdateStatus, onDelete, onEdit, setBlockModalOpen, workItems }) => {
     const { t } = useLocale();
+    const { statusCategory } = useWorkflow();
     const [isOpen, setIsOpen] = useState(false);
     
     const handleStatusChange = (newStatus: EpicStatus) => {
         if ((newStatus === EpicStatus.DONE || newStatus === EpicStatus.ARCHIVED) && epic.openItemsCount && epic.openItemsCount > 0) {
-            const openItems = workItems.filter(item => item.epicId === epic.id && item.status !== Status.DONE);
+            const openItems = workItems.filter(item => item.epicId === epic.id && statusCategory(item.status) !== 'done');
             setBlockModalOpen(openItems);
         } else {
             onUpdateStatus(epic.id, newStatus);
@@ -120,11 +123,12 @@ const ActionsMenu: React.FC<{
 const EpicDrawerContent: React.FC<{
     epic: Epic;
     childItems: WorkItem[];
-    onNewItem: (options: { epicId: string }) => void;
+    onNewItem: (options: NewItemOptions) => void;
     onSelectWorkItem: (workItem: WorkItem) => void;
     canManage: boolean;
 }> = ({ epic, childItems, onNewItem, onSelectWorkItem, canManage }) => {
     const { t } = useLocale();
+    const { statusName } = useWorkflow();
     return (
         <div className="p-4 bg-gray-50">
             <div className="flex justify-between items-center mb-2">
@@ -134,9 +138,9 @@ const EpicDrawerContent: React.FC<{
                     <span>{t('total_est_stat').replace('{sum}', (epic.totalEstimation || 0).toString())}</span>
                 </div>
                 {canManage && (epic.status === EpicStatus.ACTIVE || epic.status === EpicStatus.ON_HOLD) && (
-                    <button onClick={() => onNewItem({ epicId: epic.id })} className="py-1.5 px-3 text-xs font-medium rounded-md text-white bg-[#486966] hover:bg-[#3a5a58]">
+                    <NewItemMenu onNewItem={templateId => onNewItem({ epicId: epic.id, templateId })} className="py-1.5 px-3 text-xs font-medium rounded-md text-white bg-[#486966] hover:bg-[#3a5a58]">
                         Add Item to this Epic
-                    </button>
+                    </NewItemMenu>
                 )}
             </div>
             <div className="max-h-96 overflow-y-auto border rounded-lg bg-white">
@@ -160,7 +164,7 @@ const EpicDrawerContent: React.FC<{
                                         {item.title}
                                     </button>
                                 </td>
-                                <td className="px-3 py-2 text-xs"><span className="px-2 py-0.5 rounded-full bg-gray-200 text-gray-800">{item.status}</span></td>
+                                <td className="px-3 py-2 text-xs"><span className="px-2 py-0.5 rounded-full bg-gray-200 text-gray-800">{statusName(item.status)}</span></td>
                                 <td className="px-3 py-2 text-sm text-gray-700">{item.assignee.name}</td>
                                 <td className="px-3 py-2 text-sm text-gray-700">{item.dueDate ? new Date(item.dueDate).toLocaleDateString() : '–'}</td>
                                 <td className="px-3 py-2 text-sm text-gray-700">{item.estimationPoints || '–'}</td>
@@ -0,0 +1,135 @@
+// components/ExternalImportModal.tsx
+import React, { useMemo, useState } from 'react';
+import { XMarkIcon } from './icons';
+import { useLocale } from '../context/LocaleContext';
+import { useAuth } from '../context/AuthContext';
+import { useBoard } from '../context/BoardContext';
+import { useWorkflow } from '../context/WorkflowContext';
+import { ExistingIds } from '../services/boardArchive';
+import { ForeignBoard, StatusMapping, ExternalImportPlan, parseExternalExport, guessStatusMapping, planExternalImport } from '../services/externalImport';
+
+interface ExternalImportModalProps {
+    existingIds: ExistingIds;
+    nextSprintNumber: number;
+    onClose: () => void;
+    onConfirm: (plan: ExternalImportPlan) => void;
+}
+
+export const ExternalImportModal: React.FC<ExternalImportModalProps> = ({ existingIds, nextSprintNumber, onClose, onConfirm }) => {
+    const { t } = useLocale();
+    const { user } = useAuth();
+    const { activeBoard, activeBoardMembers } = useBoard();
+    const { workflow } = useWorkflow();
+    const [foreignBoard, setForeignBoard] = useState<ForeignBoard | null>(null);
+    const [mapping, setMapping] = useState<StatusMapping>({});
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setForeignBoard(null);
+        setError(null);
+        try {
+            const parsed = parseExternalExport(await file.text());
+            setForeignBoard(parsed);
+            setMapping(guessStatusMapping(parsed.statuses, workflow));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const plan = useMemo(() => {
+        if (!foreignBoard || !user || !activeBoard) return null;
+        return planExternalImport(foreignBoard, mapping, {
+            boardId: activeBoard.id,
+            importer: user,
+            members: activeBoardMembers.map(m => m.user),
+            existing: existingIds,
+            nextSprintNumber,
+            workflow,
+        });
+    }, [foreignBoard, mapping, user, activeBoard, activeBoardMembers, existingIds, nextSprintNumber, workflow]);
+
+    const itemCountByStatus = useMemo(() => {
+        const counts: Record<string, number> = {};
+        foreignBoard?.items.forEach(item => { counts[item.status] = (counts[item.status] || 0) + 1; });
+        return counts;
+    }, [foreignBoard]);
+
+    const sourceName = foreignBoard?.source === 'jira' ? 'Jira' : 'Trello';
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="external-import-title" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <header className="flex items-center justify-between p-4 border-b">
+                    <h2 id="external-import-title" className="text-xl font-bold text-[#3B3936]">{t('externalImport_title')}</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full hover:bg-gray-200">
+                        <XMarkIcon className="w-6 h-6 text-[#889C9B]" />
+                    </button>
+                </header>
+                <main className="p-6 space-y-4 overflow-y-auto">
+                    <div>
+                        <label htmlFor="externalFile" className="block text-sm font-medium text-[#486966] mb-1">{t('externalImport_file_label')}</label>
+                        <input id="externalFile" type="file" accept="application/json,.json" onChange={handleFileChange} className="block w-full text-sm text-slate-700" />
+                    </div>
+
+                    {error && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">{error}</div>
+                    )}
+
+                    {foreignBoard && plan && (
+                        <div className="space-y-3">
+                            <p className="text-sm text-slate-700">
+                                {t('externalImport_detected')
+                                    .replace('{source}', sourceName)
+                                    .replace('{name}', foreignBoard.name)
+                                    .replace('{items}', plan.workItems.length.toString())
+                                    .replace('{epics}', plan.epics.length.toString())
+                                    .replace('{sprints}', plan.sprints.length.toString())}
+                            </p>
+                            <h3 className="text-sm font-semibold text-slate-800">{t('externalImport_status_mapping')}</h3>
+                            <table className="min-w-full text-sm">
+                                <thead>
+                                    <tr className="text-xs text-gray-500 uppercase">
+                                        <th className="py-1 text-start font-medium">{t('externalImport_source_status').replace('{source}', sourceName)}</th>
+                                        <th className="py-1 text-start font-medium">{t('status')}</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-gray-200">
+                                    {foreignBoard.statuses.map(name => (
+                                        <tr key={name}>
+                                            <td className="py-2 text-slate-700">
+                                                {name} <span className="text-slate-400">({itemCountByStatus[name] || 0})</span>
+                                            </td>
+                                            <td className="py-2">
+                                                <select
+                                                    value={mapping[name]}
+                                                    onChange={e => setMapping(prev => ({ ...prev, [name]: e.target.value }))}
+                                                    className="w-full text-sm px-3 py-1.5 bg-white border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+                                                >
+                                                    {workflow.statuses.map(status => <option key={status.id} value={status.id}>{status.name}</option>)}
+                                                </select>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {plan.warnings.length > 0 && (
+                                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                                    <p className="font-semibold text-sm text-yellow-800">{t('importBoard_warnings').replace('{count}', plan.warnings.length.toString())}</p>
+                                    <ul className="mt-1 text-xs text-yellow-800 list-disc list-inside max-h-32 overflow-y-auto">
+                                        {plan.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </main>
+                <footer className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+                    <button onClick={onClose} className="py-2 px-4 border border-slate-400 rounded-md text-slate-800 hover:bg-slate-100">{t('cancel')}</button>
+                    <button onClick={() => plan && onConfirm(plan)} disabled={!plan || plan.workItems.length === 0} className="py-2 px-4 bg-[#486966] text-white rounded-md disabled:bg-gray-400">{t('externalImport_confirm_button')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,6 @@
 // components/FilterBar.tsx
 import React, { useState, useRef, useEffect, useMemo } from 'react';
-import { FilterSet, Team, Sprint, User, WorkItemType } from '../types';
+import { FilterSet, Team, Sprint, User, WorkItemType, KanbanGroupBy } from '../types';
 import { ALL_USERS, WORK_ITEM_TYPES } from '../constants';
 import { useLocale } from '../context/LocaleContext';
 import { BookmarkPlusIcon, FolderCogIcon, XMarkIcon, MagnifyingGlassIcon } from './icons';
@@ -193,8 +193,8 @@ interface FilterBarProps {
   onOpenSaveViewModal: () => void;
   onOpenManageViewsModal: () => void;
   teams: Team[];
-  groupBy: 'status' | 'epic';
-  onGroupByChange: (groupBy: 'status' | 'epic') => void;
+  groupBy: KanbanGroupBy;
+  onGroupByChange: (groupBy: KanbanGroupBy) => void;
   activeSprint: Sprint | null | undefined;
   includeUnassignedEpicItems: boolean;
   onIncludeUnassignedEpicItemsChange: (checked: boolean) => void;
@@ -298,11 +298,16 @@ export const FilterBar: React.FC<FilterBarProps> = ({
         <select
           name="groupBy"
           value={groupBy}
-          onChange={(e) => onGroupByChange(e.target.value as 'status' | 'epic')}
+          onChange={(e) => onGroupByChange(e.target.value as KanbanGroupBy)}
           className="w-32 px-2 py-1 bg-white border border-slate-300 rounded-md text-xs text-slate-900 focus:outline-none focus:ring-2 focus:ring-primary"
         >
           <option value="status">{t('filterbar_groupBy_status')}</option>
           <option value="epic">{t('filterbar_groupBy_epic')}</option>
+          <option value="assignee">{t('filterbar_groupBy_assignee')}</option>
+          <option value="priority">{t('filterbar_groupBy_priority')}</option>
+          <option value="team">{t('filterbar_groupBy_team')}</option>
+          <option value="type">{t('filterbar_groupBy_type')}</option>
+          <option value="label">{t('filterbar_groupBy_label')}</option>
         </select>
 
         {activeSprint && groupBy === 'epic' && (
@@ -0,0 +1,35 @@
+// components/GuardViolationList.tsx
+import React from 'react';
+import { GuardRequirement } from '../types';
+import { useLocale } from '../context/LocaleContext';
+import { GuardViolation } from '../services/transitionGuards';
+
+interface GuardViolationListProps {
+    violations: GuardViolation[];
+    onFix: (field: string) => void;
+}
+
+export const GuardViolationList: React.FC<GuardViolationListProps> = ({ violations, onFix }) => {
+    const { t } = useLocale();
+
+    const messages: Record<GuardRequirement, string> = {
+        assignee: t('guard_violation_assignee'),
+        estimation: t('guard_violation_estimation'),
+        checklist_done: t('guard_violation_checklist_done'),
+        due_date: t('guard_violation_due_date'),
+        epic: t('guard_violation_epic'),
+        sprint: t('guard_violation_sprint'),
+        subtasks_done: t('guard_violation_subtasks_done'),
+    };
+
+    return (
+        <ul className="space-y-1">
+            {violations.map(({ guard, field }) => (
+                <li key={guard.id} className="flex items-center justify-between gap-2 text-sm text-red-700">
+                    <span>{messages[guard.requirement]}</span>
+                    <button type="button" onClick={() => onFix(field)} className="shrink-0 text-xs font-medium text-[#486966] hover:underline">{t('guard_fix')}</button>
+                </li>
+            ))}
+        </ul>
+    );
+};
@@ -0,0 +1,102 @@
+// components/ImportBoardModal.tsx
+import React, { useState } from 'react';
+import { XMarkIcon } from './icons';
+import { useLocale } from '../context/LocaleContext';
+import { useAuth } from '../context/AuthContext';
+import { parseBoardArchive, planBoardImport, BoardImportPlan, ExistingIds, ArchiveCounts } from '../services/boardArchive';
+
+interface ImportBoardModalProps {
+    existingIds: ExistingIds;
+    onClose: () => void;
+    onConfirm: (plan: BoardImportPlan) => void;
+}
+
+export const ImportBoardModal: React.FC<ImportBoardModalProps> = ({ existingIds, onClose, onConfirm }) => {
+    const { t } = useLocale();
+    const { user } = useAuth();
+    const [plan, setPlan] = useState<BoardImportPlan | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file || !user) return;
+        setPlan(null);
+        setError(null);
+        try {
+            const archive = parseBoardArchive(await file.text());
+            setPlan(planBoardImport(archive, existingIds, user));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : String(err));
+        }
+    };
+
+    const countLabels: Record<keyof ArchiveCounts, string> = {
+        members: t('importBoard_count_members'),
+        workItems: t('importBoard_count_workItems'),
+        epics: t('epics'),
+        sprints: t('sprints'),
+        teams: t('teams'),
+        events: t('eventsView'),
+        savedViews: t('importBoard_count_savedViews'),
+        inviteCodes: t('membersView_tab_inviteCodes'),
+    };
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="import-board-title" className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" onClick={onClose}>
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-lg" onClick={e => e.stopPropagation()}>
+                <header className="flex items-center justify-between p-4 border-b">
+                    <h2 id="import-board-title" className="text-xl font-bold text-[#3B3936]">{t('importBoard_title')}</h2>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full hover:bg-gray-200">
+                        <XMarkIcon className="w-6 h-6 text-[#889C9B]" />
+                    </button>
+                </header>
+                <main className="p-6 space-y-4">
+                    <div>
+                        <label htmlFor="archiveFile" className="block text-sm font-medium text-[#486966] mb-1">{t('importBoard_file_label')}</label>
+                        <input id="archiveFile" type="file" accept="application/json,.json" onChange={handleFileChange} className="block w-full text-sm text-slate-700" />
+                    </div>
+
+                    {error && (
+                        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-sm text-red-800">{error}</div>
+                    )}
+
+                    {plan && (
+                        <div className="space-y-3">
+                            {/* The name comes from the archive, so it is rendered as text, never as markup */}
+                            <p className="text-sm text-slate-700">
+                                {t('importBoard_preview_intro').split('{boardName}').map((part, index) => (
+                                    <React.Fragment key={index}>
+                                        {index > 0 && <strong>{plan.board.name}</strong>}
+                                        {part}
+                                    </React.Fragment>
+                                ))}
+                            </p>
+                            <table className="min-w-full text-sm">
+                                <tbody className="divide-y divide-gray-200">
+                                    {(Object.keys(countLabels) as (keyof ArchiveCounts)[]).map(section => (
+                                        <tr key={section}>
+                                            <td className="py-1 text-slate-600">{countLabels[section]}</td>
+                                            <td className="py-1 text-end font-semibold text-slate-800">{plan.counts[section]}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                            {plan.warnings.length > 0 && (
+                                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md">
+                                    <p className="font-semibold text-sm text-yellow-800">{t('importBoard_warnings').replace('{count}', plan.warnings.length.toString())}</p>
+                                    <ul className="mt-1 text-xs text-yellow-800 list-disc list-inside max-h-32 overflow-y-auto">
+                                        {plan.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+                                    </ul>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </main>
+                <footer className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+                    <button onClick={onClose} className="py-2 px-4 border border-slate-400 rounded-md text-slate-800 hover:bg-slate-100">{t('cancel')}</button>
+                    <button onClick={() => plan && onConfirm(plan)} disabled={!plan} className="py-2 px-4 bg-[#486966] text-white rounded-md disabled:bg-gray-400">{t('importBoard_confirm_button')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
@@ -8,7 +8,7 @@ import { useLocale } from '../context/LocaleContext';
 
 interface InviteCodesTabProps {
     codes: InviteCode[];
-    onCreate: (invite: Omit<InviteCode, 'code' | 'createdBy' | 'createdAt' | 'uses'>) => void;
+    onCreate: (invite: Omit<InviteCode, 'code' | 'boardId' | 'createdBy' | 'createdAt' | 'uses'>) => void;
     onRevoke: (code: string) => void;
 }
 
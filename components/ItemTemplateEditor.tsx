@@ -0,0 +1,168 @@
+// components/ItemTemplateEditor.tsx
+import React, { useState } from 'react';
+import { isEqual } from 'lodash-es';
+import { Priority, Team, WorkItemTemplate, WorkItemType } from '../types';
+import { PRIORITIES, WORK_ITEM_TYPES } from '../constants';
+import { useLocale } from '../context/LocaleContext';
+import { useBoard } from '../context/BoardContext';
+import { useItemTemplates } from '../context/ItemTemplateContext';
+import { TEMPLATE_VARIABLES, newTemplate } from '../services/itemTemplates';
+import { LabelInput } from './LabelInput';
+import { ChecklistInput } from './ChecklistInput';
+import { RichTextEditor } from './RichTextEditor';
+import { PlusCircleIcon } from './icons';
+
+interface ItemTemplateEditorProps {
+    teams: Team[];
+}
+
+const inputClass = 'w-full px-2 py-1.5 text-sm border border-slate-300 rounded-md bg-white';
+
+// Epics and tickets are not created from the item editor, so they get no templates either.
+const TEMPLATE_TYPES = WORK_ITEM_TYPES.filter(type => type !== WorkItemType.EPIC && type !== WorkItemType.TICKET);
+
+export const ItemTemplateEditor: React.FC<ItemTemplateEditorProps> = ({ teams }) => {
+    const { t } = useLocale();
+    const { activeBoard, activeBoardMembers } = useBoard();
+    const { templates, saveTemplate, deleteTemplate } = useItemTemplates();
+    const [draft, setDraft] = useState<WorkItemTemplate | null>(null);
+    const [isDescriptionOverLimit, setIsDescriptionOverLimit] = useState(false);
+
+    const saved = draft ? templates.find(template => template.id === draft.id) : undefined;
+    const isDirty = !!draft && !isEqual(saved, draft);
+
+    const update = (changes: Partial<WorkItemTemplate>) => setDraft(prev => prev && { ...prev, ...changes });
+
+    const toggleAssignee = (userId: string) => {
+        if (!draft) return;
+        update({ assigneeIds: draft.assigneeIds.includes(userId) ? draft.assigneeIds.filter(id => id !== userId) : [...draft.assigneeIds, userId] });
+    };
+
+    const handleSave = () => {
+        if (!draft) return;
+        saveTemplate({ ...draft, name: draft.name.trim() });
+        setDraft(null);
+    };
+
+    const handleDelete = () => {
+        if (!draft) return;
+        if (saved) deleteTemplate(draft.id);
+        setDraft(null);
+    };
+
+    return (
+        <div className="space-y-3">
+            {templates.length > 0 ? (
+                <ul className="divide-y border rounded-md">
+                    {templates.map(template => (
+                        <li key={template.id}>
+                            <button
+                                type="button"
+                                onClick={() => setDraft(template)}
+                                className={`w-full flex items-center gap-2 px-3 py-2 text-sm text-start hover:bg-slate-50 ${draft?.id === template.id ? 'bg-slate-100' : ''}`}
+                            >
+                                <span className="font-medium text-slate-800">{template.name}</span>
+                                <span className="text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-600">{template.type}</span>
+                            </button>
+                        </li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-sm text-slate-500">{t('templates_none')}</p>
+            )}
+
+            {!draft && activeBoard && (
+                <button type="button" onClick={() => setDraft(newTemplate(activeBoard.id))} className="flex items-center gap-1 text-sm font-medium text-[#486966] hover:underline">
+                    <PlusCircleIcon className="w-4 h-4" />
+                    {t('templates_add')}
+                </button>
+            )}
+
+            {draft && (
+                <div className="p-3 border rounded-md space-y-3 bg-slate-50/60">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        <label className="space-y-1">
+                            <span className="text-xs font-medium text-slate-600">{t('templates_name')}</span>
+                            <input type="text" value={draft.name} onChange={e => update({ name: e.target.value })} className={inputClass} />
+                        </label>
+                        <label className="space-y-1">
+                            <span className="text-xs font-medium text-slate-600">{t('type')}</span>
+                            <select value={draft.type} onChange={e => update({ type: e.target.value as WorkItemType })} className={inputClass}>
+                                {TEMPLATE_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                            </select>
+                        </label>
+                        <label className="space-y-1">
+                            <span className="text-xs font-medium text-slate-600">{t('templates_titlePrefix')}</span>
+                            <input type="text" value={draft.titlePrefix} onChange={e => update({ titlePrefix: e.target.value })} placeholder={t('templates_titlePrefix_placeholder')} className={inputClass} />
+                        </label>
+                        <label className="space-y-1">
+                            <span className="text-xs font-medium text-slate-600">{t('priority')}</span>
+                            <select value={draft.priority} onChange={e => update({ priority: e.target.value as Priority })} className={inputClass}>
+                                {PRIORITIES.map(p => <option key={p} value={p}>{p}</option>)}
+                            </select>
+                        </label>
+                        <label className="space-y-1">
+                            <span className="text-xs font-medium text-slate-600">{t('team')}</span>
+                            <select value={draft.teamId || ''} onChange={e => update({ teamId: e.target.value || undefined })} className={inputClass}>
+                                <option value="">{t('noTeam')}</option>
+                                {teams.map(team => <option key={team.id} value={team.id}>{team.name}</option>)}
+                            </select>
+                        </label>
+                    </div>
+
+                    {activeBoardMembers.length > 0 && (
+                        <fieldset className="space-y-1">
+                            <legend className="text-xs font-medium text-slate-600">{t('templates_assignees')}</legend>
+                            <div className="flex flex-wrap gap-x-4 gap-y-1">
+                                {activeBoardMembers.map(({ user }) => (
+                                    <label key={user.id} className="flex items-center gap-1.5 text-sm text-slate-700">
+                                        <input type="checkbox" checked={draft.assigneeIds.includes(user.id)} onChange={() => toggleAssignee(user.id)} className="h-4 w-4 rounded border-gray-300 text-[#486966] focus:ring-[#486966]" />
+                                        {user.name}
+                                        {draft.assigneeIds[0] === user.id && <span className="text-xs text-amber-700">({t('templates_primary')})</span>}
+                                    </label>
+                                ))}
+                            </div>
+                        </fieldset>
+                    )}
+
+                    <div className="space-y-1">
+                        <span className="text-xs font-medium text-slate-600">{t('labels')}</span>
+                        <LabelInput labels={draft.labels} onChange={labels => update({ labels })} />
+                    </div>
+
+                    <div className="space-y-1">
+                        <span className="text-xs font-medium text-slate-600">{t('checklist')}</span>
+                        <ChecklistInput items={draft.checklist} onChange={checklist => update({ checklist })} />
+                    </div>
+
+                    <div className="space-y-1">
+                        <span className="text-xs font-medium text-slate-600">{t('description')}</span>
+                        <RichTextEditor key={draft.id} value={draft.description} onChange={(description: string) => update({ description })} onValidityChange={setIsDescriptionOverLimit} />
+                    </div>
+
+                    <p className="text-xs text-slate-500">
+                        {t('templates_placeholders').replace('{variables}', TEMPLATE_VARIABLES.map(name => `{${name}}`).join(', '))}
+                    </p>
+
+                    <div className="flex flex-wrap gap-2">
+                        <button
+                            onClick={handleSave}
+                            disabled={!isDirty || !draft.name.trim() || isDescriptionOverLimit}
+                            className="py-2 px-4 text-sm font-medium rounded-md text-white bg-[#486966] hover:bg-[#3a5a58] disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {t('templates_save')}
+                        </button>
+                        <button onClick={() => setDraft(null)} className="py-2 px-4 text-sm font-medium rounded-md border border-slate-400 text-slate-800 hover:bg-slate-100">
+                            {t('cancel')}
+                        </button>
+                        {saved && (
+                            <button onClick={handleDelete} className="ms-auto py-2 px-4 text-sm font-medium rounded-md text-red-700 border border-red-300 hover:bg-red-50">
+                                {t('templates_delete')}
+                            </button>
+                        )}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
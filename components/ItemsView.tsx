@@ -1,10 +1,15 @@
 // components/ItemsView.tsx
-import React, { useState, useMemo, useEffect } from 'react';
-import { WorkItem, Epic, Sprint, SprintState, User, WorkItemType, Status } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { WorkItem, Epic, Sprint, SprintState, Team, User, WorkItemType } from '../types';
 import { useLocale } from '../context/LocaleContext';
 import { useAuth } from '../context/AuthContext';
+import { useBoard } from '../context/BoardContext';
+import { useWorkflow } from '../context/WorkflowContext';
 import { MagnifyingGlassIcon, MountainIcon, MilestoneIcon } from './icons';
-import { KANBAN_COLUMNS, WORK_ITEM_TYPES } from '../constants';
+import { WORK_ITEM_TYPES } from '../constants';
+import { rankAtBottom, rankAtTop, rankBefore, sortByRank } from '../services/ranking';
+import { BulkEdit, BulkEditResult, planBulkEdit } from '../services/bulkEdit';
+import { BulkEditBar, BulkEditSummary } from './BulkEditBar';
 
 const useDebounce = <T,>(value: T, delay: number): T => {
     const [debouncedValue, setDebouncedValue] = useState<T>(value);
@@ -49,18 +54,38 @@ interface ItemsViewProps {
     workItems: WorkItem[];
     epics: Epic[];
     sprints: Sprint[];
-    onItemUpdate: (item: WorkItem) => void;
+    teams: Team[];
+    onItemUpdate: (item: WorkItem, base?: WorkItem) => void;
+    // Saves a bulk edit's changed items as one undoable change.
+    onBulkUpdate: (items: WorkItem[]) => void;
     onSelectWorkItem: (workItem: WorkItem) => void;
+    onImportCsv: () => void;
 }
 
-export const ItemsView: React.FC<ItemsViewProps> = ({ workItems, epics, sprints, onItemUpdate, onSelectWorkItem }) => {
+const SelectAllCheckbox: React.FC<{ checked: boolean; indeterminate: boolean; onChange: () => void; label: string }> = ({ checked, indeterminate, onChange, label }) => {
+    const ref = useRef<HTMLInputElement>(null);
+    useEffect(() => {
+        if (ref.current) ref.current.indeterminate = indeterminate;
+    }, [indeterminate]);
+    return <input ref={ref} type="checkbox" checked={checked} onChange={onChange} aria-label={label} className="rounded border-slate-300" />;
+};
+
+export const ItemsView: React.FC<ItemsViewProps> = ({ workItems, epics, sprints, teams, onItemUpdate, onBulkUpdate, onSelectWorkItem, onImportCsv }) => {
     const { t } = useLocale();
+    const { user } = useAuth();
+    const { workflow, statuses, statusName } = useWorkflow();
+    const { can } = useBoard();
+    const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+    // The row a shift-click selects from.
+    const [selectionAnchor, setSelectionAnchor] = useState<string | null>(null);
+    const [bulkOutcome, setBulkOutcome] = useState<{ edit: BulkEdit; result: BulkEditResult } | null>(null);
     const [searchQuery, setSearchQuery] = useState('');
     const [editingCell, setEditingCell] = useState<{ itemId: string; column: 'epic' | 'sprint' } | null>(null);
     
     const [quickScope, setQuickScope] = useState<'ALL' | 'NO_EPIC' | 'WITH_EPIC'>('ALL');
     const [typeFilter, setTypeFilter] = useState<string>('ALL');
     const [statusFilter, setStatusFilter] = useState<string>('ALL');
+    const [sortBy, setSortBy] = useState<'rank' | 'updatedAt'>('rank');
 
     const debouncedSearch = useDebounce(searchQuery, 300);
 
@@ -93,10 +118,33 @@ export const ItemsView: React.FC<ItemsViewProps> = ({ workItems, epics, sprints,
             );
         }
         
+        if (sortBy === 'rank') return sortByRank(items);
         // Sort by updatedAt descending
         return items.sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime());
 
-    }, [workItems, debouncedSearch, quickScope, typeFilter, statusFilter]);
+    }, [workItems, debouncedSearch, quickScope, typeFilter, statusFilter, sortBy]);
+
+    // Reordering works on the whole board's order, so an item dropped on a row lands right above it
+    // even when filters hide the items in between.
+    const rankedItems = useMemo(() => sortByRank(workItems), [workItems]);
+
+    const handleRowDrop = (e: React.DragEvent, target: WorkItem) => {
+        e.preventDefault();
+        const item = workItems.find(i => i.id === e.dataTransfer.getData('workItemId'));
+        if (!item || item.id === target.id) return;
+        const index = rankedItems.findIndex(i => i.id === item.id);
+        if (rankedItems[index + 1]?.id === target.id) return;
+        onItemUpdate({ ...item, rank: rankBefore(workItems, item.id, target.id) }, item);
+    };
+
+    // Alt+Up and Alt+Down move the item to the top or bottom of the list.
+    const handleRowKeyDown = (e: React.KeyboardEvent, item: WorkItem) => {
+        if (sortBy !== 'rank' || !e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+        e.preventDefault();
+        const toTop = e.key === 'ArrowUp';
+        if ((toTop ? rankedItems[0] : rankedItems[rankedItems.length - 1])?.id === item.id) return;
+        onItemUpdate({ ...item, rank: toTop ? rankAtTop(workItems, item.id) : rankAtBottom(workItems, item.id) }, item);
+    };
 
     const handleInlineSave = (item: WorkItem, column: 'epic' | 'sprint', value: string) => {
         let updatedItem = { ...item };
@@ -106,16 +154,59 @@ export const ItemsView: React.FC<ItemsViewProps> = ({ workItems, epics, sprints,
         } else if (column === 'sprint') {
             updatedItem = { ...updatedItem, sprintId: value || undefined };
         }
-        onItemUpdate(updatedItem);
+        onItemUpdate(updatedItem, item);
         setEditingCell(null);
     };
 
+    const selectedItems = useMemo(() => rankedItems.filter(item => selectedIds.has(item.id)), [rankedItems, selectedIds]);
+    const filteredSelectedCount = filteredItems.filter(item => selectedIds.has(item.id)).length;
+    const allFilteredSelected = filteredItems.length > 0 && filteredSelectedCount === filteredItems.length;
+
+    const handleToggleAllFiltered = () => {
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            filteredItems.forEach(item => allFilteredSelected ? next.delete(item.id) : next.add(item.id));
+            return next;
+        });
+    };
+
+    // Shift-click sets every row between the anchor and this one to this row's new state.
+    const handleToggleRow = (item: WorkItem, shiftKey: boolean) => {
+        const select = !selectedIds.has(item.id);
+        const anchorIndex = selectionAnchor ? filteredItems.findIndex(i => i.id === selectionAnchor) : -1;
+        const index = filteredItems.findIndex(i => i.id === item.id);
+        const range = shiftKey && anchorIndex !== -1
+            ? filteredItems.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1)
+            : [item];
+        setSelectedIds(prev => {
+            const next = new Set(prev);
+            range.forEach(i => select ? next.add(i.id) : next.delete(i.id));
+            return next;
+        });
+        setSelectionAnchor(item.id);
+    };
+
+    const canEdit = (item: WorkItem) => can('item.edit.any') || (can('item.edit.own') && item.assignee?.id === user?.id);
+
+    const handleBulkApply = (edit: BulkEdit) => {
+        const result = planBulkEdit(selectedItems, edit, { workflow, canEdit, boardItems: workItems });
+        if (result.updated.length > 0) onBulkUpdate(result.updated);
+        setBulkOutcome({ edit, result });
+    };
+
     const selectableSprints = useMemo(() => sprints.filter(s => s.state === SprintState.ACTIVE || s.state === SprintState.PLANNED), [sprints]);
     
     return (
         <div className="p-4 bg-white rounded-lg shadow h-full flex flex-col">
             <header className="flex-shrink-0 pb-4 border-b">
-                <h2 className="text-xl font-bold text-[#3B3936]">{t('itemsView')}</h2>
+                <div className="flex items-center justify-between">
+                    <h2 className="text-xl font-bold text-[#3B3936]">{t('itemsView')}</h2>
+                    {can('item.create') && (
+                        <button onClick={onImportCsv} className="py-2 px-4 text-sm font-medium rounded-md border border-slate-400 text-slate-800 hover:bg-slate-100">
+                            {t('csvImport_button')}
+                        </button>
+                    )}
+                </div>
                 <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
                      <div className="flex items-center gap-2">
                         <QuickScopePill label={t('items_quickScope_all')} isActive={quickScope === 'ALL'} onClick={() => setQuickScope('ALL')} />
@@ -129,7 +220,11 @@ export const ItemsView: React.FC<ItemsViewProps> = ({ workItems, epics, sprints,
                         </select>
                         <select value={statusFilter} onChange={e => setStatusFilter(e.target.value)} className="text-sm px-3 py-2 bg-white border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary">
                             <option value="ALL">{t('all_statuses')}</option>
-                            {KANBAN_COLUMNS.map(col => <option key={col.status} value={col.status}>{col.title}</option>)}
+                            {statuses.map(status => <option key={status.id} value={status.id}>{status.name}</option>)}
+                        </select>
+                        <select value={sortBy} onChange={e => setSortBy(e.target.value as 'rank' | 'updatedAt')} title={sortBy === 'rank' ? t('items_sort_rankHint') : undefined} className="text-sm px-3 py-2 bg-white border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary">
+                            <option value="rank">{t('items_sort_rank')}</option>
+                            <option value="updatedAt">{t('items_sort_updated')}</option>
                         </select>
                         <div className="relative w-full sm:w-64">
                             <MagnifyingGlassIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400" />
@@ -144,11 +239,42 @@ export const ItemsView: React.FC<ItemsViewProps> = ({ workItems, epics, sprints,
                     </div>
                 </div>
             </header>
+
+            {(selectedItems.length > 0 || bulkOutcome) && (
+                <div className="flex-shrink-0 mt-4 space-y-2">
+                    {selectedItems.length > 0 && (
+                        <BulkEditBar
+                            selectedCount={selectedItems.length}
+                            epics={epics}
+                            sprints={selectableSprints}
+                            teams={teams}
+                            onApply={handleBulkApply}
+                            onClearSelection={() => { setSelectedIds(new Set()); setSelectionAnchor(null); }}
+                        />
+                    )}
+                    {bulkOutcome && (
+                        <BulkEditSummary
+                            edit={bulkOutcome.edit}
+                            result={bulkOutcome.result}
+                            onSelectWorkItem={onSelectWorkItem}
+                            onDismiss={() => setBulkOutcome(null)}
+                        />
+                    )}
+                </div>
+            )}
             
             <div className="flex-1 overflow-auto mt-4">
                 <table className="min-w-full divide-y divide-gray-200">
                     <thead className="bg-gray-50 sticky top-0">
                         <tr>
+                            <th scope="col" className="px-3 py-3 w-8">
+                                <SelectAllCheckbox
+                                    checked={allFilteredSelected}
+                                    indeterminate={filteredSelectedCount > 0 && !allFilteredSelected}
+                                    onChange={handleToggleAllFiltered}
+                                    label={t('bulk_selectAllFiltered')}
+                                />
+                            </th>
                             {['ID', t('title'), t('type'), t('status'), t('assignee'), t('epic'), t('sprint'), t('priority'), t('lastModified')].map(header => (
                                 <th key={header} scope="col" className="px-3 py-3 text-start text-xs font-medium text-gray-500 uppercase tracking-wider">{header}</th>
                             ))}
@@ -156,11 +282,31 @@ export const ItemsView: React.FC<ItemsViewProps> = ({ workItems, epics, sprints,
                     </thead>
                     <tbody className="bg-white divide-y divide-gray-200">
                         {filteredItems.map(item => (
-                            <tr key={item.id} onClick={() => onSelectWorkItem(item)} className="cursor-pointer hover:bg-slate-50">
+                            <tr
+                                key={item.id}
+                                onClick={() => onSelectWorkItem(item)}
+                                draggable={sortBy === 'rank'}
+                                tabIndex={sortBy === 'rank' ? 0 : undefined}
+                                aria-keyshortcuts={sortBy === 'rank' ? 'Alt+ArrowUp Alt+ArrowDown' : undefined}
+                                onDragStart={e => e.dataTransfer.setData('workItemId', item.id)}
+                                onDragOver={e => sortBy === 'rank' && e.preventDefault()}
+                                onDrop={e => handleRowDrop(e, item)}
+                                onKeyDown={e => handleRowKeyDown(e, item)}
+                                className="cursor-pointer hover:bg-slate-50 focus:outline-none focus-visible:bg-slate-100"
+                            >
+                                <td className="px-3 py-2" onClick={e => e.stopPropagation()}>
+                                    <input
+                                        type="checkbox"
+                                        checked={selectedIds.has(item.id)}
+                                        onChange={e => handleToggleRow(item, (e.nativeEvent as MouseEvent).shiftKey)}
+                                        aria-label={t('bulk_selectItem').replace('{itemId}', item.id)}
+                                        className="rounded border-slate-300"
+                                    />
+                                </td>
                                 <td className="px-3 py-2 whitespace-nowrap text-xs font-medium text-gray-500">{item.id}</td>
                                 <td className="px-3 py-2 whitespace-nowrap text-sm font-medium text-gray-900 max-w-xs truncate">{item.title}</td>
                                 <td className="px-3 py-2 whitespace-nowrap text-sm text-gray-500">{item.type}</td>
-                                <td className="px-3 py-2 whitespace-nowrap text-xs"><span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-800">{item.status}</span></td>
+                                <td className="px-3 py-2 whitespace-nowrap text-xs"><span className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-800">{statusName(item.status)}</span></td>
                                 <td className="px-3 py-2 whitespace-nowrap"><AssigneeAvatars assignees={item.assignees} /></td>
                                 <td className="px-3 py-2 whitespace-nowrap text-sm" onClick={e => e.stopPropagation()}>
                                     {editingCell?.itemId === item.id && editingCell?.column === 'epic' ? (
@@ -1,36 +1,70 @@
 import React, { useMemo, useState, useEffect } from 'react';
-import { WorkItem, Status, Epic, Sprint, FilterSet, WorkItemType, EpicStatus } from '../types';
+import { WorkItem, Epic, Sprint, FilterSet, WorkItemType, EpicStatus, BoardStatus, KanbanGroupBy, Team, NewItemOptions } from '../types';
 import { WorkItemCard } from './WorkItemCard';
-import { KANBAN_COLUMNS, WORKFLOW_RULES } from '../constants';
+import { useWorkflow } from '../context/WorkflowContext';
+import { useBoard } from '../context/BoardContext';
 import { useLocale } from '../context/LocaleContext';
 import { useNavigation } from '../context/NavigationContext';
-import { MountainIcon, ChevronRightIcon } from './icons';
+import { MountainIcon, ChevronRightIcon, XMarkIcon, PlusCircleIcon } from './icons';
 import { BugPoolSection } from './BugPoolSection';
+import { WipLimitModal } from './WipLimitModal';
+import { GuardViolationList } from './GuardViolationList';
+import { NewItemMenu } from './NewItemMenu';
+import { GuardViolation } from '../services/transitionGuards';
+import { WipBreach, findWipBreaches } from '../services/wipLimits';
+import { rankAtBottom, rankAtTop, rankBefore, sortByRank } from '../services/ranking';
+import { openBlockersByItem, outsideSprintBlockers } from '../services/itemLinks';
+import { subtaskProgressByParent } from '../services/subtasks';
+import { BoardMoveOptions, NO_LANE, SwimlaneField, buildSwimlanes, isSwimlaneField, laneChanges } from '../services/swimlanes';
 
 interface KanbanBoardProps {
   workItems: WorkItem[];
+  allWorkItems: WorkItem[]; // The whole board, unfiltered: for blockers outside the shown items and WIP limits
   onSelectWorkItem: (workItem: WorkItem) => void;
-  onItemStatusChange: (itemId: string, newStatus: Status) => void;
-  groupBy: 'status' | 'epic';
+  onEditWorkItem: (workItem: WorkItem, highlight?: string) => void;
+  onItemStatusChange: (itemId: string, newStatus: string, options?: BoardMoveOptions) => void;
+  groupBy: KanbanGroupBy;
   epics: Epic[];
+  teams: Team[];
   collapsedEpics: Set<string>;
   onToggleEpic: (epicId: string) => void;
   activeSprint: Sprint | null;
   filterSet: FilterSet;
-  onNewItem: (options?: { epicId?: string; }) => void;
+  onNewItem: (options?: NewItemOptions) => void;
 }
 
-const EpicGroupHeader: React.FC<{ epic?: Epic; onToggle: () => void; isCollapsed: boolean, itemsCount: number }> = ({ epic, onToggle, isCollapsed, itemsCount }) => {
+const EpicGroupHeader: React.FC<{ epic?: Epic; onToggle: () => void; isCollapsed: boolean, itemsCount: number, onNewItem?: (templateId?: string) => void }> = ({ epic, onToggle, isCollapsed, itemsCount, onNewItem }) => {
     const { t } = useLocale();
     return (
-        <button 
-            onClick={onToggle} 
+        <div className="flex items-center border-b">
+            <button 
+                onClick={onToggle} 
+                className="flex-1 flex items-center gap-3 text-start p-2 hover:bg-slate-100"
+            >
+                 <ChevronRightIcon className={`h-4 w-4 transition-transform text-slate-500 rtl:scale-x-[-1] ${isCollapsed ? '' : 'rotate-90'}`} />
+                {epic ? <div className="w-2 h-5 rounded-full" style={{backgroundColor: epic.color}}></div> : <MountainIcon className="w-5 h-5 text-slate-500" />}
+                <span className="font-semibold text-slate-800 text-sm">{epic ? epic.name : t('kanban_itemsWithoutEpic')}</span>
+                <span className="text-xs font-normal text-slate-500">({itemsCount})</span>
+            </button>
+            {onNewItem && (
+                <NewItemMenu onNewItem={onNewItem} className="p-1.5 me-1 rounded-md text-slate-500 hover:bg-slate-200" title={t('kanban_newItemInEpic')}>
+                    <PlusCircleIcon className="w-4 h-4" />
+                </NewItemMenu>
+            )}
+        </div>
+    );
+};
+
+const SwimlaneHeader: React.FC<{ label: string; onToggle: () => void; isCollapsed: boolean; itemsCount: number; points: number }> = ({ label, onToggle, isCollapsed, itemsCount, points }) => {
+    const { t } = useLocale();
+    return (
+        <button
+            onClick={onToggle}
             className="w-full flex items-center gap-3 text-start p-2 border-b hover:bg-slate-100"
         >
-             <ChevronRightIcon className={`h-4 w-4 transition-transform text-slate-500 rtl:scale-x-[-1] ${isCollapsed ? '' : 'rotate-90'}`} />
-            {epic ? <div className="w-2 h-5 rounded-full" style={{backgroundColor: epic.color}}></div> : <MountainIcon className="w-5 h-5 text-slate-500" />}
-            <span className="font-semibold text-slate-800 text-sm">{epic ? epic.name : t('kanban_itemsWithoutEpic')}</span>
-            <span className="text-xs font-normal text-slate-500">({itemsCount})</span>
+            <ChevronRightIcon className={`h-4 w-4 transition-transform text-slate-500 rtl:scale-x-[-1] ${isCollapsed ? '' : 'rotate-90'}`} />
+            <span className="font-semibold text-slate-800 text-sm">{label}</span>
+            <span className="text-xs font-normal text-slate-500">({itemsCount}) · {t('kanban_lane_points').replace('{points}', points.toString())}</span>
         </button>
     );
 };
@@ -38,10 +72,13 @@ const EpicGroupHeader: React.FC<{ epic?: Epic; onToggle: () => void; isCollapsed
 
 export const KanbanBoard: React.FC<KanbanBoardProps> = ({ 
     workItems, 
+    allWorkItems,
     onSelectWorkItem,
+    onEditWorkItem,
     onItemStatusChange, 
     groupBy, 
     epics, 
+    teams,
     collapsedEpics, 
     onToggleEpic, 
     activeSprint,
@@ -50,6 +87,13 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
 }) => {
   const { t } = useLocale();
   const { setCurrentView } = useNavigation();
+  const { workflow, statuses, canTransition, guardViolations, statusName, statusCategory } = useWorkflow();
+  const { can, activeBoardMembers } = useBoard();
+  // A drop past a WIP limit, waiting for the user to give a reason or back out.
+  const [pendingMove, setPendingMove] = useState<{ item: WorkItem; toStatus: string; changes?: Partial<WorkItem>; breaches: WipBreach[] } | null>(null);
+  // The last drop a transition guard stopped, shown above the columns until fixed or dismissed.
+  const [blockedMove, setBlockedMove] = useState<{ item: WorkItem; toStatus: string; violations: GuardViolation[] } | null>(null);
+  const [collapsedLanes, setCollapsedLanes] = useState<Set<string>>(new Set());
 
   // All hooks must be called at the top of the component, before any conditional returns.
   const [isBugPoolCollapsed, setIsBugPoolCollapsed] = useState(() => {
@@ -65,9 +109,12 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
     localStorage.setItem('bugPoolCollapsed', JSON.stringify(isBugPoolCollapsed));
   }, [isBugPoolCollapsed]);
 
+  // Cards show in their manual order in every column, lane and epic group.
+  const rankedItems = useMemo(() => sortByRank(workItems), [workItems]);
+
   const bugItems = useMemo(() =>
-    workItems.filter(item => item.type === WorkItemType.BUG_MINOR || item.type === WorkItemType.BUG_URGENT),
-  [workItems]);
+    rankedItems.filter(item => item.type === WorkItemType.BUG_MINOR || item.type === WorkItemType.BUG_URGENT),
+  [rankedItems]);
 
   const showBugPool = useMemo(() => {
     // FIX: Corrected property access from filterSet.type to filterSet.typeIds.
@@ -85,7 +132,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
         const grouped: Record<string, WorkItem[]> = { 'no-epic': [] };
         epics.forEach(e => grouped[e.id] = []);
         
-        workItems.forEach(item => {
+        rankedItems.forEach(item => {
             if (item.epicId && grouped.hasOwnProperty(item.epicId)) {
                 grouped[item.epicId].push(item);
             } else {
@@ -93,7 +140,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
             }
         });
         return grouped;
-    }, [workItems, epics]);
+    }, [rankedItems, epics]);
 
     const epicsWithItems = useMemo(() => {
         return epics
@@ -101,6 +148,15 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
             .sort((a,b) => b.iceScore - a.iceScore);
     }, [epics, itemsByEpic]);
 
+    const blockers = useMemo(() => openBlockersByItem(allWorkItems, statusCategory), [allWorkItems, statusCategory]);
+    const subtaskProgress = useMemo(() => subtaskProgressByParent(allWorkItems, statusCategory), [allWorkItems, statusCategory]);
+
+    const sprintDependencies = useMemo(() => activeSprint ? outsideSprintBlockers(activeSprint.id, allWorkItems, statusCategory) : [], [activeSprint, allWorkItems, statusCategory]);
+
+    const laneSources = useMemo(() => ({ members: activeBoardMembers.map(m => m.user), teams }), [activeBoardMembers, teams]);
+
+    const swimlanes = useMemo(() => isSwimlaneField(groupBy) ? buildSwimlanes(rankedItems, groupBy, laneSources) : [], [rankedItems, groupBy, laneSources]);
+
   // Conditional returns are now safe after all hooks have been called.
   if (!activeSprint) {
         return (
@@ -123,41 +179,147 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
                 <div className="text-center p-8 bg-white/60 rounded-lg">
                     <h3 className="text-base font-semibold text-slate-800">{t('kanban_emptySprint_title')}</h3>
                     <p className="mt-2 text-sm text-slate-600">{t('kanban_emptySprint_body')}</p>
-                    <button onClick={() => onNewItem()} className="mt-4 py-2 px-4 text-sm font-medium rounded-md text-white bg-[#486966] hover:bg-[#3a5a58]">
-                        {t('newItem')}
-                    </button>
+                    <div className="mt-4 flex justify-center">
+                        <NewItemMenu onNewItem={templateId => onNewItem({ templateId })} className="py-2 px-4 text-sm font-medium rounded-md text-white bg-[#486966] hover:bg-[#3a5a58]">
+                            {t('newItem')}
+                        </NewItemMenu>
+                    </div>
                 </div>
             </div>
         );
     }
 
-  const onDragStart = (e: React.DragEvent, id: string) => {
+  const onDragStart = (e: React.DragEvent, id: string, laneId?: string) => {
     e.dataTransfer.setData('workItemId', id);
+    if (laneId !== undefined) e.dataTransfer.setData('laneId', laneId);
   };
 
+  // Alt+Up and Alt+Down move the card to the top or bottom of its column.
+  const onCardKeyDown = (e: React.KeyboardEvent, item: WorkItem) => {
+    if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+    e.preventDefault();
+    const column = rankedItems.filter(i => i.status === item.status);
+    const toTop = e.key === 'ArrowUp';
+    if ((toTop ? column[0] : column[column.length - 1])?.id === item.id) return;
+    onItemStatusChange(item.id, item.status, { changes: { rank: toTop ? rankAtTop(column, item.id) : rankAtBottom(column, item.id) } });
+  };
+
+  const renderCard = (item: WorkItem, laneId?: string) => (
+    <div
+        key={item.id}
+        draggable
+        tabIndex={0}
+        aria-keyshortcuts="Alt+ArrowUp Alt+ArrowDown"
+        onDragStart={(e) => onDragStart(e, item.id, laneId)}
+        onDragOver={onDragOver}
+        onDrop={(e) => onDrop(e, item.status, laneId, item.id)}
+        onKeyDown={(e) => onCardKeyDown(e, item)}
+        className="rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+    >
+        <WorkItemCard workItem={item} onSelect={() => onSelectWorkItem(item)} blockedBy={blockers.get(item.id)} subtasks={subtaskProgress.get(item.id)} />
+    </div>
+  );
+
   const onDragOver = (e: React.DragEvent) => {
     e.preventDefault();
   };
 
-  const onDrop = (e: React.DragEvent, newStatus: Status) => {
+  // `toLane` is set for drops into a swimlane: a card from another lane takes that lane's value.
+  // `beforeItemId` is the card it was dropped on; it lands just above it, or at the bottom of the column.
+  const onDrop = (e: React.DragEvent, newStatus: string, toLane?: string, beforeItemId?: string) => {
     e.preventDefault();
     e.stopPropagation();
     const workItemId = e.dataTransfer.getData('workItemId');
     const item = workItems.find((i) => i.id === workItemId);
     
-    if (!item) return;
+    if (!item || beforeItemId === item.id) return;
+
+    const fromLane = e.dataTransfer.getData('laneId');
+    const changes = toLane !== undefined && isSwimlaneField(groupBy) ? laneChanges(item, groupBy as SwimlaneField, fromLane, toLane, laneSources) : {};
+    const column = rankedItems.filter(i => i.status === newStatus);
+    const index = column.findIndex(i => i.id === item.id);
+    if (index === -1 || column[index + 1]?.id !== beforeItemId) {
+        changes.rank = rankBefore(column, item.id, beforeItemId);
+    }
+    const hasChanges = Object.keys(changes).length > 0;
+    if (item.status === newStatus && !hasChanges) return;
 
-    const allowedTransitions = WORKFLOW_RULES[item.status];
-    if (allowedTransitions && allowedTransitions.includes(newStatus)) {
-        onItemStatusChange(workItemId, newStatus);
-    } else if (item.status !== newStatus) {
+    if (item.status !== newStatus && !canTransition(item, newStatus)) {
         console.warn("Invalid status transition attempted.");
+        return;
+    }
+    const violations = guardViolations({ ...item, ...changes }, newStatus, allWorkItems);
+    if (violations.length > 0) {
+        setBlockedMove({ item, toStatus: newStatus, violations });
+        return;
     }
+    setBlockedMove(null);
+    // Limits count the board's load, not just the cards a search or filter leaves on screen.
+    const breaches = findWipBreaches(workflow, allWorkItems, item, { ...item, ...changes, status: newStatus });
+    if (breaches.length > 0) {
+        setPendingMove({ item, toStatus: newStatus, changes: hasChanges ? changes : undefined, breaches });
+    } else {
+        onItemStatusChange(workItemId, newStatus, hasChanges ? { changes } : undefined);
+    }
+  };
+
+  const wipLimitModal = pendingMove && (
+    <WipLimitModal
+        itemTitle={pendingMove.item.title}
+        toStatus={pendingMove.toStatus}
+        breaches={pendingMove.breaches}
+        canOverride={workflow.wip.enforcement === 'warn' || can('sprint.manage')}
+        onConfirm={reason => {
+            onItemStatusChange(pendingMove.item.id, pendingMove.toStatus, { changes: pendingMove.changes, wipOverride: { reason, breaches: pendingMove.breaches } });
+            setPendingMove(null);
+        }}
+        onCancel={() => setPendingMove(null)}
+    />
+  );
+
+  const blockedMoveNotice = blockedMove && (
+    <div role="alert" className="p-3 border border-red-200 bg-red-50 rounded-lg">
+        <div className="flex items-center justify-between gap-2 mb-1">
+            <p className="text-sm font-semibold text-red-800">{t('guard_blocked').replace('{title}', blockedMove.item.title).replace('{status}', statusName(blockedMove.toStatus))}</p>
+            <button type="button" onClick={() => setBlockedMove(null)} className="p-1 rounded-full hover:bg-red-100">
+                <XMarkIcon className="w-4 h-4 text-red-700" />
+            </button>
+        </div>
+        <GuardViolationList
+            violations={blockedMove.violations}
+            onFix={field => { onEditWorkItem(blockedMove.item, field); setBlockedMove(null); }}
+        />
+    </div>
+  );
+
+  const sprintDependencyNotice = sprintDependencies.length > 0 && (
+    <details className="p-3 border border-amber-200 bg-amber-50 rounded-lg text-sm">
+        <summary className="cursor-pointer font-semibold text-amber-800">{t('links_sprintWarning').replace('{count}', new Set(sprintDependencies.map(d => d.item.id)).size.toString())}</summary>
+        <ul className="mt-2 space-y-1 text-amber-900">
+            {sprintDependencies.map(({ item, blocker }) => (
+                <li key={`${item.id}-${blocker.id}`}>
+                    <button type="button" onClick={() => onSelectWorkItem(item)} className="hover:underline">{item.id}</button>
+                    {' ← '}
+                    <button type="button" onClick={() => onSelectWorkItem(blocker)} className="hover:underline">{blocker.id} {blocker.title}</button>
+                </li>
+            ))}
+        </ul>
+    </details>
+  );
+
+  const columnCount = (column: BoardStatus) => {
+    // A limited column shows its load on the whole board, as the limit counts it; others, the cards shown.
+    if (column.wipLimit === undefined) return <span className="text-sm font-normal text-slate-500">({workItems.filter(item => item.status === column.id).length})</span>;
+    const count = allWorkItems.filter(item => item.status === column.id).length;
+    const color = count > column.wipLimit ? 'text-red-600 font-semibold' : count === column.wipLimit ? 'text-amber-600' : 'text-slate-500';
+    return <span className={`text-sm font-normal ${color}`} title={t('wip_columnLimit')}>({count}/{column.wipLimit})</span>;
   };
   
   if (groupBy === 'status') {
     return (
         <div className="flex-1 flex flex-col gap-3">
+            {blockedMoveNotice}
+            {sprintDependencyNotice}
             {showBugPool && (
                  <BugPoolSection
                     isCollapsed={isBugPoolCollapsed}
@@ -169,30 +331,81 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
                     onDrop={onDrop}
                 />
             )}
-            <div className="flex-1 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3">
-            {KANBAN_COLUMNS.map((column) => (
+            <div className="flex-1 grid grid-flow-col auto-cols-[minmax(14rem,1fr)] overflow-x-auto gap-3">
+            {statuses.map((column) => (
                 <div
-                    key={column.status}
+                    key={column.id}
                     className="bg-slate-100/70 rounded-lg p-2 flex flex-col"
                     onDragOver={onDragOver}
-                    onDrop={(e) => onDrop(e, column.status)}
+                    onDrop={(e) => onDrop(e, column.id)}
                 >
-                    <h2 className="text-base font-semibold text-slate-700 mb-3 px-1">{column.title} <span className="text-sm font-normal text-slate-500">({workItems.filter(item => item.status === column.status).length})</span></h2>
+                    <h2 className="text-base font-semibold text-slate-700 mb-3 px-1">{column.name} {columnCount(column)}</h2>
                     <div className="flex-1 space-y-2 overflow-y-auto h-full pr-1">
-                        {workItems
-                        .filter((item) => item.status === column.status)
-                        .map((item) => (
-                            <div key={item.id} draggable onDragStart={(e) => onDragStart(e, item.id)}>
-                                <WorkItemCard 
-                                    workItem={item} 
-                                    onSelect={() => onSelectWorkItem(item)}
-                                />
-                            </div>
-                        ))}
+                        {rankedItems
+                        .filter((item) => item.status === column.id)
+                        .map((item) => renderCard(item))}
                     </div>
                 </div>
             ))}
             </div>
+            {wipLimitModal}
+        </div>
+    );
+  }
+
+  if (isSwimlaneField(groupBy)) {
+    const noLaneLabels: Record<SwimlaneField, string> = {
+        assignee: t('kanban_lane_unassigned'),
+        priority: t('kanban_lane_none'),
+        team: t('kanban_lane_noTeam'),
+        type: t('kanban_lane_none'),
+        label: t('kanban_lane_noLabel'),
+    };
+    const toggleLane = (key: string) => setCollapsedLanes(prev => {
+        const next = new Set(prev);
+        if (next.has(key)) next.delete(key); else next.add(key);
+        return next;
+    });
+    return (
+        <div className="flex-1 flex flex-col gap-3">
+            {blockedMoveNotice}
+            {sprintDependencyNotice}
+            {showBugPool && (
+                <BugPoolSection
+                    isCollapsed={isBugPoolCollapsed}
+                    onToggle={() => setIsBugPoolCollapsed(prev => !prev)}
+                    bugItems={bugItems}
+                    onSelectWorkItem={onSelectWorkItem}
+                    onDragStart={onDragStart}
+                    onDragOver={onDragOver}
+                    onDrop={onDrop}
+                />
+            )}
+            {swimlanes.map(lane => {
+                const key = `${groupBy}:${lane.id}`;
+                const isCollapsed = collapsedLanes.has(key);
+                return (
+                    <div key={lane.id} className="bg-white/80 rounded-lg">
+                        <SwimlaneHeader label={lane.id === NO_LANE ? noLaneLabels[groupBy] : lane.label} onToggle={() => toggleLane(key)} isCollapsed={isCollapsed} itemsCount={lane.items.length} points={lane.points} />
+                        {!isCollapsed && (
+                            <div className="grid grid-flow-col auto-cols-[minmax(14rem,1fr)] overflow-x-auto gap-3 p-2">
+                                {statuses.map(col => (
+                                    <div key={col.id} className="bg-slate-100/50 rounded p-2 min-h-[80px]" onDragOver={onDragOver} onDrop={(e) => onDrop(e, col.id, lane.id)}>
+                                        <h3 className="text-xs font-semibold text-slate-600 mb-2 px-1">{col.name} <span className="font-normal text-slate-500">({lane.items.filter(i => i.status === col.id).length})</span></h3>
+                                        <div className="space-y-2">
+                                            {lane.items
+                                                .filter(item => item.status === col.id)
+                                                .map(item => renderCard(item, lane.id))
+                                            }
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+            {wipLimitModal}
         </div>
     );
   }
@@ -201,6 +414,8 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
 
   return (
     <div className="flex-1 flex flex-col gap-3">
+        {blockedMoveNotice}
+        {sprintDependencyNotice}
         {showBugPool && (
             <BugPoolSection
                 isCollapsed={isBugPoolCollapsed}
@@ -216,16 +431,22 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
             const isCollapsed = collapsedEpics.has(epic.id);
             return (
                 <div key={epic.id} className="bg-white/80 rounded-lg">
-                    <EpicGroupHeader epic={epic} onToggle={() => onToggleEpic(epic.id)} isCollapsed={isCollapsed} itemsCount={itemsByEpic[epic.id].length} />
+                    <EpicGroupHeader
+                        epic={epic}
+                        onToggle={() => onToggleEpic(epic.id)}
+                        isCollapsed={isCollapsed}
+                        itemsCount={itemsByEpic[epic.id].length}
+                        onNewItem={can('item.create') ? templateId => onNewItem({ epicId: epic.id, templateId }) : undefined}
+                    />
                     {!isCollapsed && (
-                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3 p-2">
-                            {KANBAN_COLUMNS.map(col => (
-                                <div key={col.status} className="bg-slate-100/50 rounded p-2 min-h-[80px]" onDragOver={onDragOver} onDrop={(e) => onDrop(e, col.status)}>
-                                    <h3 className="text-xs font-semibold text-slate-600 mb-2 px-1">{col.title} <span className="font-normal text-slate-500">({itemsByEpic[epic.id].filter(i => i.status === col.status).length})</span></h3>
+                        <div className="grid grid-flow-col auto-cols-[minmax(14rem,1fr)] overflow-x-auto gap-3 p-2">
+                            {statuses.map(col => (
+                                <div key={col.id} className="bg-slate-100/50 rounded p-2 min-h-[80px]" onDragOver={onDragOver} onDrop={(e) => onDrop(e, col.id)}>
+                                    <h3 className="text-xs font-semibold text-slate-600 mb-2 px-1">{col.name} <span className="font-normal text-slate-500">({itemsByEpic[epic.id].filter(i => i.status === col.id).length})</span></h3>
                                     <div className="space-y-2">
                                         {itemsByEpic[epic.id]
-                                            .filter(item => item.status === col.status)
-                                            .map(item => <div key={item.id} draggable onDragStart={(e) => onDragStart(e, item.id)}><WorkItemCard workItem={item} onSelect={() => onSelectWorkItem(item)} /></div>)
+                                            .filter(item => item.status === col.id)
+                                            .map(item => renderCard(item))
                                         }
                                     </div>
                                 </div>
@@ -239,14 +460,14 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
             <div className="bg-white/80 rounded-lg">
                 <EpicGroupHeader onToggle={() => onToggleEpic('no-epic')} isCollapsed={collapsedEpics.has('no-epic')} itemsCount={noEpicItems.length} />
                 {!collapsedEpics.has('no-epic') && (
-                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-3 p-2">
-                        {KANBAN_COLUMNS.map(col => (
-                            <div key={col.status} className="bg-slate-100/50 rounded p-2 min-h-[80px]" onDragOver={onDragOver} onDrop={(e) => onDrop(e, col.status)}>
-                                <h3 className="text-xs font-semibold text-slate-600 mb-2 px-1">{col.title} <span className="font-normal text-slate-500">({noEpicItems.filter(i => i.status === col.status).length})</span></h3>
+                     <div className="grid grid-flow-col auto-cols-[minmax(14rem,1fr)] overflow-x-auto gap-3 p-2">
+                        {statuses.map(col => (
+                            <div key={col.id} className="bg-slate-100/50 rounded p-2 min-h-[80px]" onDragOver={onDragOver} onDrop={(e) => onDrop(e, col.id)}>
+                                <h3 className="text-xs font-semibold text-slate-600 mb-2 px-1">{col.name} <span className="font-normal text-slate-500">({noEpicItems.filter(i => i.status === col.id).length})</span></h3>
                                 <div className="space-y-2">
                                     {noEpicItems
-                                        .filter(item => item.status === col.status)
-                                        .map(item => <div key={item.id} draggable onDragStart={(e) => onDragStart(e, item.id)}><WorkItemCard workItem={item} onSelect={() => onSelectWorkItem(item)} /></div>)
+                                        .filter(item => item.status === col.id)
+                                        .map(item => renderCard(item))
                                     }
                                 </div>
                             </div>
@@ -255,6 +476,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
                 )}
             </div>
         )}
+        {wipLimitModal}
     </div>
   );
 };
\ No newline at end of file
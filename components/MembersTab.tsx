@@ -3,6 +3,7 @@ import React from 'react';
 import { useBoard } from '../context/BoardContext';
 import { BoardMember, Role } from '../types';
 import { useLocale } from '../context/LocaleContext';
+import { useAuditLog } from '../context/AuditLogContext';
 
 interface MembersTabProps {
     boardMembers: BoardMember[];
@@ -10,8 +11,9 @@ interface MembersTabProps {
 }
 
 export const MembersTab: React.FC<MembersTabProps> = ({ boardMembers, setBoardMembers }) => {
-    const { roles, can } = useBoard();
+    const { activeBoard, roles, can } = useBoard();
     const { t } = useLocale();
+    const { log } = useAuditLog();
     const canManageMembers = can('member.manage');
 
     const getRoleName = (roleId: string) => roles.find(r => r.id === roleId)?.name || t('membersTab_unknownRole');
@@ -34,7 +36,17 @@ export const MembersTab: React.FC<MembersTabProps> = ({ boardMembers, setBoardMe
             }
         }
         
+        const member = boardMembers.find(m => m.user.id === userId);
+        if (!member || member.roleId === newRoleId) return;
         setBoardMembers(prev => prev.map(m => m.user.id === userId ? { ...m, roleId: newRoleId } : m));
+        log([{
+            boardId: activeBoard?.id || '',
+            entity: 'member',
+            entityId: userId,
+            entityLabel: member.user.name,
+            action: 'update',
+            changes: [{ field: 'role', before: getRoleName(member.roleId), after: getRoleName(newRoleId) }],
+        }]);
     };
 
     return (
@@ -1,14 +1,16 @@
 // components/MembersView.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { MembersTab } from './MembersTab';
 import { JoinRequestsTab } from './JoinRequestsTab';
 import { InviteCodesTab } from './InviteCodesTab';
 import { TeamsTab } from './TeamsTab';
-import { Team, InviteCode, JoinRequest, BoardMember, User } from '../types';
+import { Team, InviteCode, JoinRequest, JoinRequestStatus, BoardMember, User } from '../types';
 import { useBoard } from '../context/BoardContext';
 import { ROLES } from '../constants';
 import { useAuth } from '../context/AuthContext';
 import { useLocale } from '../context/LocaleContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { diffFields } from '../services/auditLog';
 
 type Tab = 'MEMBERS' | 'TEAMS' | 'JOIN_REQUESTS' | 'INVITE_CODES';
 
@@ -18,21 +20,22 @@ interface MembersViewProps {
 }
 
 export const MembersView: React.FC<MembersViewProps> = ({ teams, setTeams }) => {
-    const { activeBoardMembers: initialMembers } = useBoard();
+    const { activeBoard, activeBoardMembers: boardMembers, setBoardMembers: saveBoardMembers } = useBoard();
     const { user } = useAuth();
     const { t } = useLocale();
+    const { log } = useAuditLog();
     const [activeTab, setActiveTab] = useState<Tab>('MEMBERS');
     
+    // Members are saved with the board, so approvals and role changes reach the rest of the team
+    const setBoardMembers: React.Dispatch<React.SetStateAction<BoardMember[]>> = action => {
+        if (!activeBoard) return;
+        saveBoardMembers(activeBoard.id, typeof action === 'function' ? action(boardMembers) : action);
+    };
+
     // Manage local state for admin data to make it mutable
-    const [boardMembers, setBoardMembers] = useState<BoardMember[]>(initialMembers);
     const [joinRequests, setJoinRequests] = useState<JoinRequest[]>([]);
     const [inviteCodes, setInviteCodes] = useState<InviteCode[]>([]);
 
-    useEffect(() => {
-        // US-43: remove mock data fetching
-        setBoardMembers(initialMembers);
-    }, [initialMembers]);
-
     const handleApproveRequest = (request: JoinRequest) => {
         const newMember: BoardMember = {
             user: request.user,
@@ -40,28 +43,55 @@ export const MembersView: React.FC<MembersViewProps> = ({ teams, setTeams }) =>
         };
         setBoardMembers(prev => [...prev, newMember]);
         setJoinRequests(prev => prev.filter(r => r.id !== request.id));
+        logJoinRequestDecision(request, JoinRequestStatus.APPROVED);
+        log([{
+            boardId: activeBoard?.id || '',
+            entity: 'member',
+            entityId: newMember.user.id,
+            entityLabel: newMember.user.name,
+            action: 'create',
+            changes: [{ field: 'role', after: ROLES.find(r => r.id === newMember.roleId)?.name }],
+        }]);
         // Global toast will handle this
     };
 
     const handleRejectRequest = (request: JoinRequest) => {
         setJoinRequests(prev => prev.filter(r => r.id !== request.id));
+        logJoinRequestDecision(request, JoinRequestStatus.REJECTED);
         // Global toast will handle this
     };
 
-    const handleCreateInvite = (invite: Omit<InviteCode, 'code' | 'createdBy' | 'createdAt' | 'uses'>) => {
+    const logJoinRequestDecision = (request: JoinRequest, status: JoinRequestStatus) => {
+        log([{
+            boardId: activeBoard?.id || '',
+            entity: 'join_request',
+            entityId: request.id,
+            entityLabel: request.user.name,
+            action: 'update',
+            changes: [{ field: 'status', before: request.status, after: status }],
+        }]);
+    };
+
+    const handleCreateInvite = (invite: Omit<InviteCode, 'code' | 'boardId' | 'createdBy' | 'createdAt' | 'uses'>) => {
         const newCode: InviteCode = {
             ...invite,
             code: `INV-${Math.random().toString(36).substring(2, 10).toUpperCase()}`,
+            boardId: activeBoard?.id || '',
             createdBy: user?.id || 'user-1', // Mock current user
             createdAt: new Date().toISOString(),
             uses: 0,
         };
         setInviteCodes(prev => [newCode, ...prev]);
+        log([{ boardId: newCode.boardId, entity: 'invite_code', entityId: newCode.code, entityLabel: newCode.code, action: 'create', changes: diffFields(undefined, newCode) }]);
         // Global toast will handle this
     };
     
     const handleRevokeInvite = (code: string) => {
+        const revoked = inviteCodes.find(c => c.code === code);
         setInviteCodes(prev => prev.filter(c => c.code !== code));
+        if (revoked) {
+            log([{ boardId: revoked.boardId, entity: 'invite_code', entityId: code, entityLabel: code, action: 'delete', changes: diffFields(revoked, undefined) }]);
+        }
         // Global toast will handle this
     };
     
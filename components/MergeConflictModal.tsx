@@ -0,0 +1,90 @@
+// components/MergeConflictModal.tsx
+import React, { useMemo, useState } from 'react';
+import { WorkItem } from '../types';
+import { XMarkIcon } from './icons';
+import { useLocale } from '../context/LocaleContext';
+import { MergeSide, diffForMerge, applyMerge } from '../services/workItemMerge';
+import { formatAuditValue } from '../services/auditLog';
+
+interface MergeConflictModalProps {
+    base: WorkItem;   // The version the edit started from
+    mine: WorkItem;   // The rejected write
+    theirs: WorkItem; // What is stored now
+    onResolve: (merged: WorkItem) => void;
+    onCancel: () => void;
+}
+
+const SIDES: MergeSide[] = ['base', 'mine', 'theirs'];
+
+export const MergeConflictModal: React.FC<MergeConflictModalProps> = ({ base, mine, theirs, onResolve, onCancel }) => {
+    const { t } = useLocale();
+    const fields = useMemo(() => diffForMerge(base, mine, theirs), [base, mine, theirs]);
+    const [choices, setChoices] = useState<Partial<Record<keyof WorkItem, MergeSide>>>(() =>
+        Object.fromEntries(fields.map(f => [f.field, f.suggested])));
+
+    const sideLabels: Record<MergeSide, string> = {
+        base: t('merge_side_base'),
+        mine: t('merge_side_mine'),
+        theirs: t('merge_side_theirs'),
+    };
+    const conflictCount = fields.filter(f => f.conflicting).length;
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="merge-conflict-title" className="fixed inset-0 bg-black bg-opacity-60 z-[80] flex items-center justify-center p-4" onClick={onCancel}>
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <header className="flex items-center justify-between p-4 border-b">
+                    <div>
+                        <h2 id="merge-conflict-title" className="text-xl font-bold text-[#3B3936]">{t('merge_title').replace('{itemId}', theirs.id)}</h2>
+                        <p className="text-sm text-slate-600">
+                            {t('merge_desc').replace('{version}', theirs.version.toString()).replace('{count}', conflictCount.toString())}
+                        </p>
+                    </div>
+                    <button type="button" onClick={onCancel} className="p-1 rounded-full hover:bg-gray-200">
+                        <XMarkIcon className="w-6 h-6 text-[#889C9B]" />
+                    </button>
+                </header>
+                <main className="p-6 overflow-y-auto">
+                    <table className="min-w-full text-sm divide-y divide-gray-200">
+                        <thead>
+                            <tr className="text-xs text-gray-500 uppercase">
+                                <th className="py-2 text-start font-medium">{t('merge_field')}</th>
+                                {SIDES.map(side => <th key={side} className="py-2 px-2 text-start font-medium">{sideLabels[side]}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-200">
+                            {fields.map(f => (
+                                <tr key={f.field} className={f.conflicting ? 'bg-amber-50' : ''}>
+                                    <td className="py-2 pe-2 font-medium text-slate-800 align-top">
+                                        {f.field}
+                                        {f.conflicting && <span className="block text-xs font-semibold text-amber-700">{t('merge_conflict')}</span>}
+                                    </td>
+                                    {SIDES.map(side => (
+                                        <td key={side} className="py-2 px-2 align-top">
+                                            <label className="flex items-start gap-2 cursor-pointer">
+                                                <input
+                                                    type="radio"
+                                                    name={`merge-${f.field}`}
+                                                    checked={choices[f.field] === side}
+                                                    onChange={() => setChoices(prev => ({ ...prev, [f.field]: side }))}
+                                                    className="mt-0.5"
+                                                />
+                                                <span className="text-slate-700 break-words max-w-[14rem]">{formatAuditValue(f[side])}</span>
+                                            </label>
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                            {fields.length === 0 && (
+                                <tr><td colSpan={4} className="text-center py-6 text-sm text-gray-500">{t('merge_noDifferences')}</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </main>
+                <footer className="p-4 border-t bg-gray-50 flex justify-end gap-2">
+                    <button onClick={onCancel} className="py-2 px-4 border border-slate-400 rounded-md text-slate-800 hover:bg-slate-100">{t('cancel')}</button>
+                    <button onClick={() => onResolve(applyMerge(base, mine, theirs, choices))} className="py-2 px-4 bg-[#486966] text-white rounded-md hover:bg-[#3a5a58]">{t('merge_confirm')}</button>
+                </footer>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,65 @@
+// components/NewItemMenu.tsx
+import React, { useState, useRef, useEffect } from 'react';
+import { useLocale } from '../context/LocaleContext';
+import { useItemTemplates } from '../context/ItemTemplateContext';
+
+interface NewItemMenuProps {
+    onNewItem: (templateId?: string) => void;
+    className: string; // For the button
+    children: React.ReactNode; // The button's content
+    title?: string;
+}
+
+// A "new item" button that, once the board has templates, first asks which one to start from.
+export const NewItemMenu: React.FC<NewItemMenuProps> = ({ onNewItem, className, children, title }) => {
+    const { t } = useLocale();
+    const { templates } = useItemTemplates();
+    const [isOpen, setIsOpen] = useState(false);
+    const wrapperRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (wrapperRef.current && !wrapperRef.current.contains(event.target as Node)) setIsOpen(false);
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    const choose = (templateId?: string) => {
+        setIsOpen(false);
+        onNewItem(templateId);
+    };
+
+    if (templates.length === 0) {
+        return <button type="button" onClick={() => onNewItem()} className={className} title={title}>{children}</button>;
+    }
+
+    return (
+        <div className="relative" ref={wrapperRef}>
+            <button type="button" onClick={() => setIsOpen(!isOpen)} className={className} title={title} aria-haspopup="true" aria-expanded={isOpen}>
+                {children}
+            </button>
+            {isOpen && (
+                <div className="absolute end-0 z-20 mt-1 w-64 bg-white border rounded-md shadow-lg py-1 text-start" role="menu">
+                    <button type="button" role="menuitem" onClick={() => choose()} className="w-full px-3 py-2 text-sm text-start text-slate-800 hover:bg-slate-100">
+                        {t('templates_blankItem')}
+                    </button>
+                    <div className="border-t my-1" />
+                    <p className="px-3 py-1 text-xs font-medium text-slate-500 uppercase">{t('templates_fromTemplate')}</p>
+                    {templates.map(template => (
+                        <button
+                            key={template.id}
+                            type="button"
+                            role="menuitem"
+                            onClick={() => choose(template.id)}
+                            className="w-full flex items-center justify-between gap-2 px-3 py-2 text-sm text-start text-slate-800 hover:bg-slate-100"
+                        >
+                            <span className="truncate">{template.name}</span>
+                            <span className="shrink-0 text-xs text-slate-500">{template.type}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
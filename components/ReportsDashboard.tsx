@@ -3,6 +3,8 @@ import React, { useState, useMemo } from 'react';
 import { WorkItem, Epic, Team, User, ReportType, AssigneeWorkloadData, EpicProgressReportData, Sprint } from '../types';
 import * as analytics from '../services/analyticsService';
 import { useLocale } from '../context/LocaleContext';
+import { useWorkflow } from '../context/WorkflowContext';
+import { assigneeWipLimit } from '../services/wipLimits';
 import { SPRINTS } from '../constants';
 import { XMarkIcon } from './icons';
 
@@ -105,18 +107,19 @@ const SimpleBarChart: React.FC<{ data: { labels: string[], datasets: { label: st
 // --- Main Component ---
 export const ReportsDashboard: React.FC<ReportsDashboardProps> = (props) => {
     const { t } = useLocale();
+    const { workflow, statusCategory } = useWorkflow();
     const [selectedReport, setSelectedReport] = useState<ReportType | null>(null);
     const [sprintFilter, setSprintFilter] = useState<string>(props.sprints[props.sprints.length - 1]?.id || '');
     const [drilldown, setDrilldown] = useState<{ title: string; items: WorkItem[] } | null>(null);
 
     const reportData = useMemo(() => {
         return {
-            [ReportType.BURNDOWN]: analytics.getBurndownData(sprintFilter, props.workItems),
-            [ReportType.VELOCITY]: analytics.getVelocityData(props.workItems, props.sprints),
+            [ReportType.BURNDOWN]: analytics.getBurndownData(sprintFilter, props.workItems, statusCategory),
+            [ReportType.VELOCITY]: analytics.getVelocityData(props.workItems, props.sprints, statusCategory),
             [ReportType.EPIC_PROGRESS]: analytics.getEpicProgressData(props.epics),
-            [ReportType.ASSIGNEE_WORKLOAD]: analytics.getAssigneeWorkloadData(props.workItems, props.users),
+            [ReportType.ASSIGNEE_WORKLOAD]: analytics.getAssigneeWorkloadData(props.workItems, props.users, statusCategory, userId => assigneeWipLimit(workflow, userId)),
         };
-    }, [props.workItems, props.epics, props.users, props.sprints, sprintFilter]);
+    }, [props.workItems, props.epics, props.users, props.sprints, sprintFilter, statusCategory, workflow]);
 
     const renderDashboard = () => (
         <>
@@ -168,7 +171,7 @@ export const ReportsDashboard: React.FC<ReportsDashboardProps> = (props) => {
                             const sprintName = row[0];
                             const sprint = props.sprints.find(s => s.name === sprintName);
                             if (sprint) {
-                                setDrilldown({title: `Items Done in ${sprintName}`, items: props.workItems.filter(item => item.sprintId === sprint.id && item.status === 'Done')})
+                                setDrilldown({title: `Items Done in ${sprintName}`, items: props.workItems.filter(item => item.sprintId === sprint.id && statusCategory(item.status) === 'done')})
                             }
                         }}/>
                     </div>
@@ -186,7 +189,7 @@ export const ReportsDashboard: React.FC<ReportsDashboardProps> = (props) => {
             case ReportType.ASSIGNEE_WORKLOAD:
                  const workload = reportData[ReportType.ASSIGNEE_WORKLOAD];
                  content = <DataInspector
-                    headers={[t('assignee'), 'Open', 'In Progress', 'In Review', t('report_wip_limit')]}
+                    headers={[t('assignee'), 'Open', 'In Progress', t('report_wip_limit')]}
                     data={workload.map(d => [
                       <div className="flex items-center gap-2">
                           <img src={d.assignee.avatarUrl} alt={d.assignee.name} className="w-6 h-6 rounded-full" />
@@ -194,10 +197,9 @@ export const ReportsDashboard: React.FC<ReportsDashboardProps> = (props) => {
                       </div>,
                       d.open,
                       d.inProgress,
-                      d.inReview,
                       d.wipBreached ? t('report_wip_breached') : 'OK'
                     ])}
-                    onRowClick={(_, index) => setDrilldown({ title: `Workload for ${workload[index].assignee.name}`, items: props.workItems.filter(item => item.assignee?.id === workload[index].assignee.id && item.status !== 'Done') })}
+                    onRowClick={(_, index) => setDrilldown({ title: `Workload for ${workload[index].assignee.name}`, items: props.workItems.filter(item => item.assignee?.id === workload[index].assignee.id && statusCategory(item.status) !== 'done') })}
                     highlightRow={(row, index) => workload[index].wipBreached}
                 />;
                 break;
@@ -268,6 +270,7 @@ const DataInspector: React.FC<{ headers: string[], data: (string|number|undefine
 
 const DrilldownModal: React.FC<{ data: { title: string, items: WorkItem[] }, onClose: () => void }> = ({ data, onClose }) => {
     const { t } = useLocale();
+    const { statusName } = useWorkflow();
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50" onMouseDown={onClose}>
             <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl h-[70vh] flex flex-col" onMouseDown={e => e.stopPropagation()}>
@@ -283,7 +286,7 @@ const DrilldownModal: React.FC<{ data: { title: string, items: WorkItem[] }, onC
                                     <p className="font-medium text-sm">{item.title}</p>
                                     <p className="text-xs text-gray-500">{item.id}</p>
                                 </div>
-                                <span className="text-xs">{item.status}</span>
+                                <span className="text-xs">{statusName(item.status)}</span>
                             </li>
                         ))}
                     </ul>
@@ -1,12 +0,0 @@
-import React from 'react';
-
-export const SettingsPlaceholder: React.FC = () => {
-    return (
-        <div className="p-4 bg-white rounded-lg shadow">
-            <h2 className="text-xl font-bold text-[#3B3936]">Settings</h2>
-            <p className="mt-4 text-gray-600">
-                This is a placeholder for the main settings page. More options would be available here.
-            </p>
-        </div>
-    );
-};
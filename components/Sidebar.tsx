@@ -2,12 +2,12 @@ import React, { useState } from 'react';
 import { useNavigation } from '../context/NavigationContext';
 import { useLocale } from '../context/LocaleContext';
 import { SavedView } from '../types';
-import { ScrumOwlLogo, UsersIcon, LayoutKanbanIcon, RepeatIcon, MountainIcon, CalendarRangeIcon, BarChart3Icon, UsersRoundIcon, BookmarkCheckIcon, ChevronLeftIcon, FileTextIcon } from './icons';
+import { ScrumOwlLogo, UsersIcon, LayoutKanbanIcon, RepeatIcon, MountainIcon, CalendarRangeIcon, BarChart3Icon, UsersRoundIcon, BookmarkCheckIcon, ChevronLeftIcon, FileTextIcon, FolderCogIcon, TrashIcon, ClipboardCheckIcon } from './icons';
 import { useBoard } from '../context/BoardContext';
 import { BoardSwitcher } from './BoardSwitcher';
 
 interface NavItemProps {
-    view: 'KANBAN' | 'ITEMS' | 'EPICS' | 'EVENTS' | 'REPORTS' | 'MEMBERS' | 'SPRINTS';
+    view: 'KANBAN' | 'ITEMS' | 'EPICS' | 'EVENTS' | 'REPORTS' | 'MEMBERS' | 'SPRINTS' | 'SETTINGS' | 'TRASH' | 'AUDIT';
     label: string;
     icon: React.ReactNode;
     isCollapsed: boolean;
@@ -77,6 +77,15 @@ export const Sidebar: React.FC<SidebarProps> = ({ isCollapsed, onToggle, pinnedV
                 {can('member.manage') && (
                     <NavItem view="MEMBERS" label={t('membersAndRoles')} isCollapsed={isCollapsed} icon={<UsersIcon />} />
                 )}
+                {can('member.manage') && (
+                    <NavItem view="SETTINGS" label={t('boardSettings')} isCollapsed={isCollapsed} icon={<FolderCogIcon />} />
+                )}
+                {can('member.manage') && (
+                    <NavItem view="AUDIT" label={t('audit_title')} isCollapsed={isCollapsed} icon={<ClipboardCheckIcon />} />
+                )}
+                {can('item.delete') && (
+                    <NavItem view="TRASH" label={t('trash')} isCollapsed={isCollapsed} icon={<TrashIcon />} />
+                )}
                 
                 {pinnedViews.length > 0 && (
                     <div className="pt-2 mt-2 border-t">
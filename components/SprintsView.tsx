@@ -3,6 +3,8 @@ import React, { useState, useMemo } from 'react';
 import { Sprint, SprintState, Epic, WorkItem } from '../types';
 import { useLocale } from '../context/LocaleContext';
 import { useBoard } from '../context/BoardContext';
+import { useWorkflow } from '../context/WorkflowContext';
+import { SprintDependencyWarning, outsideSprintBlockers } from '../services/itemLinks';
 import { SprintEditorModal } from './SprintEditorModal';
 
 interface SprintsViewProps {
@@ -19,6 +21,7 @@ type Tab = 'ACTIVE' | 'UPCOMING' | 'PAST' | 'DELETED';
 export const SprintsView: React.FC<SprintsViewProps> = ({ sprints, workItems, onSaveSprint, onDeleteSprint, onRestoreSprint, epics }) => {
     const { t } = useLocale();
     const { can } = useBoard();
+    const { statusCategory } = useWorkflow();
     const [activeTab, setActiveTab] = useState<Tab>('ACTIVE');
     const [editingSprint, setEditingSprint] = useState<Partial<Sprint> | null>(null);
     const canManage = can('sprint.manage');
@@ -38,6 +41,15 @@ export const SprintsView: React.FC<SprintsViewProps> = ({ sprints, workItems, on
         }
     }, [sprints, activeTab]);
     
+    // Only sprints still to be worked on can be held up.
+    const dependencyWarnings = useMemo(() => {
+        const warnings = new Map<string, SprintDependencyWarning[]>();
+        sprints
+            .filter(s => s.state === SprintState.ACTIVE || s.state === SprintState.PLANNED)
+            .forEach(s => warnings.set(s.id, outsideSprintBlockers(s.id, workItems, statusCategory)));
+        return warnings;
+    }, [sprints, workItems, statusCategory]);
+
     const handleNewSprint = () => {
         const startDate = new Date();
         const endDate = new Date();
@@ -104,7 +116,17 @@ export const SprintsView: React.FC<SprintsViewProps> = ({ sprints, workItems, on
                                 onClick={() => { if (sprint.state === SprintState.CLOSED || canManage) setEditingSprint(sprint); }}
                                 className={`${sprint.state === SprintState.CLOSED || (canManage && sprint.state !== SprintState.DELETED) ? 'cursor-pointer hover:bg-gray-50' : ''}`}
                             >
-                               <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">{sprint.name}</td>
+                               <td className="px-4 py-3 whitespace-nowrap text-sm font-medium text-gray-900">
+                                   {sprint.name}
+                                   {(dependencyWarnings.get(sprint.id)?.length ?? 0) > 0 && (
+                                       <p
+                                           className="text-xs font-normal text-amber-700"
+                                           title={dependencyWarnings.get(sprint.id)!.map(({ item, blocker }) => `${item.id} ← ${blocker.id}`).join('\n')}
+                                       >
+                                           {t('links_sprintWarning').replace('{count}', new Set(dependencyWarnings.get(sprint.id)!.map(w => w.item.id)).size.toString())}
+                                       </p>
+                                   )}
+                               </td>
                                <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">
                                    {new Date(sprint.startAt).toLocaleDateString()} - {new Date(sprint.endAt).toLocaleDateString()}
                                </td>
@@ -0,0 +1,119 @@
+// components/SyncConflictsModal.tsx
+import React, { useState } from 'react';
+import { WorkItem } from '../types';
+import { XMarkIcon } from './icons';
+import { useLocale } from '../context/LocaleContext';
+import { SyncConflict } from '../services/outbox';
+import { resolveSyncConflict } from '../services/persistence';
+import { diffFields, formatAuditValue } from '../services/auditLog';
+import { MergeConflictModal } from './MergeConflictModal';
+
+interface SyncConflictsModalProps {
+    conflicts: SyncConflict[];
+    onClose: () => void;
+}
+
+const recordLabel = (conflict: SyncConflict): string => {
+    const record = (conflict.mine ?? conflict.theirs ?? conflict.base) as { title?: string; name?: string } | undefined;
+    return record?.title || record?.name || conflict.recordId;
+};
+
+export const SyncConflictsModal: React.FC<SyncConflictsModalProps> = ({ conflicts, onClose }) => {
+    const { t } = useLocale();
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [failedId, setFailedId] = useState<string | null>(null);
+    const [merging, setMerging] = useState<SyncConflict | null>(null);
+
+    const collectionLabels: Record<string, string> = {
+        workItems: t('sync_collection_workItems'),
+        epics: t('sync_collection_epics'),
+        sprints: t('sync_collection_sprints'),
+        teams: t('sync_collection_teams'),
+    };
+
+    const resolve = async (conflict: SyncConflict, choice: Parameters<typeof resolveSyncConflict>[1]) => {
+        setBusyId(conflict.id);
+        setFailedId(null);
+        const resolved = await resolveSyncConflict(conflict, choice);
+        setBusyId(null);
+        if (!resolved) setFailedId(conflict.id);
+    };
+
+    const canMerge = (conflict: SyncConflict) => conflict.key === 'workItems' && !!conflict.base && !!conflict.mine && !!conflict.theirs;
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="sync-conflicts-title" className="fixed inset-0 bg-black bg-opacity-60 z-[70] flex items-center justify-center p-4" onClick={onClose}>
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+                <header className="flex items-center justify-between p-4 border-b">
+                    <div>
+                        <h2 id="sync-conflicts-title" className="text-xl font-bold text-[#3B3936]">{t('sync_conflictsTitle')}</h2>
+                        <p className="text-sm text-slate-600">{t('sync_conflictsDesc')}</p>
+                    </div>
+                    <button type="button" onClick={onClose} className="p-1 rounded-full hover:bg-gray-200">
+                        <XMarkIcon className="w-6 h-6 text-[#889C9B]" />
+                    </button>
+                </header>
+                <main className="p-6 overflow-y-auto space-y-4">
+                    {conflicts.map(conflict => {
+                        const fields = diffFields(conflict.theirs as object | undefined, conflict.mine as object | undefined);
+                        const isBusy = busyId === conflict.id;
+                        return (
+                            <section key={conflict.id} className="border border-amber-200 rounded-md">
+                                <div className="flex items-center justify-between gap-2 px-3 py-2 bg-amber-50 border-b border-amber-200">
+                                    <div className="text-sm">
+                                        <span className="text-xs font-semibold text-amber-700 uppercase me-2">{collectionLabels[conflict.key] || t('sync_collection_other')}</span>
+                                        <span className="font-medium text-slate-800">{recordLabel(conflict)}</span>
+                                    </div>
+                                    <div className="flex gap-2 shrink-0">
+                                        {canMerge(conflict) && (
+                                            <button disabled={isBusy} onClick={() => setMerging(conflict)} className="py-1 px-3 text-sm border border-slate-400 rounded-md text-slate-800 hover:bg-slate-100 disabled:opacity-50">{t('sync_merge')}</button>
+                                        )}
+                                        <button disabled={isBusy} onClick={() => resolve(conflict, 'theirs')} className="py-1 px-3 text-sm border border-slate-400 rounded-md text-slate-800 hover:bg-slate-100 disabled:opacity-50">{t('sync_keepTheirs')}</button>
+                                        <button disabled={isBusy} onClick={() => resolve(conflict, 'mine')} className="py-1 px-3 text-sm bg-[#486966] text-white rounded-md hover:bg-[#3a5a58] disabled:opacity-50">{t('sync_keepMine')}</button>
+                                    </div>
+                                </div>
+                                {failedId === conflict.id && <p className="px-3 pt-2 text-sm text-red-600">{t('sync_resolveFailed')}</p>}
+                                <table className="min-w-full text-sm">
+                                    <thead>
+                                        <tr className="text-xs text-gray-500 uppercase">
+                                            <th className="py-2 px-3 text-start font-medium w-1/4"></th>
+                                            <th className="py-2 px-3 text-start font-medium">{t('sync_theirs')}</th>
+                                            <th className="py-2 px-3 text-start font-medium">{t('sync_mine')}</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-100">
+                                        {conflict.mine === undefined || conflict.theirs === undefined ? (
+                                            <tr>
+                                                <td className="py-2 px-3"></td>
+                                                <td className="py-2 px-3 text-slate-700">{conflict.theirs === undefined ? t('sync_deleted') : recordLabel({ ...conflict, mine: undefined })}</td>
+                                                <td className="py-2 px-3 text-slate-700">{conflict.mine === undefined ? t('sync_deleted') : recordLabel(conflict)}</td>
+                                            </tr>
+                                        ) : fields.map(change => (
+                                            <tr key={change.field}>
+                                                <td className="py-2 px-3 font-medium text-slate-800 align-top">{change.field}</td>
+                                                <td className="py-2 px-3 text-slate-700 align-top break-words">{formatAuditValue(change.before)}</td>
+                                                <td className="py-2 px-3 text-slate-700 align-top break-words">{formatAuditValue(change.after)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </section>
+                        );
+                    })}
+                    {conflicts.length === 0 && <p className="text-center py-6 text-sm text-gray-500">{t('sync_noConflicts')}</p>}
+                </main>
+            </div>
+            {merging && (
+                <div onClick={e => e.stopPropagation()}>
+                    <MergeConflictModal
+                        base={merging.base as WorkItem}
+                        mine={merging.mine as WorkItem}
+                        theirs={merging.theirs as WorkItem}
+                        onResolve={merged => { const conflict = merging; setMerging(null); resolve(conflict, { merged }); }}
+                        onCancel={() => setMerging(null)}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
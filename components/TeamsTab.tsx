@@ -5,6 +5,7 @@ import { TeamEditorModal } from './TeamEditorModal';
 import { ManageTeamMembersModal } from './ManageTeamMembersModal';
 import { ALL_USERS } from '../constants';
 import { useLocale } from '../context/LocaleContext';
+import { useBoard } from '../context/BoardContext';
 
 interface TeamsTabProps {
     teams: Team[];
@@ -14,6 +15,7 @@ interface TeamsTabProps {
 
 export const TeamsTab: React.FC<TeamsTabProps> = ({ teams, setTeams, allMembers }) => {
     const { t } = useLocale();
+    const { activeBoard } = useBoard();
     const [isEditorOpen, setIsEditorOpen] = useState(false);
     const [editingTeam, setEditingTeam] = useState<Partial<Team> | null>(null);
     const [managingMembersOf, setManagingMembersOf] = useState<Team | null>(null);
@@ -42,6 +44,7 @@ export const TeamsTab: React.FC<TeamsTabProps> = ({ teams, setTeams, allMembers
         } else { // Creating new team
             const newTeam: Team = {
                 id: `team-${Date.now()}`,
+                boardId: activeBoard?.id || '',
                 name: teamToSave.name || 'New Team',
                 description: teamToSave.description || '',
                 members: memberIds,
@@ -4,10 +4,13 @@ import { Notification, ConnectionStatus, Sprint } from '../types';
 import { NotificationPanel } from './NotificationPanel';
 import { QuickSwitcher } from './QuickSwitcher';
 import { Breadcrumbs } from './Breadcrumbs';
+import { SyncConflictsModal } from './SyncConflictsModal';
 import { useAuth } from '../context/AuthContext';
 import { useLocale } from '../context/LocaleContext';
 import { useBoard } from '../context/BoardContext';
 import { useNavigation } from '../context/NavigationContext';
+import { useOutbox } from '../hooks/useOutbox';
+import { NewItemMenu } from './NewItemMenu';
 import { BellIcon, PowerIcon, ChevronLeftIcon, ChevronRightIcon, UserRoundIcon, SettingsIcon } from './icons';
 
 interface TopbarProps {
@@ -17,7 +20,7 @@ interface TopbarProps {
     onOpenSettings: () => void;
     onLogout: () => void;
     realtimeStatus: ConnectionStatus;
-    onNewItem: () => void;
+    onNewItem: (templateId?: string) => void;
     availableSprints: Sprint[];
     selectedSprint: Sprint | null;
     onSelectSprint: (sprintId: string | null) => void;
@@ -130,6 +133,8 @@ export const Topbar: React.FC<TopbarProps> = ({ notifications, onMarkAllNotifica
     const { currentView } = useNavigation();
     const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
     const [isSwitcherOpen, setIsSwitcherOpen] = useState(false);
+    const [isConflictsOpen, setIsConflictsOpen] = useState(false);
+    const { pendingCount, conflicts } = useOutbox();
     const notificationsRef = useRef<HTMLDivElement>(null);
 
     const unreadCount = notifications.filter(n => !n.isRead).length;
@@ -180,12 +185,9 @@ export const Topbar: React.FC<TopbarProps> = ({ notifications, onMarkAllNotifica
             </div>
             <div className="flex items-center gap-3">
                 {currentView !== 'EPICS' && can('item.create') && (
-                     <button 
-                        onClick={onNewItem} 
-                        className="py-1.5 px-3 text-sm font-medium rounded-md text-white bg-primary hover:bg-[#3a5a58]"
-                    >
+                    <NewItemMenu onNewItem={onNewItem} className="py-1.5 px-3 text-sm font-medium rounded-md text-white bg-primary hover:bg-[#3a5a58]">
                         {t('newItem')}
-                    </button>
+                    </NewItemMenu>
                 )}
                 
                 <div className="h-5 w-px bg-slate-200" />
@@ -196,6 +198,16 @@ export const Topbar: React.FC<TopbarProps> = ({ notifications, onMarkAllNotifica
 
                 <div className="flex items-center gap-2 text-sm text-slate-800">
                     <ConnectionIndicator status={realtimeStatus} />
+                    {pendingCount > 0 && (
+                        <span className="px-1.5 py-0.5 text-xs font-medium rounded bg-amber-100 text-amber-800" title={t('sync_pendingTitle')}>
+                            {t('sync_pending').replace('{count}', pendingCount.toString())}
+                        </span>
+                    )}
+                    {conflicts.length > 0 && (
+                        <button onClick={() => setIsConflictsOpen(true)} className="px-1.5 py-0.5 text-xs font-medium rounded bg-red-100 text-red-700 hover:bg-red-200" title={t('sync_conflictsTitle')}>
+                            {t('sync_conflicts').replace('{count}', conflicts.length.toString())}
+                        </button>
+                    )}
                     <span>{user?.name}</span>
                     {user?.avatarUrl ? (
                         <img src={user.avatarUrl} alt={user.name} className="w-7 h-7 rounded-full" />
@@ -217,6 +229,7 @@ export const Topbar: React.FC<TopbarProps> = ({ notifications, onMarkAllNotifica
                 <button onClick={onLogout} className="p-2 rounded-full hover:bg-slate-200/80" title={t('logout')}><PowerIcon className="h-5 w-5 text-slate-600" /></button>
             </div>
             <QuickSwitcher isOpen={isSwitcherOpen} onClose={() => setIsSwitcherOpen(false)} />
+            {isConflictsOpen && <SyncConflictsModal conflicts={conflicts} onClose={() => setIsConflictsOpen(false)} />}
         </header>
         {isNotificationsOpen && (
              <div className="fixed top-14 left-0 right-0 bottom-0 bg-black bg-opacity-10 z-20" onClick={closeNotifications} />
@@ -0,0 +1,102 @@
+// components/TrashView.tsx
+import React, { useMemo } from 'react';
+import { WorkItem, Epic, Sprint, EpicStatus, SprintState } from '../types';
+import { useLocale } from '../context/LocaleContext';
+import { useBoard } from '../context/BoardContext';
+import { TRASH_RETENTION_DAYS } from '../constants';
+import { daysUntilPurge } from '../services/trash';
+
+interface TrashViewProps {
+    workItems: WorkItem[]; // Trashed items only
+    epics: Epic[];
+    sprints: Sprint[];
+    onRestoreWorkItem: (itemId: string) => void;
+    onPurgeWorkItem: (itemId: string) => void;
+    onRestoreEpic: (epicId: string) => void;
+    onPurgeEpic: (epicId: string) => void;
+    onRestoreSprint: (sprintId: string) => void;
+    onPurgeSprint: (sprintId: string) => void;
+}
+
+interface TrashRow {
+    id: string;
+    label: string;
+    deletedAt?: string;
+}
+
+const TrashSection: React.FC<{
+    title: string;
+    rows: TrashRow[];
+    canManage: boolean;
+    onRestore: (id: string) => void;
+    onPurge: (id: string) => void;
+}> = ({ title, rows, canManage, onRestore, onPurge }) => {
+    const { t } = useLocale();
+
+    return (
+        <section className="bg-white rounded-lg shadow overflow-hidden">
+            <h3 className="px-4 py-3 text-base font-semibold text-slate-800 border-b">{title} <span className="text-slate-400 font-normal">({rows.length})</span></h3>
+            <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                    <tr>
+                        <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{t('trash_name')}</th>
+                        <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{t('trash_deletedAt')}</th>
+                        <th className="px-4 py-3 text-start text-xs font-medium text-gray-500 uppercase">{t('trash_purgedIn')}</th>
+                        <th className="px-4 py-3 text-end text-xs font-medium text-gray-500 uppercase">{t('actions')}</th>
+                    </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                    {rows.map(row => (
+                        <tr key={row.id}>
+                            <td className="px-4 py-3 text-sm font-medium text-gray-900 truncate max-w-md">{row.label}</td>
+                            <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{row.deletedAt ? new Date(row.deletedAt).toLocaleString() : '—'}</td>
+                            <td className="px-4 py-3 whitespace-nowrap text-sm text-gray-500">{t('trash_days').replace('{count}', daysUntilPurge(row.deletedAt).toString())}</td>
+                            <td className="px-4 py-3 whitespace-nowrap text-sm font-medium space-x-2 text-end">
+                                {canManage && (
+                                    <>
+                                        <button onClick={() => onRestore(row.id)} className="text-indigo-600 hover:text-indigo-900 px-2">{t('trash_restore')}</button>
+                                        <button onClick={() => onPurge(row.id)} className="text-red-600 hover:text-red-900 px-2">{t('trash_purge')}</button>
+                                    </>
+                                )}
+                            </td>
+                        </tr>
+                    ))}
+                    {rows.length === 0 && (
+                        <tr><td colSpan={4} className="text-center py-6 text-sm text-gray-500">{t('trash_empty')}</td></tr>
+                    )}
+                </tbody>
+            </table>
+        </section>
+    );
+};
+
+export const TrashView: React.FC<TrashViewProps> = ({ workItems, epics, sprints, onRestoreWorkItem, onPurgeWorkItem, onRestoreEpic, onPurgeEpic, onRestoreSprint, onPurgeSprint }) => {
+    const { t } = useLocale();
+    const { can } = useBoard();
+
+    const byNewest = (a: TrashRow, b: TrashRow) => (b.deletedAt || '').localeCompare(a.deletedAt || '');
+
+    const itemRows = useMemo(() => workItems
+        .map(item => ({ id: item.id, label: `[${item.id}] ${item.title}`, deletedAt: item.deletedAt }))
+        .sort(byNewest), [workItems]);
+    const epicRows = useMemo(() => epics
+        .filter(epic => epic.status === EpicStatus.DELETED)
+        .map(epic => ({ id: epic.id, label: epic.name, deletedAt: epic.deletedAt }))
+        .sort(byNewest), [epics]);
+    const sprintRows = useMemo(() => sprints
+        .filter(sprint => sprint.state === SprintState.DELETED)
+        .map(sprint => ({ id: sprint.id, label: sprint.name, deletedAt: sprint.deletedAt }))
+        .sort(byNewest), [sprints]);
+
+    return (
+        <div className="space-y-4 overflow-y-auto">
+            <div>
+                <h2 className="text-xl font-bold text-[#3B3936]">{t('trash')}</h2>
+                <p className="text-sm text-slate-600">{t('trash_retention_note').replace('{days}', TRASH_RETENTION_DAYS.toString())}</p>
+            </div>
+            <TrashSection title={t('trash_workItems')} rows={itemRows} canManage={can('item.delete')} onRestore={onRestoreWorkItem} onPurge={onPurgeWorkItem} />
+            <TrashSection title={t('epics')} rows={epicRows} canManage={can('epic.manage')} onRestore={onRestoreEpic} onPurge={onPurgeEpic} />
+            <TrashSection title={t('sprints')} rows={sprintRows} canManage={can('sprint.manage')} onRestore={onRestoreSprint} onPurge={onPurgeSprint} />
+        </div>
+    );
+};
@@ -0,0 +1,74 @@
+// components/WipLimitModal.tsx
+import React, { useState } from 'react';
+import { XMarkIcon } from './icons';
+import { useLocale } from '../context/LocaleContext';
+import { useWorkflow } from '../context/WorkflowContext';
+import { WipBreach } from '../services/wipLimits';
+
+interface WipLimitModalProps {
+    itemTitle: string;
+    toStatus: string;
+    breaches: WipBreach[];
+    canOverride: boolean; // False when the board blocks such moves and the user may not override that
+    onConfirm: (reason: string) => void;
+    onCancel: () => void;
+}
+
+export const WipLimitModal: React.FC<WipLimitModalProps> = ({ itemTitle, toStatus, breaches, canOverride, onConfirm, onCancel }) => {
+    const { t } = useLocale();
+    const { statusName } = useWorkflow();
+    const [reason, setReason] = useState('');
+
+    const describe = (breach: WipBreach) => (breach.kind === 'column'
+        ? t('wip_breach_column').replace('{status}', statusName(breach.status))
+        : t('wip_breach_assignee').replace('{name}', breach.user.name))
+        .replace('{count}', breach.count.toString())
+        .replace('{limit}', breach.limit.toString());
+
+    return (
+        <div role="dialog" aria-modal="true" aria-labelledby="wip-limit-title" className="fixed inset-0 bg-black bg-opacity-60 z-50 flex items-center justify-center p-4" onClick={onCancel}>
+            <div className="bg-white rounded-lg shadow-xl w-full max-w-md" onClick={e => e.stopPropagation()}>
+                <header className="flex items-center justify-between p-4 border-b">
+                    <h2 id="wip-limit-title" className="text-xl font-bold text-[#3B3936]">{t('wip_modal_title')}</h2>
+                    <button type="button" onClick={onCancel} className="p-1 rounded-full hover:bg-gray-200">
+                        <XMarkIcon className="w-6 h-6 text-[#889C9B]" />
+                    </button>
+                </header>
+                <main className="p-6 space-y-4">
+                    <p className="text-sm text-slate-700">{t('wip_modal_body').replace('{title}', itemTitle).replace('{status}', statusName(toStatus))}</p>
+                    <ul className="text-sm text-red-600 list-disc ps-5 space-y-1">
+                        {breaches.map((breach, i) => <li key={i}>{describe(breach)}</li>)}
+                    </ul>
+                    {canOverride ? (
+                        <div>
+                            <label htmlFor="wip-override-reason" className="block text-sm font-medium text-slate-700 mb-1">{t('wip_modal_reason')}</label>
+                            <textarea
+                                id="wip-override-reason"
+                                value={reason}
+                                onChange={e => setReason(e.target.value)}
+                                rows={3}
+                                autoFocus
+                                className="w-full px-3 py-2 text-sm border border-slate-300 rounded-md focus:outline-none focus:ring-2 focus:ring-[#486966]"
+                            />
+                        </div>
+                    ) : (
+                        <p className="text-sm text-slate-600">{t('wip_modal_blocked')}</p>
+                    )}
+                </main>
+                <footer className="flex justify-end gap-2 p-4 border-t">
+                    <button type="button" onClick={onCancel} className="py-2 px-4 text-sm font-medium rounded-md border border-slate-400 text-slate-800 hover:bg-slate-100">{t('cancel')}</button>
+                    {canOverride && (
+                        <button
+                            type="button"
+                            onClick={() => onConfirm(reason.trim())}
+                            disabled={!reason.trim()}
+                            className="py-2 px-4 text-sm font-medium rounded-md text-white bg-[#486966] hover:bg-[#3a5a58] disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {t('wip_modal_override')}
+                        </button>
+                    )}
+                </footer>
+            </div>
+        </div>
+    );
+};
@@ -1,11 +1,14 @@
 import React, { useMemo } from 'react';
 import { WorkItem, WorkItemType, User } from '../types';
-import { UserRoundIcon, UsersRoundIcon } from './icons';
+import { UserRoundIcon, UsersRoundIcon, LockClosedIcon, CheckSquareIcon, RepeatIcon } from './icons';
 import { useLocale } from '../context/LocaleContext';
+import { SubtaskProgress } from '../services/subtasks';
 
 interface WorkItemCardProps {
   workItem: WorkItem;
   onSelect: (workItem: WorkItem) => void;
+  blockedBy?: WorkItem[]; // Unfinished items blocking this one
+  subtasks?: SubtaskProgress;
 }
 
 const typeConfig: Record<string, { label: string; classes: string; border: string }> = {
@@ -116,8 +119,8 @@ const AssigneeAvatars: React.FC<{ assignees: User[], primary?: User }> = ({ assi
 };
 
 
-export const WorkItemCard: React.FC<WorkItemCardProps> = ({ workItem, onSelect }) => {
-  const { locale } = useLocale();
+export const WorkItemCard: React.FC<WorkItemCardProps> = ({ workItem, onSelect, blockedBy = [], subtasks }) => {
+  const { locale, t } = useLocale();
   const config = typeConfig[workItem.type] || typeConfig[WorkItemType.TICKET];
   const highlightClass = workItem.isUpdated ? 'shadow-lg shadow-blue-300 animate-pulse-once ring-2 ring-primary' : 'shadow-sm';
 
@@ -130,7 +133,23 @@ export const WorkItemCard: React.FC<WorkItemCardProps> = ({ workItem, onSelect }
       aria-label={`View details for ${workItem.title}`}
     >
       <div className="flex justify-between items-start">
-        <p className="text-xs font-medium text-slate-500">{workItem.id}</p>
+        <div className="flex items-center gap-1.5">
+          <p className="text-xs font-medium text-slate-500">{workItem.id}</p>
+          {(workItem.recurrence?.state === 'active' || workItem.seriesId) && (
+            <span title={workItem.seriesId ? t('recurrence_partOf') + ' ' + workItem.seriesId : t('recurrence_title')} className="text-slate-400">
+              <RepeatIcon className="w-3.5 h-3.5" />
+            </span>
+          )}
+          {blockedBy.length > 0 && (
+            <span
+              title={t('links_blockedBy').replace('{items}', blockedBy.map(item => `${item.id} ${item.title}`).join(', '))}
+              className="inline-flex items-center gap-0.5 px-1.5 py-0.5 text-xs font-semibold rounded bg-red-100 text-red-700"
+            >
+              <LockClosedIcon className="w-3 h-3" />
+              {t('links_blocked')}
+            </span>
+          )}
+        </div>
         <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${config.classes}`}>{config.label}</span>
       </div>
       <h3 title={workItem.title} className="font-medium text-slate-800 text-sm leading-snug text-start truncate">{workItem.title}</h3>
@@ -142,6 +161,15 @@ export const WorkItemCard: React.FC<WorkItemCardProps> = ({ workItem, onSelect }
         ) : <div />}
         
         <div className="flex items-center gap-2">
+            {subtasks && (
+                <span
+                    title={t('subtasks_progress').replace('{done}', subtasks.done.toString()).replace('{total}', subtasks.total.toString())}
+                    className={`inline-flex items-center gap-0.5 text-xs font-medium ${subtasks.done === subtasks.total ? 'text-green-700' : 'text-slate-500'}`}
+                >
+                    <CheckSquareIcon className="w-3.5 h-3.5" />
+                    {subtasks.done}/{subtasks.total}
+                </span>
+            )}
             <span title={dueDateInfo.fullDateText} className={`px-2 py-0.5 text-xs font-semibold rounded whitespace-nowrap ${dueDateInfo.classes}`}>
                 {dueDateInfo.displayText}
             </span>
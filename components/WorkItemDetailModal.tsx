@@ -2,19 +2,28 @@
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { WorkItem, ActivityItem, User, ChecklistItem, Sprint } from '../types';
-import { XMarkIcon, StarIcon } from './icons';
+import { XMarkIcon, StarIcon, TrashIcon } from './icons';
 import { useLocale } from '../context/LocaleContext';
 import { useAuth } from '../context/AuthContext';
 import { ActivityFeed } from './ActivityFeed';
 import { useBoard } from '../context/BoardContext';
+import { useWorkflow } from '../context/WorkflowContext';
+import { WorkItemLinks } from './WorkItemLinks';
+import { WorkItemSubtasks } from './WorkItemSubtasks';
+import { WorkItemRecurrence } from './WorkItemRecurrence';
+import { childrenOf, subtaskRollup } from '../services/subtasks';
 
 interface WorkItemDetailModalProps {
   workItem: WorkItem;
+  workItems: WorkItem[];
   sprints: Sprint[];
   onClose: () => void;
   onEdit: (workItem: WorkItem) => void;
-  onItemUpdate: (item: WorkItem) => void;
+  onDelete: (itemId: string) => void;
+  onItemUpdate: (item: WorkItem, base?: WorkItem) => void;
   onNewComment: (commentText: string) => void;
+  onOpenItem: (itemId: string) => void;
+  onNewSubtask: (parentId: string) => void;
   highlightSection?: string;
 }
 
@@ -43,12 +52,14 @@ const UserDisplay: React.FC<{ user?: User }> = ({ user }) => {
     );
 };
 
-export const WorkItemDetailModal: React.FC<WorkItemDetailModalProps> = ({ workItem, sprints, onClose, onEdit, onItemUpdate, onNewComment, highlightSection }) => {
+export const WorkItemDetailModal: React.FC<WorkItemDetailModalProps> = ({ workItem, workItems, sprints, onClose, onEdit, onDelete, onItemUpdate, onNewComment, onOpenItem, onNewSubtask, highlightSection }) => {
   const { t } = useLocale();
+  const { statusName } = useWorkflow();
   const { user } = useAuth();
   const { can } = useBoard();
   const [comment, setComment] = useState('');
-  const [activities, setActivities] = useState<ActivityItem[]>([]);
+  const [activities, setActivities] = useState<ActivityItem[]>(() =>
+    (workItem.comments || []).map(comment => ({ type: 'COMMENT' as const, data: comment })).reverse());
   const modalBodyRef = useRef<HTMLDivElement>(null);
 
   const canEditItem = can('item.edit.any') || (can('item.edit.own') && workItem.assignee?.id === user?.id);
@@ -102,9 +113,15 @@ export const WorkItemDetailModal: React.FC<WorkItemDetailModalProps> = ({ workIt
         item.id === checklistItemId ? { ...item, isCompleted: !item.isCompleted } : item
     );
     const updatedWorkItem = { ...workItem, checklist: newChecklist };
-    onItemUpdate(updatedWorkItem);
+    onItemUpdate(updatedWorkItem, workItem);
   };
   
+  const parent = workItem.parentId ? workItems.find(item => item.id === workItem.parentId) : undefined;
+  const rollup = useMemo(() => {
+    const children = childrenOf(workItem.id, workItems);
+    return children.length > 0 ? subtaskRollup(children) : undefined;
+  }, [workItem.id, workItems]);
+
   const sprintName = useMemo(() => {
     if (!workItem.sprintId) return 'N/A';
     return sprints.find(s => s.id === workItem.sprintId)?.name || workItem.sprintId;
@@ -118,10 +135,23 @@ export const WorkItemDetailModal: React.FC<WorkItemDetailModalProps> = ({ workIt
       >
         <header className="flex items-center justify-between p-4 border-b bg-white/60 rounded-t-lg flex-shrink-0">
           <div>
-             <p className="text-xs text-[#889C9B]" data-highlight-key="id">{workItem.id}</p>
+             <p className="text-xs text-[#889C9B]" data-highlight-key="id">
+                {parent && (
+                    <>
+                        <button type="button" onClick={() => onOpenItem(parent.id)} className="hover:underline" data-highlight-key="parentId" title={parent.title}>{parent.id}</button>
+                        {' / '}
+                    </>
+                )}
+                {workItem.id}
+             </p>
              <h2 className="text-xl font-bold text-[#3B3936]" data-highlight-key="title">{workItem.title}</h2>
           </div>
           <div className="flex items-center gap-2 ml-4">
+            {can('item.delete') && (
+                <button onClick={() => onDelete(workItem.id)} title={t('trash_moveToTrash')} className="p-2 rounded-md text-red-600 hover:bg-red-50">
+                    <TrashIcon className="w-5 h-5" />
+                </button>
+            )}
             {canEditItem && (
                 <button onClick={() => onEdit(workItem)} className="py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-[#486966] hover:bg-[#3a5a58]">{t('edit')}</button>
             )}
@@ -156,6 +186,12 @@ export const WorkItemDetailModal: React.FC<WorkItemDetailModalProps> = ({ workIt
                         </ul>
                     </div>
                 )}
+
+                <WorkItemSubtasks workItem={workItem} workItems={workItems} canCreate={can('item.create')} onNewSubtask={onNewSubtask} onOpenItem={onOpenItem} />
+
+                <WorkItemRecurrence workItem={workItem} workItems={workItems} canEdit={canEditItem} onItemUpdate={onItemUpdate} onOpenItem={onOpenItem} />
+
+                <WorkItemLinks workItem={workItem} workItems={workItems} canEdit={canEditItem} onItemUpdate={onItemUpdate} onOpenItem={onOpenItem} />
                 
                 <hr className="border-t border-[#B2BEBF]" />
 
@@ -184,7 +220,7 @@ export const WorkItemDetailModal: React.FC<WorkItemDetailModalProps> = ({ workIt
             
             {/* Sidebar with metadata */}
             <aside className="w-1/3 max-w-xs border-l border-[#B2BEBF] overflow-y-auto p-6 space-y-5 bg-white/50">
-                 <DetailField label={t('status')} highlightKey="status"><span className="font-semibold px-2 py-0.5 text-xs rounded-full bg-gray-200 text-gray-800">{workItem.status}</span></DetailField>
+                 <DetailField label={t('status')} highlightKey="status"><span className="font-semibold px-2 py-0.5 text-xs rounded-full bg-gray-200 text-gray-800">{statusName(workItem.status)}</span></DetailField>
                  <DetailField label={t('assignee')} highlightKey="assignee">
                     <div className="flex flex-wrap gap-1.5">
                       {orderedAssignees.length > 0 ? (
@@ -207,9 +243,23 @@ export const WorkItemDetailModal: React.FC<WorkItemDetailModalProps> = ({ workIt
                  <DetailField label={'Group'} highlightKey="group">{workItem.group}</DetailField>
                  <DetailField label={t('type')} highlightKey="type">{workItem.type}</DetailField>
                  <DetailField label={t('stack')} highlightKey="stack">{workItem.stack || 'N/A'}</DetailField>
-                 <DetailField label={t('estimationPoints')} highlightKey="estimationPoints">{workItem.estimationPoints || 'N/A'}</DetailField>
-                 <DetailField label={t('effortHours')} highlightKey="effortHours">{workItem.effortHours ? `${workItem.effortHours}h` : 'N/A'}</DetailField>
+                 <DetailField label={t('estimationPoints')} highlightKey="estimationPoints">
+                    {workItem.estimationPoints || 'N/A'}
+                    {rollup && <span className="ms-1 text-xs text-[#889C9B]">{t('subtasks_fromSubtasks').replace('{value}', rollup.estimationPoints.toString())}</span>}
+                 </DetailField>
+                 <DetailField label={t('effortHours')} highlightKey="effortHours">
+                    {workItem.effortHours ? `${workItem.effortHours}h` : 'N/A'}
+                    {rollup && <span className="ms-1 text-xs text-[#889C9B]">{t('subtasks_fromSubtasks').replace('{value}', `${rollup.effortHours}h`)}</span>}
+                 </DetailField>
                  <DetailField label={t('dueDate')} highlightKey="dueDate">{workItem.dueDate ? new Date(workItem.dueDate).toLocaleDateString() : 'N/A'}</DetailField>
+                 {workItem.externalRef && (
+                    <DetailField label={t('externalRef')} highlightKey="externalRef">
+                        {workItem.externalRef.url
+                            ? <a href={workItem.externalRef.url} target="_blank" rel="noopener noreferrer" className="text-[#486966] underline">{workItem.externalRef.key}</a>
+                            : workItem.externalRef.key}
+                        <span className="ms-1 text-xs text-gray-500">({workItem.externalRef.source === 'jira' ? 'Jira' : 'Trello'})</span>
+                    </DetailField>
+                 )}
                  <DetailField label={t('labels')} highlightKey="labels">
                     {workItem.labels && workItem.labels.length > 0 ? (
                         <div className="flex flex-wrap gap-1">
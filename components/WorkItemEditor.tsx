@@ -1,10 +1,12 @@
 // components/WorkItemEditor.tsx
 
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { WorkItem, Status, Priority, WorkItemType, Epic, Team, User, Sprint, SprintState } from '../types';
+import { WorkItem, Priority, WorkItemType, Epic, Team, User, Sprint, SprintState, RecurrenceFrequency } from '../types';
 import { useLocale } from '../context/LocaleContext';
-import { XMarkIcon, TypeIcon, FileTextIcon, UserRoundIcon, MilestoneIcon, BoxesIcon, TimerIcon, CalendarIcon, FlagIcon, PaperclipIcon, CheckSquareIcon, GitBranchIcon, TagIcon, UsersRoundIcon, MountainIcon, LayoutKanbanIcon, ClipboardCheckIcon, StarIcon, LockClosedIcon } from './icons';
-import { PRIORITIES, STACKS, WORK_ITEM_TYPES, WORKFLOW_RULES } from '../constants';
+import { XMarkIcon, TypeIcon, FileTextIcon, UserRoundIcon, MilestoneIcon, BoxesIcon, TimerIcon, CalendarIcon, FlagIcon, PaperclipIcon, CheckSquareIcon, GitBranchIcon, TagIcon, UsersRoundIcon, MountainIcon, LayoutKanbanIcon, ClipboardCheckIcon, StarIcon, LockClosedIcon, RepeatIcon } from './icons';
+import { PRIORITIES, STACKS, WORK_ITEM_TYPES } from '../constants';
+import { useWorkflow } from '../context/WorkflowContext';
+import { defaultStatusId, initialStatuses } from '../services/workflow';
 import { LabelInput } from './LabelInput';
 import { ChecklistInput } from './ChecklistInput';
 import { AttachmentsManager } from './AttachmentsManager';
@@ -12,6 +14,9 @@ import { generateSummary } from '../services/geminiService';
 import { isEqual } from 'lodash-es';
 import { RichTextEditor } from './RichTextEditor';
 import { DateField } from './DateField';
+import { GuardViolationList } from './GuardViolationList';
+import { childrenOf, subtaskRollup, withDescendants } from '../services/subtasks';
+import { RECURRENCE_FREQUENCIES, newRecurrence, nextOccurrence, parseCron } from '../services/recurrence';
 
 interface WorkItemEditorProps {
   workItem: Partial<WorkItem>;
@@ -23,6 +28,7 @@ interface WorkItemEditorProps {
   isNew: boolean;
   highlightSection?: string;
   boardUsers: User[];
+  workItems: WorkItem[]; // The board's items, for the parent picker and the sub-task list
 }
 
 const useClickOutside = (ref: React.RefObject<HTMLElement>, handler: (event: MouseEvent | TouchEvent) => void) => {
@@ -121,13 +127,16 @@ const AssigneeChip: React.FC<{ user: User, isPrimary: boolean, onRemove: () => v
     );
 };
 
-export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ workItem, epics, teams, sprints, onSave, onCancel, isNew, highlightSection, boardUsers }) => {
+export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ workItem, epics, teams, sprints, onSave, onCancel, isNew, highlightSection, boardUsers, workItems }) => {
   const { t } = useLocale();
+  const { workflow, allowedTransitions, statusName, statusCategory, guardViolations } = useWorkflow();
   const [localWorkItem, setLocalWorkItem] = useState<Partial<WorkItem>>(workItem);
   const [originalWorkItem, setOriginalWorkItem] = useState<Partial<WorkItem>>(workItem);
   const [isGeneratingSummary, setIsGeneratingSummary] = useState(false);
   const [isDescriptionOverLimit, setIsDescriptionOverLimit] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
+  // Set by a guard's fix link; a new object each time so the same field can be pointed at again.
+  const [fixRequest, setFixRequest] = useState<{ field: string } | null>(null);
   
   const editorContainerRef = useRef<HTMLDivElement>(null);
 
@@ -143,14 +152,23 @@ export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ workItem, epics,
     return boardUsers.filter(u => !selectedIds.has(u) && u.name.toLowerCase().includes(assigneeSearch.toLowerCase()));
   }, [assigneeSearch, localWorkItem.assignees, boardUsers]);
 
+  const subtasks = useMemo(() => localWorkItem.id ? childrenOf(localWorkItem.id, workItems) : [], [localWorkItem.id, workItems]);
+  const subtaskTotals = subtaskRollup(subtasks);
+  // An item cannot sit under itself or under one of its own sub-tasks.
+  const parentCandidates = useMemo(() => {
+    const excluded = localWorkItem.id ? withDescendants(localWorkItem.id, workItems) : new Set<string>();
+    return workItems.filter(item => !excluded.has(item.id));
+  }, [localWorkItem.id, workItems]);
+
   useEffect(() => {
     setLocalWorkItem(workItem);
     setOriginalWorkItem(workItem);
   }, [workItem]);
 
   useEffect(() => {
-    if (highlightSection && editorContainerRef.current) {
-        const elementToHighlight = editorContainerRef.current.querySelector(`[data-highlight-key="${highlightSection}"]`);
+    const section = fixRequest?.field ?? highlightSection;
+    if (section && editorContainerRef.current) {
+        const elementToHighlight = editorContainerRef.current.querySelector(`[data-highlight-key="${section}"]`);
         if (elementToHighlight) {
             elementToHighlight.classList.add('animate-highlight-pulse');
             (elementToHighlight as HTMLElement).focus?.();
@@ -160,9 +178,23 @@ export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ workItem, epics,
             return () => clearTimeout(timer);
         }
     }
-  }, [highlightSection]);
+  }, [highlightSection, fixRequest]);
 
   const hasChanges = !isEqual(originalWorkItem, localWorkItem);
+  // New items are checked against the status they start in; existing ones only when it changes.
+  const violations = localWorkItem.status
+    ? guardViolations({ ...localWorkItem, status: isNew ? undefined : originalWorkItem.status }, localWorkItem.status, workItems)
+    : [];
+
+  const recurrence = localWorkItem.recurrence;
+  const isCronInvalid = recurrence?.frequency === 'cron' && !parseCron(recurrence.cron ?? '');
+
+  const frequencyLabels: Record<RecurrenceFrequency, string> = {
+    sprint: t('recurrence_frequency_sprint'),
+    weekly: t('recurrence_frequency_weekly'),
+    monthly: t('recurrence_frequency_monthly'),
+    cron: t('recurrence_frequency_cron'),
+  };
 
   const handleCancel = () => {
     if (hasChanges) {
@@ -280,11 +312,32 @@ export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ workItem, epics,
         setLocalWorkItem(prev => ({ ...prev, epicId: epic?.id, epicInfo: epic ? { id: epic.id, name: epic.name, color: epic.color } : undefined }));
     };
 
+    // A new frequency starts the series over from now; it keeps the count of instances made so far.
+    const handleFrequencyChange = (frequency: RecurrenceFrequency | '') => {
+        setLocalWorkItem(prev => {
+            if (!frequency) return { ...prev, recurrence: undefined };
+            const rule = newRecurrence(frequency, prev, defaultStatusId(workflow), new Date(), prev.recurrence?.cron);
+            return { ...prev, recurrence: { ...rule, generated: prev.recurrence?.generated ?? 0 } };
+        });
+    };
+
+    const handleCronChange = (cron: string) => {
+        setLocalWorkItem(prev => {
+            if (!prev.recurrence) return prev;
+            const rule = { ...prev.recurrence, cron };
+            return { ...prev, recurrence: { ...rule, nextAt: nextOccurrence(rule, new Date())?.toISOString() } };
+        });
+    };
+
+    const handleSelectParent = (parentId: string) => {
+        setLocalWorkItem(prev => ({ ...prev, parentId: parentId || undefined }));
+    };
+
     const handleSelectTeam = (team?: Team) => {
         setLocalWorkItem(prev => ({ ...prev, teamId: team?.id, teamInfo: team ? { id: team.id, name: team.name } : undefined }));
     };
   
-  const availableStatuses = isNew ? [Status.BACKLOG, Status.TODO] : [originalWorkItem.status, ...(WORKFLOW_RULES[originalWorkItem.status!] || [])];
+  const availableStatuses = isNew ? initialStatuses(workflow) : [originalWorkItem.status!, ...allowedTransitions({ status: originalWorkItem.status!, type: localWorkItem.type })];
   
   return (
     <div className="fixed inset-0 bg-black bg-opacity-60 z-[60] flex items-center justify-center p-4" onMouseDown={handleBackdropMouseDown}>
@@ -335,6 +388,22 @@ export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ workItem, epics,
              <FieldWrapper icon={<PaperclipIcon className="w-4 h-4"/>} highlightKey="attachments">
               <AttachmentsManager attachments={localWorkItem.attachments || []} onChange={(atts) => setLocalWorkItem(prev => ({...prev, attachments: atts}))} />
             </FieldWrapper>
+
+            {subtasks.length > 0 && (
+              <FieldWrapper icon={<GitBranchIcon className="w-4 h-4"/>} highlightKey="subtasks">
+                <p className="text-xs font-medium text-slate-600 mb-1">{t('subtasks_title')}</p>
+                <ul className="space-y-1">
+                  {subtasks.map(child => (
+                    <li key={child.id} className="flex items-center gap-2 text-sm">
+                      <span className={`truncate ${statusCategory(child.status) === 'done' ? 'line-through text-slate-400' : 'text-slate-800'}`}>
+                        <span className="font-medium">{child.id}</span> {child.title}
+                      </span>
+                      <span className="ms-auto shrink-0 text-xs px-2 py-0.5 rounded-full bg-slate-100 text-slate-700">{statusName(child.status)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </FieldWrapper>
+            )}
             
           </div>
           
@@ -342,8 +411,13 @@ export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ workItem, epics,
             
             <SideFieldWrapper label={t('status')} highlightKey="status">
               <SelectWithIcon icon={<LayoutKanbanIcon className="w-4 h-4" />} name="status" value={localWorkItem.status || ''} onChange={handleChange}>
-                  {availableStatuses.map(s => <option key={s} value={s}>{s}</option>)}
+                  {availableStatuses.map(s => <option key={s} value={s}>{statusName(s)}</option>)}
               </SelectWithIcon>
+              {violations.length > 0 && (
+                <div className="mt-1">
+                  <GuardViolationList violations={violations} onFix={field => setFixRequest({ field })} />
+                </div>
+              )}
             </SideFieldWrapper>
             
             <SideFieldWrapper label={t('assignee')} highlightKey="assignee">
@@ -412,6 +486,13 @@ export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ workItem, epics,
               </SelectWithIcon>
             </SideFieldWrapper>
 
+            <SideFieldWrapper label={t('subtasks_parent')} highlightKey="parentId">
+              <SelectWithIcon icon={<GitBranchIcon className="w-4 h-4" />} name="parentId" value={localWorkItem.parentId || ''} onChange={e => handleSelectParent(e.target.value)}>
+                  <option value="">{t('subtasks_noParent')}</option>
+                  {parentCandidates.map(item => <option key={item.id} value={item.id}>[{item.id}] {item.title}</option>)}
+              </SelectWithIcon>
+            </SideFieldWrapper>
+
             <SideFieldWrapper label={t('sprint')} highlightKey="sprint">
                 <div className="flex items-center gap-2">
                    <SelectWithIcon className="flex-grow" icon={<MilestoneIcon className="w-4 h-4" />} name="sprintId" value={localWorkItem.sprintId || ''} onChange={handleSprintChange}>
@@ -431,6 +512,31 @@ export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ workItem, epics,
                 </div>
             </SideFieldWrapper>
             
+            {!localWorkItem.seriesId && (
+              <SideFieldWrapper label={t('recurrence_repeat')} highlightKey="recurrence">
+                <SelectWithIcon icon={<RepeatIcon className="w-4 h-4" />} name="recurrence" value={recurrence?.frequency || ''} onChange={e => handleFrequencyChange(e.target.value as RecurrenceFrequency | '')}>
+                    <option value="">{t('recurrence_none')}</option>
+                    {RECURRENCE_FREQUENCIES.map(f => <option key={f} value={f}>{frequencyLabels[f]}</option>)}
+                </SelectWithIcon>
+                {recurrence?.frequency === 'cron' && (
+                  <div className="mt-1 space-y-1">
+                    <input
+                      type="text"
+                      value={recurrence.cron || ''}
+                      onChange={e => handleCronChange(e.target.value)}
+                      placeholder="0 9 * * 1"
+                      aria-label={t('recurrence_cron')}
+                      className="w-full text-sm px-3 py-1.5 font-mono bg-white border border-slate-300 rounded-lg text-slate-900 focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                    <p className={`px-1 text-xs ${isCronInvalid ? 'text-red-600' : 'text-slate-500'}`}>{isCronInvalid ? t('recurrence_cron_invalid') : t('recurrence_cron_hint')}</p>
+                  </div>
+                )}
+                {recurrence?.nextAt && !isCronInvalid && (
+                  <p className="px-1 mt-1 text-xs text-slate-500">{t('recurrence_next').replace('{date}', new Date(recurrence.nextAt).toLocaleString())}</p>
+                )}
+              </SideFieldWrapper>
+            )}
+
             <SideFieldWrapper label={t('stack')} highlightKey="stack">
                <SelectWithIcon icon={<BoxesIcon className="w-4 h-4" />} name="stack" value={localWorkItem.stack || ''} onChange={handleChange}>
                   {STACKS.map(s => <option key={s} value={s}>{s}</option>)}
@@ -452,6 +558,13 @@ export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ workItem, epics,
                   <div className="absolute inset-y-0 start-0 flex items-center ps-2.5 pointer-events-none text-slate-500"><TimerIcon className="w-4 h-4" /></div>
                   <input type="number" name="estimationPoints" value={localWorkItem.estimationPoints ?? ''} onChange={handleChange} className="w-full text-sm ps-9 pe-3 py-1.5 min-h-[34px] bg-white border border-slate-300 rounded-lg text-slate-900 focus:outline-none focus:ring-2 focus:ring-primary" />
               </div>
+              {subtasks.length > 0 && (
+                <p className="px-1 text-xs text-slate-500">
+                  {t('subtasks_rollup')
+                    .replace('{points}', subtaskTotals.estimationPoints.toString())
+                    .replace('{hours}', subtaskTotals.effortHours.toString())}
+                </p>
+              )}
             </SideFieldWrapper>
             
             <SideFieldWrapper label={t('labels')} highlightKey="labels">
@@ -463,7 +576,7 @@ export const WorkItemEditor: React.FC<WorkItemEditorProps> = ({ workItem, epics,
         
         <footer className="p-2 border-t bg-slate-100 flex justify-end gap-2 rounded-b-lg">
           <button onClick={handleCancel} className="py-1.5 px-3 border border-slate-400 rounded-lg text-sm font-medium text-slate-800 hover:bg-slate-200">{t('cancel')}</button>
-          <button onClick={handleSave} disabled={!hasChanges || isDescriptionOverLimit} className="py-1.5 px-3 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-primary hover:bg-[#3a5a58] disabled:bg-slate-400 disabled:cursor-not-allowed">{t('saveChanges')}</button>
+          <button onClick={handleSave} disabled={!hasChanges || isDescriptionOverLimit || violations.length > 0 || isCronInvalid} className="py-1.5 px-3 border border-transparent rounded-lg shadow-sm text-sm font-medium text-white bg-primary hover:bg-[#3a5a58] disabled:bg-slate-400 disabled:cursor-not-allowed">{t('saveChanges')}</button>
         </footer>
       </div>
       
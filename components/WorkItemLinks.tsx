@@ -0,0 +1,122 @@
+// components/WorkItemLinks.tsx
+import React, { useMemo, useState } from 'react';
+import { WorkItem } from '../types';
+import { useLocale } from '../context/LocaleContext';
+import { useWorkflow } from '../context/WorkflowContext';
+import { XMarkIcon, LinkIcon } from './icons';
+import { LINK_RELATIONS, LinkError, LinkRelation, addLink, cycleThrough, linkError, relatedItems, removeLink, storedLink } from '../services/itemLinks';
+
+interface WorkItemLinksProps {
+    workItem: WorkItem;
+    workItems: WorkItem[]; // The board's items, to link to and to find links held by others
+    canEdit: boolean;
+    onItemUpdate: (item: WorkItem, base?: WorkItem) => void;
+    onOpenItem: (itemId: string) => void;
+}
+
+export const WorkItemLinks: React.FC<WorkItemLinksProps> = ({ workItem, workItems, canEdit, onItemUpdate, onOpenItem }) => {
+    const { t } = useLocale();
+    const { statusName, statusCategory } = useWorkflow();
+    const [relation, setRelation] = useState<LinkRelation>('blocks');
+    const [otherId, setOtherId] = useState('');
+    const [error, setError] = useState<LinkError | null>(null);
+
+    // The modal's item can be a step behind the board's copy; links held by it are read from the latest one.
+    const items = useMemo(() => workItems.map(item => item.id === workItem.id ? workItem : item), [workItems, workItem]);
+    const related = useMemo(() => relatedItems(workItem, items), [workItem, items]);
+    const existingCycle = useMemo(() => cycleThrough(items, workItem.id), [items, workItem.id]);
+
+    const relationLabels: Record<LinkRelation, string> = {
+        blocks: t('links_relation_blocks'),
+        blocked_by: t('links_relation_blocked_by'),
+        relates_to: t('links_relation_relates_to'),
+        duplicates: t('links_relation_duplicates'),
+        duplicated_by: t('links_relation_duplicated_by'),
+        clones: t('links_relation_clones'),
+        cloned_by: t('links_relation_cloned_by'),
+    };
+
+    const errorMessage = (linkErr: LinkError) => {
+        switch (linkErr.kind) {
+            case 'self': return t('links_error_self');
+            case 'exists': return t('links_error_exists');
+            case 'cycle': return t('links_error_cycle').replace('{cycle}', linkErr.cycle.join(' → '));
+        }
+    };
+
+    const handleAdd = () => {
+        if (!otherId) return;
+        const problem = linkError(items, relation, workItem.id, otherId);
+        setError(problem);
+        if (problem) return;
+        const { sourceId, targetId, type } = storedLink(relation, workItem.id, otherId);
+        const source = items.find(item => item.id === sourceId);
+        if (!source) return;
+        onItemUpdate(addLink(source, type, targetId), source);
+        setOtherId('');
+    };
+
+    const handleRemove = (sourceId: string, linkId: string) => {
+        const source = items.find(item => item.id === sourceId);
+        if (source) onItemUpdate(removeLink(source, linkId), source);
+    };
+
+    const candidates = items.filter(item => item.id !== workItem.id);
+
+    return (
+        <div data-highlight-key="links">
+            <h3 className="text-md font-semibold text-[#486966] mb-2">{t('links_title')}</h3>
+            {existingCycle && (
+                <p className="mb-2 p-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md" role="alert">
+                    {t('links_inCycle').replace('{cycle}', existingCycle.join(' → '))}
+                </p>
+            )}
+            {related.length > 0 ? (
+                <div className="space-y-3">
+                    {LINK_RELATIONS.filter(r => related.some(entry => entry.relation === r)).map(r => (
+                        <div key={r}>
+                            <p className="text-xs font-medium text-[#889C9B] uppercase mb-1">{relationLabels[r]}</p>
+                            <ul className="space-y-1">
+                                {related.filter(entry => entry.relation === r).map(({ link, sourceId, otherId: id, other }) => (
+                                    <li key={link.id} className="flex items-center gap-2 text-sm">
+                                        <LinkIcon className="w-3.5 h-3.5 text-slate-400 shrink-0" />
+                                        {other ? (
+                                            <button type="button" onClick={() => onOpenItem(id)} className={`text-start hover:underline truncate ${statusCategory(other.status) === 'done' ? 'line-through text-gray-500' : 'text-[#3B3936]'}`}>
+                                                <span className="font-medium">{id}</span> {other.title}
+                                            </button>
+                                        ) : (
+                                            <span className="text-gray-400">{id} ({t('links_unavailable')})</span>
+                                        )}
+                                        {other && <span className="shrink-0 text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{statusName(other.status)}</span>}
+                                        {canEdit && (
+                                            <button type="button" onClick={() => handleRemove(sourceId, link.id)} title={t('links_remove')} className="ms-auto p-0.5 rounded-full hover:bg-gray-200">
+                                                <XMarkIcon className="w-4 h-4 text-[#889C9B]" />
+                                            </button>
+                                        )}
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-gray-500">{t('links_none')}</p>
+            )}
+            {canEdit && candidates.length > 0 && (
+                <div className="mt-3">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <select value={relation} onChange={e => { setRelation(e.target.value as LinkRelation); setError(null); }} className="text-sm p-1.5 border border-[#B2BEBF] rounded-md bg-white">
+                            {LINK_RELATIONS.map(r => <option key={r} value={r}>{relationLabels[r]}</option>)}
+                        </select>
+                        <select value={otherId} onChange={e => { setOtherId(e.target.value); setError(null); }} className="flex-1 min-w-0 text-sm p-1.5 border border-[#B2BEBF] rounded-md bg-white" aria-label={t('links_item')}>
+                            <option value="">{t('links_chooseItem')}</option>
+                            {candidates.map(item => <option key={item.id} value={item.id}>{item.id} {item.title}</option>)}
+                        </select>
+                        <button type="button" onClick={handleAdd} disabled={!otherId} className="py-1.5 px-3 text-sm font-medium rounded-md text-white bg-[#486966] hover:bg-[#3a5a58] disabled:bg-gray-400">{t('links_add')}</button>
+                    </div>
+                    {error && <p className="mt-1 text-sm text-red-600">{errorMessage(error)}</p>}
+                </div>
+            )}
+        </div>
+    );
+};
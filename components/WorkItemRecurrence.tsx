@@ -0,0 +1,115 @@
+// components/WorkItemRecurrence.tsx
+import React, { useMemo } from 'react';
+import { RecurrenceFrequency, RecurrenceRule, RecurrenceState, WorkItem } from '../types';
+import { useLocale } from '../context/LocaleContext';
+import { useWorkflow } from '../context/WorkflowContext';
+import { RepeatIcon } from './icons';
+import { resumeRecurrence, seriesInstances } from '../services/recurrence';
+
+interface WorkItemRecurrenceProps {
+    workItem: WorkItem;
+    workItems: WorkItem[]; // The board's items, where the series' instances are looked up
+    canEdit: boolean;
+    onItemUpdate: (item: WorkItem, base?: WorkItem) => void;
+    onOpenItem: (itemId: string) => void;
+}
+
+const stateClasses: Record<RecurrenceState, string> = {
+    active: 'bg-green-100 text-green-800',
+    paused: 'bg-amber-100 text-amber-800',
+    ended: 'bg-gray-200 text-gray-700',
+};
+
+// A series' rule, its controls and the instances made from it; on an instance, the way back to its series.
+export const WorkItemRecurrence: React.FC<WorkItemRecurrenceProps> = ({ workItem, workItems, canEdit, onItemUpdate, onOpenItem }) => {
+    const { t } = useLocale();
+    const { statusName, statusCategory } = useWorkflow();
+    const rule = workItem.recurrence;
+    const instances = useMemo(() => seriesInstances(workItem.id, workItems), [workItem.id, workItems]);
+
+    if (workItem.seriesId) {
+        const series = workItems.find(item => item.id === workItem.seriesId);
+        return (
+            <div data-highlight-key="recurrence" className="flex items-center gap-2 text-sm text-[#3B3936]">
+                <RepeatIcon className="w-4 h-4 text-[#889C9B] shrink-0" />
+                <span>{t('recurrence_partOf')}</span>
+                {series ? (
+                    <button type="button" onClick={() => onOpenItem(series.id)} className="font-medium hover:underline truncate">{series.id} {series.title}</button>
+                ) : (
+                    <span className="text-gray-400">{workItem.seriesId} ({t('links_unavailable')})</span>
+                )}
+            </div>
+        );
+    }
+    if (!rule) return null;
+
+    const frequencyLabels: Record<RecurrenceFrequency, string> = {
+        sprint: t('recurrence_frequency_sprint'),
+        weekly: t('recurrence_frequency_weekly'),
+        monthly: t('recurrence_frequency_monthly'),
+        cron: t('recurrence_frequency_cron'),
+    };
+    const stateLabels: Record<RecurrenceState, string> = {
+        active: t('recurrence_state_active'),
+        paused: t('recurrence_state_paused'),
+        ended: t('recurrence_state_ended'),
+    };
+
+    const update = (changes: Partial<RecurrenceRule>) => onItemUpdate({ ...workItem, recurrence: { ...rule, ...changes } }, workItem);
+
+    const nextText = rule.frequency === 'sprint'
+        ? t('recurrence_nextSprint')
+        : rule.nextAt ? t('recurrence_next').replace('{date}', new Date(rule.nextAt).toLocaleString()) : t('recurrence_never');
+
+    const buttonClass = 'py-1 px-3 text-sm font-medium rounded-md border border-[#B2BEBF] text-[#3B3936] hover:bg-white';
+
+    return (
+        <div data-highlight-key="recurrence">
+            <h3 className="text-md font-semibold text-[#486966] mb-2">{t('recurrence_title')}</h3>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-[#3B3936]">
+                <RepeatIcon className="w-4 h-4 text-[#889C9B]" />
+                <span className="font-medium">{frequencyLabels[rule.frequency]}</span>
+                {rule.frequency === 'cron' && <code className="px-1.5 py-0.5 text-xs bg-gray-100 rounded">{rule.cron}</code>}
+                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${stateClasses[rule.state]}`}>{stateLabels[rule.state]}</span>
+            </div>
+            {rule.state === 'active' && (
+                <p className="mt-1 text-xs text-[#889C9B]">
+                    {nextText}
+                    {rule.skipNext && <> · {t('recurrence_skipping')}</>}
+                </p>
+            )}
+            {canEdit && rule.state !== 'ended' && (
+                <div className="mt-2 flex flex-wrap gap-2">
+                    {rule.state === 'active' && (
+                        <button type="button" onClick={() => update({ skipNext: !rule.skipNext })} className={buttonClass}>
+                            {rule.skipNext ? t('recurrence_unskip') : t('recurrence_skip')}
+                        </button>
+                    )}
+                    {rule.state === 'active' ? (
+                        <button type="button" onClick={() => update({ state: 'paused' })} className={buttonClass}>{t('recurrence_pause')}</button>
+                    ) : (
+                        <button type="button" onClick={() => onItemUpdate({ ...workItem, recurrence: resumeRecurrence(rule) }, workItem)} className={buttonClass}>{t('recurrence_resume')}</button>
+                    )}
+                    <button type="button" onClick={() => update({ state: 'ended', nextAt: undefined, skipNext: false })} className="py-1 px-3 text-sm font-medium rounded-md border border-red-300 text-red-700 hover:bg-red-50">
+                        {t('recurrence_end')}
+                    </button>
+                </div>
+            )}
+            {instances.length > 0 && (
+                <div className="mt-3">
+                    <p className="text-xs font-medium text-[#889C9B] uppercase mb-1">{t('recurrence_instances').replace('{count}', instances.length.toString())}</p>
+                    <ul className="space-y-1">
+                        {instances.map(instance => (
+                            <li key={instance.id} className="flex items-center gap-2 text-sm">
+                                <button type="button" onClick={() => onOpenItem(instance.id)} className={`text-start hover:underline truncate ${statusCategory(instance.status) === 'done' ? 'line-through text-gray-500' : 'text-[#3B3936]'}`}>
+                                    <span className="font-medium">{instance.id}</span> {new Date(instance.createdAt).toLocaleDateString()}
+                                </button>
+                                <span className="ms-auto shrink-0 text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{statusName(instance.status)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+        </div>
+    );
+};
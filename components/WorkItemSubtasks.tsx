@@ -0,0 +1,69 @@
+// components/WorkItemSubtasks.tsx
+import React, { useMemo } from 'react';
+import { WorkItem } from '../types';
+import { useLocale } from '../context/LocaleContext';
+import { useWorkflow } from '../context/WorkflowContext';
+import { PlusCircleIcon } from './icons';
+import { childrenOf, subtaskProgress, subtaskRollup } from '../services/subtasks';
+
+interface WorkItemSubtasksProps {
+    workItem: WorkItem;
+    workItems: WorkItem[]; // The board's items, where the sub-tasks are looked up
+    canCreate: boolean;
+    onNewSubtask: (parentId: string) => void;
+    onOpenItem: (itemId: string) => void;
+}
+
+export const WorkItemSubtasks: React.FC<WorkItemSubtasksProps> = ({ workItem, workItems, canCreate, onNewSubtask, onOpenItem }) => {
+    const { t } = useLocale();
+    const { statusName, statusCategory } = useWorkflow();
+
+    const children = useMemo(() => childrenOf(workItem.id, workItems), [workItem.id, workItems]);
+    const progress = subtaskProgress(children, statusCategory);
+    const rollup = subtaskRollup(children);
+    const percent = progress.total > 0 ? Math.round((progress.done / progress.total) * 100) : 0;
+
+    return (
+        <div data-highlight-key="subtasks">
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-md font-semibold text-[#486966]">{t('subtasks_title')}</h3>
+                {canCreate && (
+                    <button type="button" onClick={() => onNewSubtask(workItem.id)} className="flex items-center gap-1 text-sm font-medium text-[#486966] hover:underline">
+                        <PlusCircleIcon className="w-4 h-4" />
+                        {t('subtasks_add')}
+                    </button>
+                )}
+            </div>
+            {children.length > 0 ? (
+                <>
+                    <div className="flex items-center gap-3 mb-2">
+                        <div className="flex-1 h-2 bg-gray-200 rounded-full overflow-hidden" role="progressbar" aria-valuenow={progress.done} aria-valuemin={0} aria-valuemax={progress.total}>
+                            <div className="h-full bg-[#486966]" style={{ width: `${percent}%` }} />
+                        </div>
+                        <span className="text-xs text-[#889C9B] shrink-0">
+                            {t('subtasks_progress').replace('{done}', progress.done.toString()).replace('{total}', progress.total.toString())}
+                        </span>
+                    </div>
+                    <ul className="space-y-1">
+                        {children.map(child => (
+                            <li key={child.id} className="flex items-center gap-2 text-sm">
+                                <button type="button" onClick={() => onOpenItem(child.id)} className={`text-start hover:underline truncate ${statusCategory(child.status) === 'done' ? 'line-through text-gray-500' : 'text-[#3B3936]'}`}>
+                                    <span className="font-medium">{child.id}</span> {child.title}
+                                </button>
+                                <span className="ms-auto shrink-0 text-xs text-[#889C9B]">{child.estimationPoints || 0} {t('subtasks_points')}</span>
+                                <span className="shrink-0 text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-700">{statusName(child.status)}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    <p className="mt-2 text-xs text-[#889C9B]">
+                        {t('subtasks_rollup')
+                            .replace('{points}', rollup.estimationPoints.toString())
+                            .replace('{hours}', rollup.effortHours.toString())}
+                    </p>
+                </>
+            ) : (
+                <p className="text-sm text-gray-500">{t('subtasks_none')}</p>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,431 @@
+// components/WorkflowEditor.tsx
+import React, { useEffect, useMemo, useState } from 'react';
+import { isEqual } from 'lodash-es';
+import { BoardStatus, BoardWorkflow, GuardRequirement, StatusCategory, TransitionGuard, TransitionMap, WipEnforcement, WipPolicy, WorkItemType } from '../types';
+import { WORK_ITEM_TYPES } from '../constants';
+import { useLocale } from '../context/LocaleContext';
+import { useWorkflow } from '../context/WorkflowContext';
+import { useBoard } from '../context/BoardContext';
+import { GUARD_REQUIREMENTS } from '../services/transitionGuards';
+import { STATUS_CATEGORIES, WorkflowIssue, defaultWorkflow, validateWorkflow, initialStatuses, finalStatuses, withoutStatus } from '../services/workflow';
+import { ChevronLeftIcon, ChevronRightIcon, TrashIcon, PlusCircleIcon } from './icons';
+
+type Scope = 'default' | WorkItemType;
+
+interface WorkflowEditorProps {
+    statusUsage: Record<string, number>; // Work items (trashed ones included) per status id
+}
+
+const NODE_W = 112;
+const NODE_H = 32;
+const GAP = 48;
+const ARC_STEP = 22; // Extra height per status an arrow skips, so long arrows clear short ones
+
+// Empty or non-positive input means no limit.
+const parseLimit = (raw: string): number | undefined => {
+    const limit = parseInt(raw, 10);
+    return limit > 0 ? limit : undefined;
+};
+
+const WipPolicyFields: React.FC<{ policy: WipPolicy; onChange: (policy: WipPolicy) => void }> = ({ policy, onChange }) => {
+    const { t } = useLocale();
+    const { activeBoardMembers } = useBoard();
+
+    const setAssigneeLimit = (userId: string, limit: number | undefined) => {
+        const { [userId]: _previous, ...assignees } = policy.assignees;
+        onChange({ ...policy, assignees: limit === undefined ? assignees : { ...assignees, [userId]: limit } });
+    };
+
+    return (
+        <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-slate-700">{t('wip_title')}</h4>
+            <p className="text-xs text-slate-500">{t('wip_desc')}</p>
+            <div className="flex flex-wrap items-center gap-2">
+                <label htmlFor="wip-enforcement" className="text-sm font-medium text-slate-700">{t('wip_enforcement')}</label>
+                <select id="wip-enforcement" value={policy.enforcement} onChange={e => onChange({ ...policy, enforcement: e.target.value as WipEnforcement })} className="px-2 py-1.5 text-sm border border-slate-300 rounded-md bg-white">
+                    <option value="warn">{t('wip_enforcement_warn')}</option>
+                    <option value="block">{t('wip_enforcement_block')}</option>
+                </select>
+                <label htmlFor="wip-per-assignee" className="text-sm font-medium text-slate-700 ms-2">{t('wip_perAssignee')}</label>
+                <input
+                    id="wip-per-assignee"
+                    type="number"
+                    min={1}
+                    value={policy.perAssignee ?? ''}
+                    placeholder={t('wip_noLimit')}
+                    onChange={e => onChange({ ...policy, perAssignee: parseLimit(e.target.value) })}
+                    className="px-2 py-1 text-sm border border-slate-300 rounded-md w-24"
+                />
+            </div>
+            {activeBoardMembers.length > 0 && (
+                <details>
+                    <summary className="text-sm text-[#486966] cursor-pointer">{t('wip_perPerson')}</summary>
+                    <ul className="mt-2 space-y-1">
+                        {activeBoardMembers.map(({ user }) => (
+                            <li key={user.id} className="flex items-center gap-2 text-sm">
+                                <span className="w-44 truncate text-slate-700">{user.name}</span>
+                                <input
+                                    type="number"
+                                    min={1}
+                                    value={policy.assignees[user.id] ?? ''}
+                                    placeholder={policy.perAssignee?.toString() ?? t('wip_noLimit')}
+                                    aria-label={t('wip_personLimit').replace('{name}', user.name)}
+                                    onChange={e => setAssigneeLimit(user.id, parseLimit(e.target.value))}
+                                    className="px-2 py-1 text-sm border border-slate-300 rounded-md w-24"
+                                />
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+        </div>
+    );
+};
+
+const TransitionGuardFields: React.FC<{ guards: TransitionGuard[]; statuses: BoardStatus[]; onChange: (guards: TransitionGuard[]) => void }> = ({ guards, statuses, onChange }) => {
+    const { t } = useLocale();
+
+    const requirementLabels: Record<GuardRequirement, string> = {
+        assignee: t('guard_requirement_assignee'),
+        estimation: t('guard_requirement_estimation'),
+        checklist_done: t('guard_requirement_checklist_done'),
+        due_date: t('guard_requirement_due_date'),
+        epic: t('guard_requirement_epic'),
+        sprint: t('guard_requirement_sprint'),
+        subtasks_done: t('guard_requirement_subtasks_done'),
+    };
+
+    const update = (id: string, changes: Partial<TransitionGuard>) => onChange(guards.map(g => g.id === id ? { ...g, ...changes } : g));
+
+    const add = () => {
+        const toStatus = statuses.find(s => s.category === 'done')?.id ?? statuses[0]?.id;
+        if (toStatus) onChange([...guards, { id: `guard-${Date.now()}`, toStatus, requirement: 'assignee' }]);
+    };
+
+    const selectClass = 'px-2 py-1 text-sm border border-slate-300 rounded-md bg-white';
+
+    return (
+        <div className="space-y-2">
+            <h4 className="text-sm font-semibold text-slate-700">{t('guard_title')}</h4>
+            <p className="text-xs text-slate-500">{t('guard_desc')}</p>
+            <ul className="space-y-1">
+                {guards.map(guard => (
+                    <li key={guard.id} className="flex flex-wrap items-center gap-2 text-sm text-slate-700">
+                        <span>{t('guard_entering')}</span>
+                        <select value={guard.toStatus} aria-label={t('guard_status')} onChange={e => update(guard.id, { toStatus: e.target.value })} className={selectClass}>
+                            {statuses.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                        </select>
+                        <select value={guard.type ?? ''} aria-label={t('guard_type')} onChange={e => update(guard.id, { type: (e.target.value || undefined) as WorkItemType | undefined })} className={selectClass}>
+                            <option value="">{t('guard_allTypes')}</option>
+                            {WORK_ITEM_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                        <span>{t('guard_requires')}</span>
+                        <select value={guard.requirement} aria-label={t('guard_requirement')} onChange={e => update(guard.id, { requirement: e.target.value as GuardRequirement })} className={selectClass}>
+                            {GUARD_REQUIREMENTS.map(requirement => <option key={requirement} value={requirement}>{requirementLabels[requirement]}</option>)}
+                        </select>
+                        <button onClick={() => onChange(guards.filter(g => g.id !== guard.id))} title={t('guard_remove')} className="p-1 rounded hover:bg-slate-100">
+                            <TrashIcon className="w-4 h-4 text-slate-600" />
+                        </button>
+                    </li>
+                ))}
+            </ul>
+            <button onClick={add} className="flex items-center gap-1 text-sm text-[#486966] hover:underline">
+                <PlusCircleIcon className="w-4 h-4" />
+                {t('guard_add')}
+            </button>
+        </div>
+    );
+};
+
+const WorkflowGraph: React.FC<{ statuses: BoardStatus[]; transitions: TransitionMap; issues: WorkflowIssue[] }> = ({ statuses, transitions, issues }) => {
+    const ids = statuses.map(s => s.id);
+    const maxSpan = Math.max(statuses.length - 1, 1);
+    const width = statuses.length * NODE_W + (statuses.length - 1) * GAP;
+    const midY = NODE_H / 2 + maxSpan * ARC_STEP + 12;
+    const height = midY * 2;
+    const centerX = (i: number) => i * (NODE_W + GAP) + NODE_W / 2;
+    const nodeColor = (status: BoardStatus) => {
+        const kind = issues.find(issue => issue.status === status.id)?.kind;
+        if (kind === 'unreachable') return 'fill-red-50 stroke-red-500';
+        if (kind === 'dead_end') return 'fill-amber-50 stroke-amber-500';
+        return status.category === 'done' ? 'fill-green-50 stroke-green-600' : 'fill-white stroke-slate-400';
+    };
+
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full" style={{ maxWidth: width }} role="img">
+            <defs>
+                <marker id="workflow-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="6" markerHeight="6" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z" className="fill-slate-500" />
+                </marker>
+            </defs>
+            {ids.flatMap((from, i) => (transitions[from] ?? []).map(to => {
+                const j = ids.indexOf(to);
+                if (j < 0 || j === i) return null;
+                // Forward moves arc above the statuses, moves back arc below.
+                const direction = j > i ? -1 : 1;
+                const y = midY + direction * NODE_H / 2;
+                const x1 = centerX(i) + (j > i ? 10 : -10);
+                const x2 = centerX(j) + (j > i ? -10 : 10);
+                const controlY = y + direction * ARC_STEP * (Math.abs(j - i) + 1);
+                return (
+                    <path
+                        key={`${from}->${to}`}
+                        d={`M ${x1} ${y} Q ${(x1 + x2) / 2} ${controlY} ${x2} ${y}`}
+                        className={`fill-none ${j > i ? 'stroke-slate-500' : 'stroke-slate-400'}`}
+                        strokeWidth={1.5}
+                        strokeDasharray={j > i ? undefined : '4 3'}
+                        markerEnd="url(#workflow-arrow)"
+                    />
+                );
+            }))}
+            {statuses.map((status, i) => (
+                <g key={status.id}>
+                    <rect
+                        x={i * (NODE_W + GAP)}
+                        y={midY - NODE_H / 2}
+                        width={NODE_W}
+                        height={NODE_H}
+                        rx={6}
+                        strokeWidth={status.category === 'in_progress' ? 1 : 2}
+                        className={nodeColor(status)}
+                    />
+                    <text x={centerX(i)} y={midY + 4} textAnchor="middle" className="fill-slate-800 text-xs font-medium">{status.name}</text>
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+export const WorkflowEditor: React.FC<WorkflowEditorProps> = ({ statusUsage }) => {
+    const { t } = useLocale();
+    const { workflow, saveWorkflow } = useWorkflow();
+    const [draft, setDraft] = useState<BoardWorkflow>(workflow);
+    const [scope, setScope] = useState<Scope>('default');
+
+    // Another board, or the workflow was saved (possibly in another tab): start over from it.
+    useEffect(() => { setDraft(workflow); }, [workflow]);
+
+    const categoryLabels: Record<StatusCategory, string> = {
+        todo: t('workflow_category_todo'),
+        in_progress: t('workflow_category_in_progress'),
+        done: t('workflow_category_done'),
+    };
+
+    const issues = useMemo(() => validateWorkflow(draft), [draft]);
+    // Statuses that still hold items cannot go: the items would drop off the board.
+    const orphaned = Object.entries(statusUsage).filter(([id, count]) => count > 0 && !draft.statuses.some(s => s.id === id));
+    const isDirty = !isEqual(draft, workflow);
+    const typeOverride = scope === 'default' ? undefined : draft.typeTransitions[scope];
+    const transitions = scope === 'default' ? draft.transitions : typeOverride ?? draft.transitions;
+    const scopeIssues = issues.filter(issue => issue.type === (scope === 'default' || !typeOverride ? undefined : scope));
+    const nameOf = (id?: string) => draft.statuses.find(s => s.id === id)?.name ?? workflow.statuses.find(s => s.id === id)?.name ?? id ?? '';
+
+    const setTransitions = (next: TransitionMap) => {
+        setDraft(prev => scope === 'default'
+            ? { ...prev, transitions: next }
+            : { ...prev, typeTransitions: { ...prev.typeTransitions, [scope]: next } });
+    };
+
+    const toggle = (from: string, to: string) => {
+        const current = transitions[from] ?? [];
+        const next = draft.statuses.map(s => s.id).filter(s => s === to ? !current.includes(s) : current.includes(s));
+        setTransitions({ ...transitions, [from]: next });
+    };
+
+    const resetToBoardDefault = () => {
+        if (scope === 'default') return;
+        setDraft(prev => {
+            const { [scope]: _removed, ...rest } = prev.typeTransitions;
+            return { ...prev, typeTransitions: rest };
+        });
+    };
+
+    const updateStatus = (id: string, changes: Partial<BoardStatus>) => {
+        setDraft(prev => ({ ...prev, statuses: prev.statuses.map(s => s.id === id ? { ...s, ...changes } : s) }));
+    };
+
+    const setWipLimit = (id: string, wipLimit: number | undefined) => {
+        setDraft(prev => ({
+            ...prev,
+            statuses: prev.statuses.map(s => {
+                if (s.id !== id) return s;
+                const { wipLimit: _previous, ...rest } = s;
+                return wipLimit === undefined ? rest : { ...rest, wipLimit };
+            }),
+        }));
+    };
+
+    const moveStatus = (index: number, offset: number) => {
+        setDraft(prev => {
+            const statuses = [...prev.statuses];
+            const [moved] = statuses.splice(index, 1);
+            statuses.splice(index + offset, 0, moved);
+            return { ...prev, statuses };
+        });
+    };
+
+    const addStatus = () => {
+        const status: BoardStatus = { id: `status-${Date.now()}`, name: t('workflow_newStatus'), category: 'in_progress' };
+        setDraft(prev => ({ ...prev, statuses: [...prev.statuses, status] }));
+    };
+
+    const describeIssue = (issue: WorkflowIssue) => {
+        const text = (() => {
+            switch (issue.kind) {
+                case 'unreachable':
+                    return t('workflow_issue_unreachable').replace('{status}', nameOf(issue.status)).replace('{start}', initialStatuses(draft).map(nameOf).join(' / '));
+                case 'dead_end':
+                    return t('workflow_issue_dead_end').replace('{status}', nameOf(issue.status)).replace('{final}', finalStatuses(draft).map(nameOf).join(' / '));
+                case 'no_todo_status': return t('workflow_issue_no_todo_status');
+                case 'no_done_status': return t('workflow_issue_no_done_status');
+                case 'invalid_name': return t('workflow_issue_invalid_name').replace('{status}', nameOf(issue.status) || '—');
+            }
+        })();
+        return issue.type ? `${issue.type}: ${text}` : text;
+    };
+
+    const problems = [
+        ...issues.map(issue => ({ key: `${issue.type ?? 'default'}-${issue.kind}-${issue.status ?? ''}`, text: describeIssue(issue), isError: issue.kind !== 'dead_end' })),
+        ...orphaned.map(([id, count]) => ({ key: `orphaned-${id}`, text: t('workflow_issue_in_use').replace('{status}', nameOf(id)).replace('{count}', count.toString()), isError: true })),
+    ];
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-2">
+                <h4 className="text-sm font-semibold text-slate-700">{t('workflow_statuses')}</h4>
+                <ul className="space-y-1">
+                    {draft.statuses.map((status, index) => (
+                        <li key={status.id} className="flex flex-wrap items-center gap-2">
+                            <input
+                                type="text"
+                                value={status.name}
+                                aria-label={t('workflow_statusName')}
+                                onChange={e => updateStatus(status.id, { name: e.target.value })}
+                                className="px-2 py-1 text-sm border border-slate-300 rounded-md w-44"
+                            />
+                            <select
+                                value={status.category}
+                                aria-label={t('workflow_statusCategory')}
+                                onChange={e => updateStatus(status.id, { category: e.target.value as StatusCategory })}
+                                className="px-2 py-1 text-sm border border-slate-300 rounded-md bg-white"
+                            >
+                                {STATUS_CATEGORIES.map(category => <option key={category} value={category}>{categoryLabels[category]}</option>)}
+                            </select>
+                            <input
+                                type="number"
+                                min={1}
+                                value={status.wipLimit ?? ''}
+                                placeholder={t('wip_noLimit')}
+                                aria-label={t('wip_columnLimit')}
+                                title={t('wip_columnLimit')}
+                                onChange={e => setWipLimit(status.id, parseLimit(e.target.value))}
+                                className="px-2 py-1 text-sm border border-slate-300 rounded-md w-24"
+                            />
+                            <button onClick={() => moveStatus(index, -1)} disabled={index === 0} title={t('workflow_moveEarlier')} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30">
+                                <ChevronLeftIcon className="w-4 h-4 text-slate-600 rtl:scale-x-[-1]" />
+                            </button>
+                            <button onClick={() => moveStatus(index, 1)} disabled={index === draft.statuses.length - 1} title={t('workflow_moveLater')} className="p-1 rounded hover:bg-slate-100 disabled:opacity-30">
+                                <ChevronRightIcon className="w-4 h-4 text-slate-600 rtl:scale-x-[-1]" />
+                            </button>
+                            <button onClick={() => setDraft(prev => withoutStatus(prev, status.id))} title={t('workflow_removeStatus')} className="p-1 rounded hover:bg-slate-100">
+                                <TrashIcon className="w-4 h-4 text-slate-600" />
+                            </button>
+                            {(statusUsage[status.id] ?? 0) > 0 && (
+                                <span className="text-xs text-slate-500">{t('workflow_statusUsage').replace('{count}', statusUsage[status.id].toString())}</span>
+                            )}
+                        </li>
+                    ))}
+                </ul>
+                <button onClick={addStatus} className="flex items-center gap-1 text-sm text-[#486966] hover:underline">
+                    <PlusCircleIcon className="w-4 h-4" />
+                    {t('workflow_addStatus')}
+                </button>
+            </div>
+
+            <WipPolicyFields policy={draft.wip} onChange={wip => setDraft(prev => ({ ...prev, wip }))} />
+
+            <TransitionGuardFields guards={draft.guards} statuses={draft.statuses} onChange={guards => setDraft(prev => ({ ...prev, guards }))} />
+
+            <div className="flex flex-wrap items-center gap-2">
+                <label htmlFor="workflow-scope" className="text-sm font-medium text-slate-700">{t('workflow_scope')}</label>
+                <select id="workflow-scope" value={scope} onChange={e => setScope(e.target.value as Scope)} className="px-2 py-1.5 text-sm border border-slate-300 rounded-md bg-white">
+                    <option value="default">{t('workflow_scope_default')}</option>
+                    {WORK_ITEM_TYPES.map(type => (
+                        <option key={type} value={type}>{type}{draft.typeTransitions[type] ? ' *' : ''}</option>
+                    ))}
+                </select>
+                {scope !== 'default' && (typeOverride ? (
+                    <button onClick={resetToBoardDefault} className="py-1.5 px-3 text-sm rounded-md border border-slate-400 text-slate-800 hover:bg-slate-100">{t('workflow_useDefault')}</button>
+                ) : (
+                    <>
+                        <span className="text-sm text-slate-600">{t('workflow_followsDefault').replace('{type}', scope)}</span>
+                        <button onClick={() => setTransitions({ ...draft.transitions })} className="py-1.5 px-3 text-sm rounded-md border border-slate-400 text-slate-800 hover:bg-slate-100">{t('workflow_customize').replace('{type}', scope)}</button>
+                    </>
+                ))}
+            </div>
+
+            <div className="overflow-x-auto">
+                <table className="text-sm">
+                    <thead>
+                        <tr>
+                            <th className="py-1 pe-3 text-start text-xs font-medium text-gray-500">{t('workflow_fromTo')}</th>
+                            {draft.statuses.map(to => <th key={to.id} className="py-1 px-2 text-xs font-medium text-gray-500">{to.name}</th>)}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {draft.statuses.map(from => (
+                            <tr key={from.id} className="border-t border-slate-100">
+                                <th className="py-1.5 pe-3 text-start font-medium text-slate-800">{from.name}</th>
+                                {draft.statuses.map(to => (
+                                    <td key={to.id} className="py-1.5 px-2 text-center">
+                                        {from.id === to.id ? <span className="text-slate-300">—</span> : (
+                                            <input
+                                                type="checkbox"
+                                                aria-label={`${from.name} → ${to.name}`}
+                                                checked={(transitions[from.id] ?? []).includes(to.id)}
+                                                disabled={scope !== 'default' && !typeOverride}
+                                                onChange={() => toggle(from.id, to.id)}
+                                                className="h-4 w-4 rounded border-gray-300 text-[#486966] focus:ring-[#486966] disabled:opacity-50"
+                                            />
+                                        )}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <div>
+                <h4 className="text-sm font-semibold text-slate-700 mb-1">{t('workflow_preview')}</h4>
+                <WorkflowGraph statuses={draft.statuses} transitions={transitions} issues={scopeIssues} />
+            </div>
+
+            {problems.length > 0 ? (
+                <ul className="text-sm space-y-1">
+                    {problems.map(problem => (
+                        <li key={problem.key} className={problem.isError ? 'text-red-600' : 'text-amber-700'}>{problem.text}</li>
+                    ))}
+                </ul>
+            ) : (
+                <p className="text-sm text-green-700">{t('workflow_valid')}</p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+                <button
+                    onClick={() => saveWorkflow(draft)}
+                    disabled={!isDirty || problems.length > 0}
+                    className="py-2 px-4 text-sm font-medium rounded-md text-white bg-[#486966] hover:bg-[#3a5a58] disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                    {t('workflow_save')}
+                </button>
+                <button onClick={() => setDraft(workflow)} disabled={!isDirty} className="py-2 px-4 text-sm font-medium rounded-md border border-slate-400 text-slate-800 hover:bg-slate-100 disabled:opacity-50">
+                    {t('workflow_discard')}
+                </button>
+                <button onClick={() => setDraft({ ...defaultWorkflow(draft.boardId), updatedAt: draft.updatedAt })} className="py-2 px-4 text-sm font-medium rounded-md border border-slate-400 text-slate-800 hover:bg-slate-100">
+                    {t('workflow_restoreDefaults')}
+                </button>
+            </div>
+        </div>
+    );
+};
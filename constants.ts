@@ -1,5 +1,5 @@
 // constants.ts
-import { User, Status, Priority, WorkItemType, Board, Team, Role } from './types';
+import { User, Status, Priority, WorkItemType, Board, Team, Role, TransitionMap, WipPolicy } from './types';
 
 export const ALL_USERS: User[] = [
   { id: 'user-1', name: 'Alice Johnson', email: 'alice.j@gmail.com', avatarUrl: 'https://i.pravatar.cc/150?u=alice' },
@@ -25,15 +25,8 @@ export const SPRINTS: string[] = ['Sprint 24.01', 'Sprint 24.02', 'Sprint 24.03'
 export const GROUPS: string[] = ['Phoenix Team', 'Dragon Team', 'Griffin Team'];
 export const STACKS: string[] = ['Frontend', 'Backend', 'DevOps', 'QA'];
 
-export const KANBAN_COLUMNS = [
-  { status: Status.BACKLOG, title: 'Backlog' },
-  { status: Status.TODO, title: 'To Do' },
-  { status: Status.IN_PROGRESS, title: 'In Progress' },
-  { status: Status.IN_REVIEW, title: 'In Review' },
-  { status: Status.DONE, title: 'Done' },
-];
-
-export const WORKFLOW_RULES: Partial<Record<Status, Status[]>> = {
+// Workflow of boards that have not defined their own (see services/workflow.ts).
+export const WORKFLOW_RULES: TransitionMap = {
   [Status.BACKLOG]: [Status.TODO],
   [Status.TODO]: [Status.IN_PROGRESS],
   [Status.IN_PROGRESS]: [Status.IN_REVIEW, Status.TODO],
@@ -48,9 +41,9 @@ export const BOARDS: Board[] = [
 ];
 
 export const ALL_TEAMS: Team[] = [
-    { id: 'team-1', name: 'Frontend', description: 'Handles all UI/UX work', members: ['user-1', 'user-3'] },
-    { id: 'team-2', name: 'Backend', description: 'Manages API and database', members: ['user-2', 'user-4'] },
-    { id: 'team-3', name: 'Platform', description: 'DevOps and infrastructure', members: ['user-5'] },
+    { id: 'team-1', boardId: 'board-1', name: 'Frontend', description: 'Handles all UI/UX work', members: ['user-1', 'user-3'] },
+    { id: 'team-2', boardId: 'board-1', name: 'Backend', description: 'Manages API and database', members: ['user-2', 'user-4'] },
+    { id: 'team-3', boardId: 'board-1', name: 'Platform', description: 'DevOps and infrastructure', members: ['user-5'] },
 ];
 
 
@@ -70,5 +63,10 @@ export const ROLES: Role[] = [
     { id: 'role-4', name: 'Viewer', permissions: [] },
 ];
 
-// US-29: Reports & Insights v2
+// US-29: Reports & Insights v2. Per-person WIP limit of boards that have not set their own.
 export const WIP_LIMIT = 3;
+
+export const DEFAULT_WIP_POLICY: WipPolicy = { enforcement: 'warn', perAssignee: WIP_LIMIT, assignees: {} };
+
+// Trashed work items, epics and sprints are purged for good after this many days
+export const TRASH_RETENTION_DAYS = 30;
@@ -0,0 +1,51 @@
+// context/AuditLogContext.tsx
+import React, { createContext, useContext, ReactNode, useMemo, useCallback } from 'react';
+import { AuditEntry } from '../types';
+import { useAuth } from './AuthContext';
+import { usePersistedCollection } from '../hooks/usePersistedCollection';
+import { AuditEvent } from '../services/auditLog';
+
+interface AuditLogContextType {
+  // Empty while signed out; the Audit view narrows them further to the active board the user is a member of.
+  entries: AuditEntry[];
+  // Appends events for the signed-in user, or with no actor for automatic changes.
+  log: (events: AuditEvent[], options?: { system?: boolean }) => void;
+}
+
+const AuditLogContext = createContext<AuditLogContextType | undefined>(undefined);
+
+export const AuditLogProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  // Append-only: unlike board data, the log outlives a logout and is only hidden until someone signs in again.
+  const [allEntries, setEntries] = usePersistedCollection<AuditEntry>('auditLog');
+  const entries = useMemo(() => user ? allEntries : [], [user, allEntries]);
+
+  const log = useCallback((events: AuditEvent[], options?: { system?: boolean }) => {
+    if (events.length === 0) return;
+    const at = new Date().toISOString();
+    const actor = options?.system || !user ? null : { id: user.id, name: user.name };
+    const stamped = events.map((event, i): AuditEntry => ({
+      ...event,
+      id: `audit-${Date.now()}-${i}-${Math.random().toString(36).substring(2, 6)}`,
+      at,
+      actor,
+    }));
+    setEntries(prev => [...stamped, ...prev]);
+  }, [user, setEntries]);
+
+  const value = useMemo(() => ({ entries, log }), [entries, log]);
+
+  return (
+    <AuditLogContext.Provider value={value}>
+      {children}
+    </AuditLogContext.Provider>
+  );
+};
+
+export const useAuditLog = (): AuditLogContextType => {
+  const context = useContext(AuditLogContext);
+  if (!context) {
+    throw new Error('useAuditLog must be used within an AuditLogProvider');
+  }
+  return context;
+};
@@ -1,15 +1,21 @@
 // context/BoardContext.tsx
 import React, { createContext, useState, useContext, ReactNode, useMemo, useCallback, useEffect } from 'react';
-import { Board, BoardMember, Role, Permission } from '../types';
+import { Board, BoardMember, BoardMembership, Role, Permission } from '../types';
 import { ALL_USERS, ROLES } from '../constants';
 import { useAuth } from './AuthContext';
-import { load, save } from '../services/persistence';
+import { load, save, getStorageAdapter } from '../services/persistence';
+import { usePersistedCollection } from '../hooks/usePersistedCollection';
 
 interface BoardContextType {
+  // The boards the signed-in user is a member of.
   boards: Board[];
+  // False until boards and members have loaded from the storage adapter.
+  isLoaded: boolean;
   activeBoard: Board | null;
   setActiveBoard: (boardId: string) => void;
   createBoard: (boardName: string) => Board;
+  addBoard: (board: Board, members: BoardMember[]) => void;
+  setBoardMembers: (boardId: string, members: BoardMember[]) => void;
   can: (permission: Permission) => boolean;
   activeBoardMembers: BoardMember[];
   roles: Role[];
@@ -19,29 +25,38 @@ const BoardContext = createContext<BoardContextType | undefined>(undefined);
 
 export const BoardProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { user } = useAuth();
-  const [boards, setBoards] = useState<Board[]>(() => load('boards', []));
-  const [boardMembers, setBoardMembers] = useState<Record<string, BoardMember[]>>(() => load('boardMembers', {}));
+  // Boards and their members go through the storage adapter like the rest of the board data,
+  // so a shared backend serves them to every member. The active board is this browser's choice.
+  const [allBoards, setBoards, boardsStore] = usePersistedCollection<Board>('boards');
+  const [memberships, setMemberships, membershipsStore] = usePersistedCollection<BoardMembership>('boardMembers');
   const [activeBoardId, setActiveBoardId] = useState<string | null>(() => load('activeBoardId', null));
 
-  useEffect(() => { save('boards', boards); }, [boards]);
-  useEffect(() => { save('boardMembers', boardMembers); }, [boardMembers]);
   useEffect(() => { save('activeBoardId', activeBoardId); }, [activeBoardId]);
 
   useEffect(() => {
       if (!user) {
           // Reset state on logout
-          setBoards([]);
-          setBoardMembers({});
           setActiveBoardId(null);
-          // Also clear from storage
-          save('boards', []);
-          save('boardMembers', {});
           save('activeBoardId', null);
+          // Browser-only boards start from a clean slate to trigger onboarding. A shared backend's
+          // boards belong to their members, who still need them; they are only hidden until sign-in.
+          if (!getStorageAdapter().shared) {
+              boardsStore.clear();
+              membershipsStore.clear();
+          }
       }
-      // In a real app, this is where you'd fetch boards for the logged-in user.
-      // For this demo, we start with a clean slate to trigger onboarding.
   }, [user]);
 
+  const boardMembers = useMemo(
+    () => Object.fromEntries(memberships.map(membership => [membership.boardId, membership.members])) as Record<string, BoardMember[]>,
+    [memberships]);
+
+  const boards = useMemo(
+    () => user ? allBoards.filter(board => boardMembers[board.id]?.some(member => member.user.id === user.id)) : [],
+    [allBoards, boardMembers, user]);
+
+  const isLoaded = boardsStore.isLoaded && membershipsStore.isLoaded;
+
   const activeBoard = useMemo(() => boards.find(b => b.id === activeBoardId) || null, [boards, activeBoardId]);
   
   const activeBoardMembers = useMemo(() => {
@@ -79,23 +94,35 @@ export const BoardProvider: React.FC<{ children: ReactNode }> = ({ children }) =
     }
     
     setBoards(prev => [...prev, newBoard]);
-    setBoardMembers(prev => ({
-      ...prev,
-      [newBoard.id]: [{ user, roleId: ownerRole.id }]
-    }));
+    setMemberships(prev => [...prev, { boardId: newBoard.id, members: [{ user, roleId: ownerRole.id }] }]);
     
     return newBoard;
-  }, [user]);
+  }, [user, setBoards, setMemberships]);
+
+  const setBoardMembers = useCallback((boardId: string, members: BoardMember[]) => {
+    setMemberships(prev => prev.some(membership => membership.boardId === boardId)
+      ? prev.map(membership => membership.boardId === boardId ? { boardId, members } : membership)
+      : [...prev, { boardId, members }]);
+  }, [setMemberships]);
+
+  // Adds a fully formed board, e.g. one restored from an archive.
+  const addBoard = useCallback((board: Board, members: BoardMember[]) => {
+    setBoards(prev => [...prev, board]);
+    setBoardMembers(board.id, members);
+  }, [setBoards, setBoardMembers]);
   
   const value = useMemo(() => ({
     boards,
+    isLoaded,
     activeBoard,
     setActiveBoard,
     createBoard,
+    addBoard,
+    setBoardMembers,
     can,
     activeBoardMembers,
     roles: ROLES,
-  }), [boards, activeBoard, can, activeBoardMembers, createBoard, setActiveBoard]);
+  }), [boards, isLoaded, activeBoard, can, activeBoardMembers, createBoard, addBoard, setBoardMembers, setActiveBoard]);
 
   return (
     <BoardContext.Provider value={value}>
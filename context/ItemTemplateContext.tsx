@@ -0,0 +1,79 @@
+// context/ItemTemplateContext.tsx
+import React, { createContext, useContext, ReactNode, useMemo, useCallback, useEffect } from 'react';
+import { WorkItemTemplate } from '../types';
+import { useAuth } from './AuthContext';
+import { useBoard } from './BoardContext';
+import { useAuditLog } from './AuditLogContext';
+import { usePersistedCollection } from '../hooks/usePersistedCollection';
+import { diffFields } from '../services/auditLog';
+import { sortTemplates } from '../services/itemTemplates';
+
+interface ItemTemplateContextType {
+  // The active board's templates, grouped by item type.
+  templates: WorkItemTemplate[];
+  saveTemplate: (template: WorkItemTemplate) => void;
+  deleteTemplate: (templateId: string) => void;
+}
+
+const ItemTemplateContext = createContext<ItemTemplateContextType | undefined>(undefined);
+
+export const ItemTemplateProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { activeBoard } = useBoard();
+  const { log } = useAuditLog();
+  const [allTemplates, setTemplates, store] = usePersistedCollection<WorkItemTemplate>('itemTemplates');
+
+  useEffect(() => {
+      if (!user) store.clear();
+  }, [user]);
+
+  const templates = useMemo(
+    () => sortTemplates(allTemplates.filter(template => template.boardId === activeBoard?.id)),
+    [allTemplates, activeBoard]);
+
+  const saveTemplate = useCallback((next: WorkItemTemplate) => {
+    const saved: WorkItemTemplate = { ...next, updatedAt: new Date().toISOString() };
+    const previous = allTemplates.find(template => template.id === saved.id);
+    setTemplates(prev => previous
+      ? prev.map(template => template.id === saved.id ? saved : template)
+      : [...prev, saved]);
+    log([{
+      boardId: saved.boardId,
+      entity: 'item_template',
+      entityId: saved.id,
+      entityLabel: saved.name,
+      action: previous ? 'update' : 'create',
+      changes: diffFields(previous, saved),
+    }]);
+  }, [allTemplates, setTemplates, log]);
+
+  const deleteTemplate = useCallback((templateId: string) => {
+    const removed = allTemplates.find(template => template.id === templateId);
+    if (!removed) return;
+    setTemplates(prev => prev.filter(template => template.id !== templateId));
+    log([{
+      boardId: removed.boardId,
+      entity: 'item_template',
+      entityId: removed.id,
+      entityLabel: removed.name,
+      action: 'delete',
+      changes: diffFields(removed, undefined),
+    }]);
+  }, [allTemplates, setTemplates, log]);
+
+  const value = useMemo(() => ({ templates, saveTemplate, deleteTemplate }), [templates, saveTemplate, deleteTemplate]);
+
+  return (
+    <ItemTemplateContext.Provider value={value}>
+      {children}
+    </ItemTemplateContext.Provider>
+  );
+};
+
+export const useItemTemplates = (): ItemTemplateContextType => {
+  const context = useContext(ItemTemplateContext);
+  if (!context) {
+    throw new Error('useItemTemplates must be used within an ItemTemplateProvider');
+  }
+  return context;
+};
@@ -1,7 +1,7 @@
 import React, { createContext, useState, useContext, ReactNode, useMemo } from 'react';
 import { useLocale } from './LocaleContext';
 
-type View = 'KANBAN' | 'ITEMS' | 'EPICS' | 'EVENTS' | 'REPORTS' | 'SETTINGS' | 'MEMBERS' | 'SPRINTS';
+type View = 'KANBAN' | 'ITEMS' | 'EPICS' | 'EVENTS' | 'REPORTS' | 'SETTINGS' | 'MEMBERS' | 'SPRINTS' | 'TRASH' | 'AUDIT';
 
 interface NavigationContextType {
   currentView: View;
@@ -23,8 +23,10 @@ export const NavigationProvider: React.FC<{ children: ReactNode }> = ({ children
         case 'EPICS': return [t('epics')];
         case 'EVENTS': return [t('eventsView')];
         case 'REPORTS': return [t('reportsDashboard')];
-        case 'SETTINGS': return [t('settings')];
+        case 'SETTINGS': return [t('boardSettings')];
         case 'MEMBERS': return [t('membersAndRoles')];
+        case 'TRASH': return [t('trash')];
+        case 'AUDIT': return [t('audit_title')];
         default: return [];
     }
   }, [currentView, t]);
@@ -0,0 +1,88 @@
+// context/WorkflowContext.tsx
+import React, { createContext, useContext, ReactNode, useMemo, useCallback, useEffect } from 'react';
+import { BoardWorkflow, BoardStatus, StatusCategory, WorkItem } from '../types';
+import { useAuth } from './AuthContext';
+import { useBoard } from './BoardContext';
+import { useAuditLog } from './AuditLogContext';
+import { usePersistedCollection } from '../hooks/usePersistedCollection';
+import { diffFields } from '../services/auditLog';
+import { GuardViolation, guardViolations as violationsOf } from '../services/transitionGuards';
+import { defaultWorkflow, allowedTransitions as allowedFor, canTransition as canMove, statusCategory as categoryOf, statusName as nameOf } from '../services/workflow';
+
+interface WorkflowContextType {
+  // The active board's workflow, or the default one if the board has not defined its own.
+  workflow: BoardWorkflow;
+  statuses: BoardStatus[];
+  saveWorkflow: (workflow: BoardWorkflow) => void;
+  allowedTransitions: (item: Pick<WorkItem, 'status' | 'type'>) => string[];
+  canTransition: (item: Pick<WorkItem, 'status' | 'type'>, to: string) => boolean;
+  // Required fields `item` is missing for the move to `to`; empty when it may go.
+  guardViolations: (item: Partial<WorkItem>, to: string, items?: WorkItem[]) => GuardViolation[];
+  statusCategory: (statusId: string) => StatusCategory;
+  statusName: (statusId: string) => string;
+}
+
+const WorkflowContext = createContext<WorkflowContextType | undefined>(undefined);
+
+export const WorkflowProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const { activeBoard } = useBoard();
+  const { log } = useAuditLog();
+  const [workflows, setWorkflows, store] = usePersistedCollection<BoardWorkflow>('workflows');
+
+  useEffect(() => {
+      if (!user) store.clear();
+  }, [user]);
+
+  const workflow = useMemo(() => {
+    if (!activeBoard) return defaultWorkflow('');
+    return workflows.find(w => w.boardId === activeBoard.id) || defaultWorkflow(activeBoard.id);
+  }, [workflows, activeBoard]);
+
+  const saveWorkflow = useCallback((next: BoardWorkflow) => {
+    const saved: BoardWorkflow = { ...next, updatedAt: new Date().toISOString() };
+    const previous = workflows.find(w => w.boardId === saved.boardId);
+    setWorkflows(prev => previous
+      ? prev.map(w => w.boardId === saved.boardId ? saved : w)
+      : [...prev, saved]);
+    log([{
+      boardId: saved.boardId,
+      entity: 'workflow',
+      entityId: saved.boardId,
+      entityLabel: activeBoard?.id === saved.boardId ? activeBoard.name : saved.boardId,
+      action: previous ? 'update' : 'create',
+      changes: diffFields(previous, saved),
+    }]);
+  }, [workflows, setWorkflows, log, activeBoard]);
+
+  const allowedTransitions = useCallback((item: Pick<WorkItem, 'status' | 'type'>) => allowedFor(workflow, item), [workflow]);
+  const canTransition = useCallback((item: Pick<WorkItem, 'status' | 'type'>, to: string) => canMove(workflow, item, to), [workflow]);
+  const guardViolations = useCallback((item: Partial<WorkItem>, to: string, items?: WorkItem[]) => violationsOf(workflow, item, to, items), [workflow]);
+  const statusCategory = useCallback((statusId: string) => categoryOf(workflow, statusId), [workflow]);
+  const statusName = useCallback((statusId: string) => nameOf(workflow, statusId), [workflow]);
+
+  const value = useMemo(() => ({
+    workflow,
+    statuses: workflow.statuses,
+    saveWorkflow,
+    allowedTransitions,
+    canTransition,
+    guardViolations,
+    statusCategory,
+    statusName,
+  }), [workflow, saveWorkflow, allowedTransitions, canTransition, guardViolations, statusCategory, statusName]);
+
+  return (
+    <WorkflowContext.Provider value={value}>
+      {children}
+    </WorkflowContext.Provider>
+  );
+};
+
+export const useWorkflow = (): WorkflowContextType => {
+  const context = useContext(WorkflowContext);
+  if (!context) {
+    throw new Error('useWorkflow must be used within a WorkflowProvider');
+  }
+  return context;
+};
@@ -0,0 +1,33 @@
+import { useEffect, useRef, MutableRefObject } from 'react';
+import { AuditEntity } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useAuditLog } from '../context/AuditLogContext';
+import { auditEventsFromDiff } from '../services/auditLog';
+import { onRemoteChanges, applyRemoteChanges } from '../services/tabSync';
+
+// Writes an audit entry for every record that is created, changed or removed in
+// `records`, whichever handler made the change. Loading, logout and changes synced
+// from other tabs (which log them themselves) are not logged.
+export const useAuditTrail = <T extends { id: string; boardId: string }>(
+    entity: AuditEntity,
+    collectionKey: string,
+    records: T[],
+    isLoaded: boolean,
+    label: (record: T) => string,
+    systemChangeRef: MutableRefObject<boolean>,
+) => {
+    const { user } = useAuth();
+    const { log } = useAuditLog();
+    const prevRef = useRef<T[] | null>(null);
+
+    useEffect(() => onRemoteChanges<T>(collectionKey, changes => {
+        if (prevRef.current) prevRef.current = applyRemoteChanges(prevRef.current, changes, r => r.id);
+    }), [collectionKey]);
+
+    useEffect(() => {
+        const prev = prevRef.current;
+        prevRef.current = isLoaded ? records : null;
+        if (!prev || prev === records || !user) return;
+        log(auditEventsFromDiff(entity, prev, records, { id: r => r.id, boardId: r => r.boardId, label }), { system: systemChangeRef.current });
+    }, [records, isLoaded]);
+};
@@ -0,0 +1,9 @@
+import { useState, useEffect } from 'react';
+import { onLeadershipChange } from '../services/tabSync';
+
+// True in the one open tab elected to run timed jobs (sprint states, trash purge).
+export const useLeaderTab = () => {
+    const [isLeader, setIsLeader] = useState(false);
+    useEffect(() => onLeadershipChange(setIsLeader), []);
+    return isLeader;
+};
@@ -0,0 +1,15 @@
+import { useState, useEffect } from 'react';
+import { SyncConflict, getOutbox, getSyncConflicts, countPendingChanges, onOutboxChange } from '../services/outbox';
+
+// Changes waiting to reach the shared backend, and the conflicts found replaying them.
+export const useOutbox = () => {
+    const [pendingCount, setPendingCount] = useState(() => countPendingChanges());
+    const [conflicts, setConflicts] = useState<SyncConflict[]>(getSyncConflicts);
+
+    useEffect(() => onOutboxChange(() => {
+        setPendingCount(countPendingChanges(getOutbox()));
+        setConflicts(getSyncConflicts());
+    }), []);
+
+    return { pendingCount, conflicts };
+};
@@ -0,0 +1,50 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { loadCollection, saveCollection, clearCollection, COLLECTIONS } from '../services/persistence';
+import { onRemoteChanges, applyRemoteChanges } from '../services/tabSync';
+
+// Holds a collection in state, loads it asynchronously from the storage adapter
+// and writes back only the records that changed. Changes written by other tabs
+// are merged in without being written again.
+export const usePersistedCollection = <T,>(key: string) => {
+    const [records, setRecords] = useState<T[]>([]);
+    const [isLoaded, setIsLoaded] = useState(false);
+    // Last snapshot written to (or read from) storage; null until the load completes.
+    const persistedRef = useRef<T[] | null>(null);
+    const loadCancelledRef = useRef(false);
+
+    useEffect(() => {
+        loadCancelledRef.current = false;
+        loadCollection<T>(key).then(loaded => {
+            if (loadCancelledRef.current) return;
+            persistedRef.current = loaded;
+            setRecords(loaded);
+            setIsLoaded(true);
+        });
+        return () => { loadCancelledRef.current = true; };
+    }, [key]);
+
+    useEffect(() => onRemoteChanges<T>(key, changes => {
+        if (!persistedRef.current) return; // Still loading; the load will include them
+        const getId = COLLECTIONS[key];
+        // The other tab already stored these, so they count as persisted here too.
+        persistedRef.current = applyRemoteChanges(persistedRef.current, changes, getId);
+        setRecords(prev => applyRemoteChanges(prev, changes, getId));
+    }), [key]);
+
+    useEffect(() => {
+        const prev = persistedRef.current;
+        if (!prev || prev === records) return;
+        persistedRef.current = records;
+        saveCollection(key, prev, records);
+    }, [key, records]);
+
+    const clear = useCallback(() => {
+        loadCancelledRef.current = true;
+        persistedRef.current = [];
+        setRecords([]);
+        setIsLoaded(true);
+        clearCollection(key);
+    }, [key]);
+
+    return [records, setRecords, { isLoaded, clear }] as const;
+};
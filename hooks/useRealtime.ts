@@ -1,30 +1,57 @@
-import { useState, useEffect, useRef } from 'react';
-import { WorkItem, User, ItemUpdateEvent, ConnectionStatus, Status } from '../types';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { User, ItemUpdateEvent, ConnectionStatus } from '../types';
+import { REALTIME_URL } from '../app/BackendConfig';
+import { RealtimeClient } from '../services/realtimeClient';
 
+// Live item notifications for the active board. Without a realtime server (REALTIME_URL empty)
+// the connection is simulated and `publish` is null, so callers deliver events locally.
 export const useRealtime = (
     isEnabled: boolean,
-    workItems: WorkItem[],
+    boardId: string | null,
     currentUser: User | null,
     onMessage: (message: ItemUpdateEvent) => void
 ) => {
     const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('DISCONNECTED');
-    
+    const clientRef = useRef<RealtimeClient | null>(null);
+    const onMessageRef = useRef(onMessage);
+    onMessageRef.current = onMessage;
+    const userId = currentUser?.id ?? null;
+
     useEffect(() => {
-        if (isEnabled && currentUser) {
+        if (!isEnabled || !userId) {
+            setConnectionStatus('DISCONNECTED');
+            return;
+        }
+        if (!REALTIME_URL) {
             setConnectionStatus('CONNECTING');
-            
             const connectTimeout = setTimeout(() => {
                 setConnectionStatus('CONNECTED');
             }, 1500);
-
             return () => {
                 clearTimeout(connectTimeout);
                 setConnectionStatus('DISCONNECTED');
             };
-        } else {
-            setConnectionStatus('DISCONNECTED');
         }
-    }, [isEnabled, currentUser, onMessage]);
+        const client = new RealtimeClient(REALTIME_URL, {
+            // The sender's own tabs and devices are on the board too; they don't need telling.
+            onEvent: event => { if (event.actor.id !== userId) onMessageRef.current(event); },
+            onStatus: setConnectionStatus,
+        });
+        clientRef.current = client;
+        client.start();
+        return () => {
+            client.stop();
+            clientRef.current = null;
+        };
+    }, [isEnabled, userId]);
+
+    useEffect(() => {
+        clientRef.current?.setBoard(boardId);
+    }, [boardId, isEnabled, userId]);
+
+    const publish = useCallback((event: ItemUpdateEvent) => {
+        clientRef.current?.publish(event);
+    }, []);
 
-    return { connectionStatus };
-};
\ No newline at end of file
+    return { connectionStatus, publish: REALTIME_URL ? publish : null };
+};
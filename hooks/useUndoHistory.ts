@@ -0,0 +1,50 @@
+import { useRef, useCallback, useMemo } from 'react';
+import { UndoEntry } from '../services/undoHistory';
+
+const HISTORY_LIMIT = 50;
+
+// Undo/redo stacks for commands recorded by App. Entries are plain closures,
+// so the stacks live in refs and never trigger a render themselves.
+export const useUndoHistory = () => {
+    const pastRef = useRef<UndoEntry[]>([]);
+    const futureRef = useRef<UndoEntry[]>([]);
+
+    const push = useCallback((entry: UndoEntry) => {
+        pastRef.current = [...pastRef.current, entry].slice(-HISTORY_LIMIT);
+        futureRef.current = [];
+    }, []);
+
+    const undo = useCallback((): UndoEntry | undefined => {
+        const entry = pastRef.current[pastRef.current.length - 1];
+        if (!entry) return undefined;
+        pastRef.current = pastRef.current.slice(0, -1);
+        entry.undo();
+        futureRef.current = [...futureRef.current, entry];
+        return entry;
+    }, []);
+
+    const redo = useCallback((): UndoEntry | undefined => {
+        const entry = futureRef.current[futureRef.current.length - 1];
+        if (!entry) return undefined;
+        futureRef.current = futureRef.current.slice(0, -1);
+        entry.redo();
+        pastRef.current = [...pastRef.current, entry];
+        return entry;
+    }, []);
+
+    // Undo a specific entry, e.g. from its toast, even if newer commands followed it.
+    const undoEntry = useCallback((id: string) => {
+        const entry = pastRef.current.find(e => e.id === id);
+        if (!entry) return;
+        pastRef.current = pastRef.current.filter(e => e.id !== id);
+        entry.undo();
+        futureRef.current = [...futureRef.current, entry];
+    }, []);
+
+    const clear = useCallback(() => {
+        pastRef.current = [];
+        futureRef.current = [];
+    }, []);
+
+    return useMemo(() => ({ push, undo, redo, undoEntry, clear }), [push, undo, redo, undoEntry, clear]);
+};
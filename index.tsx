@@ -6,6 +6,9 @@ import { LocaleProvider } from './context/LocaleContext';
 import { SettingsProvider } from './context/SettingsContext';
 import { BoardProvider } from './context/BoardContext';
 import { NavigationProvider } from './context/NavigationContext';
+import { AuditLogProvider } from './context/AuditLogContext';
+import { WorkflowProvider } from './context/WorkflowContext';
+import { ItemTemplateProvider } from './context/ItemTemplateContext';
 import { ErrorBoundary } from './components/system/ErrorBoundary';
 import { bootstrapApp } from './app/bootstrap';
 
@@ -22,9 +25,15 @@ root.render(
         <SettingsProvider>
           <AuthProvider>
             <BoardProvider>
-              <NavigationProvider>
-                <App />
-              </NavigationProvider>
+              <AuditLogProvider>
+                <WorkflowProvider>
+                  <ItemTemplateProvider>
+                    <NavigationProvider>
+                      <App />
+                    </NavigationProvider>
+                  </ItemTemplateProvider>
+                </WorkflowProvider>
+              </AuditLogProvider>
             </BoardProvider>
           </AuthProvider>
         </SettingsProvider>
@@ -0,0 +1,192 @@
+// server/index.mjs
+// Reference REST backend for ScrumOwl's RestAdapter (services/restAdapter.ts).
+// Plain Node, no dependencies: every collection is one JSON file in DATA_DIR.
+//
+//   GET    /collections/:key          -> { version, records }   (404 if never written)
+//   POST   /collections/:key/changes  <- { version, upserts: [{ id, record }], deletes, order }
+//   PUT    /collections/:key          <- { version, records: [{ id, record }] }
+//   DELETE /collections/:key
+//   PUT    /backups/:key              <- { version, records }
+//   GET    /realtime                  WebSocket upgrade for live item notifications (see realtime.mjs)
+//
+// Run with `npm run server`; PORT (default 8787), DATA_DIR (default ./server/data)
+// and CORS_ORIGIN (default *) are read from the environment.
+import { createServer } from 'node:http';
+import { mkdir, readFile, writeFile, rename, rm } from 'node:fs/promises';
+import path from 'node:path';
+import { attachRealtime } from './realtime.mjs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_DIR = path.resolve(process.env.DATA_DIR || 'server/data');
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
+const MAX_BODY_BYTES = 50 * 1024 * 1024;
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// Keys come from the URL, so keep them to a safe file name.
+const fileFor = (dir, key) => {
+  if (!/^[\w.-]+$/.test(key)) throw new HttpError(400, `Invalid key: ${key}`);
+  return path.join(DATA_DIR, dir, `${key}.json`);
+};
+
+const readJson = async file => {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch (e) {
+    if (e.code === 'ENOENT') return undefined;
+    throw e;
+  }
+};
+
+// Write to a temp file and rename, so a crash never leaves half a collection behind.
+const writeJson = async (file, data) => {
+  await mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await writeFile(tmp, JSON.stringify(data));
+  await rename(tmp, file);
+};
+
+// Requests are handled one at a time, so read-modify-write cycles never interleave.
+let queue = Promise.resolve();
+const serialized = op => {
+  const run = queue.then(op, op);
+  queue = run.catch(() => undefined);
+  return run;
+};
+
+const readBody = req => new Promise((resolve, reject) => {
+  let size = 0;
+  const chunks = [];
+  req.on('data', chunk => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+    } catch {
+      reject(new HttpError(400, 'Body is not valid JSON'));
+    }
+  });
+  req.on('error', reject);
+});
+
+// Bodies are checked before anything is written: a wrong shape is the client's mistake (400),
+// not a crash halfway through a write (500) or a collection file nobody can read back.
+const isObject = value => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isId = value => typeof value === 'string' && value !== '';
+const isVersion = value => value === undefined || Number.isInteger(value);
+const isEntry = entry => isObject(entry) && isId(entry.id) && isObject(entry.record);
+const isListOf = (value, check) => value === undefined || (Array.isArray(value) && value.every(check));
+
+const checkBody = (body, isValid, shape) => {
+  if (!isObject(body) || !isValid(body)) throw new HttpError(400, `Body must look like ${shape}`);
+  return body;
+};
+
+const isReplacement = body => isVersion(body.version) && isListOf(body.records, isEntry);
+const isChangeSet = body => isVersion(body.version) && isListOf(body.upserts, isEntry) && isListOf(body.deletes, isId) && isListOf(body.order, isId);
+const isBackup = body => isVersion(body.version) && Array.isArray(body.records);
+
+// Stored shape: { version, ids: [...], records: { [id]: record } }
+const toResponse = stored => ({ version: stored.version, records: stored.ids.map(id => stored.records[id]).filter(Boolean) });
+
+// Applies one client's changes. The client's order comes first; records other
+// clients added that this one has not seen yet are kept after it.
+const applyChanges = (stored, { version, upserts = [], deletes = [], order = [] }) => {
+  const records = { ...(stored?.records || {}) };
+  deletes.forEach(id => { delete records[id]; });
+  upserts.forEach(({ id, record }) => { records[id] = record; });
+  const seen = new Set();
+  const ids = [...order, ...(stored?.ids || [])].filter(id => {
+    if (seen.has(id) || !(id in records)) return false;
+    seen.add(id);
+    return true;
+  });
+  return { version: version ?? stored?.version ?? 0, ids, records };
+};
+
+// Malformed escapes such as "%E0%A4%A" are the client's mistake, not a crash.
+const pathSegments = (pathname) => {
+  try {
+    return pathname.split('/').filter(Boolean).map(decodeURIComponent);
+  } catch {
+    throw new HttpError(400, `Malformed path ${pathname}`);
+  }
+};
+
+const route = async (method, pathname, req) => {
+  const segments = pathSegments(pathname);
+  const [resource, key, action] = segments;
+  if (resource === 'collections' && key && !action) {
+    const file = fileFor('collections', key);
+    if (method === 'GET') {
+      const stored = await readJson(file);
+      if (!stored) throw new HttpError(404, `No collection "${key}"`);
+      return toResponse(stored);
+    }
+    if (method === 'PUT') {
+      const body = checkBody(await readBody(req), isReplacement, '{ version, records: [{ id, record }] }');
+      const records = Object.fromEntries((body.records || []).map(({ id, record }) => [id, record]));
+      await writeJson(file, { version: body.version ?? 0, ids: (body.records || []).map(r => r.id), records });
+      return undefined;
+    }
+    if (method === 'DELETE') {
+      await rm(file, { force: true });
+      return undefined;
+    }
+  }
+  if (resource === 'collections' && key && action === 'changes' && method === 'POST') {
+    const file = fileFor('collections', key);
+    const body = checkBody(await readBody(req), isChangeSet, '{ version, upserts: [{ id, record }], deletes: [id], order: [id] }');
+    await writeJson(file, applyChanges(await readJson(file), body));
+    return undefined;
+  }
+  if (resource === 'backups' && key && method === 'PUT') {
+    await writeJson(fileFor('backups', key), checkBody(await readBody(req), isBackup, '{ version, records: [...] }'));
+    return undefined;
+  }
+  throw new HttpError(404, `No route for ${method} /${segments.join('/')}`);
+};
+
+const server = createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN);
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204).end();
+    return;
+  }
+
+  const { pathname } = new URL(req.url, 'http://localhost');
+
+  serialized(() => route(req.method, pathname, req))
+    .then(result => {
+      if (result === undefined) {
+        res.writeHead(204).end();
+      } else {
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(result));
+      }
+    })
+    .catch(e => {
+      const status = e instanceof HttpError ? e.status : 500;
+      if (status === 500) console.error(`${req.method} ${pathname} failed`, e);
+      res.writeHead(status, { 'Content-Type': 'application/json' }).end(JSON.stringify({ error: e.message }));
+    });
+});
+
+attachRealtime(server, { allowedOrigin: CORS_ORIGIN });
+
+server.listen(PORT, () => {
+  console.log(`ScrumOwl reference server listening on http://localhost:${PORT} (data in ${DATA_DIR})`);
+});
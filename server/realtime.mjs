@@ -0,0 +1,210 @@
+// server/realtime.mjs
+// Realtime channel for services/realtimeClient.ts on ws(s)://<server>/realtime.
+// A minimal RFC 6455 implementation (text frames, ping/pong, close) so the server stays dependency-free.
+//
+// Client -> server (JSON text frames):
+//   { type: 'subscribe', boardId, lastEventId? }  follow one board; events after lastEventId are replayed
+//   { type: 'publish', event }                     an ItemUpdateEvent, sent to the board's other subscribers
+//   { type: 'ping' }
+// Server -> client:
+//   { type: 'subscribed', boardId, lastEventId, gap }  gap: some events after the client's lastEventId are gone
+//   { type: 'event', id, event }
+//   { type: 'pong' }
+//   { type: 'error', message }
+import { createHash } from 'node:crypto';
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_FRAME_BYTES = 1024 * 1024;
+const HISTORY_SIZE = 1000;          // Events kept for clients that resume after a reconnect
+const IDLE_TIMEOUT_MS = 45 * 1000;  // Clients ping every 15s; silence this long means the connection is dead
+
+const OPCODES = { continuation: 0x0, text: 0x1, binary: 0x2, close: 0x8, ping: 0x9, pong: 0xa };
+
+const encodeFrame = (opcode, payload = Buffer.alloc(0)) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Reads as many complete frames from buffer as it holds. Returns the frames and the unread rest.
+const decodeFrames = buffer => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const fin = (buffer[offset] & 0x80) !== 0;
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let cursor = offset + 2;
+    if (length === 126) {
+      if (buffer.length < cursor + 2) break;
+      length = buffer.readUInt16BE(cursor);
+      cursor += 2;
+    } else if (length === 127) {
+      if (buffer.length < cursor + 8) break;
+      length = Number(buffer.readBigUInt64BE(cursor));
+      cursor += 8;
+    }
+    if (length > MAX_FRAME_BYTES) throw new Error('Frame too large');
+    if (!masked) throw new Error('Client frames must be masked');
+    if (buffer.length < cursor + 4 + length) break;
+    const mask = buffer.subarray(cursor, cursor + 4);
+    cursor += 4;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    frames.push({ fin, opcode, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+export const attachRealtime = (server, { path = '/realtime', allowedOrigin = '*' } = {}) => {
+  const clients = new Set();
+  const history = [];
+  let lastEventId = 0;
+
+  const send = (client, message) => {
+    if (!client.socket.destroyed) client.socket.write(encodeFrame(OPCODES.text, Buffer.from(JSON.stringify(message))));
+  };
+
+  const close = (client, code = 1000) => {
+    if (client.closed) return;
+    client.closed = true;
+    clients.delete(client);
+    clearTimeout(client.idleTimer);
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code, 0);
+    if (!client.socket.destroyed) client.socket.end(encodeFrame(OPCODES.close, payload));
+  };
+
+  const touch = client => {
+    clearTimeout(client.idleTimer);
+    client.idleTimer = setTimeout(() => close(client, 1001), IDLE_TIMEOUT_MS);
+  };
+
+  const subscribe = (client, { boardId, lastEventId: resumeFrom }) => {
+    if (typeof boardId !== 'string' || !boardId) {
+      send(client, { type: 'error', message: 'subscribe needs a boardId' });
+      return;
+    }
+    client.boardId = boardId;
+    // An id from before a server restart is ahead of ours: nothing to replay from it.
+    const resumable = typeof resumeFrom === 'number' && resumeFrom <= lastEventId;
+    const missed = resumable ? history.filter(entry => entry.id > resumeFrom && entry.boardId === boardId) : [];
+    const gap = resumable && resumeFrom < lastEventId && (history.length === 0 || history[0].id > resumeFrom + 1);
+    send(client, { type: 'subscribed', boardId, lastEventId, gap });
+    missed.forEach(entry => send(client, { type: 'event', id: entry.id, event: entry.event }));
+  };
+
+  const publish = (client, event) => {
+    const boardId = event?.item?.boardId;
+    if (!client.boardId || boardId !== client.boardId) {
+      send(client, { type: 'error', message: 'Events can only be published to the subscribed board' });
+      return;
+    }
+    const entry = { id: ++lastEventId, boardId, event };
+    history.push(entry);
+    if (history.length > HISTORY_SIZE) history.shift();
+    clients.forEach(other => {
+      if (other !== client && other.boardId === boardId) send(other, { type: 'event', id: entry.id, event });
+    });
+  };
+
+  const handleText = (client, text) => {
+    let message;
+    try {
+      message = JSON.parse(text);
+    } catch {
+      send(client, { type: 'error', message: 'Messages must be JSON' });
+      return;
+    }
+    switch (message?.type) {
+      case 'subscribe': subscribe(client, message); break;
+      case 'publish': publish(client, message.event); break;
+      case 'ping': send(client, { type: 'pong' }); break;
+      default: send(client, { type: 'error', message: `Unknown message type: ${message?.type}` });
+    }
+  };
+
+  const handleFrame = (client, { fin, opcode, payload }) => {
+    switch (opcode) {
+      case OPCODES.text:
+      case OPCODES.continuation:
+        client.fragments.push(payload);
+        if (fin) {
+          const text = Buffer.concat(client.fragments).toString('utf8');
+          client.fragments = [];
+          handleText(client, text);
+        }
+        break;
+      case OPCODES.ping:
+        client.socket.write(encodeFrame(OPCODES.pong, payload));
+        break;
+      case OPCODES.pong:
+        break;
+      case OPCODES.close:
+        close(client);
+        break;
+      default:
+        close(client, 1003); // Binary frames are not part of the protocol
+    }
+  };
+
+  server.on('upgrade', (req, socket) => {
+    const { pathname } = new URL(req.url, 'http://localhost');
+    const key = req.headers['sec-websocket-key'];
+    const origin = req.headers.origin;
+    if (pathname !== path || !key || req.headers.upgrade?.toLowerCase() !== 'websocket') {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    if (allowedOrigin !== '*' && origin && origin !== allowedOrigin) {
+      socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+      return;
+    }
+    const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+    socket.write([
+      'HTTP/1.1 101 Switching Protocols',
+      'Upgrade: websocket',
+      'Connection: Upgrade',
+      `Sec-WebSocket-Accept: ${accept}`,
+      '', '',
+    ].join('\r\n'));
+    socket.setNoDelay(true);
+
+    const client = { socket, boardId: null, fragments: [], buffer: Buffer.alloc(0), idleTimer: null, closed: false };
+    clients.add(client);
+    touch(client);
+
+    socket.on('data', chunk => {
+      touch(client);
+      try {
+        const { frames, rest } = decodeFrames(Buffer.concat([client.buffer, chunk]));
+        client.buffer = rest;
+        frames.forEach(frame => handleFrame(client, frame));
+      } catch (e) {
+        console.warn('Dropping realtime client:', e.message);
+        close(client, 1002);
+      }
+    });
+    socket.on('close', () => {
+      client.closed = true;
+      clients.delete(client);
+      clearTimeout(client.idleTimer);
+    });
+    socket.on('error', () => socket.destroy());
+  });
+};
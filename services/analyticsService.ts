@@ -1,9 +1,12 @@
 // services/analyticsService.ts
-import { WorkItem, Epic, User, Status, EpicProgressReportData, AssigneeWorkloadData, Sprint } from '../types';
-import { SPRINTS, WIP_LIMIT } from '../constants';
+import { WorkItem, Epic, User, StatusCategory, EpicProgressReportData, AssigneeWorkloadData, Sprint } from '../types';
+import { SPRINTS } from '../constants';
+
+// Reports look at a status's category, not the status itself, since every board names its own.
+type CategoryOf = (statusId: string) => StatusCategory;
 
 // --- Burndown Chart Logic ---
-export const getBurndownData = (sprintId: string, workItems: WorkItem[]) => {
+export const getBurndownData = (sprintId: string, workItems: WorkItem[], categoryOf: CategoryOf) => {
     const sprintItems = workItems.filter(item => item.sprintId === sprintId);
     if (sprintItems.length === 0) return { labels: [], ideal: [], actual: [] };
     
@@ -22,7 +25,7 @@ export const getBurndownData = (sprintId: string, workItems: WorkItem[]) => {
         // This is a simplification. A real implementation would use transition logs.
         const completedThisDay = sprintItems.filter(item => {
             const dayOfSprint = (new Date(item.updatedAt).getTime() - new Date(item.createdAt).getTime()) / (1000 * 3600 * 24);
-            return item.status === Status.DONE && Math.ceil(dayOfSprint) === i;
+            return categoryOf(item.status) === 'done' && Math.ceil(dayOfSprint) === i;
         }).reduce((sum, item) => sum + (item.estimationPoints || 0), 0);
         
         remainingPoints -= completedThisDay;
@@ -33,7 +36,7 @@ export const getBurndownData = (sprintId: string, workItems: WorkItem[]) => {
 };
 
 // --- Velocity Chart Logic ---
-export const getVelocityData = (workItems: WorkItem[], sprints: Sprint[]) => {
+export const getVelocityData = (workItems: WorkItem[], sprints: Sprint[], categoryOf: CategoryOf) => {
     const sprintNames = sprints.map(s => s.name);
     const velocityBySprint: Record<string, number> = {};
     sprintNames.forEach(name => {
@@ -41,7 +44,7 @@ export const getVelocityData = (workItems: WorkItem[], sprints: Sprint[]) => {
     });
 
     workItems
-        .filter(item => item.status === Status.DONE && item.doneInSprintId)
+        .filter(item => categoryOf(item.status) === 'done' && item.doneInSprintId)
         .forEach(item => {
             const sprintName = sprints.find(s => s.id === item.doneInSprintId)?.name;
             if (sprintName && velocityBySprint.hasOwnProperty(sprintName)) {
@@ -78,23 +81,22 @@ export const getEpicProgressData = (enrichedEpics: Epic[]): EpicProgressReportDa
 };
 
 // --- Assignee Workload Logic ---
-export const getAssigneeWorkloadData = (workItems: WorkItem[], users: User[]): AssigneeWorkloadData[] => {
-    const workloadMap: Record<string, { open: number, inProgress: number, inReview: number, totalLoad: number }> = {};
+export const getAssigneeWorkloadData = (workItems: WorkItem[], users: User[], categoryOf: CategoryOf, wipLimitOf: (userId: string) => number | undefined): AssigneeWorkloadData[] => {
+    const workloadMap: Record<string, { open: number, inProgress: number, totalLoad: number }> = {};
 
     users.forEach(user => {
-        workloadMap[user.id] = { open: 0, inProgress: 0, inReview: 0, totalLoad: 0 };
+        workloadMap[user.id] = { open: 0, inProgress: 0, totalLoad: 0 };
     });
 
     workItems.forEach(item => {
         if (item.assignees && item.assignees.length > 0) {
             item.assignees.forEach(assignee => {
                 if (workloadMap[assignee.id]) {
-                    if (item.status === Status.TODO || item.status === Status.BACKLOG) {
+                    const category = categoryOf(item.status);
+                    if (category === 'todo') {
                         workloadMap[assignee.id].open++;
-                    } else if (item.status === Status.IN_PROGRESS) {
+                    } else if (category === 'in_progress') {
                         workloadMap[assignee.id].inProgress++;
-                    } else if (item.status === Status.IN_REVIEW) {
-                        workloadMap[assignee.id].inReview++;
                     }
                 }
             });
@@ -103,12 +105,13 @@ export const getAssigneeWorkloadData = (workItems: WorkItem[], users: User[]): A
 
     return users.map(user => {
         const stats = workloadMap[user.id];
-        const totalLoad = stats.open + stats.inProgress + stats.inReview;
+        const totalLoad = stats.open + stats.inProgress;
+        const wipLimit = wipLimitOf(user.id);
         return {
             assignee: user,
             ...stats,
             totalLoad,
-            wipBreached: stats.inProgress > WIP_LIMIT,
+            wipBreached: wipLimit !== undefined && stats.inProgress > wipLimit,
         };
     }).sort((a,b) => b.totalLoad - a.totalLoad);
 };
\ No newline at end of file
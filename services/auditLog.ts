@@ -0,0 +1,66 @@
+// services/auditLog.ts
+// Turns record changes into audit log events with field-level before/after values.
+import { isEqual } from 'lodash-es';
+import { AuditEntry, AuditEntity, AuditFieldChange } from '../types';
+
+// What callers report; the audit log context stamps id, time and actor.
+export type AuditEvent = Omit<AuditEntry, 'id' | 'at' | 'actor'>;
+
+// Bookkeeping fields that change on every save and say nothing about who changed what.
+const IGNORED_FIELDS = new Set(['updatedAt', 'version', 'isUpdated']);
+
+export const diffFields = (before: object | undefined, after: object | undefined): AuditFieldChange[] => {
+    const prev = (before || {}) as Record<string, unknown>;
+    const next = (after || {}) as Record<string, unknown>;
+    const fields = [...new Set([...Object.keys(prev), ...Object.keys(next)])];
+    return fields
+        .filter(field => !IGNORED_FIELDS.has(field) && !isEqual(prev[field], next[field]))
+        .map(field => ({ field, before: prev[field], after: next[field] }));
+};
+
+interface DiffOptions<T> {
+    boardId: (record: T) => string;
+    id: (record: T) => string;
+    label: (record: T) => string;
+}
+
+export const auditEventsFromDiff = <T extends object>(entity: AuditEntity, prev: T[], next: T[], options: DiffOptions<T>): AuditEvent[] => {
+    const prevById = new Map(prev.map(r => [options.id(r), r]));
+    const nextById = new Map(next.map(r => [options.id(r), r]));
+    const events: AuditEvent[] = [];
+
+    prev.forEach(before => {
+        const id = options.id(before);
+        const after = nextById.get(id);
+        const changes = diffFields(before, after);
+        if (changes.length === 0) return;
+        const record = after || before;
+        events.push({
+            boardId: options.boardId(record),
+            entity,
+            entityId: id,
+            entityLabel: options.label(record),
+            action: after ? 'update' : 'delete',
+            changes,
+        });
+    });
+    next.forEach(after => {
+        const id = options.id(after);
+        if (prevById.has(id)) return;
+        events.push({ boardId: options.boardId(after), entity, entityId: id, entityLabel: options.label(after), action: 'create', changes: diffFields(undefined, after) });
+    });
+
+    return events;
+};
+
+// Short human-readable rendering of a before/after value for the Audit view.
+export const formatAuditValue = (value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (Array.isArray(value)) return value.length ? value.map(formatAuditValue).join(', ') : '—';
+    if (typeof value === 'object') {
+        const named = value as { name?: string; title?: string; text?: string; id?: string };
+        return named.name || named.title || named.text || named.id || JSON.stringify(value);
+    }
+    const text = String(value);
+    return text.length > 120 ? `${text.slice(0, 117)}...` : text;
+};
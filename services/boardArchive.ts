@@ -0,0 +1,253 @@
+// services/boardArchive.ts
+import { Board, BoardMember, BoardWorkflow, WorkItem, Epic, Sprint, Team, CalendarEvent, SavedView, InviteCode, User } from '../types';
+import { BUILD_INFO } from '../app/BuildInfo';
+import { ROLES } from '../constants';
+import { defaultStatusId, defaultWorkflow } from './workflow';
+
+export const ARCHIVE_FORMAT = 'scrumowl.board-archive';
+// 2: the board's workflow (statuses, transitions, guards, WIP limits)
+export const ARCHIVE_VERSION = 2;
+
+export interface ArchiveManifest {
+    format: typeof ARCHIVE_FORMAT;
+    version: number;
+    exportedAt: string;
+    exportedBy: string; // user ID
+    appBuild: string;
+    counts: ArchiveCounts;
+}
+
+export interface ArchiveCounts {
+    members: number;
+    workItems: number;
+    epics: number;
+    sprints: number;
+    teams: number;
+    events: number;
+    savedViews: number;
+    inviteCodes: number;
+}
+
+export interface BoardSnapshot {
+    board: Board;
+    workflow: BoardWorkflow;
+    members: BoardMember[];
+    workItems: WorkItem[];
+    epics: Epic[];
+    sprints: Sprint[];
+    teams: Team[];
+    events: CalendarEvent[];
+    savedViews: SavedView[];
+    inviteCodes: InviteCode[];
+}
+
+export interface BoardArchive extends Omit<BoardSnapshot, 'workflow'> {
+    manifest: ArchiveManifest;
+    workflow?: BoardWorkflow; // Missing from version 1 archives, whose boards used the default workflow
+}
+
+// IDs already in use, so imported records never collide with them.
+export interface ExistingIds {
+    boards: string[];
+    workItems: string[];
+    epics: string[];
+    sprints: string[];
+    teams: string[];
+    events: string[];
+    savedViews: string[];
+    inviteCodes: string[];
+}
+
+export interface BoardImportPlan extends BoardSnapshot {
+    counts: ArchiveCounts;
+    idMap: Record<string, string>; // original ID -> new ID
+    warnings: string[];
+}
+
+const countSnapshot = (snapshot: BoardSnapshot): ArchiveCounts => ({
+    members: snapshot.members.length,
+    workItems: snapshot.workItems.length,
+    epics: snapshot.epics.length,
+    sprints: snapshot.sprints.length,
+    teams: snapshot.teams.length,
+    events: snapshot.events.length,
+    savedViews: snapshot.savedViews.length,
+    inviteCodes: snapshot.inviteCodes.length,
+});
+
+export const buildBoardArchive = (snapshot: BoardSnapshot, exportedBy: User): BoardArchive => ({
+    manifest: {
+        format: ARCHIVE_FORMAT,
+        version: ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        exportedBy: exportedBy.id,
+        appBuild: BUILD_INFO.version || BUILD_INFO.commit,
+        counts: countSnapshot(snapshot),
+    },
+    ...snapshot,
+});
+
+export const downloadBoardArchive = (archive: BoardArchive) => {
+    const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const slug = archive.board.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'board';
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `scrumowl-${slug}-${archive.manifest.exportedAt.slice(0, 10)}.json`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+const SECTIONS: (keyof ArchiveCounts)[] = ['members', 'workItems', 'epics', 'sprints', 'teams', 'events', 'savedViews', 'inviteCodes'];
+
+export const parseBoardArchive = (json: string): BoardArchive => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    const manifest = parsed?.manifest;
+    if (!manifest || manifest.format !== ARCHIVE_FORMAT) {
+        throw new Error('The file is not a ScrumOwl board archive.');
+    }
+    if (typeof manifest.version !== 'number' || manifest.version > ARCHIVE_VERSION) {
+        throw new Error(`Archive version ${manifest.version} is not supported by this version of ScrumOwl.`);
+    }
+    if (!parsed.board?.id || !parsed.board?.name) {
+        throw new Error('The archive does not contain a board.');
+    }
+    for (const section of SECTIONS) {
+        if (!Array.isArray(parsed[section])) {
+            throw new Error(`The archive is missing the "${section}" section.`);
+        }
+    }
+    if (manifest.version >= 2 && !Array.isArray(parsed.workflow?.statuses)) {
+        throw new Error('The archive is missing the "workflow" section.');
+    }
+    return parsed as BoardArchive;
+};
+
+// Hands out IDs in the app's usual formats, skipping any that are already taken.
+export const createIdFactory = (existing: ExistingIds) => {
+    const taken = new Set(Object.values(existing).flat());
+    let counter = 0;
+    return (format: (n: number) => string): string => {
+        let id: string;
+        do {
+            id = format(counter++);
+        } while (taken.has(id));
+        taken.add(id);
+        return id;
+    };
+};
+
+export const planBoardImport = (archive: BoardArchive, existing: ExistingIds, importer: User): BoardImportPlan => {
+    const nextId = createIdFactory(existing);
+    const stamp = Date.now();
+    const idMap: Record<string, string> = {};
+    const warnings: string[] = [];
+
+    const remapAll = <T>(records: T[], getId: (r: T) => string, format: (n: number) => string) => {
+        records.forEach(r => { idMap[getId(r)] = nextId(format); });
+    };
+    const mapId = (id?: string) => (id && idMap[id]) || undefined;
+
+    const boardId = nextId(n => `board-${stamp + n}`);
+    idMap[archive.board.id] = boardId;
+    remapAll(archive.workItems, w => w.id, n => `PROJ-${100 + n}`);
+    remapAll(archive.epics, e => e.id, n => `epic-${10 + n}`);
+    remapAll(archive.sprints, s => s.id, n => `sprint-${stamp + n}`);
+    remapAll(archive.teams, t => t.id, n => `team-${stamp + n}`);
+    remapAll(archive.events, e => e.id, n => `event-${stamp + n}`);
+    remapAll(archive.savedViews, v => v.id, n => `view-${stamp + n}`);
+    remapAll(archive.inviteCodes, c => c.code, () => `INV-${Math.random().toString(36).substring(2, 10).toUpperCase()}`);
+
+    // Status IDs belong to the board's workflow, so they come along unchanged.
+    const workflow: BoardWorkflow = { ...defaultWorkflow(boardId), ...archive.workflow, boardId };
+    const statusIds = new Set(workflow.statuses.map(s => s.id));
+
+    const workItems: WorkItem[] = archive.workItems.map(item => {
+        const status = statusIds.has(item.status) ? item.status : defaultStatusId(workflow);
+        if (status !== item.status) warnings.push(`${item.id}: status ${item.status} is not in the board's workflow and was set to ${status}.`);
+        const epicId = mapId(item.epicId);
+        const teamId = mapId(item.teamId);
+        if (item.epicId && !epicId) warnings.push(`${item.id}: epic ${item.epicId} is not in the archive and was unlinked.`);
+        if (item.sprintId && !mapId(item.sprintId)) warnings.push(`${item.id}: sprint ${item.sprintId} is not in the archive and was unlinked.`);
+        const links = item.links?.filter(link => {
+            if (mapId(link.targetId)) return true;
+            warnings.push(`${item.id}: linked item ${link.targetId} is not in the archive and the link was dropped.`);
+            return false;
+        }).map(link => ({ ...link, targetId: idMap[link.targetId] }));
+        return {
+            ...item,
+            id: idMap[item.id],
+            boardId,
+            status,
+            epicId,
+            epicInfo: epicId && item.epicInfo ? { ...item.epicInfo, id: epicId } : undefined,
+            sprintId: mapId(item.sprintId),
+            doneInSprintId: mapId(item.doneInSprintId),
+            teamId,
+            teamInfo: teamId && item.teamInfo ? { ...item.teamInfo, id: teamId } : undefined,
+            parentId: mapId(item.parentId),
+            childrenIds: item.childrenIds?.map(mapId).filter((id): id is string => !!id),
+            links,
+            seriesId: mapId(item.seriesId),
+            recurrence: item.recurrence && { ...item.recurrence, lastSprintId: mapId(item.recurrence.lastSprintId) },
+        };
+    });
+
+    const epics: Epic[] = archive.epics.map(epic => ({ ...epic, id: idMap[epic.id], boardId }));
+
+    const sprints: Sprint[] = archive.sprints.map(sprint => ({
+        ...sprint,
+        id: idMap[sprint.id],
+        boardId,
+        epicIds: sprint.epicIds.map(mapId).filter((id): id is string => !!id),
+    }));
+
+    const teams: Team[] = archive.teams.map(team => ({ ...team, id: idMap[team.id], boardId }));
+
+    const events: CalendarEvent[] = archive.events.map(event => ({
+        ...event,
+        id: idMap[event.id],
+        boardId,
+        start: new Date(event.start),
+        end: new Date(event.end),
+        linkedWorkItemId: mapId(event.linkedWorkItemId),
+        teamIds: event.teamIds?.map(mapId).filter((id): id is string => !!id),
+        hasConflict: undefined,
+        conflicts: undefined,
+    }));
+
+    const savedViews: SavedView[] = archive.savedViews.map(view => ({
+        ...view,
+        id: idMap[view.id],
+        boardId,
+        filterSet: { ...view.filterSet, teamIds: view.filterSet.teamIds.map(id => idMap[id] || id) },
+    }));
+
+    const inviteCodes: InviteCode[] = archive.inviteCodes.map(invite => ({ ...invite, code: idMap[invite.code], boardId, uses: 0 }));
+
+    // The person importing always ends up owning the new board.
+    const ownerRoleId = ROLES.find(r => r.name === 'Owner')!.id;
+    const members: BoardMember[] = archive.members.filter(m => m.user.id !== importer.id);
+    members.unshift({ user: importer, roleId: ownerRoleId });
+
+    const snapshot: BoardSnapshot = {
+        board: { ...archive.board, id: boardId },
+        workflow,
+        members,
+        workItems,
+        epics,
+        sprints,
+        teams,
+        events,
+        savedViews,
+        inviteCodes,
+    };
+    return { ...snapshot, counts: countSnapshot(snapshot), idMap, warnings };
+};
@@ -0,0 +1,122 @@
+// services/bulkEdit.ts
+// Bulk edits from the item list: one change applied to many items, with the items
+// it could not be applied to and why.
+import { isEqual } from 'lodash-es';
+import { BoardWorkflow, Epic, Priority, Sprint, Team, User, WorkItem } from '../types';
+import { canTransition, isDoneStatus } from './workflow';
+import { GuardViolation, guardViolations } from './transitionGuards';
+import { findWipBreaches } from './wipLimits';
+
+export type BulkEdit =
+    | { field: 'status'; status: string }
+    | { field: 'assignee'; assignee?: User } // No assignee unassigns the item entirely
+    | { field: 'priority'; priority: Priority }
+    | { field: 'sprint'; sprint?: Sprint }
+    | { field: 'epic'; epic?: Epic }
+    | { field: 'labels'; action: 'add' | 'remove'; label: string }
+    | { field: 'team'; team?: Team };
+
+export type BulkEditField = BulkEdit['field'];
+
+export const BULK_EDIT_FIELDS: BulkEditField[] = ['status', 'assignee', 'priority', 'sprint', 'epic', 'labels', 'team'];
+
+// permission: the user may not edit the item. transition: the workflow has no path from its status.
+// guard: it misses a field the new status requires. wip: the board blocks moves past its WIP limits.
+export type BulkSkipReason = 'permission' | 'transition' | 'guard' | 'wip';
+
+export interface BulkSkip {
+    item: WorkItem;
+    reason: BulkSkipReason;
+    violations?: GuardViolation[];
+}
+
+export interface BulkEditResult {
+    updated: WorkItem[];
+    unchanged: WorkItem[]; // Already had the new value
+    skipped: BulkSkip[];
+}
+
+interface BulkEditContext {
+    workflow: BoardWorkflow;
+    canEdit: (item: WorkItem) => boolean;
+    // All the board's items, for WIP counts and sub-task guards.
+    boardItems: WorkItem[];
+}
+
+const changesFor = (item: WorkItem, edit: BulkEdit, workflow: BoardWorkflow): Partial<WorkItem> => {
+    switch (edit.field) {
+        case 'status': {
+            const changes: Partial<WorkItem> = { status: edit.status };
+            if (item.status === edit.status) return changes;
+            // EP-SSR-01: Set doneInSprintId when item is completed, if not already set
+            if (isDoneStatus(workflow, edit.status) && !item.doneInSprintId) changes.doneInSprintId = item.sprintId;
+            return changes;
+        }
+        case 'assignee': {
+            if (!edit.assignee) return { assignee: undefined, assignees: [] };
+            const others = item.assignees.filter(a => a.id !== edit.assignee!.id && a.id !== item.assignee?.id);
+            return { assignee: edit.assignee, assignees: [edit.assignee, ...others] };
+        }
+        case 'priority': return { priority: edit.priority };
+        case 'sprint': return { sprintId: edit.sprint?.id };
+        case 'epic': return { epicId: edit.epic?.id, epicInfo: edit.epic ? { id: edit.epic.id, name: edit.epic.name, color: edit.epic.color } : undefined };
+        case 'labels': {
+            if (edit.action === 'remove') return { labels: item.labels.filter(label => label !== edit.label) };
+            return { labels: item.labels.includes(edit.label) ? item.labels : [...item.labels, edit.label] };
+        }
+        case 'team': return { teamId: edit.team?.id, teamInfo: edit.team ? { id: edit.team.id, name: edit.team.name } : undefined };
+    }
+};
+
+const isUnchanged = (item: WorkItem, changes: Partial<WorkItem>) =>
+    (Object.keys(changes) as (keyof WorkItem)[]).every(field => isEqual(item[field], changes[field]));
+
+// How many of an item's ancestors are in `ids`, so sub-tasks can go before their parents.
+const depthAmong = (item: WorkItem, byId: Map<string, WorkItem>): number => {
+    let depth = 0;
+    const seen = new Set<string>();
+    for (let parentId = item.parentId; parentId && byId.has(parentId) && !seen.has(parentId); parentId = byId.get(parentId)!.parentId) {
+        seen.add(parentId);
+        depth++;
+    }
+    return depth;
+};
+
+// Items are checked in order, sub-tasks before their parents; each move counts towards the
+// WIP limits and sub-task guards of the ones after it.
+export const planBulkEdit = (items: WorkItem[], edit: BulkEdit, ctx: BulkEditContext): BulkEditResult => {
+    const result: BulkEditResult = { updated: [], unchanged: [], skipped: [] };
+    let boardItems = ctx.boardItems;
+    const byId = new Map(items.map(item => [item.id, item]));
+    const ordered = [...items].sort((a, b) => depthAmong(b, byId) - depthAmong(a, byId));
+    ordered.forEach(item => {
+        const changes = changesFor(item, edit, ctx.workflow);
+        if (isUnchanged(item, changes)) {
+            result.unchanged.push(item);
+            return;
+        }
+        if (!ctx.canEdit(item)) {
+            result.skipped.push({ item, reason: 'permission' });
+            return;
+        }
+        const updated: WorkItem = { ...item, ...changes };
+        if (edit.field === 'status') {
+            if (!canTransition(ctx.workflow, item, edit.status)) {
+                result.skipped.push({ item, reason: 'transition' });
+                return;
+            }
+            const violations = guardViolations(ctx.workflow, item, edit.status, boardItems);
+            if (violations.length > 0) {
+                result.skipped.push({ item, reason: 'guard', violations });
+                return;
+            }
+            if (ctx.workflow.wip.enforcement === 'block' && findWipBreaches(ctx.workflow, boardItems, item, updated).length > 0) {
+                result.skipped.push({ item, reason: 'wip' });
+                return;
+            }
+        }
+        boardItems = boardItems.map(other => other.id === item.id ? updated : other);
+        result.updated.push(updated);
+    });
+    return result;
+};
@@ -1,6 +1,6 @@
 import { CalendarEvent, WorkItem, User, Conflict, Team } from '../types';
 import { ALL_USERS } from '../constants';
-import { load, save } from './persistence';
+import { loadCollection, saveCollection } from './persistence';
 
 // --- Conflict Detection Logic (US-30) ---
 const isOverlap = (startA: Date, endA: Date, startB: Date, endB: Date): boolean => {
@@ -47,8 +47,7 @@ const rehydrateDates = (events: CalendarEvent[]): CalendarEvent[] => {
 };
 
 export const getEvents = async (scope: 'my' | 'all', currentUser: User): Promise<CalendarEvent[]> => {
-    await new Promise(res => setTimeout(res, 100));
-    const events = rehydrateDates(load<CalendarEvent[]>('events', []));
+    const events = rehydrateDates(await loadCollection<CalendarEvent>('events'));
     if (scope === 'my') {
         return events.filter(e =>
             e.createdBy.id === currentUser.id || e.attendees.some(a => a.id === currentUser.id)
@@ -59,14 +58,13 @@ export const getEvents = async (scope: 'my' | 'all', currentUser: User): Promise
 
 // FIX-08: Get today's events for the banner
 export const getTodaysEvents = async (currentUser: User): Promise<CalendarEvent[]> => {
-    await new Promise(res => setTimeout(res, 100));
     const now = new Date();
     const todayStart = new Date();
     todayStart.setHours(0, 0, 0, 0);
     const todayEnd = new Date();
     todayEnd.setHours(23, 59, 59, 999);
     
-    const events = rehydrateDates(load<CalendarEvent[]>('events', []));
+    const events = rehydrateDates(await loadCollection<CalendarEvent>('events'));
 
     return events
         .filter(e => {
@@ -86,8 +84,8 @@ const expandTeamsToAttendees = (attendees: User[], teamIds: string[] = [], allTe
 };
 
 export const createEvent = async (eventData: Omit<CalendarEvent, 'id' | 'createdBy' | 'hasConflict' | 'conflicts'>, createdBy: User, allTeams: Team[]): Promise<CalendarEvent> => {
-    await new Promise(res => setTimeout(res, 300));
-    let events = rehydrateDates(load<CalendarEvent[]>('events', []));
+    const storedEvents = rehydrateDates(await loadCollection<CalendarEvent>('events'));
+    let events = [...storedEvents];
 
     const finalAttendees = expandTeamsToAttendees(eventData.attendees, eventData.teamIds, allTeams);
 
@@ -99,39 +97,44 @@ export const createEvent = async (eventData: Omit<CalendarEvent, 'id' | 'created
     };
     events.push(newEvent);
     events = updateAllConflicts(events);
-    save('events', events);
+    await saveCollection('events', storedEvents, events);
     return events.find(e => e.id === newEvent.id)!;
 };
 
 export const updateEvent = async (updatedEventData: CalendarEvent, allTeams: Team[]): Promise<CalendarEvent> => {
-    await new Promise(res => setTimeout(res, 300));
-    let events = rehydrateDates(load<CalendarEvent[]>('events', []));
+    const storedEvents = rehydrateDates(await loadCollection<CalendarEvent>('events'));
     const finalAttendees = expandTeamsToAttendees(updatedEventData.attendees, updatedEventData.teamIds, allTeams);
     const finalEvent = { ...updatedEventData, attendees: finalAttendees };
 
-    events = events.map(e => e.id === finalEvent.id ? finalEvent : e);
+    let events = storedEvents.map(e => e.id === finalEvent.id ? finalEvent : e);
     events = updateAllConflicts(events);
-    save('events', events);
+    await saveCollection('events', storedEvents, events);
     return events.find(e => e.id === finalEvent.id)!;
 };
 
 export const deleteEvent = async (eventId: string): Promise<void> => {
-    await new Promise(res => setTimeout(res, 300));
-    let events = rehydrateDates(load<CalendarEvent[]>('events', []));
-    events = events.filter(e => e.id !== eventId);
+    const storedEvents = rehydrateDates(await loadCollection<CalendarEvent>('events'));
+    let events = storedEvents.filter(e => e.id !== eventId);
     events = updateAllConflicts(events);
-    save('events', events);
+    await saveCollection('events', storedEvents, events);
+};
+
+// Adds already-prepared events (e.g. from a board archive) in one write.
+export const importEvents = async (importedEvents: CalendarEvent[]): Promise<void> => {
+    const storedEvents = rehydrateDates(await loadCollection<CalendarEvent>('events'));
+    const events = updateAllConflicts([...storedEvents, ...rehydrateDates(importedEvents)]);
+    await saveCollection('events', storedEvents, events);
 };
 
 export const getConflictsPreview = async (eventData: Partial<CalendarEvent>, allTeams: Team[]): Promise<Conflict[]> => {
-    await new Promise(res => setTimeout(res, 50));
     if (!eventData.start || !eventData.end) return [];
     
-    const events = rehydrateDates(load<CalendarEvent[]>('events', []));
+    const events = rehydrateDates(await loadCollection<CalendarEvent>('events'));
     const finalAttendees = expandTeamsToAttendees(eventData.attendees || [], eventData.teamIds, allTeams);
 
     const eventToTest: CalendarEvent = {
         id: eventData.id || 'temp-id',
+        boardId: eventData.boardId || '',
         title: eventData.title || '',
         start: eventData.start,
         end: eventData.end,
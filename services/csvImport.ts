@@ -0,0 +1,202 @@
+// services/csvImport.ts
+import { WorkItem, WorkItemType, Status, Priority, User, Epic, BoardWorkflow } from '../types';
+import { load, save } from './persistence';
+import { defaultStatusId } from './workflow';
+
+export const CSV_FIELDS = ['title', 'type', 'status', 'priority', 'estimationPoints', 'labels', 'dueDate', 'assignee', 'epic'] as const;
+export type CsvField = typeof CSV_FIELDS[number];
+
+// Maps each field to the header of the CSV column it is read from.
+export type CsvMapping = Partial<Record<CsvField, string>>;
+
+export type CsvRowErrorCode = 'required' | 'invalid_type' | 'invalid_status' | 'invalid_priority' | 'invalid_number' | 'invalid_date' | 'unknown_assignee' | 'unknown_epic';
+
+export interface CsvRowError {
+    field: CsvField;
+    code: CsvRowErrorCode;
+    value: string;
+}
+
+export interface CsvImportRow {
+    rowNumber: number; // 1-based, counting the header row
+    item: Partial<WorkItem>;
+    errors: CsvRowError[];
+}
+
+export interface CsvImportContext {
+    boardId: string;
+    reporter: User;
+    users: User[];
+    epics: Epic[];
+    workflow: BoardWorkflow;
+}
+
+export interface ParsedCsv {
+    headers: string[];
+    rows: string[][];
+}
+
+// RFC 4180: comma separated, double-quoted fields may contain commas, quotes ("") and newlines.
+export const parseCsv = (text: string): ParsedCsv => {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    const input = text.replace(/^﻿/, '');
+
+    for (let i = 0; i < input.length; i++) {
+        const ch = input[i];
+        if (inQuotes) {
+            if (ch === '"' && input[i + 1] === '"') { field += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else field += ch;
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === ',') {
+            record.push(field); field = '';
+        } else if (ch === '\n' || ch === '\r') {
+            if (ch === '\r' && input[i + 1] === '\n') i++;
+            record.push(field); field = '';
+            records.push(record); record = [];
+        } else {
+            field += ch;
+        }
+    }
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    const nonEmpty = records.filter(r => r.some(cell => cell.trim() !== ''));
+    const [headers = [], ...rows] = nonEmpty;
+    return { headers: headers.map(h => h.trim()), rows };
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s_-]+/g, '');
+
+const HEADER_ALIASES: Record<CsvField, string[]> = {
+    title: ['title', 'summary', 'name'],
+    type: ['type', 'issuetype', 'itemtype'],
+    status: ['status', 'state'],
+    priority: ['priority'],
+    estimationPoints: ['estimationpoints', 'points', 'storypoints', 'estimate'],
+    labels: ['labels', 'tags'],
+    dueDate: ['duedate', 'due'],
+    assignee: ['assignee', 'assigneeemail', 'owner'],
+    epic: ['epic', 'epicname', 'epiclink'],
+};
+
+export const guessMapping = (headers: string[]): CsvMapping => {
+    const mapping: CsvMapping = {};
+    CSV_FIELDS.forEach(field => {
+        const header = headers.find(h => HEADER_ALIASES[field].includes(normalize(h)));
+        if (header) mapping[field] = header;
+    });
+    return mapping;
+};
+
+// Accepts enum values ("In Progress") as well as enum keys ("IN_PROGRESS"), case-insensitively.
+const matchEnum = <T extends string>(enumObj: Record<string, T>, raw: string, allowed?: T[]): T | undefined => {
+    const target = normalize(raw);
+    const match = Object.entries(enumObj).find(([key, value]) => normalize(key) === target || normalize(value) === target);
+    const value = match?.[1];
+    return value && (!allowed || allowed.includes(value)) ? value : undefined;
+};
+
+const IMPORTABLE_TYPES = Object.values(WorkItemType).filter(t => t !== WorkItemType.EPIC);
+
+export const buildImportRows = (csv: ParsedCsv, mapping: CsvMapping, ctx: CsvImportContext): CsvImportRow[] => {
+    const columnIndex = (field: CsvField) => mapping[field] ? csv.headers.indexOf(mapping[field]!) : -1;
+    const indexes = Object.fromEntries(CSV_FIELDS.map(f => [f, columnIndex(f)])) as Record<CsvField, number>;
+
+    return csv.rows.map((row, i) => {
+        const cell = (field: CsvField) => indexes[field] >= 0 ? (row[indexes[field]] || '').trim() : '';
+        const errors: CsvRowError[] = [];
+        const fail = (field: CsvField, code: CsvRowErrorCode) => errors.push({ field, code, value: cell(field) });
+
+        const title = cell('title');
+        if (!title) fail('title', 'required');
+
+        let type = WorkItemType.TASK;
+        if (cell('type')) {
+            const matched = matchEnum(WorkItemType, cell('type'), IMPORTABLE_TYPES);
+            matched ? type = matched : fail('type', 'invalid_type');
+        }
+
+        // Board status names, plus the built-in enum spellings for built-in statuses the board kept.
+        let status = defaultStatusId(ctx.workflow);
+        if (cell('status')) {
+            const boardStatus = ctx.workflow.statuses.find(s => normalize(s.name) === normalize(cell('status')))?.id;
+            const matched = boardStatus ?? matchEnum<string>(Status, cell('status'), ctx.workflow.statuses.map(s => s.id));
+            matched ? status = matched : fail('status', 'invalid_status');
+        }
+
+        let priority = Priority.MEDIUM;
+        if (cell('priority')) {
+            const matched = matchEnum(Priority, cell('priority'));
+            matched ? priority = matched : fail('priority', 'invalid_priority');
+        }
+
+        let estimationPoints = 0;
+        if (cell('estimationPoints')) {
+            const parsed = Number(cell('estimationPoints'));
+            Number.isFinite(parsed) && parsed >= 0 ? estimationPoints = parsed : fail('estimationPoints', 'invalid_number');
+        }
+
+        let dueDate = '';
+        if (cell('dueDate')) {
+            const parsed = new Date(cell('dueDate'));
+            isNaN(parsed.getTime()) ? fail('dueDate', 'invalid_date') : dueDate = parsed.toISOString();
+        }
+
+        const labels = cell('labels').split(/[;,|]/).map(l => l.trim()).filter(Boolean);
+
+        let assignee: User | undefined;
+        if (cell('assignee')) {
+            assignee = ctx.users.find(u => u.email.toLowerCase() === cell('assignee').toLowerCase());
+            if (!assignee) fail('assignee', 'unknown_assignee');
+        }
+
+        let epic: Epic | undefined;
+        if (cell('epic')) {
+            epic = ctx.epics.find(e => e.name.trim().toLowerCase() === cell('epic').toLowerCase());
+            if (!epic) fail('epic', 'unknown_epic');
+        }
+
+        const item: Partial<WorkItem> = {
+            boardId: ctx.boardId,
+            title,
+            description: '',
+            summary: '',
+            type,
+            status,
+            priority,
+            estimationPoints,
+            effortHours: 0,
+            dueDate,
+            labels,
+            reporter: ctx.reporter,
+            assignee,
+            assignees: assignee ? [assignee] : [],
+            epicId: epic?.id,
+            epicInfo: epic ? { id: epic.id, name: epic.name, color: epic.color } : undefined,
+            checklist: [],
+            attachments: [],
+            watchers: [ctx.reporter.id],
+            sprintBinding: 'manual',
+        };
+
+        return { rowNumber: i + 2, item, errors };
+    });
+};
+
+// --- Mapping templates, saved per board ---
+const TEMPLATES_KEY = 'csvMappingTemplates';
+
+export const loadMappingTemplate = (boardId: string): CsvMapping | undefined =>
+    load<Record<string, CsvMapping>>(TEMPLATES_KEY, {})[boardId];
+
+export const saveMappingTemplate = (boardId: string, mapping: CsvMapping) => {
+    const templates = load<Record<string, CsvMapping>>(TEMPLATES_KEY, {});
+    save(TEMPLATES_KEY, { ...templates, [boardId]: mapping });
+};
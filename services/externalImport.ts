@@ -0,0 +1,232 @@
+// services/externalImport.ts
+import { WorkItem, Epic, Sprint, Comment, User, Status, BoardWorkflow, Priority, WorkItemType, SprintState, EpicStatus, ExternalRef, ChecklistItem } from '../types';
+import { EPIC_COLORS } from '../constants';
+import { ExistingIds, createIdFactory } from './boardArchive';
+import { parseJiraExport, isJiraExport } from './jiraImport';
+import { parseTrelloExport, isTrelloExport } from './trelloImport';
+import { DEFAULT_STATUSES, defaultStatusId, isDoneStatus } from './workflow';
+
+// --- Tool-neutral shape the Jira and Trello adapters convert into ---
+export interface ForeignComment {
+    authorName: string;
+    body: string;
+    createdAt: string;
+}
+
+export interface ForeignItem {
+    ref: ExternalRef;
+    title: string;
+    description: string; // Plain text
+    type: WorkItemType;
+    status: string; // Status name in the source tool
+    priority: Priority;
+    estimationPoints: number;
+    labels: string[];
+    dueDate?: string;
+    assignee?: { email?: string; name?: string };
+    epicKey?: string;
+    parentKey?: string;
+    sprintKey?: string;
+    checklist: ChecklistItem[];
+    comments: ForeignComment[];
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+export interface ForeignEpic {
+    ref: ExternalRef;
+    name: string;
+    description: string; // Plain text
+    isDone: boolean;
+}
+
+export interface ForeignSprint {
+    ref: ExternalRef;
+    name: string;
+    goal?: string;
+    state: SprintState;
+    startAt?: string;
+    endAt?: string;
+}
+
+export interface ForeignBoard {
+    source: ExternalRef['source'];
+    name: string;
+    statuses: string[]; // In the order the source tool shows them
+    items: ForeignItem[];
+    epics: ForeignEpic[];
+    sprints: ForeignSprint[];
+    warnings: string[];
+}
+
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+// Descriptions are stored and shown as HTML, so the export's plain text is escaped before line breaks become tags.
+const textToHtml = (text: string): string =>
+    text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]).replace(/\r?\n/g, '<br />');
+
+// Foreign status name -> status id on this board
+export type StatusMapping = Record<string, string>;
+
+export const parseExternalExport = (json: string): ForeignBoard => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(json);
+    } catch {
+        throw new Error('The file is not valid JSON.');
+    }
+    if (isJiraExport(parsed)) return parseJiraExport(parsed);
+    if (isTrelloExport(parsed)) return parseTrelloExport(parsed);
+    throw new Error('The file is neither a Jira issue export nor a Trello board export.');
+};
+
+const STATUS_HINTS: [RegExp, Status][] = [
+    [/backlog|icebox/i, Status.BACKLOG],
+    [/review|qa|test|verify/i, Status.IN_REVIEW],
+    [/progress|doing|started|active/i, Status.IN_PROGRESS],
+    [/done|closed|resolved|complete|shipped|released/i, Status.DONE],
+];
+
+// A hinted built-in status the board has dropped falls back to the board's first status of the same category.
+const hintedStatus = (name: string, workflow: BoardWorkflow): string | undefined => {
+    const hint = STATUS_HINTS.find(([pattern]) => pattern.test(name))?.[1];
+    if (!hint) return undefined;
+    if (workflow.statuses.some(s => s.id === hint)) return hint;
+    const category = DEFAULT_STATUSES.find(s => s.id === hint)?.category;
+    return workflow.statuses.find(s => s.category === category)?.id;
+};
+
+export const guessStatusMapping = (statuses: string[], workflow: BoardWorkflow): StatusMapping =>
+    Object.fromEntries(statuses.map(name => {
+        const exact = workflow.statuses.find(s => s.name.toLowerCase() === name.trim().toLowerCase())?.id;
+        return [name, exact || hintedStatus(name, workflow) || defaultStatusId(workflow)];
+    }));
+
+export interface ExternalImportContext {
+    boardId: string;
+    importer: User;
+    members: User[];
+    existing: ExistingIds;
+    nextSprintNumber: number;
+    workflow: BoardWorkflow;
+}
+
+export interface ExternalImportPlan {
+    workItems: WorkItem[];
+    epics: Epic[];
+    sprints: Sprint[];
+    warnings: string[];
+}
+
+export const planExternalImport = (board: ForeignBoard, mapping: StatusMapping, ctx: ExternalImportContext): ExternalImportPlan => {
+    const nextId = createIdFactory(ctx.existing);
+    const stamp = Date.now();
+    const now = new Date().toISOString();
+    const warnings = [...board.warnings];
+
+    const findMember = (who?: { email?: string; name?: string }) => {
+        if (!who) return undefined;
+        return ctx.members.find(m => who.email && m.email.toLowerCase() === who.email.toLowerCase())
+            || ctx.members.find(m => who.name && m.name.toLowerCase() === who.name.toLowerCase());
+    };
+
+    const epics: Epic[] = board.epics.map((epic, i) => ({
+        id: nextId(n => `epic-${10 + n}`),
+        boardId: ctx.boardId,
+        name: epic.name,
+        aiSummary: '',
+        description: textToHtml(epic.description),
+        attachments: [],
+        ease: 5,
+        impact: 5,
+        confidence: 5,
+        iceScore: 5,
+        createdAt: now,
+        updatedAt: now,
+        color: EPIC_COLORS[i % EPIC_COLORS.length],
+        status: epic.isDone ? EpicStatus.DONE : EpicStatus.ACTIVE,
+        externalRef: epic.ref,
+    }));
+    const epicByKey = new Map(board.epics.map((epic, i) => [epic.ref.key, epics[i]]));
+
+    const sprints: Sprint[] = board.sprints.map((sprint, i) => ({
+        id: nextId(n => `sprint-${stamp + n}`),
+        boardId: ctx.boardId,
+        number: ctx.nextSprintNumber + i,
+        name: sprint.name,
+        goal: sprint.goal,
+        startAt: sprint.startAt || now,
+        endAt: sprint.endAt || sprint.startAt || now,
+        state: sprint.state,
+        epicIds: [],
+        externalRef: sprint.ref,
+    }));
+    const sprintByKey = new Map(board.sprints.map((sprint, i) => [sprint.ref.key, sprints[i]]));
+
+    const idByKey = new Map(board.items.map(item => [item.ref.key, nextId(n => `PROJ-${100 + n}`)]));
+    const unmatchedPeople = new Set<string>();
+
+    const workItems: WorkItem[] = board.items.map(item => {
+        const id = idByKey.get(item.ref.key)!;
+        const assignee = findMember(item.assignee);
+        if (item.assignee && !assignee) unmatchedPeople.add(item.assignee.email || item.assignee.name || '');
+        const epic = item.epicKey ? epicByKey.get(item.epicKey) : undefined;
+        if (item.epicKey && !epic) warnings.push(`${item.ref.key}: epic ${item.epicKey} is not in the export and was unlinked.`);
+        const sprint = item.sprintKey ? sprintByKey.get(item.sprintKey) : undefined;
+        if (sprint && epic && !sprint.epicIds.includes(epic.id)) sprint.epicIds.push(epic.id);
+        const status = mapping[item.status] || defaultStatusId(ctx.workflow);
+
+        const comments: Comment[] = item.comments.map((comment, i) => ({
+            id: `comment-${stamp}-${id}-${i}`,
+            user: { name: comment.authorName, avatarUrl: '' },
+            content: comment.body,
+            mentions: [],
+            timestamp: comment.createdAt,
+        }));
+
+        return {
+            id,
+            boardId: ctx.boardId,
+            title: item.title,
+            summary: '',
+            description: textToHtml(item.description),
+            type: item.type,
+            status,
+            assignee,
+            assignees: assignee ? [assignee] : [],
+            reporter: ctx.importer,
+            priority: item.priority,
+            sprintId: sprint?.id,
+            sprintBinding: 'manual',
+            doneInSprintId: isDoneStatus(ctx.workflow, status) ? sprint?.id : undefined,
+            group: '',
+            stack: '',
+            estimationPoints: item.estimationPoints,
+            effortHours: 0,
+            dueDate: item.dueDate || '',
+            labels: item.labels,
+            checklist: item.checklist,
+            attachments: [],
+            watchers: [ctx.importer.id],
+            createdAt: item.createdAt || now,
+            updatedAt: item.updatedAt || now,
+            version: 1,
+            parentId: item.parentKey ? idByKey.get(item.parentKey) : undefined,
+            epicId: epic?.id,
+            epicInfo: epic ? { id: epic.id, name: epic.name, color: epic.color } : undefined,
+            comments,
+            externalRef: item.ref,
+        };
+    });
+
+    // Keep both sides of the parent/child link in step.
+    workItems.forEach(item => {
+        if (!item.parentId) return;
+        const parent = workItems.find(p => p.id === item.parentId);
+        if (parent) parent.childrenIds = [...(parent.childrenIds || []), item.id];
+    });
+
+    unmatchedPeople.forEach(person => warnings.push(`${person} is not a member of this board; their items were left unassigned.`));
+
+    return { workItems, epics, sprints, warnings };
+};
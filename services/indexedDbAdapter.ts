@@ -0,0 +1,129 @@
+// services/indexedDbAdapter.ts
+import { StorageAdapter, StoredCollection, CollectionChanges } from './storageAdapter';
+
+const DB_NAME = 'scrumowl';
+const DB_VERSION = 1;
+const RECORDS = 'records';         // key: [collection, id] -> record
+const COLLECTIONS = 'collections'; // key: collection -> { version, ids }
+const BACKUPS = 'backups';         // key: backup key -> StoredCollection
+
+interface CollectionMeta {
+  version: number;
+  ids: string[];
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Quota errors surface as the transaction's error when it aborts.
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new DOMException('Transaction aborted', 'AbortError'));
+  });
+
+const collectionRange = (key: string) => IDBKeyRange.bound([key], [key, []]);
+
+// Stores every record as its own row so a change rewrites only that record,
+// plus one small per-collection row holding the version and record order.
+export class IndexedDbAdapter implements StorageAdapter {
+  readonly name = 'indexedDB';
+  readonly shared = false;
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(RECORDS)) db.createObjectStore(RECORDS);
+          if (!db.objectStoreNames.contains(COLLECTIONS)) db.createObjectStore(COLLECTIONS);
+          if (!db.objectStoreNames.contains(BACKUPS)) db.createObjectStore(BACKUPS);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+        request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+      });
+      this.dbPromise.catch(() => { this.dbPromise = null; });
+    }
+    return this.dbPromise;
+  }
+
+  // Runs operations one after another so a clear issued after a load is applied after it.
+  private enqueue<T>(op: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(op, op);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  loadCollection<T>(key: string): Promise<StoredCollection<T> | undefined> {
+    return this.enqueue(async () => {
+      const db = await this.open();
+      const tx = db.transaction([RECORDS, COLLECTIONS], 'readonly');
+      const meta = await requestToPromise<CollectionMeta | undefined>(tx.objectStore(COLLECTIONS).get(key));
+      if (!meta) return undefined;
+
+      const store = tx.objectStore(RECORDS);
+      const [keys, values] = await Promise.all([
+        requestToPromise(store.getAllKeys(collectionRange(key))),
+        requestToPromise(store.getAll(collectionRange(key))),
+      ]);
+      const byId = new Map<string, T>();
+      keys.forEach((k, i) => byId.set((k as [string, string])[1], values[i] as T));
+
+      return {
+        version: meta.version,
+        records: meta.ids.map(id => byId.get(id)).filter((r): r is T => r !== undefined),
+      };
+    });
+  }
+
+  writeRecords<T>(key: string, version: number, changes: CollectionChanges<T>): Promise<void> {
+    return this.enqueue(async () => {
+      const db = await this.open();
+      const tx = db.transaction([RECORDS, COLLECTIONS], 'readwrite');
+      const records = tx.objectStore(RECORDS);
+      changes.deletes.forEach(id => records.delete([key, id]));
+      changes.upserts.forEach(({ id, record }) => records.put(record, [key, id]));
+      tx.objectStore(COLLECTIONS).put({ version, ids: changes.order } as CollectionMeta, key);
+      await transactionDone(tx);
+    });
+  }
+
+  replaceCollection<T>(key: string, version: number, records: T[], getId: (record: T) => string): Promise<void> {
+    return this.enqueue(async () => {
+      const db = await this.open();
+      const tx = db.transaction([RECORDS, COLLECTIONS], 'readwrite');
+      const store = tx.objectStore(RECORDS);
+      store.delete(collectionRange(key));
+      records.forEach(record => store.put(record, [key, getId(record)]));
+      tx.objectStore(COLLECTIONS).put({ version, ids: records.map(getId) } as CollectionMeta, key);
+      await transactionDone(tx);
+    });
+  }
+
+  backupCollection(backupKey: string, stored: StoredCollection<unknown>): Promise<void> {
+    return this.enqueue(async () => {
+      const db = await this.open();
+      const tx = db.transaction(BACKUPS, 'readwrite');
+      tx.objectStore(BACKUPS).put(stored, backupKey);
+      await transactionDone(tx);
+    });
+  }
+
+  clearCollection(key: string): Promise<void> {
+    return this.enqueue(async () => {
+      const db = await this.open();
+      const tx = db.transaction([RECORDS, COLLECTIONS], 'readwrite');
+      tx.objectStore(RECORDS).delete(collectionRange(key));
+      tx.objectStore(COLLECTIONS).delete(key);
+      await transactionDone(tx);
+    });
+  }
+}
@@ -0,0 +1,144 @@
+// services/itemLinks.ts
+// Typed links between work items. A link is stored once, on the item it reads from
+// ("PHX-12 blocks PHX-40" lives on PHX-12); the other side (blocked by) is derived.
+import { StatusCategory, WorkItem, WorkItemLink, WorkItemLinkType } from '../types';
+
+// How a link reads from one of its two items.
+export type LinkRelation = 'blocks' | 'blocked_by' | 'relates_to' | 'duplicates' | 'duplicated_by' | 'clones' | 'cloned_by';
+
+export const LINK_RELATIONS: LinkRelation[] = ['blocks', 'blocked_by', 'relates_to', 'duplicates', 'duplicated_by', 'clones', 'cloned_by'];
+
+const INVERSE: Record<WorkItemLinkType, LinkRelation> = {
+    blocks: 'blocked_by',
+    relates_to: 'relates_to',
+    duplicates: 'duplicated_by',
+    clones: 'cloned_by',
+};
+
+export interface RelatedItem {
+    relation: LinkRelation;
+    link: WorkItemLink;
+    sourceId: string; // The item the link is stored on
+    otherId: string;
+    other?: WorkItem; // Missing when the other item is in the trash or gone
+}
+
+// Every link of `item`, both the ones it holds and the ones other items hold to it.
+export const relatedItems = (item: WorkItem, items: WorkItem[]): RelatedItem[] => [
+    ...(item.links ?? []).map(link => ({
+        relation: link.type, link, sourceId: item.id, otherId: link.targetId, other: items.find(other => other.id === link.targetId),
+    })),
+    ...items
+        .filter(other => other.id !== item.id)
+        .flatMap(other => (other.links ?? [])
+            .filter(link => link.targetId === item.id)
+            .map(link => ({ relation: INVERSE[link.type], link, sourceId: other.id, otherId: other.id, other }))),
+];
+
+// Where "itemId <relation> otherId" is stored: "A blocked by B" is B's "blocks A".
+export const storedLink = (relation: LinkRelation, itemId: string, otherId: string): { sourceId: string; targetId: string; type: WorkItemLinkType } => {
+    switch (relation) {
+        case 'blocked_by': return { sourceId: otherId, targetId: itemId, type: 'blocks' };
+        case 'duplicated_by': return { sourceId: otherId, targetId: itemId, type: 'duplicates' };
+        case 'cloned_by': return { sourceId: otherId, targetId: itemId, type: 'clones' };
+        default: return { sourceId: itemId, targetId: otherId, type: relation };
+    }
+};
+
+const blocksEdges = (items: WorkItem[]): Map<string, string[]> => {
+    const edges = new Map<string, string[]>();
+    items.forEach(item => edges.set(item.id, (item.links ?? []).filter(link => link.type === 'blocks').map(link => link.targetId)));
+    return edges;
+};
+
+// A chain of blocks links from `fromId` to `toId` (both included), or null when there is none.
+const blockingPath = (edges: Map<string, string[]>, fromId: string, toId: string): string[] | null => {
+    const cameFrom = new Map<string, string>();
+    const queue = [fromId];
+    const seen = new Set(queue);
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (id === toId) {
+            const path = [id];
+            while (path[0] !== fromId) path.unshift(cameFrom.get(path[0])!);
+            return path;
+        }
+        (edges.get(id) ?? []).forEach(next => {
+            if (seen.has(next)) return;
+            seen.add(next);
+            cameFrom.set(next, id);
+            queue.push(next);
+        });
+    }
+    return null;
+};
+
+// The loop "sourceId blocks targetId" would close, as ids from sourceId back round to it; null if none.
+export const blockingCycle = (items: WorkItem[], sourceId: string, targetId: string): string[] | null => {
+    const path = blockingPath(blocksEdges(items), targetId, sourceId);
+    return path ? [sourceId, ...path] : null;
+};
+
+// A loop through `itemId` that is already stored, e.g. two offline edits that each added half of it.
+export const cycleThrough = (items: WorkItem[], itemId: string): string[] | null => {
+    const edges = blocksEdges(items);
+    for (const next of edges.get(itemId) ?? []) {
+        const path = blockingPath(edges, next, itemId);
+        if (path) return [itemId, ...path];
+    }
+    return null;
+};
+
+export type LinkError = { kind: 'self' } | { kind: 'exists' } | { kind: 'cycle'; cycle: string[] };
+
+// Why "itemId <relation> otherId" cannot be added, or null when it can.
+export const linkError = (items: WorkItem[], relation: LinkRelation, itemId: string, otherId: string): LinkError | null => {
+    if (itemId === otherId) return { kind: 'self' };
+    const { sourceId, targetId, type } = storedLink(relation, itemId, otherId);
+    const linked = (from: string, to: string) => items.find(item => item.id === from)?.links?.some(link => link.type === type && link.targetId === to);
+    // Blocking back the other way is a loop, reported as one below; for the other types it says the same thing.
+    if (linked(sourceId, targetId) || (type !== 'blocks' && linked(targetId, sourceId))) return { kind: 'exists' };
+    if (type === 'blocks') {
+        const cycle = blockingCycle(items, sourceId, targetId);
+        if (cycle) return { kind: 'cycle', cycle };
+    }
+    return null;
+};
+
+export const addLink = (item: WorkItem, type: WorkItemLinkType, targetId: string): WorkItem => ({
+    ...item,
+    links: [...(item.links ?? []), { id: `link-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`, type, targetId }],
+});
+
+export const removeLink = (item: WorkItem, linkId: string): WorkItem => ({
+    ...item,
+    links: (item.links ?? []).filter(link => link.id !== linkId),
+});
+
+// For each item, the unfinished items blocking it. Finished blockers no longer hold anything up.
+export const openBlockersByItem = (items: WorkItem[], categoryOf: (statusId: string) => StatusCategory): Map<string, WorkItem[]> => {
+    const blockers = new Map<string, WorkItem[]>();
+    items.forEach(item => {
+        if (categoryOf(item.status) === 'done') return;
+        (item.links ?? []).forEach(link => {
+            if (link.type !== 'blocks') return;
+            blockers.set(link.targetId, [...(blockers.get(link.targetId) ?? []), item]);
+        });
+    });
+    return blockers;
+};
+
+export interface SprintDependencyWarning {
+    item: WorkItem;
+    blocker: WorkItem;
+}
+
+// Open items in the sprint that wait on unfinished work planned outside it.
+export const outsideSprintBlockers = (sprintId: string, items: WorkItem[], categoryOf: (statusId: string) => StatusCategory): SprintDependencyWarning[] => {
+    const blockers = openBlockersByItem(items, categoryOf);
+    return items
+        .filter(item => item.sprintId === sprintId && categoryOf(item.status) !== 'done')
+        .flatMap(item => (blockers.get(item.id) ?? [])
+            .filter(blocker => blocker.sprintId !== sprintId)
+            .map(blocker => ({ item, blocker })));
+};
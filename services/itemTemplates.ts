@@ -0,0 +1,53 @@
+// services/itemTemplates.ts
+// Work item templates: a board's pre-filled starting points for new items of one type,
+// e.g. a bug template with "Steps to reproduce" already in the description.
+import { Priority, User, WorkItem, WorkItemTemplate, WorkItemType } from '../types';
+
+// Placeholders a template's title prefix, description, checklist and labels may use.
+export type TemplateVariable = 'sprint' | 'date' | 'board' | 'user' | 'epic';
+
+export const TEMPLATE_VARIABLES: TemplateVariable[] = ['sprint', 'date', 'board', 'user', 'epic'];
+
+export type TemplateValues = Partial<Record<TemplateVariable, string>>;
+
+export const newTemplate = (boardId: string, type: WorkItemType = WorkItemType.TASK): WorkItemTemplate => ({
+    id: `template-${Date.now()}-${Math.random().toString(36).substring(2, 6)}`,
+    boardId,
+    name: '',
+    type,
+    titlePrefix: '',
+    description: '',
+    checklist: [],
+    labels: [],
+    priority: Priority.MEDIUM,
+    assigneeIds: [],
+    updatedAt: new Date().toISOString(),
+});
+
+// Replaces each {variable} with its value. Unknown placeholders are left as typed; known ones
+// without a value (no sprint, say) become empty.
+export const fillPlaceholders = (text: string, values: TemplateValues): string =>
+    text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        (TEMPLATE_VARIABLES as string[]).includes(name) ? values[name as TemplateVariable] ?? '' : placeholder);
+
+// The fields a new item takes from `template`. Assignees who have left the board are dropped.
+export const applyTemplate = (template: WorkItemTemplate, values: TemplateValues, members: User[]): Partial<WorkItem> => {
+    const assignees = template.assigneeIds
+        .map(id => members.find(member => member.id === id))
+        .filter((member): member is User => !!member);
+    const stamp = Date.now();
+    return {
+        type: template.type,
+        title: fillPlaceholders(template.titlePrefix, values),
+        description: fillPlaceholders(template.description, values),
+        checklist: template.checklist.map((entry, index) => ({ id: `check-${stamp}-${index}`, text: fillPlaceholders(entry.text, values), isCompleted: false })),
+        labels: template.labels.map(label => fillPlaceholders(label, values).trim()).filter(Boolean),
+        priority: template.priority,
+        ...(assignees.length > 0 && { assignee: assignees[0], assignees }),
+        ...(template.teamId && { teamId: template.teamId }),
+    };
+};
+
+// The board's templates for the new item menu: grouped by type, then by name.
+export const sortTemplates = (templates: WorkItemTemplate[]): WorkItemTemplate[] =>
+    [...templates].sort((a, b) => a.type.localeCompare(b.type) || a.name.localeCompare(b.name));
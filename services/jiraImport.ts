@@ -0,0 +1,158 @@
+// services/jiraImport.ts
+// Reads the JSON returned by Jira's issue search (`/rest/api/2|3/search?fields=*all`), saved to a file.
+import { Priority, WorkItemType, SprintState } from '../types';
+import type { ForeignBoard, ForeignItem, ForeignEpic, ForeignSprint } from './externalImport';
+import { JsonObject, isObject, asObject, asArray, asObjects, asString, asStrings, asKey, asIsoDate } from './untrustedJson';
+
+// Story points live in a custom field whose ID depends on the Jira site.
+const STORY_POINT_FIELDS = ['customfield_10016', 'customfield_10026', 'customfield_10002', 'customfield_10004'];
+const EPIC_LINK_FIELD = 'customfield_10014';
+
+interface JiraIssue {
+    key: string;
+    self?: unknown;
+    fields: JsonObject;
+}
+
+const isJiraIssue = (value: unknown): value is JiraIssue =>
+    isObject(value) && typeof value.key === 'string' && isObject(value.fields);
+
+export const isJiraExport = (data: unknown): boolean =>
+    isObject(data) && Array.isArray(data.issues) && data.issues.every(isJiraIssue);
+
+// Jira Cloud (API v3) returns rich text as Atlassian Document Format; v2 returns plain strings.
+const toText = (value: unknown): string => {
+    if (typeof value === 'string') return value;
+    if (!isObject(value)) return '';
+    const type = asString(value.type) || '';
+    if (type === 'text') return asString(value.text) || '';
+    if (type === 'hardBreak') return '\n';
+    return asArray(value.content).map(toText).join(type === 'doc' || type.endsWith('List') ? '\n' : '');
+};
+
+const issueUrl = (issue: JiraIssue): string | undefined => {
+    try {
+        return `${new URL(asString(issue.self) || '').origin}/browse/${issue.key}`;
+    } catch {
+        return undefined;
+    }
+};
+
+// Issue types, priorities, statuses and projects are all objects with a name.
+const nameOf = (value: unknown): string | undefined => asString(asObject(value).name);
+
+const mapType = (name = ''): WorkItemType => {
+    const lower = name.toLowerCase();
+    if (lower === 'story') return WorkItemType.STORY;
+    if (lower === 'bug') return WorkItemType.BUG_MINOR;
+    return WorkItemType.TASK;
+};
+
+const mapPriority = (name = ''): Priority => {
+    const lower = name.toLowerCase();
+    if (lower === 'highest' || lower === 'blocker' || lower === 'critical') return Priority.URGENT;
+    if (lower === 'high' || lower === 'major') return Priority.HIGH;
+    if (lower === 'low' || lower === 'lowest' || lower === 'minor' || lower === 'trivial') return Priority.LOW;
+    return Priority.MEDIUM;
+};
+
+const mapSprintState = (state = ''): SprintState => {
+    if (state === 'active') return SprintState.ACTIVE;
+    if (state === 'closed') return SprintState.CLOSED;
+    return SprintState.PLANNED;
+};
+
+// The sprint field is also a custom field; recognise it by shape instead of by ID.
+const isSprint = (value: unknown): value is JsonObject => isObject(value) && 'state' in value && 'name' in value && 'id' in value;
+
+const findSprints = (fields: JsonObject): JsonObject[] =>
+    asObjects(Object.values(fields).find(value => Array.isArray(value) && value.length > 0 && value.every(isSprint)));
+
+const isEpic = (issue: JiraIssue) => nameOf(issue.fields.issuetype)?.toLowerCase() === 'epic';
+
+export const parseJiraExport = (data: unknown): ForeignBoard => {
+    const issues = asArray(asObject(data).issues).filter(isJiraIssue);
+    const warnings: string[] = [];
+    const epicKeys = new Set(issues.filter(isEpic).map(issue => issue.key));
+
+    const epics: ForeignEpic[] = issues.filter(isEpic).map(issue => ({
+        ref: { source: 'jira', key: issue.key, url: issueUrl(issue) },
+        name: asString(issue.fields.summary) || issue.key,
+        description: toText(issue.fields.description),
+        isDone: asObject(asObject(issue.fields.status).statusCategory).key === 'done',
+    }));
+
+    const sprintsById = new Map<string, ForeignSprint>();
+    const statuses: string[] = [];
+
+    const items: ForeignItem[] = issues.filter(issue => !isEpic(issue)).map(issue => {
+        const f = issue.fields;
+        const status = nameOf(f.status) || 'To Do';
+        if (!statuses.includes(status)) statuses.push(status);
+
+        const issueSprints = findSprints(f);
+        const sprintKeys: string[] = [];
+        issueSprints.forEach(s => {
+            const key = asKey(s.id);
+            if (!key) return;
+            sprintKeys.push(key);
+            if (!sprintsById.has(key)) {
+                sprintsById.set(key, {
+                    ref: { source: 'jira', key },
+                    name: asString(s.name) || key,
+                    goal: asString(s.goal) || undefined,
+                    state: mapSprintState(asString(s.state)),
+                    startAt: asIsoDate(s.startDate),
+                    endAt: asIsoDate(s.endDate),
+                });
+            }
+        });
+        // An issue carried over between sprints lists all of them; the last is where it is now.
+        const sprintKey = sprintKeys[sprintKeys.length - 1];
+
+        const parentKey = asString(asObject(f.parent).key);
+        const epicKey = parentKey && epicKeys.has(parentKey) ? parentKey : asString(f[EPIC_LINK_FIELD]) || undefined;
+        const points = STORY_POINT_FIELDS.map(field => f[field]).find((value): value is number => typeof value === 'number');
+        const assignee = isObject(f.assignee) ? f.assignee : undefined;
+
+        return {
+            ref: { source: 'jira', key: issue.key, url: issueUrl(issue) },
+            title: asString(f.summary) || issue.key,
+            description: toText(f.description),
+            type: mapType(nameOf(f.issuetype)),
+            status,
+            priority: mapPriority(nameOf(f.priority)),
+            estimationPoints: points || 0,
+            labels: asStrings(f.labels),
+            dueDate: asIsoDate(f.duedate),
+            assignee: assignee ? { email: asString(assignee.emailAddress), name: asString(assignee.displayName) } : undefined,
+            epicKey,
+            parentKey: parentKey && !epicKeys.has(parentKey) ? parentKey : undefined,
+            sprintKey,
+            checklist: [],
+            comments: asObjects(asObject(f.comment).comments).map(c => ({
+                authorName: asString(asObject(c.author).displayName) || 'Unknown',
+                body: toText(c.body),
+                createdAt: asIsoDate(c.created) || new Date().toISOString(),
+            })),
+            createdAt: asIsoDate(f.created),
+            updatedAt: asIsoDate(f.updated),
+        };
+    });
+
+    const total = asObject(data).total;
+    if (typeof total === 'number' && total > issues.length) {
+        warnings.push(`The export contains ${issues.length} of ${total} issues; export again with a larger page size to bring over the rest.`);
+    }
+
+    const projectName = nameOf(issues[0]?.fields.project);
+    return {
+        source: 'jira',
+        name: projectName || 'Jira',
+        statuses,
+        items,
+        epics,
+        sprints: [...sprintsById.values()],
+        warnings,
+    };
+};
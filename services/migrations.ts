@@ -0,0 +1,95 @@
+// services/migrations.ts
+import { Sprint, Board, Status } from '../types';
+import { DEFAULT_STATUSES } from './workflow';
+import { ranksBetween } from './ranking';
+import { DEFAULT_WIP_POLICY } from '../constants';
+
+export interface MigrationContext {
+  // Reads another stored key without running its migrations (used for lookups).
+  readRaw: <T>(key: string) => T | undefined;
+}
+
+export type Migration = (data: any, ctx: MigrationContext) => any;
+
+// Records saved before collections were scoped per board go to the board that was
+// active at the time (or the first board), which is where the app showed them.
+const assignDefaultBoard: Migration = (records: any[], ctx) => {
+  const boardId = ctx.readRaw<string | null>('activeBoardId') || ctx.readRaw<Board[]>('boards')?.[0]?.id;
+  if (!boardId) return records;
+  return records.map(record => record.boardId ? record : { ...record, boardId });
+};
+
+// Statuses became per-board ids, with the old enum values as the built-in ids. Older data
+// (imports, hand-edited storage) may spell them differently; anything unknown goes to To Do.
+const normalizeStatus = (items: any[]) => {
+  const builtIn = Object.values(Status) as string[];
+  return items.map(item => {
+    if (builtIn.includes(item.status)) return item;
+    const match = builtIn.find(id => id.toLowerCase() === String(item.status ?? '').trim().toLowerCase());
+    return { ...item, status: match ?? Status.TODO };
+  });
+};
+
+// MIGRATIONS[n][key] upgrades the payload stored under `key` from version n to n + 1.
+// Keys without an entry for a given version are carried forward unchanged.
+export const MIGRATIONS: Record<number, Record<string, Migration>> = {
+  1: {
+    workItems: (items: any[], ctx) => {
+      const sprintsList = ctx.readRaw<Sprint[]>('sprints') || [];
+      return items.map(item => {
+        const newItem = { ...item };
+
+        // sprint (name) -> sprintId
+        if (item.sprint && !item.sprintId) {
+          const matchingSprint = sprintsList.find(s => s.name === item.sprint);
+          if (matchingSprint) {
+            newItem.sprintId = matchingSprint.id;
+          }
+        }
+        delete newItem.sprint;
+
+        // EP-SSR-01: Add sprintBinding
+        if (!newItem.sprintBinding) {
+          newItem.sprintBinding = 'manual';
+        }
+
+        return newItem;
+      });
+    },
+  },
+  2: {
+    workItems: assignDefaultBoard,
+    epics: assignDefaultBoard,
+    sprints: assignDefaultBoard,
+    teams: assignDefaultBoard,
+    events: assignDefaultBoard,
+    notifications: assignDefaultBoard,
+    joinRequests: assignDefaultBoard,
+    inviteCodes: assignDefaultBoard,
+    savedViews: assignDefaultBoard,
+  },
+  3: {
+    workItems: normalizeStatus,
+    // Workflows saved before boards had their own statuses used the built-in ones.
+    workflows: (workflows: any[]) => workflows.map(workflow => workflow.statuses ? workflow : { ...workflow, statuses: DEFAULT_STATUSES }),
+  },
+  4: {
+    workflows: (workflows: any[]) => workflows.map(workflow => workflow.wip ? workflow : { ...workflow, wip: DEFAULT_WIP_POLICY }),
+  },
+  5: {
+    workflows: (workflows: any[]) => workflows.map(workflow => workflow.guards ? workflow : { ...workflow, guards: [] }),
+  },
+  6: {
+    // Items get a manual rank in their stored order, newest first, which is how the board listed them.
+    workItems: (items: any[]) => {
+      const ranks = ranksBetween(undefined, undefined, items.length);
+      return items.map((item, index) => item.rank ? item : { ...item, rank: ranks[index] });
+    },
+  },
+  7: {
+    // Members were one map from board id to members; now they are a collection with a record per board.
+    boardMembers: (data: any) => Array.isArray(data)
+      ? data
+      : Object.entries(data || {}).map(([boardId, members]) => ({ boardId, members })),
+  },
+};
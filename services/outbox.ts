@@ -0,0 +1,107 @@
+// services/outbox.ts
+// Changes made while the shared backend is out of reach, kept in localStorage until
+// they can be replayed (see replayOutbox in persistence.ts), and the conflicts the
+// replay found. Every tab of the browser shares one outbox.
+import { STORAGE_NS } from './storageAdapter';
+
+// base is the record as last seen on the server: undefined for records created offline.
+export interface OutboxUpsert { id: string; base: unknown; record: unknown }
+export interface OutboxDelete { id: string; base: unknown }
+
+export interface OutboxEntry {
+  id: string;
+  key: string;
+  at: string;
+  upserts: OutboxUpsert[];
+  deletes: OutboxDelete[];
+  order: string[];
+}
+
+// A record changed both offline here and on the server. mine/theirs are undefined when that side deleted it.
+export interface SyncConflict {
+  id: string;
+  key: string;
+  recordId: string;
+  base: unknown;
+  mine: unknown;
+  theirs: unknown;
+  at: string;
+}
+
+const QUEUE_KEY = `${STORAGE_NS}outbox`;
+const CONFLICTS_KEY = `${STORAGE_NS}outbox.conflicts`;
+
+const listeners = new Set<() => void>();
+let listeningToStorage = false;
+
+const read = <T>(storageKey: string): T[] => {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey) || '[]') as T[];
+  } catch {
+    return [];
+  }
+};
+
+const write = (storageKey: string, value: unknown[]) => {
+  if (value.length === 0) {
+    localStorage.removeItem(storageKey);
+  } else {
+    localStorage.setItem(storageKey, JSON.stringify(value));
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const getOutbox = (): OutboxEntry[] => read<OutboxEntry>(QUEUE_KEY);
+export const getSyncConflicts = (): SyncConflict[] => read<SyncConflict>(CONFLICTS_KEY);
+
+// Number of record changes still waiting to reach the server.
+export const countPendingChanges = (entries = getOutbox()) =>
+  entries.reduce((sum, entry) => sum + entry.upserts.length + entry.deletes.length, 0);
+
+export function enqueueChanges(entry: Omit<OutboxEntry, 'id' | 'at'>) {
+  write(QUEUE_KEY, [...getOutbox(), {
+    ...entry,
+    id: `outbox-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+    at: new Date().toISOString(),
+  }]);
+}
+
+export function removeOutboxEntry(id: string) {
+  write(QUEUE_KEY, getOutbox().filter(entry => entry.id !== id));
+}
+
+// A record that already conflicts keeps its original base; later offline edits only replace mine.
+export function addSyncConflicts(conflicts: Omit<SyncConflict, 'id' | 'at'>[]) {
+  if (conflicts.length === 0) return;
+  const existing = getSyncConflicts();
+  conflicts.forEach(conflict => {
+    const match = existing.find(c => c.key === conflict.key && c.recordId === conflict.recordId);
+    if (match) {
+      match.mine = conflict.mine;
+      match.theirs = conflict.theirs;
+    } else {
+      existing.push({
+        ...conflict,
+        id: `conflict-${conflict.key}-${conflict.recordId}-${Date.now()}`,
+        at: new Date().toISOString(),
+      });
+    }
+  });
+  write(CONFLICTS_KEY, existing);
+}
+
+export function removeSyncConflict(id: string) {
+  write(CONFLICTS_KEY, getSyncConflicts().filter(conflict => conflict.id !== id));
+}
+
+// Fires on every change to the queue or the conflicts, including those made by other tabs.
+export function onOutboxChange(listener: () => void): () => void {
+  if (!listeningToStorage && typeof window !== 'undefined') {
+    listeningToStorage = true;
+    window.addEventListener('storage', e => {
+      if (e.key === QUEUE_KEY || e.key === CONFLICTS_KEY) listeners.forEach(l => l());
+    });
+  }
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+}
@@ -1,22 +1,385 @@
 // services/persistence.ts
-const NS = 'so.';
-const VERS = 1;
+import { isEqual } from 'lodash-es';
+import { MIGRATIONS, MigrationContext } from './migrations';
+import { StorageAdapter, StoredCollection, CollectionChanges, LocalStorageAdapter, STORAGE_NS as NS, BACKUP_NS, isQuotaExceededError, BackendUnreachableError } from './storageAdapter';
+import { IndexedDbAdapter } from './indexedDbAdapter';
+import { RestAdapter } from './restAdapter';
+import { broadcastChanges, deliverStoredChanges } from './tabSync';
+import { SyncConflict, getOutbox, enqueueChanges, removeOutboxEntry, addSyncConflicts, removeSyncConflict } from './outbox';
+import { BACKEND_API_URL } from '../app/BackendConfig';
 
-export function load<T>(key: string, def: T): T {
+export const VERS = 8;
+
+// Collections stored record-by-record through the storage adapter, with how to identify a record.
+export const COLLECTIONS: Record<string, (record: any) => string> = {
+  workItems: r => r.id,
+  epics: r => r.id,
+  teams: r => r.id,
+  sprints: r => r.id,
+  notifications: r => r.id,
+  joinRequests: r => r.id,
+  inviteCodes: r => r.code,
+  savedViews: r => r.id,
+  events: r => r.id,
+  auditLog: r => r.id,
+  workflows: r => r.boardId,
+  itemTemplates: r => r.id,
+  boards: r => r.id,
+  boardMembers: r => r.boardId,
+};
+
+export interface MigrationFailure {
+  key: string;
+  fromVersion: number;
+  toVersion: number;
+  error: string;
+  backupKey?: string; // Unset when not even a backup could be written
+  at: string;
+}
+
+export interface StorageError {
+  key: string;
+  isQuotaExceeded: boolean;
+  // The change was meant for the outbox, so it is lost rather than merely kept out of the backend.
+  isQueueing: boolean;
+  message: string;
+  at: string;
+}
+
+const migrationFailures: MigrationFailure[] = [];
+const failureListeners = new Set<(failure: MigrationFailure) => void>();
+const storageErrorListeners = new Set<(error: StorageError) => void>();
+// Keys whose un-upgraded data could not be backed up: the stored copy is the only one, so
+// nothing this session saves (starting with the default handed out instead) may replace it.
+const heldKeys = new Set<string>();
+
+const createDefaultAdapter = (): StorageAdapter => {
+  if (BACKEND_API_URL) return new RestAdapter(BACKEND_API_URL);
+  return typeof indexedDB !== 'undefined' ? new IndexedDbAdapter() : new LocalStorageAdapter();
+};
+
+let adapter: StorageAdapter = createDefaultAdapter();
+let legacyImport: Promise<void> | null = null;
+
+export function setStorageAdapter(next: StorageAdapter) {
+  adapter = next;
+  legacyImport = null;
+}
+
+export function getStorageAdapter(): StorageAdapter {
+  return adapter;
+}
+
+const readRaw = <T>(key: string): T | undefined => {
   try {
     const raw = localStorage.getItem(NS + key);
-    if (!raw) return def;
-    const { v, data } = JSON.parse(raw);
-    return (v === VERS) ? data as T : def;
+    return raw ? JSON.parse(raw).data as T : undefined;
   } catch {
+    return undefined;
+  }
+};
+
+const backupKeyFor = (key: string, fromVersion: number) => `${BACKUP_NS}${key}.v${fromVersion}`;
+
+const reportMigrationFailure = (key: string, fromVersion: number, e: unknown, backedUp: boolean) => {
+  if (!backedUp) heldKeys.add(key);
+  const failure: MigrationFailure = {
+    key,
+    fromVersion,
+    toVersion: VERS,
+    error: e instanceof Error ? e.message : String(e),
+    backupKey: backedUp ? backupKeyFor(key, fromVersion) : undefined,
+    at: new Date().toISOString(),
+  };
+  migrationFailures.push(failure);
+  console.error(failure.backupKey
+    ? `Failed to migrate "${failure.key}" from v${failure.fromVersion} to v${failure.toVersion}. A backup was kept at ${failure.backupKey}.`
+    : `Failed to migrate "${failure.key}" from v${failure.fromVersion} to v${failure.toVersion}, and no backup could be made. It is left as stored and not saved over.`, failure.error);
+  failureListeners.forEach(listener => listener(failure));
+};
+
+const reportStorageError = (key: string, e: unknown, isQueueing = false) => {
+  const error: StorageError = {
+    key,
+    isQuotaExceeded: isQuotaExceededError(e),
+    isQueueing,
+    message: e instanceof Error ? e.message : String(e),
+    at: new Date().toISOString(),
+  };
+  console.error(isQueueing ? `Failed to queue changes to "${key}" for ${adapter.name}` : `Failed to save "${key}" to ${adapter.name}`, e);
+  storageErrorListeners.forEach(listener => listener(error));
+};
+
+// Replays failures that happened before subscribing, then reports new ones.
+export function onMigrationFailure(listener: (failure: MigrationFailure) => void): () => void {
+  migrationFailures.forEach(listener);
+  failureListeners.add(listener);
+  return () => { failureListeners.delete(listener); };
+}
+
+export function onStorageError(listener: (error: StorageError) => void): () => void {
+  storageErrorListeners.add(listener);
+  return () => { storageErrorListeners.delete(listener); };
+}
+
+function upgrade(key: string, fromVersion: number, data: any): any {
+  if (fromVersion > VERS) {
+    throw new Error(`Unsupported stored version: ${fromVersion}`);
+  }
+  const ctx: MigrationContext = { readRaw };
+  let migrated = data;
+  for (let version = fromVersion; version < VERS; version++) {
+    const step = MIGRATIONS[version]?.[key];
+    if (step) {
+      migrated = step(migrated, ctx);
+    }
+  }
+  return migrated;
+}
+
+export function load<T>(key: string, def: T): T {
+  let raw: string | null = null;
+  let v: unknown;
+  let backedUp = false;
+  try {
+    raw = localStorage.getItem(NS + key);
+    if (!raw) return def;
+    const parsed = JSON.parse(raw);
+    v = parsed.v;
+    if (v === VERS) return parsed.data as T;
+    if (typeof v !== 'number') {
+      throw new Error(`Unsupported stored version: ${String(v)}`);
+    }
+    localStorage.setItem(backupKeyFor(key, v), raw);
+    backedUp = true;
+    const migrated = upgrade(key, v, parsed.data);
+    save(key, migrated);
+    return migrated as T;
+  } catch (e) {
+    if (raw) {
+      const fromVersion = typeof v === 'number' ? v : 0;
+      if (!backedUp) {
+        try { localStorage.setItem(backupKeyFor(key, fromVersion), raw); backedUp = true; } catch {}
+      }
+      reportMigrationFailure(key, fromVersion, e, backedUp);
+    }
     return def;
   }
 }
 
 export function save<T>(key: string, data: T) {
+  if (heldKeys.has(key)) return;
   try {
     localStorage.setItem(NS + key, JSON.stringify({ v: VERS, data }));
   } catch (e) {
-    console.error("Failed to save to localStorage", e);
+    reportStorageError(key, e);
+  }
+}
+
+// Moves collections written by older builds out of localStorage, once per adapter.
+// Never into a shared backend: one browser's leftovers are not the team's data.
+const importLegacyCollections = (): Promise<void> => {
+  if (adapter instanceof LocalStorageAdapter || adapter.shared) return Promise.resolve();
+  if (!legacyImport) {
+    // Read (and migrate) everything first: migrations may look up other legacy keys.
+    const legacy = Object.keys(COLLECTIONS)
+      .filter(key => localStorage.getItem(NS + key) !== null)
+      .map(key => ({ key, records: load<unknown[] | null>(key, null) }));
+
+    legacyImport = (async () => {
+      for (const { key, records } of legacy) {
+        if (!records) continue; // Failed migration: leave it where it is, a backup exists.
+        if (!(await adapter.loadCollection(key))) {
+          await adapter.replaceCollection(key, VERS, records, COLLECTIONS[key]);
+        }
+        localStorage.removeItem(NS + key);
+      }
+    })();
+  }
+  return legacyImport;
+};
+
+const upgradeCollection = async <T>(key: string, stored: StoredCollection<T>): Promise<T[]> => {
+  let backedUp = false;
+  try {
+    await adapter.backupCollection(backupKeyFor(key, stored.version), stored);
+    backedUp = true;
+    const records = upgrade(key, stored.version, stored.records) as T[];
+    await adapter.replaceCollection(key, VERS, records, COLLECTIONS[key]);
+    return records;
+  } catch (e) {
+    reportMigrationFailure(key, stored.version, e, backedUp);
+    return [];
+  }
+};
+
+export async function loadCollection<T>(key: string): Promise<T[]> {
+  try {
+    await importLegacyCollections();
+    const stored = await adapter.loadCollection<T>(key);
+    if (!stored) return [];
+    return stored.version === VERS ? stored.records : await upgradeCollection(key, stored);
+  } catch (e) {
+    // Falling back would fork a shared backend's data into this browser.
+    if (adapter instanceof LocalStorageAdapter || adapter.shared) {
+      console.error(`Failed to load "${key}" from ${adapter.name}`, e);
+      return [];
+    }
+    // e.g. IndexedDB disabled in private browsing: fall back to localStorage.
+    console.warn(`${adapter.name} is unavailable, falling back to localStorage.`, e);
+    setStorageAdapter(new LocalStorageAdapter());
+    return loadCollection<T>(key);
+  }
+}
+
+// Writes only the records that differ between two snapshots of a collection,
+// and tells the other open tabs about them.
+export async function saveCollection<T>(key: string, prev: T[], next: T[]): Promise<void> {
+  if (heldKeys.has(key)) return;
+  const getId = COLLECTIONS[key];
+  const prevById = new Map(prev.map(r => [getId(r), r]));
+  const order = next.map(getId);
+  const nextIds = new Set(order);
+
+  const upserts = next
+    .filter(r => { const before = prevById.get(getId(r)); return before !== r && !isEqual(before, r); })
+    .map(record => ({ id: getId(record), record }));
+  const deletes = prev.map(getId).filter(id => !nextIds.has(id));
+
+  if (upserts.length === 0 && deletes.length === 0 && isEqual(prev.map(getId), order)) return;
+
+  broadcastChanges({ key, upserts: upserts.map(u => u.record), deletes, order });
+
+  // Keeps the change for replayOutbox, with each record as it was before, to detect conflicts then.
+  // The outbox lives in localStorage, which can be full.
+  const queue = () => {
+    try {
+      enqueueChanges({
+        key,
+        upserts: upserts.map(({ id, record }) => ({ id, base: prevById.get(id), record })),
+        deletes: deletes.map(id => ({ id, base: prevById.get(id) })),
+        order,
+      });
+    } catch (e) {
+      reportStorageError(key, e, true);
+    }
+  };
+
+  // Once anything is queued, later changes queue behind it so the server gets them in order.
+  if (adapter.shared && (isOffline() || getOutbox().length > 0)) {
+    queue();
+    return;
+  }
+  try {
+    await adapter.writeRecords(key, VERS, { upserts, deletes, order }, getId);
+  } catch (e) {
+    if (adapter.shared && e instanceof BackendUnreachableError) {
+      queue();
+      return;
+    }
+    reportStorageError(key, e);
+  }
+}
+
+const isOffline = () => typeof navigator !== 'undefined' && navigator.onLine === false;
+
+let replaying: Promise<void> | null = null;
+
+// Sends the changes queued while the backend was out of reach, oldest first. A queued record
+// whose server copy changed in the meantime is not written but reported as a SyncConflict.
+// Stops, keeping the rest of the queue, when the backend is still unreachable.
+export function replayOutbox(): Promise<void> {
+  if (!replaying) {
+    replaying = runReplay().finally(() => { replaying = null; });
+  }
+  return replaying;
+}
+
+const runReplay = async () => {
+  const serverCopies = new Map<string, Map<string, unknown>>();
+  const serverCopy = async (key: string) => {
+    if (!serverCopies.has(key)) {
+      const stored = await adapter.loadCollection<unknown>(key);
+      serverCopies.set(key, new Map((stored?.records || []).map(r => [COLLECTIONS[key](r), r])));
+    }
+    return serverCopies.get(key)!;
+  };
+
+  for (let entry = getOutbox()[0]; entry; entry = getOutbox()[0]) {
+    const getId = COLLECTIONS[entry.key];
+    if (!getId) {
+      removeOutboxEntry(entry.id);
+      continue;
+    }
+    const conflicts: Omit<SyncConflict, 'id' | 'at'>[] = [];
+    try {
+      const server = await serverCopy(entry.key);
+      const upserts = entry.upserts.filter(({ id, base, record }) => {
+        const theirs = server.get(id);
+        if (isEqual(theirs, base) || isEqual(theirs, record)) return true;
+        conflicts.push({ key: entry.key, recordId: id, base, mine: record, theirs });
+        return false;
+      });
+      const deletes = entry.deletes.filter(({ id, base }) => {
+        const theirs = server.get(id);
+        if (theirs === undefined || isEqual(theirs, base)) return true;
+        conflicts.push({ key: entry.key, recordId: id, base, mine: undefined, theirs });
+        return false;
+      });
+      await adapter.writeRecords(entry.key, VERS, {
+        upserts: upserts.map(({ id, record }) => ({ id, record })),
+        deletes: deletes.map(d => d.id),
+        order: entry.order,
+      }, getId);
+      upserts.forEach(({ id, record }) => server.set(id, record));
+      deletes.forEach(({ id }) => server.delete(id));
+    } catch (e) {
+      if (!(e instanceof BackendUnreachableError)) reportStorageError(entry.key, e);
+      return;
+    }
+    addSyncConflicts(conflicts);
+    removeOutboxEntry(entry.id);
+  }
+};
+
+// Records with a version (work items) must move past the stored one, or other clients'
+// stale-write checks would not notice the change.
+const withVersionAbove = (record: unknown, stored: unknown) => {
+  const version = (stored as { version?: unknown } | undefined)?.version;
+  return typeof version === 'number' && record ? { ...(record as object), version: version + 1 } : record;
+};
+
+// Settles a conflict by keeping my copy, the server's current copy or a merge of the two.
+// Returns false if the server could not be updated; the conflict is kept then.
+export async function resolveSyncConflict(conflict: SyncConflict, choice: 'mine' | 'theirs' | { merged: unknown }): Promise<boolean> {
+  const { key, recordId } = conflict;
+  const getId = COLLECTIONS[key];
+  try {
+    const stored = await adapter.loadCollection<unknown>(key);
+    const storedIds = (stored?.records || []).map(getId);
+    const theirs = stored?.records.find(r => getId(r) === recordId);
+    const kept = choice === 'theirs' ? theirs : withVersionAbove(choice === 'mine' ? conflict.mine : choice.merged, theirs);
+    if (choice !== 'theirs') {
+      const changes: CollectionChanges<unknown> = kept === undefined
+        ? { upserts: [], deletes: [recordId], order: storedIds.filter(id => id !== recordId) }
+        : { upserts: [{ id: recordId, record: kept }], deletes: [], order: theirs === undefined ? [recordId, ...storedIds] : storedIds };
+      await adapter.writeRecords(key, VERS, changes, getId);
+    }
+    deliverStoredChanges({ key, upserts: kept === undefined ? [] : [kept], deletes: kept === undefined ? [recordId] : [], order: [] });
+    removeSyncConflict(conflict.id);
+    return true;
+  } catch (e) {
+    reportStorageError(key, e);
+    return false;
+  }
+}
+
+export async function clearCollection(key: string): Promise<void> {
+  // Logging out of a shared backend only forgets the copy in memory.
+  if (adapter.shared) return;
+  try {
+    await adapter.clearCollection(key);
+  } catch (e) {
+    reportStorageError(key, e);
   }
 }
@@ -0,0 +1,62 @@
+// services/ranking.ts
+// Manual order of work items. A rank is a base-36 fraction written without the
+// leading "0." ("i" is 0.5), so there is always room for another rank between two
+// others and moving a card rewrites that card only. Ranks compare as plain strings.
+import { WorkItem } from '../types';
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// A rank between `a` and `b`, where '' stands for the very start and null for the very end.
+// Neither is ever a rank ending in '0', and neither is the result.
+const midpoint = (a: string, b: string | null): string => {
+    if (b !== null) {
+        let shared = 0;
+        while ((a[shared] || '0') === b[shared]) shared++;
+        if (shared > 0) return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared));
+    }
+    const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+    const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+    if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+    // The first digits are adjacent: take b's first digit if that is still below b, else go one digit deeper after a's.
+    if (b !== null && b.length > 1) return b.slice(0, 1);
+    return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+// A rank that sorts after `before` and ahead of `after`; either may be left out for the start or end.
+// Two tabs ranking at once can leave equal ranks behind; the new rank then only goes after `before`.
+export const rankBetween = (before?: string, after?: string): string => {
+    if (before !== undefined && after !== undefined && before >= after) return midpoint(before, null);
+    return midpoint(before ?? '', after ?? null);
+};
+
+// `count` ranks in order between `before` and `after`, spread evenly so they stay short.
+export const ranksBetween = (before: string | undefined, after: string | undefined, count: number): string[] => {
+    if (count <= 0) return [];
+    const middle = rankBetween(before, after);
+    const half = Math.floor((count - 1) / 2);
+    return [...ranksBetween(before, middle, half), middle, ...ranksBetween(middle, after, count - 1 - half)];
+};
+
+// Ranked items first, in rank order; items without a rank (not yet migrated) keep their relative order after them.
+export const compareRank = (a: Pick<WorkItem, 'rank'>, b: Pick<WorkItem, 'rank'>): number => {
+    if (a.rank === b.rank) return 0;
+    if (a.rank === undefined) return 1;
+    if (b.rank === undefined) return -1;
+    return a.rank < b.rank ? -1 : 1;
+};
+
+export const sortByRank = <T extends Pick<WorkItem, 'rank'>>(items: T[]): T[] => [...items].sort(compareRank);
+
+// The rank for putting `item` just ahead of `target` in `list` (the list it is being reordered in),
+// or at the end of the list when there is no target.
+export const rankBefore = (list: Pick<WorkItem, 'id' | 'rank'>[], itemId: string, targetId?: string): string => {
+    const others = sortByRank(list.filter(other => other.id !== itemId && other.rank !== undefined));
+    const index = targetId ? others.findIndex(other => other.id === targetId) : -1;
+    if (index === -1) return rankBetween(others[others.length - 1]?.rank, undefined);
+    return rankBetween(others[index - 1]?.rank, others[index].rank);
+};
+
+export const rankAtTop = (list: Pick<WorkItem, 'id' | 'rank'>[], itemId: string): string =>
+    rankBefore(list, itemId, sortByRank(list.filter(other => other.id !== itemId && other.rank !== undefined))[0]?.id);
+
+export const rankAtBottom = (list: Pick<WorkItem, 'id' | 'rank'>[], itemId: string): string => rankBefore(list, itemId);
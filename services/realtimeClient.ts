@@ -0,0 +1,200 @@
+// services/realtimeClient.ts
+import { ConnectionStatus, ItemUpdateEvent } from '../types';
+
+// Speaks the protocol described in server/realtime.mjs.
+type ServerMessage =
+  | { type: 'subscribed'; boardId: string; lastEventId: number; gap: boolean }
+  | { type: 'event'; id: number; event: ItemUpdateEvent }
+  | { type: 'pong' }
+  | { type: 'error'; message: string };
+
+interface RealtimeClientOptions {
+  onEvent: (event: ItemUpdateEvent) => void;
+  onStatus: (status: ConnectionStatus) => void;
+}
+
+const HEARTBEAT_MS = 15 * 1000;
+const PONG_TIMEOUT_MS = 10 * 1000;
+const BACKOFF_BASE_MS = 1000;
+const BACKOFF_MAX_MS = 30 * 1000;
+const MAX_QUEUED_EVENTS = 100;
+
+// One WebSocket to the realtime server, following one board at a time.
+// Reconnects with exponential backoff and resumes each board from the last event it saw.
+export class RealtimeClient {
+  private socket: WebSocket | null = null;
+  private boardId: string | null = null;
+  private subscribed = false;
+  private stopped = true;
+  private attempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private pongTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly lastEventIds = new Map<string, number>();
+  private readonly outbox: ItemUpdateEvent[] = [];
+
+  constructor(private readonly url: string, private readonly options: RealtimeClientOptions) {}
+
+  start() {
+    if (!this.stopped) return;
+    this.stopped = false;
+    window.addEventListener('online', this.handleOnline);
+    this.connect();
+  }
+
+  stop() {
+    this.stopped = true;
+    window.removeEventListener('online', this.handleOnline);
+    this.clearTimers();
+    this.outbox.length = 0;
+    const socket = this.socket;
+    this.socket = null;
+    this.subscribed = false;
+    socket?.close(1000);
+    this.options.onStatus('DISCONNECTED');
+  }
+
+  setBoard(boardId: string | null) {
+    if (boardId === this.boardId) return;
+    this.boardId = boardId;
+    this.subscribed = false;
+    this.subscribe();
+  }
+
+  // Events published while the connection is down are sent once it is back.
+  publish(event: ItemUpdateEvent) {
+    if (this.subscribed && event.item.boardId === this.boardId && this.send({ type: 'publish', event })) return;
+    this.outbox.push(event);
+    if (this.outbox.length > MAX_QUEUED_EVENTS) this.outbox.shift();
+  }
+
+  private connect() {
+    if (this.stopped) return;
+    this.clearTimers();
+    this.options.onStatus('CONNECTING');
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.url);
+    } catch (e) {
+      console.error('Realtime connection failed', e);
+      this.scheduleReconnect();
+      return;
+    }
+    this.socket = socket;
+    socket.onopen = () => {
+      this.subscribe();
+      this.heartbeatTimer = setInterval(this.ping, HEARTBEAT_MS);
+    };
+    socket.onmessage = message => {
+      this.resetPongTimer();
+      try {
+        this.handleMessage(JSON.parse(message.data as string) as ServerMessage);
+      } catch (e) {
+        console.warn('Ignoring malformed realtime message', e);
+      }
+    };
+    socket.onclose = () => {
+      if (socket !== this.socket) return;
+      this.socket = null;
+      this.subscribed = false;
+      this.scheduleReconnect();
+    };
+    // The browser gives no detail here; onclose follows and schedules the retry.
+    socket.onerror = () => {
+      if (socket === this.socket) this.options.onStatus('ERROR');
+    };
+  }
+
+  private handleMessage(message: ServerMessage) {
+    switch (message.type) {
+      case 'subscribed': {
+        if (message.boardId !== this.boardId) return;
+        this.subscribed = true;
+        this.attempt = 0;
+        if (message.gap) console.log(`TELEMETRY: realtime_resume_gap, board ${message.boardId}`);
+        // First visit to this board: start from now. An id ahead of the server's means the server restarted.
+        const seen = this.lastEventIds.get(message.boardId);
+        if (seen === undefined || seen > message.lastEventId) this.lastEventIds.set(message.boardId, message.lastEventId);
+        this.options.onStatus('CONNECTED');
+        this.flushOutbox();
+        break;
+      }
+      case 'event': {
+        const boardId = message.event.item.boardId;
+        if (message.id <= (this.lastEventIds.get(boardId) ?? 0)) return;
+        this.lastEventIds.set(boardId, message.id);
+        if (boardId === this.boardId) this.options.onEvent(message.event);
+        break;
+      }
+      case 'pong':
+        break;
+      case 'error':
+        console.warn('Realtime server error:', message.message);
+        break;
+    }
+  }
+
+  private subscribe() {
+    if (!this.boardId || this.socket?.readyState !== WebSocket.OPEN) return;
+    this.send({ type: 'subscribe', boardId: this.boardId, lastEventId: this.lastEventIds.get(this.boardId) });
+  }
+
+  private flushOutbox() {
+    const pending = this.outbox.splice(0);
+    pending.forEach(event => {
+      if (event.item.boardId === this.boardId) this.send({ type: 'publish', event });
+    });
+  }
+
+  private send(message: object): boolean {
+    if (this.socket?.readyState !== WebSocket.OPEN) return false;
+    this.socket.send(JSON.stringify(message));
+    return true;
+  }
+
+  // Any message counts as a sign of life; no answer to a ping in time means the connection is dead.
+  private ping = () => {
+    if (!this.send({ type: 'ping' })) return;
+    if (!this.pongTimer) this.pongTimer = setTimeout(this.handlePongTimeout, PONG_TIMEOUT_MS);
+  };
+
+  private resetPongTimer() {
+    if (this.pongTimer) clearTimeout(this.pongTimer);
+    this.pongTimer = null;
+  }
+
+  private handlePongTimeout = () => {
+    this.pongTimer = null;
+    const socket = this.socket;
+    if (!socket) return;
+    console.warn('Realtime heartbeat timed out; reconnecting');
+    this.socket = null;
+    this.subscribed = false;
+    socket.close();
+    this.scheduleReconnect();
+  };
+
+  // Full jitter: a random wait up to base * 2^attempt, capped, so clients don't reconnect in lockstep.
+  private scheduleReconnect() {
+    if (this.stopped) return;
+    this.clearTimers();
+    this.options.onStatus('ERROR');
+    const ceiling = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** this.attempt);
+    this.attempt++;
+    this.reconnectTimer = setTimeout(() => this.connect(), Math.max(250, Math.random() * ceiling));
+  }
+
+  private handleOnline = () => {
+    if (this.stopped || this.socket) return;
+    this.attempt = 0;
+    this.connect();
+  };
+
+  private clearTimers() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.reconnectTimer = null;
+    this.heartbeatTimer = null;
+    this.resetPongTimer();
+  }
+}
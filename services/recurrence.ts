@@ -0,0 +1,242 @@
+// services/recurrence.ts
+// Recurring work items. A series is an item with a recurrence rule; when the rule comes due
+// the leader tab copies the item into a fresh instance that points back with `seriesId`.
+// Occurrences missed while the app was closed or the series was paused are not made up:
+// a due rule creates one instance and moves on to its next occurrence after now.
+import { RecurrenceFrequency, RecurrenceRule, Sprint, SprintState, WorkItem } from '../types';
+import { rankAtTop } from './ranking';
+import { syncChildrenIds } from './subtasks';
+import { newWorkItemId } from './workItemIds';
+
+export const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['sprint', 'weekly', 'monthly', 'cron'];
+
+const MINUTE = 60 * 1000;
+const WEEK = 7 * 24 * 60 * MINUTE;
+
+// ---- Cron ----
+
+interface CronField {
+    min: number;
+    max: number;
+}
+
+const CRON_FIELDS: CronField[] = [
+    { min: 0, max: 59 }, // minute
+    { min: 0, max: 23 }, // hour
+    { min: 1, max: 31 }, // day of month
+    { min: 1, max: 12 }, // month
+    { min: 0, max: 7 },  // day of week, 0 and 7 both Sunday
+];
+
+interface CronSchedule {
+    minutes: Set<number>;
+    hours: Set<number>;
+    days: Set<number>;
+    months: Set<number>;
+    weekdays: Set<number>;
+    anyDay: boolean;     // Day of month is '*'
+    anyWeekday: boolean; // Day of week is '*'
+}
+
+// "*", "5", "1-5", "*/15", "1-30/5" and comma lists of them; null when the field is invalid.
+const parseCronField = (text: string, { min, max }: CronField): Set<number> | null => {
+    const values = new Set<number>();
+    for (const part of text.split(',')) {
+        const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+        if (!match) return null;
+        const from = match[1] === '*' ? min : parseInt(match[2], 10);
+        const to = match[1] === '*' ? max : match[3] !== undefined ? parseInt(match[3], 10) : match[4] !== undefined ? max : from;
+        const step = match[4] !== undefined ? parseInt(match[4], 10) : 1;
+        if (from < min || to > max || from > to || step < 1) return null;
+        for (let value = from; value <= to; value += step) values.add(value);
+    }
+    return values;
+};
+
+export const parseCron = (expression: string): CronSchedule | null => {
+    const parts = expression.trim().split(/\s+/);
+    if (parts.length !== CRON_FIELDS.length) return null;
+    const fields = parts.map((part, index) => parseCronField(part, CRON_FIELDS[index]));
+    if (fields.some(field => !field)) return null;
+    const [minutes, hours, days, months, weekdays] = fields as Set<number>[];
+    if (weekdays.has(7)) weekdays.add(0);
+    return { minutes, hours, days, months, weekdays, anyDay: parts[2] === '*', anyWeekday: parts[4] === '*' };
+};
+
+// As in cron, when both day fields are restricted a day matching either of them counts.
+const cronMatchesDay = (schedule: CronSchedule, date: Date): boolean => {
+    if (!schedule.months.has(date.getMonth() + 1)) return false;
+    const dayOk = schedule.days.has(date.getDate());
+    const weekdayOk = schedule.weekdays.has(date.getDay());
+    if (schedule.anyDay) return weekdayOk;
+    if (schedule.anyWeekday) return dayOk;
+    return dayOk || weekdayOk;
+};
+
+// Far enough for "29 February on a Monday"-style schedules; anything rarer counts as never.
+const CRON_SEARCH_DAYS = 5 * 366;
+
+// The first minute after `after` the schedule matches, in local time; null when it never does.
+export const nextCronTime = (expression: string, after: Date): Date | null => {
+    const schedule = parseCron(expression);
+    if (!schedule) return null;
+    const start = new Date(after.getTime());
+    start.setSeconds(0, 0);
+    start.setMinutes(start.getMinutes() + 1);
+    const day = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+    for (let offset = 0; offset < CRON_SEARCH_DAYS; offset++, day.setDate(day.getDate() + 1)) {
+        if (!cronMatchesDay(schedule, day)) continue;
+        const isFirstDay = offset === 0;
+        for (const hour of [...schedule.hours].sort((a, b) => a - b)) {
+            if (isFirstDay && hour < start.getHours()) continue;
+            for (const minute of [...schedule.minutes].sort((a, b) => a - b)) {
+                const candidate = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hour, minute);
+                if (candidate >= start) return candidate;
+            }
+        }
+    }
+    return null;
+};
+
+// ---- Rules ----
+
+// `start` plus `months` months, kept on the same day of the month or the month's last day when it is shorter.
+const addMonths = (start: Date, months: number): Date => {
+    const target = new Date(start.getFullYear(), start.getMonth() + months, 1, start.getHours(), start.getMinutes());
+    const lastDay = new Date(target.getFullYear(), target.getMonth() + 1, 0).getDate();
+    target.setDate(Math.min(start.getDate(), lastDay));
+    return target;
+};
+
+// When a time-based rule next comes due after `after`; undefined for sprint rules and never-matching crons.
+export const nextOccurrence = (rule: RecurrenceRule, after: Date): Date | undefined => {
+    const start = new Date(rule.startedAt);
+    switch (rule.frequency) {
+        case 'sprint':
+            return undefined;
+        case 'weekly': {
+            const weeks = Math.max(1, Math.floor((after.getTime() - start.getTime()) / WEEK) + 1);
+            return new Date(start.getTime() + weeks * WEEK);
+        }
+        case 'monthly': {
+            let months = Math.max(1, (after.getFullYear() - start.getFullYear()) * 12 + after.getMonth() - start.getMonth());
+            while (addMonths(start, months) <= after) months++;
+            return addMonths(start, months);
+        }
+        case 'cron':
+            return nextCronTime(rule.cron ?? '', after) ?? undefined;
+    }
+};
+
+// A rule for `item` starting now; its first occurrence is the item itself.
+export const newRecurrence = (frequency: RecurrenceFrequency, item: Partial<WorkItem>, startStatus: string, now: Date = new Date(), cron?: string): RecurrenceRule => {
+    const rule: RecurrenceRule = {
+        frequency,
+        cron: frequency === 'cron' ? cron ?? '' : undefined,
+        state: 'active',
+        startedAt: now.toISOString(),
+        lastSprintId: frequency === 'sprint' ? item.sprintId : undefined,
+        startStatus,
+        generated: 0,
+    };
+    return { ...rule, nextAt: nextOccurrence(rule, now)?.toISOString() };
+};
+
+// Picks up a paused series from now on, without the occurrences it slept through.
+export const resumeRecurrence = (rule: RecurrenceRule, now: Date = new Date()): RecurrenceRule => ({
+    ...rule,
+    state: 'active',
+    nextAt: nextOccurrence(rule, now)?.toISOString(),
+});
+
+// The board's sprint in progress; the most recently started one if several are.
+const activeSprintOf = (boardId: string, sprints: Sprint[]): Sprint | undefined => sprints
+    .filter(sprint => sprint.boardId === boardId && sprint.state === SprintState.ACTIVE)
+    .sort((a, b) => b.startAt.localeCompare(a.startAt))[0];
+
+// The sprint a due sprint rule would fill, or undefined when it is not due.
+const dueSprint = (series: WorkItem, sprints: Sprint[]): Sprint | undefined => {
+    const sprint = activeSprintOf(series.boardId, sprints);
+    return sprint && sprint.id !== series.recurrence!.lastSprintId ? sprint : undefined;
+};
+
+// The series' due date moved on by as long as `occurredAt` is after the series started, so each
+// instance is due as long after its occurrence as the series' item was after its own.
+const shiftedDueDate = (series: WorkItem, occurredAt: Date): string => {
+    const due = new Date(series.dueDate);
+    if (!series.dueDate || isNaN(due.getTime())) return '';
+    return new Date(due.getTime() + occurredAt.getTime() - new Date(series.recurrence!.startedAt).getTime()).toISOString();
+};
+
+// A copy of the series' item with an unchecked checklist, as new work. It stays under the
+// series' parent, whose childrenIds generateDueInstances brings up to date.
+const instanceOf = (series: WorkItem, id: string, sprintId: string | undefined, rank: string, occurredAt: Date, now: Date): WorkItem => {
+    const { recurrence, links, childrenIds, comments, externalRef, doneInSprintId, isUpdated, ...fields } = series;
+    const at = now.toISOString();
+    return {
+        ...fields,
+        id,
+        seriesId: series.id,
+        dueDate: shiftedDueDate(series, occurredAt),
+        status: recurrence!.startStatus,
+        sprintId,
+        sprintBinding: 'manual',
+        checklist: series.checklist.map((entry, index) => ({ ...entry, id: `check-${now.getTime()}-${index}`, isCompleted: false })),
+        attachments: [],
+        rank,
+        createdAt: at,
+        updatedAt: at,
+        version: 1,
+    };
+};
+
+// Creates the instances of every active series that has come due and moves their rules on.
+// Returns `items` itself when nothing was due.
+export const generateDueInstances = (items: WorkItem[], sprints: Sprint[], now: Date = new Date()): WorkItem[] => {
+    const taken = new Set(items.map(item => item.id));
+    const created: WorkItem[] = [];
+    const advanced = new Map<string, RecurrenceRule>();
+
+    items.forEach(series => {
+        const rule = series.recurrence;
+        if (!rule || rule.state !== 'active' || series.deletedAt) return;
+        let next: RecurrenceRule;
+        let sprintId: string | undefined;
+        let occurredAt: Date;
+        if (rule.frequency === 'sprint') {
+            const sprint = dueSprint(series, sprints);
+            if (!sprint) return;
+            next = { ...rule, lastSprintId: sprint.id };
+            sprintId = sprint.id;
+            occurredAt = new Date(sprint.startAt);
+        } else {
+            if (!rule.nextAt || new Date(rule.nextAt) > now) return;
+            next = { ...rule, nextAt: nextOccurrence(rule, now)?.toISOString() };
+            occurredAt = new Date(rule.nextAt);
+            sprintId = activeSprintOf(series.boardId, sprints)?.id;
+        }
+        if (rule.skipNext) {
+            advanced.set(series.id, { ...next, skipNext: false });
+            return;
+        }
+        const id = newWorkItemId(taken);
+        taken.add(id);
+        const boardItems = [...created, ...items].filter(item => item.boardId === series.boardId);
+        created.push(instanceOf(series, id, sprintId, rankAtTop(boardItems, id), occurredAt, now));
+        advanced.set(series.id, { ...next, generated: rule.generated + 1 });
+    });
+
+    if (advanced.size === 0) return items;
+    const at = now.toISOString();
+    return syncChildrenIds([
+        ...created,
+        ...items.map(item => {
+            const rule = advanced.get(item.id);
+            return rule ? { ...item, recurrence: rule, version: item.version + 1, updatedAt: at } : item;
+        }),
+    ]);
+};
+
+// The instances generated from `seriesId`, newest first.
+export const seriesInstances = (seriesId: string, items: WorkItem[]): WorkItem[] =>
+    items.filter(item => item.seriesId === seriesId).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
@@ -0,0 +1,68 @@
+// services/restAdapter.ts
+import { StorageAdapter, StoredCollection, CollectionChanges, BackendUnreachableError } from './storageAdapter';
+
+// A proxy in front of the server answered, but the server itself did not.
+const GATEWAY_ERRORS = new Set([502, 503, 504]);
+
+// Stores collections on a ScrumOwl REST server (see server/index.mjs), so several
+// people can work on the same boards. The server merges record changes, so
+// writes from different clients do not drop each other's records.
+export class RestAdapter implements StorageAdapter {
+  readonly name = 'rest';
+  readonly shared = true;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly baseUrl: string) {}
+
+  // Runs requests one after another so they reach the server in the order they were issued.
+  private enqueue<T>(op: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(op, op);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T | undefined> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (e) {
+      // fetch only rejects when no response arrived at all (offline, DNS, server down).
+      throw new BackendUnreachableError(`${method} ${path} failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (response.status === 404 && method === 'GET') return undefined;
+    if (GATEWAY_ERRORS.has(response.status)) {
+      throw new BackendUnreachableError(`${method} ${path} failed: ${response.status} ${response.statusText}`);
+    }
+    if (!response.ok) {
+      throw new Error(`${method} ${path} failed: ${response.status} ${response.statusText}`);
+    }
+    return response.status === 204 ? undefined : await response.json() as T;
+  }
+
+  loadCollection<T>(key: string): Promise<StoredCollection<T> | undefined> {
+    return this.enqueue(() => this.request<StoredCollection<T>>('GET', `/collections/${encodeURIComponent(key)}`));
+  }
+
+  async writeRecords<T>(key: string, version: number, changes: CollectionChanges<T>): Promise<void> {
+    await this.enqueue(() => this.request('POST', `/collections/${encodeURIComponent(key)}/changes`, { version, ...changes }));
+  }
+
+  async replaceCollection<T>(key: string, version: number, records: T[], getId: (record: T) => string): Promise<void> {
+    await this.enqueue(() => this.request('PUT', `/collections/${encodeURIComponent(key)}`, {
+      version,
+      records: records.map(record => ({ id: getId(record), record })),
+    }));
+  }
+
+  async backupCollection(backupKey: string, stored: StoredCollection<unknown>): Promise<void> {
+    await this.enqueue(() => this.request('PUT', `/backups/${encodeURIComponent(backupKey)}`, stored));
+  }
+
+  async clearCollection(key: string): Promise<void> {
+    await this.enqueue(() => this.request('DELETE', `/collections/${encodeURIComponent(key)}`));
+  }
+}
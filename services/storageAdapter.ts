@@ -0,0 +1,79 @@
+// services/storageAdapter.ts
+
+export const STORAGE_NS = 'so.';
+export const BACKUP_NS = 'so.backup.';
+
+export interface StoredCollection<T> {
+  version: number;
+  records: T[];
+}
+
+export interface CollectionChanges<T> {
+  upserts: { id: string; record: T }[];
+  deletes: string[];
+  order: string[]; // ids of every record, in display order
+}
+
+// A backend for record collections (work items, epics, events, ...).
+// Implementations must apply operations in the order they were issued.
+export interface StorageAdapter {
+  readonly name: string;
+  readonly shared: boolean; // Holds other users' data too, so it is never cleared on logout
+  loadCollection<T>(key: string): Promise<StoredCollection<T> | undefined>;
+  writeRecords<T>(key: string, version: number, changes: CollectionChanges<T>, getId: (record: T) => string): Promise<void>;
+  replaceCollection<T>(key: string, version: number, records: T[], getId: (record: T) => string): Promise<void>;
+  backupCollection(backupKey: string, stored: StoredCollection<unknown>): Promise<void>;
+  clearCollection(key: string): Promise<void>;
+}
+
+// Thrown by shared adapters when the server cannot be reached; the write is kept for later (see outbox.ts).
+export class BackendUnreachableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackendUnreachableError';
+  }
+}
+
+export const isQuotaExceededError = (e: unknown): boolean => {
+  const err = e as { name?: string; code?: number } | null;
+  return !!err && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED' || err.code === 22);
+};
+
+// Stores each collection as a single JSON document, as the app always has.
+// Used when IndexedDB is not available.
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localStorage';
+  readonly shared = false;
+
+  async loadCollection<T>(key: string): Promise<StoredCollection<T> | undefined> {
+    const raw = localStorage.getItem(STORAGE_NS + key);
+    if (!raw) return undefined;
+    const { v, data } = JSON.parse(raw);
+    return { version: v, records: data as T[] };
+  }
+
+  async writeRecords<T>(key: string, version: number, changes: CollectionChanges<T>, getId: (record: T) => string): Promise<void> {
+    const stored = await this.loadCollection<T>(key);
+    const byId = new Map((stored?.records || []).map(r => [getId(r), r]));
+    changes.deletes.forEach(id => byId.delete(id));
+    changes.upserts.forEach(({ id, record }) => byId.set(id, record));
+    const records = changes.order.map(id => byId.get(id)).filter((r): r is T => r !== undefined);
+    this.write(key, version, records);
+  }
+
+  async replaceCollection<T>(key: string, version: number, records: T[]): Promise<void> {
+    this.write(key, version, records);
+  }
+
+  async backupCollection(backupKey: string, stored: StoredCollection<unknown>): Promise<void> {
+    localStorage.setItem(backupKey, JSON.stringify({ v: stored.version, data: stored.records }));
+  }
+
+  async clearCollection(key: string): Promise<void> {
+    localStorage.removeItem(STORAGE_NS + key);
+  }
+
+  private write(key: string, version: number, records: unknown[]) {
+    localStorage.setItem(STORAGE_NS + key, JSON.stringify({ v: version, data: records }));
+  }
+}
@@ -0,0 +1,75 @@
+// services/subtasks.ts
+// Sub-tasks. The child's `parentId` is the source of truth; the parent's `childrenIds`
+// is a copy of it that syncChildrenIds keeps in step on every save.
+import { StatusCategory, WorkItem } from '../types';
+import { sortByRank } from './ranking';
+
+// The sub-tasks of `parentId` among `items`, in rank order.
+export const childrenOf = (parentId: string, items: WorkItem[]): WorkItem[] =>
+    sortByRank(items.filter(item => item.parentId === parentId));
+
+export interface SubtaskProgress {
+    done: number;
+    total: number;
+}
+
+export const subtaskProgress = (children: WorkItem[], categoryOf: (statusId: string) => StatusCategory): SubtaskProgress => ({
+    done: children.filter(child => categoryOf(child.status) === 'done').length,
+    total: children.length,
+});
+
+// Sub-task progress for every parent among `items`.
+export const subtaskProgressByParent = (items: WorkItem[], categoryOf: (statusId: string) => StatusCategory): Map<string, SubtaskProgress> => {
+    const progress = new Map<string, SubtaskProgress>();
+    items.forEach(item => {
+        if (!item.parentId) return;
+        const { done, total } = progress.get(item.parentId) ?? { done: 0, total: 0 };
+        progress.set(item.parentId, { done: done + (categoryOf(item.status) === 'done' ? 1 : 0), total: total + 1 });
+    });
+    return progress;
+};
+
+export interface SubtaskRollup {
+    estimationPoints: number;
+    effortHours: number;
+}
+
+// The sub-tasks' totals, shown beside the parent's own figures. They are never written into the
+// parent: reports and burndowns count every item, and would count the sub-tasks' work twice.
+export const subtaskRollup = (children: WorkItem[]): SubtaskRollup => children.reduce(
+    (sum, child) => ({
+        estimationPoints: sum.estimationPoints + (child.estimationPoints || 0),
+        effortHours: sum.effortHours + (child.effortHours || 0),
+    }),
+    { estimationPoints: 0, effortHours: 0 },
+);
+
+// `itemId` and every item below it, none of which can become its parent without a loop.
+export const withDescendants = (itemId: string, items: WorkItem[]): Set<string> => {
+    const ids = new Set([itemId]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        items.forEach(item => {
+            if (item.parentId && ids.has(item.parentId) && !ids.has(item.id)) {
+                ids.add(item.id);
+                grew = true;
+            }
+        });
+    }
+    return ids;
+};
+
+// Rewrites each item's `childrenIds` from the `parentId`s pointing at it. Items that already agree come back as they were.
+export const syncChildrenIds = (items: WorkItem[]): WorkItem[] => {
+    const children = new Map<string, string[]>();
+    items.forEach(item => {
+        if (item.parentId) children.set(item.parentId, [...(children.get(item.parentId) ?? []), item.id]);
+    });
+    return items.map(item => {
+        const ids = children.get(item.id) ?? [];
+        const current = item.childrenIds ?? [];
+        if (ids.length === current.length && ids.every(id => current.includes(id))) return item;
+        return { ...item, childrenIds: ids };
+    });
+};
@@ -0,0 +1,96 @@
+// services/swimlanes.ts
+// Kanban swimlanes: cards grouped by one of their fields, and the change to that
+// field a card gets when it is dropped into another lane.
+import { KanbanGroupBy, Priority, Team, User, WorkItem, WorkItemType } from '../types';
+import { PRIORITIES, WORK_ITEM_TYPES } from '../constants';
+import { WipOverride } from './wipLimits';
+
+export type SwimlaneField = Exclude<KanbanGroupBy, 'status' | 'epic'>;
+
+export const SWIMLANE_FIELDS: SwimlaneField[] = ['assignee', 'priority', 'team', 'type', 'label'];
+
+// Lane of the cards with no value for the field: unassigned, no team, no labels.
+export const NO_LANE = 'none';
+
+export interface Swimlane {
+    id: string;
+    label: string;
+    items: WorkItem[];
+    points: number;
+}
+
+export interface SwimlaneSources {
+    members: User[];
+    teams: Team[];
+}
+
+// What a Kanban drop does besides changing the status.
+export interface BoardMoveOptions {
+    changes?: Partial<WorkItem>;
+    wipOverride?: WipOverride;
+}
+
+export const isSwimlaneField = (groupBy: KanbanGroupBy): groupBy is SwimlaneField =>
+    (SWIMLANE_FIELDS as KanbanGroupBy[]).includes(groupBy);
+
+// A card sits in one lane per label, and in a single lane for every other field.
+const laneIdsOf = (item: WorkItem, field: SwimlaneField): string[] => {
+    switch (field) {
+        case 'assignee': return [item.assignee?.id ?? NO_LANE];
+        case 'priority': return [item.priority];
+        case 'team': return [item.teamId ?? NO_LANE];
+        case 'type': return [item.type];
+        case 'label': return item.labels.length > 0 ? item.labels : [NO_LANE];
+    }
+};
+
+// Every value a card could be dropped on, so an empty lane (an idle person, say) is still a drop target.
+const candidateLanes = (items: WorkItem[], field: SwimlaneField, sources: SwimlaneSources): { id: string; label: string }[] => {
+    switch (field) {
+        case 'assignee': {
+            const lanes = sources.members.map(user => ({ id: user.id, label: user.name }));
+            // People who left the board keep a lane while they still have cards here.
+            items.forEach(item => {
+                if (item.assignee && !lanes.some(lane => lane.id === item.assignee!.id)) lanes.push({ id: item.assignee.id, label: item.assignee.name });
+            });
+            return lanes;
+        }
+        case 'priority': return PRIORITIES.map(priority => ({ id: priority, label: priority }));
+        case 'team': return sources.teams.map(team => ({ id: team.id, label: team.name }));
+        case 'type': return WORK_ITEM_TYPES.filter(type => type !== WorkItemType.EPIC).map(type => ({ id: type, label: type }));
+        case 'label': return [...new Set(items.flatMap(item => item.labels))].sort().map(label => ({ id: label, label }));
+    }
+};
+
+// The lanes in display order; the no-value lane comes last and is left out when empty.
+// Its label is empty: callers name it ("Unassigned", "No team"...).
+export const buildSwimlanes = (items: WorkItem[], field: SwimlaneField, sources: SwimlaneSources): Swimlane[] => {
+    const lanes = [...candidateLanes(items, field, sources), { id: NO_LANE, label: '' }].map(lane => {
+        const laneItems = items.filter(item => laneIdsOf(item, field).includes(lane.id));
+        return { ...lane, items: laneItems, points: laneItems.reduce((sum, item) => sum + (item.estimationPoints || 0), 0) };
+    });
+    return lanes.filter(lane => lane.id !== NO_LANE || lane.items.length > 0);
+};
+
+// The field change for moving `item` from lane `from` to lane `to`. Moving between
+// assignee lanes swaps the primary assignee and keeps the other assignees.
+export const laneChanges = (item: WorkItem, field: SwimlaneField, from: string, to: string, sources: SwimlaneSources): Partial<WorkItem> => {
+    if (from === to) return {};
+    switch (field) {
+        case 'assignee': {
+            const others = item.assignees.filter(a => a.id !== item.assignee?.id && a.id !== to);
+            const user = sources.members.find(member => member.id === to) ?? item.assignees.find(a => a.id === to);
+            return user ? { assignee: user, assignees: [user, ...others] } : { assignee: undefined, assignees: others };
+        }
+        case 'priority': return { priority: to as Priority };
+        case 'team': {
+            const team = sources.teams.find(t => t.id === to);
+            return { teamId: team?.id, teamInfo: team ? { id: team.id, name: team.name } : undefined };
+        }
+        case 'type': return { type: to as WorkItemType };
+        case 'label': {
+            const labels = item.labels.filter(label => label !== from);
+            return { labels: to === NO_LANE || labels.includes(to) ? labels : [...labels, to] };
+        }
+    }
+};
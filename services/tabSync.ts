@@ -0,0 +1,134 @@
+// services/tabSync.ts
+// Keeps the tabs of one browser in step: every tab broadcasts the records it
+// writes, and the tabs elect one leader to run timed jobs so they run once.
+
+export interface RemoteChanges<T = unknown> {
+  key: string;
+  upserts: T[];
+  deletes: string[];
+  order: string[];
+}
+
+type SyncMessage =
+  | ({ type: 'CHANGES'; from: string } & RemoteChanges)
+  | { type: 'HEARTBEAT'; from: string; startedAt: number }
+  | { type: 'BYE'; from: string };
+
+const CHANNEL_NAME = 'sync';
+const HEARTBEAT_MS = 2000;
+const PEER_TIMEOUT_MS = 5000;
+const ELECTION_GRACE_MS = 500; // Time for running tabs to answer a newcomer's first heartbeat
+
+export const TAB_ID = `tab-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`;
+const startedAt = Date.now();
+
+let channel: BroadcastChannel | null = null;
+let started = false;
+let isLeader = false;
+const peers = new Map<string, { startedAt: number; lastSeen: number }>();
+const changeListeners = new Map<string, Set<(changes: RemoteChanges<any>) => void>>();
+const leaderListeners = new Set<(isLeader: boolean) => void>();
+
+const post = (message: SyncMessage) => {
+  try {
+    channel?.postMessage(message);
+  } catch (e) {
+    console.warn('Failed to broadcast to other tabs', e);
+  }
+};
+
+// The oldest live tab leads; ties (same millisecond) go to the smaller id.
+const electLeader = () => {
+  const now = Date.now();
+  peers.forEach((peer, id) => { if (now - peer.lastSeen > PEER_TIMEOUT_MS) peers.delete(id); });
+  const outranked = [...peers.entries()].some(([id, peer]) => peer.startedAt < startedAt || (peer.startedAt === startedAt && id < TAB_ID));
+  if (outranked === !isLeader) return;
+  isLeader = !outranked;
+  leaderListeners.forEach(listener => listener(isLeader));
+};
+
+const handleMessage = (event: MessageEvent<SyncMessage>) => {
+  const message = event.data;
+  if (!message || message.from === TAB_ID) return;
+  switch (message.type) {
+    case 'CHANGES': {
+      const { key, upserts, deletes, order } = message;
+      changeListeners.get(key)?.forEach(listener => listener({ key, upserts, deletes, order }));
+      break;
+    }
+    case 'HEARTBEAT': {
+      const isNewPeer = !peers.has(message.from);
+      peers.set(message.from, { startedAt: message.startedAt, lastSeen: Date.now() });
+      if (isNewPeer) post({ type: 'HEARTBEAT', from: TAB_ID, startedAt });
+      electLeader();
+      break;
+    }
+    case 'BYE':
+      peers.delete(message.from);
+      electLeader();
+      break;
+  }
+};
+
+const start = () => {
+  if (started) return;
+  started = true;
+  if (typeof BroadcastChannel === 'undefined') {
+    // No way to reach other tabs: this one does everything.
+    isLeader = true;
+    return;
+  }
+  channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.addEventListener('message', handleMessage);
+  post({ type: 'HEARTBEAT', from: TAB_ID, startedAt });
+  setInterval(() => {
+    post({ type: 'HEARTBEAT', from: TAB_ID, startedAt });
+    electLeader();
+  }, HEARTBEAT_MS);
+  setTimeout(electLeader, ELECTION_GRACE_MS);
+  window.addEventListener('pagehide', () => post({ type: 'BYE', from: TAB_ID }));
+};
+
+export function broadcastChanges<T>(changes: RemoteChanges<T>) {
+  start();
+  if (changes.upserts.length === 0 && changes.deletes.length === 0 && changes.order.length === 0) return;
+  post({ type: 'CHANGES', from: TAB_ID, ...changes });
+}
+
+// Changes that are already stored (e.g. a resolved sync conflict): this tab and the others
+// take them in like another tab's changes, without writing them again.
+export function deliverStoredChanges<T>(changes: RemoteChanges<T>) {
+  start();
+  changeListeners.get(changes.key)?.forEach(listener => listener(changes));
+  broadcastChanges(changes);
+}
+
+export function onRemoteChanges<T>(key: string, listener: (changes: RemoteChanges<T>) => void): () => void {
+  start();
+  if (!changeListeners.has(key)) changeListeners.set(key, new Set());
+  changeListeners.get(key)!.add(listener);
+  return () => { changeListeners.get(key)?.delete(listener); };
+}
+
+// Reports the current leadership right away, then every change.
+export function onLeadershipChange(listener: (isLeader: boolean) => void): () => void {
+  start();
+  leaderListeners.add(listener);
+  listener(isLeader);
+  return () => { leaderListeners.delete(listener); };
+}
+
+// Applies another tab's changes to a local copy of the collection, in the other tab's order.
+// Records this tab added that the other tab has not seen yet stay at the front, as do
+// upserted records the order leaves out.
+export function applyRemoteChanges<T>(records: T[], changes: RemoteChanges<T>, getId: (record: T) => string): T[] {
+  const byId = new Map(records.map(r => [getId(r), r]));
+  const known = new Set(byId.keys());
+  changes.upserts.forEach(r => byId.set(getId(r), r));
+  changes.deletes.forEach(id => byId.delete(id));
+  const ordered = new Set(changes.order);
+  const added = changes.upserts.filter(r => !known.has(getId(r)) && !ordered.has(getId(r)) && byId.has(getId(r)));
+  const localOnly = records.filter(r => !ordered.has(getId(r)) && byId.has(getId(r))).map(r => byId.get(getId(r))!);
+  const inOrder = changes.order.filter(id => byId.has(id)).map(id => byId.get(id)!);
+  return [...added, ...localOnly, ...inOrder];
+}
@@ -0,0 +1,47 @@
+// services/transitionGuards.ts
+// Transition guards: fields an item must have filled in before it may enter a status,
+// e.g. "In Review needs an assignee" or "Bugs need estimation points before To Do".
+import { BoardWorkflow, GuardRequirement, StatusCategory, TransitionGuard, WorkItem } from '../types';
+import { statusCategory } from './workflow';
+
+// What a requirement may look at besides the item itself.
+interface GuardContext {
+    subtasks: WorkItem[];
+    categoryOf: (statusId: string) => StatusCategory;
+}
+
+interface Requirement {
+    isMet: (item: Partial<WorkItem>, ctx: GuardContext) => boolean; // Partial: the editor checks items not saved yet
+    field: string; // The WorkItemEditor field that fixes it (its highlight key)
+}
+
+const REQUIREMENTS: Record<GuardRequirement, Requirement> = {
+    assignee: { isMet: item => !!item.assignees?.length || !!item.assignee, field: 'assignee' },
+    estimation: { isMet: item => (item.estimationPoints ?? 0) > 0, field: 'estimationPoints' },
+    checklist_done: { isMet: item => (item.checklist ?? []).every(entry => entry.isCompleted), field: 'checklist' },
+    due_date: { isMet: item => !!item.dueDate, field: 'dueDate' },
+    epic: { isMet: item => !!item.epicId, field: 'epicId' },
+    sprint: { isMet: item => !!item.sprintId, field: 'sprint' },
+    subtasks_done: { isMet: (_item, ctx) => ctx.subtasks.every(child => ctx.categoryOf(child.status) === 'done'), field: 'subtasks' },
+};
+
+export const GUARD_REQUIREMENTS = Object.keys(REQUIREMENTS) as GuardRequirement[];
+
+export interface GuardViolation {
+    guard: TransitionGuard;
+    field: string;
+}
+
+// The guards that keep `item` out of `toStatus`. Items already in the status are not checked again.
+// `items` are the board's items, where the item's sub-tasks are looked up.
+export const guardViolations = (workflow: BoardWorkflow, item: Partial<WorkItem>, toStatus: string, items: WorkItem[] = []): GuardViolation[] => {
+    if (item.status === toStatus) return [];
+    const ctx: GuardContext = {
+        subtasks: item.id ? items.filter(other => other.parentId === item.id) : [],
+        categoryOf: statusId => statusCategory(workflow, statusId),
+    };
+    return workflow.guards
+        .filter(guard => guard.toStatus === toStatus && (!guard.type || guard.type === item.type))
+        .filter(guard => !REQUIREMENTS[guard.requirement].isMet(item, ctx))
+        .map(guard => ({ guard, field: REQUIREMENTS[guard.requirement].field }));
+};
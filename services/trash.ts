@@ -0,0 +1,49 @@
+// services/trash.ts
+import { WorkItem, Epic, Sprint, EpicStatus, SprintState } from '../types';
+import { TRASH_RETENTION_DAYS } from '../constants';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isTrashed = (record: WorkItem | Epic | Sprint): boolean => {
+    if ('state' in record) return record.state === SprintState.DELETED;
+    if ('type' in record) return !!record.deletedAt;
+    return record.status === EpicStatus.DELETED;
+};
+
+export const daysUntilPurge = (deletedAt: string | undefined, now: Date = new Date()): number => {
+    if (!deletedAt) return TRASH_RETENTION_DAYS;
+    const elapsed = now.getTime() - new Date(deletedAt).getTime();
+    return Math.max(0, Math.ceil(TRASH_RETENTION_DAYS - elapsed / DAY_MS));
+};
+
+const isExpired = (record: WorkItem | Epic | Sprint, now: Date) =>
+    isTrashed(record) && !!record.deletedAt && now.getTime() - new Date(record.deletedAt).getTime() >= TRASH_RETENTION_DAYS * DAY_MS;
+
+// Drops the given work items and any parent/child, item or series links other items still hold to them.
+export const removeWorkItems = (items: WorkItem[], ids: Set<string>): WorkItem[] =>
+    items
+        .filter(item => !ids.has(item.id))
+        .map(item => {
+            const orphaned = item.parentId && ids.has(item.parentId);
+            const children = item.childrenIds?.filter(id => !ids.has(id));
+            const links = item.links?.filter(link => !ids.has(link.targetId));
+            const seriesGone = item.seriesId && ids.has(item.seriesId);
+            if (!orphaned && !seriesGone && children?.length === item.childrenIds?.length && links?.length === item.links?.length) return item;
+            return {
+                ...item,
+                parentId: orphaned ? undefined : item.parentId,
+                childrenIds: children,
+                links,
+                seriesId: seriesGone ? undefined : item.seriesId,
+            };
+        });
+
+export const purgeExpiredWorkItems = (items: WorkItem[], now: Date = new Date()): WorkItem[] => {
+    const expired = new Set(items.filter(item => isExpired(item, now)).map(item => item.id));
+    return expired.size ? removeWorkItems(items, expired) : items;
+};
+
+export const purgeExpired = <T extends Epic | Sprint>(records: T[], now: Date = new Date()): T[] => {
+    const kept = records.filter(record => !isExpired(record, now));
+    return kept.length === records.length ? records : kept;
+};
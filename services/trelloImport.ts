@@ -0,0 +1,83 @@
+// services/trelloImport.ts
+// Reads the JSON from Trello's "Menu > Print, export and share > Export as JSON".
+import { Priority, WorkItemType, ChecklistItem } from '../types';
+import type { ForeignBoard, ForeignItem } from './externalImport';
+import { JsonObject, isObject, asObject, asObjects, asString, asStrings, asKey, asIsoDate } from './untrustedJson';
+
+export const isTrelloExport = (data: unknown): boolean =>
+    isObject(data) && Array.isArray(data.cards) && Array.isArray(data.lists);
+
+export const parseTrelloExport = (data: unknown): ForeignBoard => {
+    const board = asObject(data);
+    const warnings: string[] = [];
+    const listNames = new Map<string, string>();
+    asObjects(board.lists).filter(list => !list.closed).forEach(list => {
+        const id = asString(list.id);
+        if (id) listNames.set(id, asString(list.name) || id);
+    });
+    const members = new Map<string, JsonObject>();
+    asObjects(board.members).forEach(member => {
+        const id = asString(member.id);
+        if (id) members.set(id, member);
+    });
+
+    const checklistsByCard = new Map<string, ChecklistItem[]>();
+    asObjects(board.checklists).forEach(checklist => {
+        const cardId = asString(checklist.idCard);
+        if (!cardId) return;
+        const items = asObjects(checklist.checkItems).map(ci => ({ id: `check-${asKey(ci.id)}`, text: asString(ci.name) || '', isCompleted: ci.state === 'complete' }));
+        checklistsByCard.set(cardId, [...(checklistsByCard.get(cardId) || []), ...items]);
+    });
+
+    const commentsByCard = new Map<string, ForeignItem['comments']>();
+    asObjects(board.actions).filter(action => action.type === 'commentCard').forEach(action => {
+        const actionData = asObject(action.data);
+        const cardId = asString(asObject(actionData.card).id);
+        if (!cardId) return;
+        const comment = {
+            authorName: asString(asObject(action.memberCreator).fullName) || 'Unknown',
+            body: asString(actionData.text) || '',
+            createdAt: asIsoDate(action.date) || new Date().toISOString(),
+        };
+        commentsByCard.set(cardId, [...(commentsByCard.get(cardId) || []), comment]);
+    });
+
+    const allCards = asObjects(board.cards);
+    const cards = allCards.filter(card => !card.closed && listNames.has(asString(card.idList) || ''));
+    const skipped = allCards.length - cards.length;
+    if (skipped > 0) warnings.push(`${skipped} archived cards or cards in archived lists were skipped.`);
+
+    const items: ForeignItem[] = cards.map(card => {
+        const id = asString(card.id) || '';
+        const shortLink = asString(card.shortLink);
+        const memberIds = asStrings(card.idMembers);
+        const member = memberIds.length ? members.get(memberIds[0]) : undefined;
+        if (memberIds.length > 1) warnings.push(`${shortLink || id}: only the first of ${memberIds.length} members was kept as assignee.`);
+        return {
+            ref: { source: 'trello', key: shortLink || id, url: asString(card.shortUrl) || asString(card.url) },
+            title: asString(card.name) || '',
+            description: asString(card.desc) || '',
+            type: WorkItemType.TASK,
+            status: listNames.get(asString(card.idList) || '')!,
+            priority: Priority.MEDIUM,
+            estimationPoints: 0,
+            labels: asObjects(card.labels).map(label => asString(label.name) || asString(label.color)).filter((name): name is string => !!name),
+            dueDate: asIsoDate(card.due),
+            assignee: member ? { name: asString(member.fullName) } : undefined,
+            checklist: checklistsByCard.get(id) || [],
+            // Trello lists actions newest first
+            comments: (commentsByCard.get(id) || []).slice().reverse(),
+            updatedAt: asIsoDate(card.dateLastActivity),
+        };
+    });
+
+    return {
+        source: 'trello',
+        name: asString(board.name) || 'Trello',
+        statuses: [...listNames.values()],
+        items,
+        epics: [],
+        sprints: [],
+        warnings,
+    };
+};
@@ -0,0 +1,47 @@
+// services/undoHistory.ts
+// Record-level patches for undo/redo. A patch keeps only the records a command
+// touched, so undoing it leaves unrelated changes made since then alone.
+import { isEqual } from 'lodash-es';
+
+export interface RecordPatch<T> {
+    before: T[]; // Changed or removed records, as they were
+    after: T[];  // Changed or added records, as they became
+}
+
+export interface UndoEntry {
+    id: string;
+    label: string;
+    undo: () => void;
+    redo: () => void;
+}
+
+export const diffRecords = <T extends { id: string }>(prev: T[], next: T[]): RecordPatch<T> => {
+    const prevById = new Map(prev.map(r => [r.id, r]));
+    const nextById = new Map(next.map(r => [r.id, r]));
+    const before = prev.filter(r => !isEqual(r, nextById.get(r.id)));
+    const after = next.filter(r => !isEqual(r, prevById.get(r.id)));
+    return { before, after };
+};
+
+// IDs the patch adds to `scoped` (the records it was diffed against) that `all` already holds elsewhere.
+// Applying such a patch would replace those records, and undoing it would delete them.
+export const reusedIds = <T extends { id: string }>(patch: RecordPatch<T>, scoped: T[], all: T[]): string[] => {
+    const inScope = new Set(scoped.map(r => r.id));
+    const everywhere = new Set(all.map(r => r.id));
+    return patch.after.filter(r => !inScope.has(r.id) && everywhere.has(r.id)).map(r => r.id);
+};
+
+export const isEmptyPatch = (patch: RecordPatch<unknown>) => patch.before.length === 0 && patch.after.length === 0;
+
+// Moves `records` from one side of the patch to the other: 'undo' swaps `after` back to `before`, 'redo' the reverse.
+export const applyPatch = <T extends { id: string }>(records: T[], patch: RecordPatch<T>, direction: 'undo' | 'redo'): T[] => {
+    const [from, to] = direction === 'undo' ? [patch.after, patch.before] : [patch.before, patch.after];
+    const toById = new Map(to.map(r => [r.id, r]));
+    const dropped = new Set(from.filter(r => !toById.has(r.id)).map(r => r.id));
+    const present = new Set(records.map(r => r.id));
+    const updated = records
+        .filter(r => !dropped.has(r.id))
+        .map(r => toById.get(r.id) || r);
+    const restored = to.filter(r => !present.has(r.id));
+    return [...restored, ...updated];
+};
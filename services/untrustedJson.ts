@@ -0,0 +1,31 @@
+// services/untrustedJson.ts
+// Readers for JSON the app did not write (other tools' exports). It is `unknown` until one
+// of these has looked at it; a value of the wrong shape reads as missing instead of throwing.
+
+export type JsonObject = Record<string, unknown>;
+
+export const isObject = (value: unknown): value is JsonObject =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The object, or an empty one to read missing fields from.
+export const asObject = (value: unknown): JsonObject => isObject(value) ? value : {};
+
+export const asArray = (value: unknown): unknown[] => Array.isArray(value) ? value : [];
+
+// The objects in an array, skipping anything else.
+export const asObjects = (value: unknown): JsonObject[] => asArray(value).filter(isObject);
+
+export const asString = (value: unknown): string | undefined => typeof value === 'string' ? value : undefined;
+
+export const asStrings = (value: unknown): string[] => asArray(value).filter((entry): entry is string => typeof entry === 'string');
+
+// IDs come as strings from some tools and as numbers from others.
+export const asKey = (value: unknown): string | undefined =>
+    typeof value === 'string' || typeof value === 'number' ? String(value) : undefined;
+
+// A date in any format Date understands, as an ISO string; undefined when missing or unparseable.
+export const asIsoDate = (value: unknown): string | undefined => {
+    if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
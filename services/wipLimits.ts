@@ -0,0 +1,50 @@
+// services/wipLimits.ts
+// Work-in-progress limits: how many items each Kanban column, and each person, may
+// have on the go (see BoardStatus.wipLimit and BoardWorkflow.wip).
+import { BoardWorkflow, User, WorkItem } from '../types';
+import { statusCategory, statusName } from './workflow';
+
+export type WipBreach =
+    | { kind: 'column'; status: string; limit: number; count: number }
+    | { kind: 'assignee'; user: User; limit: number; count: number };
+
+// A drop that went past a limit anyway, and why; recorded in the audit log.
+export interface WipOverride {
+    reason: string;
+    breaches: WipBreach[];
+}
+
+export const assigneeWipLimit = (workflow: BoardWorkflow, userId: string): number | undefined =>
+    workflow.wip.assignees[userId] ?? workflow.wip.perAssignee;
+
+// A person's work in progress: their items in an in-progress status.
+export const assigneeWip = (workflow: BoardWorkflow, items: WorkItem[], userId: string) =>
+    items.filter(item => statusCategory(workflow, item.status) === 'in_progress' && item.assignees.some(a => a.id === userId)).length;
+
+// The limits a card going from `before` to `after` (a new status, and maybe new
+// assignees from a swimlane drop) would go past, counted among `items` after the move.
+export const findWipBreaches = (workflow: BoardWorkflow, items: WorkItem[], before: WorkItem, after: WorkItem): WipBreach[] => {
+    const breaches: WipBreach[] = [];
+    const column = workflow.statuses.find(s => s.id === after.status);
+    if (column?.wipLimit !== undefined && before.status !== after.status) {
+        const count = items.filter(i => i.status === after.status).length + 1;
+        if (count > column.wipLimit) breaches.push({ kind: 'column', status: after.status, limit: column.wipLimit, count });
+    }
+    if (statusCategory(workflow, after.status) === 'in_progress') {
+        // Someone who already had the card in progress takes on nothing new.
+        const wasInProgress = statusCategory(workflow, before.status) === 'in_progress';
+        after.assignees
+            .filter(user => !wasInProgress || !before.assignees.some(a => a.id === user.id))
+            .forEach(user => {
+                const limit = assigneeWipLimit(workflow, user.id);
+                if (limit === undefined) return;
+                const count = assigneeWip(workflow, items, user.id) + 1;
+                if (count > limit) breaches.push({ kind: 'assignee', user, limit, count });
+            });
+    }
+    return breaches;
+};
+
+// "In Progress 4/3", "Jane Doe 4/3": the limit's subject with the count it would reach.
+export const describeWipBreach = (workflow: BoardWorkflow, breach: WipBreach) =>
+    `${breach.kind === 'column' ? statusName(workflow, breach.status) : breach.user.name} ${breach.count}/${breach.limit}`;
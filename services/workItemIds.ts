@@ -0,0 +1,11 @@
+// services/workItemIds.ts
+// IDs for new work items. Items are matched by ID across every board (undo, sync, links,
+// sub-tasks), so a new one must never reuse an ID that any board or the trash still holds.
+
+export const newWorkItemId = (taken: ReadonlySet<string>): string => {
+    let id: string;
+    do {
+        id = `PROJ-${Math.floor(Math.random() * 9000) + 1000}`;
+    } while (taken.has(id));
+    return id;
+};
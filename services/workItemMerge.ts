@@ -0,0 +1,58 @@
+// services/workItemMerge.ts
+// Three-way merge for work item saves that were based on an outdated version.
+import { isEqual } from 'lodash-es';
+import { WorkItem } from '../types';
+
+export type MergeSide = 'base' | 'mine' | 'theirs';
+
+export interface MergeField {
+    field: keyof WorkItem;
+    base: unknown;
+    mine: unknown;
+    theirs: unknown;
+    conflicting: boolean; // Both sides changed the field, to different values
+    suggested: MergeSide;
+}
+
+// Never merged field by field: bookkeeping, or derived from another field.
+const SKIPPED_FIELDS = new Set<keyof WorkItem>(['version', 'updatedAt', 'isUpdated', 'epicInfo', 'teamInfo']);
+// Derived fields travel with the field they are derived from.
+const DERIVED_FIELDS: Partial<Record<keyof WorkItem, (keyof WorkItem)[]>> = {
+    epicId: ['epicInfo'],
+    teamId: ['teamInfo'],
+};
+
+// A write is stale when the stored item moved on since the version the edit started from.
+export const isStaleWrite = (write: Pick<WorkItem, 'version'>, stored: Pick<WorkItem, 'version'>) =>
+    write.version !== stored.version;
+
+// Fields where mine or theirs differ from base, with the side to keep when nobody chooses.
+export const diffForMerge = (base: WorkItem, mine: WorkItem, theirs: WorkItem): MergeField[] => {
+    const fields = new Set([...Object.keys(base), ...Object.keys(mine), ...Object.keys(theirs)] as (keyof WorkItem)[]);
+    return [...fields]
+        .filter(field => !SKIPPED_FIELDS.has(field))
+        .map(field => {
+            const mineChanged = !isEqual(base[field], mine[field]);
+            const theirsChanged = !isEqual(base[field], theirs[field]);
+            const conflicting = mineChanged && theirsChanged && !isEqual(mine[field], theirs[field]);
+            return {
+                field,
+                base: base[field],
+                mine: mine[field],
+                theirs: theirs[field],
+                conflicting,
+                suggested: (mineChanged ? 'mine' : 'theirs') as MergeSide,
+            };
+        })
+        .filter(f => !isEqual(f.base, f.mine) || !isEqual(f.base, f.theirs));
+};
+
+// Builds the merged item on top of theirs, so it carries the stored version.
+export const applyMerge = (base: WorkItem, mine: WorkItem, theirs: WorkItem, choices: Partial<Record<keyof WorkItem, MergeSide>>): WorkItem => {
+    const sides: Record<MergeSide, WorkItem> = { base, mine, theirs };
+    const merged: Record<string, unknown> = { ...theirs };
+    (Object.entries(choices) as [keyof WorkItem, MergeSide][]).forEach(([field, side]) => {
+        [field, ...(DERIVED_FIELDS[field] || [])].forEach(f => { merged[f] = sides[side][f]; });
+    });
+    return { ...(merged as unknown as WorkItem), version: theirs.version };
+};
@@ -0,0 +1,130 @@
+// services/workflow.ts
+// Per-board workflows: the board's statuses, and which status changes are allowed,
+// optionally per work item type.
+import { BoardStatus, BoardWorkflow, Status, StatusCategory, TransitionMap, WorkItem, WorkItemType } from '../types';
+import { WORKFLOW_RULES, DEFAULT_WIP_POLICY } from '../constants';
+
+export const DEFAULT_STATUSES: BoardStatus[] = [
+    { id: Status.BACKLOG, name: 'Backlog', category: 'todo' },
+    { id: Status.TODO, name: 'To Do', category: 'todo' },
+    { id: Status.IN_PROGRESS, name: 'In Progress', category: 'in_progress' },
+    { id: Status.IN_REVIEW, name: 'In Review', category: 'in_progress' },
+    { id: Status.DONE, name: 'Done', category: 'done' },
+];
+
+export const STATUS_CATEGORIES: StatusCategory[] = ['todo', 'in_progress', 'done'];
+
+export type WorkflowIssueKind = 'unreachable' | 'dead_end' | 'no_todo_status' | 'no_done_status' | 'invalid_name';
+
+export interface WorkflowIssue {
+    kind: WorkflowIssueKind;
+    status?: string;     // The status concerned, for issues about one status
+    type?: WorkItemType; // Set for issues in a type's own transitions
+}
+
+export const defaultWorkflow = (boardId: string): BoardWorkflow => ({
+    boardId,
+    statuses: DEFAULT_STATUSES,
+    transitions: WORKFLOW_RULES,
+    typeTransitions: {},
+    wip: DEFAULT_WIP_POLICY,
+    guards: [],
+    updatedAt: '',
+});
+
+// Statuses the board no longer has count as not started, so their items still show up as open work.
+export const statusCategory = (workflow: BoardWorkflow, statusId: string): StatusCategory =>
+    workflow.statuses.find(s => s.id === statusId)?.category ?? 'todo';
+
+export const isDoneStatus = (workflow: BoardWorkflow, statusId: string) => statusCategory(workflow, statusId) === 'done';
+
+export const statusName = (workflow: BoardWorkflow, statusId: string) =>
+    workflow.statuses.find(s => s.id === statusId)?.name ?? statusId;
+
+// New items start in a not-started status; work ends in a done one.
+export const initialStatuses = (workflow: Pick<BoardWorkflow, 'statuses'>) => workflow.statuses.filter(s => s.category === 'todo').map(s => s.id);
+export const finalStatuses = (workflow: Pick<BoardWorkflow, 'statuses'>) => workflow.statuses.filter(s => s.category === 'done').map(s => s.id);
+
+// Where new items go: the built-in To Do if the board kept it, else its first not-started status.
+export const defaultStatusId = (workflow: BoardWorkflow): string => {
+    const initial = initialStatuses(workflow);
+    return initial.includes(Status.TODO) ? Status.TODO : initial[0] ?? workflow.statuses[0]?.id ?? Status.TODO;
+};
+
+export const transitionsFor = (workflow: BoardWorkflow, type: WorkItemType): TransitionMap =>
+    workflow.typeTransitions[type] ?? workflow.transitions;
+
+export const allowedTransitions = (workflow: BoardWorkflow, item: Pick<WorkItem, 'status' | 'type'>): string[] =>
+    transitionsFor(workflow, item.type)[item.status] ?? [];
+
+export const canTransition = (workflow: BoardWorkflow, item: Pick<WorkItem, 'status' | 'type'>, to: string): boolean =>
+    item.status === to || allowedTransitions(workflow, item).includes(to);
+
+const reachableFrom = (transitions: TransitionMap, starts: string[]): Set<string> => {
+    const reached = new Set<string>(starts);
+    const queue = [...starts];
+    while (queue.length > 0) {
+        const status = queue.shift()!;
+        (transitions[status] ?? []).forEach(next => {
+            if (!reached.has(next)) {
+                reached.add(next);
+                queue.push(next);
+            }
+        });
+    }
+    return reached;
+};
+
+// Unreachable: no path from a not-started status. Dead end: reachable, but no path on to a done status.
+export const validateTransitions = (transitions: TransitionMap, statuses: BoardStatus[]): WorkflowIssue[] => {
+    const initial = initialStatuses({ statuses });
+    const final = finalStatuses({ statuses });
+    const reachable = reachableFrom(transitions, initial);
+    return statuses.flatMap(({ id }): WorkflowIssue[] => {
+        if (!reachable.has(id)) return [{ kind: 'unreachable', status: id }];
+        if (final.includes(id)) return [];
+        const canFinish = [...reachableFrom(transitions, [id])].some(s => final.includes(s));
+        return canFinish ? [] : [{ kind: 'dead_end', status: id }];
+    });
+};
+
+const validateStatuses = (statuses: BoardStatus[]): WorkflowIssue[] => {
+    const issues: WorkflowIssue[] = [];
+    if (!statuses.some(s => s.category === 'todo')) issues.push({ kind: 'no_todo_status' });
+    if (!statuses.some(s => s.category === 'done')) issues.push({ kind: 'no_done_status' });
+    const seen = new Set<string>();
+    statuses.forEach(s => {
+        const name = s.name.trim().toLowerCase();
+        if (!name || seen.has(name)) issues.push({ kind: 'invalid_name', status: s.id });
+        seen.add(name);
+    });
+    return issues;
+};
+
+export const validateWorkflow = (workflow: BoardWorkflow): WorkflowIssue[] => {
+    const statusIssues = validateStatuses(workflow.statuses);
+    // Paths only make sense once there is somewhere to start and somewhere to finish.
+    if (statusIssues.some(issue => issue.kind === 'no_todo_status' || issue.kind === 'no_done_status')) return statusIssues;
+    return [
+        ...statusIssues,
+        ...validateTransitions(workflow.transitions, workflow.statuses),
+        ...(Object.entries(workflow.typeTransitions) as [WorkItemType, TransitionMap][])
+            .flatMap(([type, transitions]) => validateTransitions(transitions, workflow.statuses).map(issue => ({ ...issue, type }))),
+    ];
+};
+
+// Drops a removed status from every transition list and guard, so no rule points at it any more.
+export const withoutStatus = (workflow: BoardWorkflow, statusId: string): BoardWorkflow => {
+    const prune = (transitions: TransitionMap): TransitionMap => Object.fromEntries(
+        Object.entries(transitions)
+            .filter(([from]) => from !== statusId)
+            .map(([from, to]) => [from, to.filter(s => s !== statusId)]));
+    return {
+        ...workflow,
+        statuses: workflow.statuses.filter(s => s.id !== statusId),
+        transitions: prune(workflow.transitions),
+        typeTransitions: Object.fromEntries(
+            Object.entries(workflow.typeTransitions).map(([type, transitions]) => [type, prune(transitions!)])),
+        guards: workflow.guards.filter(guard => guard.toStatus !== statusId),
+    };
+};
@@ -429,6 +429,325 @@ export const translations = {
     filter_by_status: 'Filter by status...',
     all_statuses: 'All Statuses',
     all_item_types: 'All Item Types',
+    migration_failed_title: 'Data Upgrade Failed',
+    migration_failed_body: 'Stored "{key}" data (v{version}) could not be upgraded. A backup copy was kept.',
+    storage_quota_title: 'Storage Full',
+    storage_quota_body: 'Your browser ran out of storage space. Recent changes may not be saved.',
+    boardSettings: 'Board Settings',
+    boardSettings_title: 'Settings for {boardName}',
+    boardSettings_data_title: 'Backup & Transfer',
+    boardSettings_data_desc: 'Export this board as a portable archive, or import an archive as a new board.',
+    boardSettings_export_button: 'Export Board',
+    boardSettings_import_button: 'Import Board...',
+    importBoard_title: 'Import Board',
+    importBoard_file_label: 'Board archive (.json)',
+    importBoard_preview_intro: 'A new board {boardName} will be created with:',
+    importBoard_count_members: 'Members',
+    importBoard_count_workItems: 'Work items',
+    importBoard_count_savedViews: 'Saved views',
+    importBoard_warnings: '{count} warning(s)',
+    importBoard_confirm_button: 'Import',
+    importBoard_success_title: 'Board "{boardName}" imported',
+    importBoard_success_body: '{count} work item(s) were created.',
+    csvImport_button: 'Import CSV',
+    csvImport_title: 'Import work items from CSV',
+    csvImport_file_label: 'CSV file (first row must contain column headers)',
+    csvImport_error_empty: 'The file has no header row or no data rows.',
+    csvImport_mapping_intro: '{count} rows found. Choose which column fills each field.',
+    csvImport_mapping_skip: "— Don't import —",
+    csvImport_save_template: 'Save mapping as board template',
+    csvImport_template_saved: 'Template saved for this board.',
+    csvImport_validate_button: 'Check rows',
+    csvImport_back_button: 'Back',
+    csvImport_preview_summary: '{valid} rows are ready to import, {invalid} rows have errors and will be skipped.',
+    csvImport_preview_errors: 'Rows with errors',
+    csvImport_row: 'Row {row}:',
+    csvImport_import_button: 'Import {count} items',
+    csvImport_field_title: 'Title',
+    csvImport_field_type: 'Type',
+    csvImport_field_status: 'Status',
+    csvImport_field_priority: 'Priority',
+    csvImport_field_estimationPoints: 'Estimation points',
+    csvImport_field_labels: 'Labels',
+    csvImport_field_dueDate: 'Due date',
+    csvImport_field_assignee: 'Assignee (email)',
+    csvImport_field_epic: 'Epic (name)',
+    csvImport_error_required: '{field} is required.',
+    csvImport_error_invalid_type: '"{value}" is not a valid type.',
+    csvImport_error_invalid_status: '"{value}" is not a valid status.',
+    csvImport_error_invalid_priority: '"{value}" is not a valid priority.',
+    csvImport_error_invalid_number: '"{value}" is not a valid number for {field}.',
+    csvImport_error_invalid_date: '"{value}" is not a valid date.',
+    csvImport_error_unknown_assignee: 'No board member has the email "{value}".',
+    csvImport_error_unknown_epic: 'No epic on this board is named "{value}".',
+    csvImport_success_title: 'CSV import complete',
+    csvImport_success_body: '{count} work items were added.',
+    boardSettings_importExternal_button: 'Import from Jira or Trello',
+    externalImport_title: 'Import from Jira or Trello',
+    externalImport_file_label: 'Jira issue search export or Trello board export (.json)',
+    externalImport_detected: '{source} export "{name}": {items} work items, {epics} epics and {sprints} sprints will be added to this board.',
+    externalImport_status_mapping: 'Status mapping',
+    externalImport_source_status: '{source} status',
+    externalImport_confirm_button: 'Import',
+    externalImport_success_title: 'Import complete',
+    externalImport_success_body: 'Added {items} work items, {epics} epics and {sprints} sprints.',
+    externalRef: 'Imported from',
+    undo_item_created: 'Created {itemId}',
+    undo_item_saved: 'Saved {itemId}',
+    undo_status_changed: '{itemId} moved to {status}',
+    undo_epic_created: 'Epic "{name}" created',
+    undo_epic_saved: 'Epic "{name}" saved',
+    undo_epic_deleted: 'Epic "{name}" deleted',
+    undo_sprint_created: 'Sprint "{name}" created',
+    undo_sprint_saved: 'Sprint "{name}" saved',
+    undo_sprint_deleted: 'Sprint "{name}" deleted',
+    undo_undone: 'Undone: {label}',
+    undo_redone: 'Redone: {label}',
+    trash: 'Trash',
+    trash_moveToTrash: 'Move to trash',
+    trash_workItems: 'Work items',
+    trash_name: 'Name',
+    trash_deletedAt: 'Deleted',
+    trash_purgedIn: 'Purged in',
+    trash_days: '{count} days',
+    trash_restore: 'Restore',
+    trash_purge: 'Delete permanently',
+    trash_empty: 'Nothing in the trash.',
+    trash_retention_note: 'Deleted work items, epics and sprints stay here for {days} days before they are removed for good.',
+    undo_item_trashed: '{itemId} moved to trash',
+    undo_item_restored: '{itemId} restored',
+    undo_epic_restored: 'Epic "{name}" restored',
+    undo_sprint_restored: 'Sprint "{name}" restored',
+    audit_title: 'Audit log',
+    audit_desc: 'Every change made on this board: who made it, when, and what each field was before and after.',
+    audit_search_placeholder: 'Search by name, ID or field',
+    audit_filter_entity: 'Record type',
+    audit_filter_action: 'Action',
+    audit_filter_actor: 'Changed by',
+    audit_filter_allEntities: 'All record types',
+    audit_filter_allActions: 'All actions',
+    audit_filter_allActors: 'Everyone',
+    audit_actor_system: 'System',
+    audit_entity_work_item: 'Work item',
+    audit_entity_epic: 'Epic',
+    audit_entity_sprint: 'Sprint',
+    audit_entity_member: 'Member',
+    audit_entity_invite_code: 'Invite code',
+    audit_entity_join_request: 'Join request',
+    audit_action_create: 'Created',
+    audit_action_update: 'Updated',
+    audit_action_delete: 'Deleted',
+    audit_header_when: 'When',
+    audit_header_who: 'Who',
+    audit_header_what: 'What',
+    audit_header_changes: 'Changes',
+    audit_empty: 'No matching changes.',
+    merge_title: '{itemId} was changed by someone else',
+    merge_desc: 'Your changes were not saved because the item is now at version {version}. Choose which value to keep for each field ({count} conflicting).',
+    merge_field: 'Field',
+    merge_side_base: 'Original',
+    merge_side_mine: 'Mine',
+    merge_side_theirs: 'Theirs',
+    merge_conflict: 'Both changed',
+    merge_noDifferences: 'No field differs; saving will keep the stored item.',
+    merge_confirm: 'Save merged item',
+    sync_pending: '{count} pending',
+    sync_pendingTitle: 'Changes made offline, waiting to reach the server',
+    sync_conflicts: '{count} conflicts',
+    sync_conflictsTitle: 'Sync conflicts',
+    sync_conflictsDesc: 'These records changed on the server while you were offline. Choose which version to keep.',
+    sync_mine: 'Your offline change',
+    sync_theirs: 'On the server',
+    sync_deleted: 'Deleted',
+    sync_keepMine: 'Keep mine',
+    sync_keepTheirs: "Keep server's",
+    sync_merge: 'Merge…',
+    sync_resolveFailed: 'Could not reach the server. Try again later.',
+    sync_noConflicts: 'No conflicts left.',
+    sync_collection_workItems: 'Work item',
+    sync_collection_epics: 'Epic',
+    sync_collection_sprints: 'Sprint',
+    sync_collection_teams: 'Team',
+    sync_collection_other: 'Record',
+    workflow_title: 'Workflow',
+    workflow_desc: 'Set up the statuses and columns of this board, and which status changes are allowed. Item types that flow differently can have their own workflow.',
+    workflow_scope: 'Applies to',
+    workflow_scope_default: 'All types (board default)',
+    workflow_followsDefault: '{type} items follow the board default.',
+    workflow_customize: 'Customize for {type}',
+    workflow_useDefault: 'Use board default',
+    workflow_fromTo: 'From ↓ / To →',
+    workflow_preview: 'Preview',
+    workflow_issue_unreachable: '{status} cannot be reached from {start}.',
+    workflow_issue_dead_end: 'Items in {status} can never reach {final}.',
+    workflow_valid: 'Every status can be reached and leads on to a done status.',
+    workflow_save: 'Save workflow',
+    workflow_discard: 'Discard changes',
+    workflow_restoreDefaults: 'Restore defaults',
+    audit_entity_workflow: 'Workflow',
+    workflow_statuses: 'Statuses (shown as Kanban columns, in this order)',
+    workflow_statusName: 'Status name',
+    workflow_statusCategory: 'Category',
+    workflow_category_todo: 'Not started',
+    workflow_category_in_progress: 'In progress',
+    workflow_category_done: 'Done',
+    workflow_moveEarlier: 'Move earlier',
+    workflow_moveLater: 'Move later',
+    workflow_removeStatus: 'Remove status',
+    workflow_statusUsage: '{count} items',
+    workflow_addStatus: 'Add status',
+    workflow_newStatus: 'New status',
+    workflow_issue_no_todo_status: 'At least one status must be in the Not started category.',
+    workflow_issue_no_done_status: 'At least one status must be in the Done category.',
+    workflow_issue_invalid_name: 'Status names must be filled in and unique ({status}).',
+    workflow_issue_in_use: '{count} items are still in {status}. Move them to another status before removing it.',
+    wip_title: 'Work in progress limits',
+    wip_desc: "Column limits are set next to each status above. The per-person limit counts a person's items in an in-progress status.",
+    wip_enforcement: 'When a move goes past a limit',
+    wip_enforcement_warn: 'Warn and ask for a reason',
+    wip_enforcement_block: 'Block (sprint managers can override)',
+    wip_perAssignee: 'Per person',
+    wip_perPerson: 'Limits for individual people',
+    wip_personLimit: 'WIP limit for {name}',
+    wip_columnLimit: 'WIP limit',
+    wip_noLimit: 'No limit',
+    wip_modal_title: 'WIP limit reached',
+    wip_modal_body: 'Moving "{title}" to {status} goes past these limits:',
+    wip_breach_column: '{status} would hold {count} items (limit {limit})',
+    wip_breach_assignee: '{name} would have {count} items in progress (limit {limit})',
+    wip_modal_reason: 'Reason for going past the limit (recorded in the audit log)',
+    wip_modal_blocked: 'This board blocks moves past its WIP limits. Ask a sprint manager to make this move.',
+    wip_modal_override: 'Move anyway',
+    guard_title: 'Required fields',
+    guard_desc: 'Items cannot enter a status until they have what its rules ask for.',
+    guard_entering: 'Entering',
+    guard_status: 'Status',
+    guard_type: 'Item type',
+    guard_allTypes: 'any item',
+    guard_requires: 'requires',
+    guard_requirement: 'Requirement',
+    guard_requirement_assignee: 'an assignee',
+    guard_requirement_estimation: 'estimation points',
+    guard_requirement_checklist_done: 'a completed checklist',
+    guard_requirement_due_date: 'a due date',
+    guard_requirement_epic: 'an epic',
+    guard_requirement_sprint: 'a sprint',
+    guard_remove: 'Remove rule',
+    guard_add: 'Add rule',
+    guard_blocked: '"{title}" cannot move to {status} yet:',
+    guard_fix: 'Fix',
+    guard_violation_assignee: 'It needs an assignee.',
+    guard_violation_estimation: 'It needs estimation points.',
+    guard_violation_checklist_done: 'Every checklist item must be checked off.',
+    guard_violation_due_date: 'It needs a due date.',
+    guard_violation_epic: 'It must belong to an epic.',
+    guard_violation_sprint: 'It must be in a sprint.',
+    filterbar_groupBy_assignee: 'Group By: Assignee',
+    filterbar_groupBy_priority: 'Group By: Priority',
+    filterbar_groupBy_team: 'Group By: Team',
+    filterbar_groupBy_type: 'Group By: Type',
+    filterbar_groupBy_label: 'Group By: Label',
+    kanban_lane_unassigned: 'Unassigned',
+    kanban_lane_noTeam: 'No team',
+    kanban_lane_noLabel: 'No label',
+    kanban_lane_none: 'None',
+    kanban_lane_points: '{points} pts',
+    undo_item_reordered: 'Reordered {itemId}',
+    items_sort_rank: 'Sort: Manual order',
+    items_sort_updated: 'Sort: Last modified',
+    items_sort_rankHint: 'Drag rows to reorder, or press Alt+Up / Alt+Down to move an item to the top or bottom',
+    undo_bulk_edit: 'Bulk edit of {count} items',
+    bulk_selected: '{count} selected',
+    bulk_field: 'Field to change',
+    bulk_apply: 'Apply',
+    bulk_clearSelection: 'Clear selection',
+    bulk_selectAllFiltered: 'Select all items shown',
+    bulk_selectItem: 'Select {itemId}',
+    bulk_label_add: 'Add label',
+    bulk_label_remove: 'Remove label',
+    bulk_summary_updated: '{count} updated',
+    bulk_summary_unchanged: '{count} already set',
+    bulk_summary_skipped: '{count} skipped',
+    bulk_skip_permission: "You don't have permission to edit this item",
+    bulk_skip_transition: "The workflow doesn't allow this move from {from}",
+    bulk_skip_guard: 'Required fields are missing for this status',
+    bulk_skip_wip: 'The move would exceed a WIP limit this board enforces',
+    links_title: 'Links',
+    links_none: 'No linked items.',
+    links_add: 'Link',
+    links_remove: 'Remove link',
+    links_item: 'Item to link',
+    links_chooseItem: 'Choose an item…',
+    links_unavailable: 'not available',
+    links_relation_blocks: 'Blocks',
+    links_relation_blocked_by: 'Is blocked by',
+    links_relation_relates_to: 'Relates to',
+    links_relation_duplicates: 'Duplicates',
+    links_relation_duplicated_by: 'Is duplicated by',
+    links_relation_clones: 'Clones',
+    links_relation_cloned_by: 'Is cloned by',
+    links_error_self: "An item can't be linked to itself.",
+    links_error_exists: 'These items are already linked this way.',
+    links_error_cycle: 'This would create a dependency cycle: {cycle}',
+    links_inCycle: 'This item is part of a dependency cycle: {cycle}',
+    links_blocked: 'Blocked',
+    links_blockedBy: 'Blocked by {items}',
+    links_sprintWarning: '{count} item(s) blocked by work outside this sprint',
+    guard_requirement_subtasks_done: 'all sub-tasks done',
+    guard_violation_subtasks_done: 'All of its sub-tasks must be done first.',
+    subtasks_title: 'Sub-tasks',
+    subtasks_add: 'Add sub-task',
+    subtasks_none: 'No sub-tasks yet.',
+    subtasks_progress: '{done} of {total} done',
+    subtasks_points: 'pts',
+    subtasks_rollup: 'Sub-tasks total: {points} points, {hours}h',
+    subtasks_fromSubtasks: '(+{value} in sub-tasks)',
+    subtasks_parent: 'Parent item',
+    subtasks_noParent: 'No parent',
+    audit_entity_item_template: 'Item template',
+    templates_title: 'Item templates',
+    templates_desc: 'Starting points for new items of a type: a title prefix, description, checklist, labels, priority, assignees and team.',
+    templates_none: 'This board has no templates yet.',
+    templates_add: 'Add template',
+    templates_name: 'Template name',
+    templates_titlePrefix: 'Title prefix',
+    templates_titlePrefix_placeholder: 'e.g. [Bug] ',
+    templates_assignees: 'Default assignees',
+    templates_primary: 'primary',
+    templates_placeholders: 'Text fields may use {variables}; they are filled in when the item is created.',
+    templates_save: 'Save template',
+    templates_delete: 'Delete template',
+    templates_blankItem: 'Blank item',
+    templates_fromTemplate: 'From a template',
+    kanban_newItemInEpic: 'New item in this epic',
+    recurrence_repeat: 'Repeat',
+    recurrence_none: 'Does not repeat',
+    recurrence_frequency_sprint: 'Every sprint',
+    recurrence_frequency_weekly: 'Weekly',
+    recurrence_frequency_monthly: 'Monthly',
+    recurrence_frequency_cron: 'Custom schedule (cron)',
+    recurrence_cron: 'Cron expression',
+    recurrence_cron_hint: 'Minute, hour, day of month, month and day of week, in local time, e.g. "0 9 * * 1" for Mondays at 09:00.',
+    recurrence_cron_invalid: 'This schedule is not valid or never comes due.',
+    recurrence_next: 'Next: {date}',
+    recurrence_nextSprint: 'Next: when the next sprint starts',
+    recurrence_never: 'No upcoming occurrence',
+    recurrence_title: 'Recurrence',
+    recurrence_partOf: 'Part of series',
+    recurrence_state_active: 'Active',
+    recurrence_state_paused: 'Paused',
+    recurrence_state_ended: 'Ended',
+    recurrence_skipping: 'the next occurrence will be skipped',
+    recurrence_skip: 'Skip next',
+    recurrence_unskip: "Don't skip",
+    recurrence_pause: 'Pause',
+    recurrence_resume: 'Resume',
+    recurrence_end: 'End series',
+    recurrence_instances: 'Instances ({count})',
+    storage_queue_title: 'Offline Change Not Saved',
+    storage_queue_body: 'A change made while offline could not be kept for sending later and will be lost when you reload.',
+    storage_queue_quota: 'Your browser ran out of storage space, so a change made while offline could not be kept for sending later.',
+    migration_failed_noBackup: 'Stored "{key}" data (v{version}) could not be upgraded or backed up, so it was left as it is. Changes to it will not be saved until storage space is freed and the app is reloaded.',
   },
   'fa-IR': {
     // General
@@ -859,5 +1178,324 @@ export const translations = {
     filter_by_status: 'فیلتر بر اساس وضعیت...',
     all_statuses: 'همه وضعیت‌ها',
     all_item_types: 'همه انواع آیتم',
+    migration_failed_title: 'ارتقای داده ناموفق بود',
+    migration_failed_body: 'داده‌های ذخیره‌شده «{key}» (نسخه {version}) ارتقا نیافت. یک نسخه پشتیبان نگه داشته شد.',
+    storage_quota_title: 'فضای ذخیره‌سازی پر است',
+    storage_quota_body: 'فضای ذخیره‌سازی مرورگر شما تمام شده است. ممکن است تغییرات اخیر ذخیره نشوند.',
+    boardSettings: 'تنظیمات بورد',
+    boardSettings_title: 'تنظیمات {boardName}',
+    boardSettings_data_title: 'پشتیبان‌گیری و انتقال',
+    boardSettings_data_desc: 'این بورد را به صورت یک آرشیو قابل انتقال خروجی بگیرید یا یک آرشیو را به عنوان بورد جدید وارد کنید.',
+    boardSettings_export_button: 'خروجی گرفتن از بورد',
+    boardSettings_import_button: 'وارد کردن بورد...',
+    importBoard_title: 'وارد کردن بورد',
+    importBoard_file_label: 'آرشیو بورد (.json)',
+    importBoard_preview_intro: 'یک بورد جدید {boardName} با موارد زیر ساخته می‌شود:',
+    importBoard_count_members: 'اعضا',
+    importBoard_count_workItems: 'آیتم‌های کاری',
+    importBoard_count_savedViews: 'نماهای ذخیره‌شده',
+    importBoard_warnings: '{count} هشدار',
+    importBoard_confirm_button: 'وارد کردن',
+    importBoard_success_title: 'بورد «{boardName}» وارد شد',
+    importBoard_success_body: '{count} آیتم کاری ساخته شد.',
+    csvImport_button: 'درون‌ریزی CSV',
+    csvImport_title: 'درون‌ریزی آیتم‌ها از CSV',
+    csvImport_file_label: 'فایل CSV (ردیف اول باید عنوان ستون‌ها باشد)',
+    csvImport_error_empty: 'فایل ردیف عنوان یا ردیف داده ندارد.',
+    csvImport_mapping_intro: '{count} ردیف یافت شد. مشخص کنید هر فیلد از کدام ستون پر شود.',
+    csvImport_mapping_skip: '— درون‌ریزی نشود —',
+    csvImport_save_template: 'ذخیره نگاشت به‌عنوان الگوی بورد',
+    csvImport_template_saved: 'الگو برای این بورد ذخیره شد.',
+    csvImport_validate_button: 'بررسی ردیف‌ها',
+    csvImport_back_button: 'بازگشت',
+    csvImport_preview_summary: '{valid} ردیف آماده درون‌ریزی است و {invalid} ردیف خطا دارد و نادیده گرفته می‌شود.',
+    csvImport_preview_errors: 'ردیف‌های دارای خطا',
+    csvImport_row: 'ردیف {row}:',
+    csvImport_import_button: 'درون‌ریزی {count} آیتم',
+    csvImport_field_title: 'عنوان',
+    csvImport_field_type: 'نوع',
+    csvImport_field_status: 'وضعیت',
+    csvImport_field_priority: 'اولویت',
+    csvImport_field_estimationPoints: 'امتیاز تخمین',
+    csvImport_field_labels: 'برچسب‌ها',
+    csvImport_field_dueDate: 'تاریخ سررسید',
+    csvImport_field_assignee: 'مسئول (ایمیل)',
+    csvImport_field_epic: 'اپیک (نام)',
+    csvImport_error_required: '{field} الزامی است.',
+    csvImport_error_invalid_type: '«{value}» نوع معتبری نیست.',
+    csvImport_error_invalid_status: '«{value}» وضعیت معتبری نیست.',
+    csvImport_error_invalid_priority: '«{value}» اولویت معتبری نیست.',
+    csvImport_error_invalid_number: '«{value}» عدد معتبری برای {field} نیست.',
+    csvImport_error_invalid_date: '«{value}» تاریخ معتبری نیست.',
+    csvImport_error_unknown_assignee: 'هیچ عضوی از بورد ایمیل «{value}» را ندارد.',
+    csvImport_error_unknown_epic: 'اپیکی با نام «{value}» در این بورد نیست.',
+    csvImport_success_title: 'درون‌ریزی CSV انجام شد',
+    csvImport_success_body: '{count} آیتم کاری اضافه شد.',
+    boardSettings_importExternal_button: 'درون‌ریزی از Jira یا Trello',
+    externalImport_title: 'درون‌ریزی از Jira یا Trello',
+    externalImport_file_label: 'خروجی جستجوی issue در Jira یا خروجی بورد Trello ‏(.json)',
+    externalImport_detected: 'خروجی {source} «{name}»: {items} آیتم کاری، {epics} اپیک و {sprints} اسپرینت به این بورد اضافه می‌شود.',
+    externalImport_status_mapping: 'نگاشت وضعیت‌ها',
+    externalImport_source_status: 'وضعیت در {source}',
+    externalImport_confirm_button: 'درون‌ریزی',
+    externalImport_success_title: 'درون‌ریزی انجام شد',
+    externalImport_success_body: '{items} آیتم کاری، {epics} اپیک و {sprints} اسپرینت اضافه شد.',
+    externalRef: 'منبع درون‌ریزی',
+    undo_item_created: '{itemId} ایجاد شد',
+    undo_item_saved: '{itemId} ذخیره شد',
+    undo_status_changed: '{itemId} به {status} منتقل شد',
+    undo_epic_created: 'اپیک «{name}» ایجاد شد',
+    undo_epic_saved: 'اپیک «{name}» ذخیره شد',
+    undo_epic_deleted: 'اپیک «{name}» حذف شد',
+    undo_sprint_created: 'اسپرینت «{name}» ایجاد شد',
+    undo_sprint_saved: 'اسپرینت «{name}» ذخیره شد',
+    undo_sprint_deleted: 'اسپرینت «{name}» حذف شد',
+    undo_undone: 'لغو شد: {label}',
+    undo_redone: 'دوباره انجام شد: {label}',
+    trash: 'سطل زباله',
+    trash_moveToTrash: 'انتقال به سطل زباله',
+    trash_workItems: 'آیتم‌های کاری',
+    trash_name: 'نام',
+    trash_deletedAt: 'زمان حذف',
+    trash_purgedIn: 'حذف دائمی تا',
+    trash_days: '{count} روز',
+    trash_restore: 'بازیابی',
+    trash_purge: 'حذف دائمی',
+    trash_empty: 'سطل زباله خالی است.',
+    trash_retention_note: 'آیتم‌ها، اپیک‌ها و اسپرینت‌های حذف‌شده به مدت {days} روز اینجا می‌مانند و سپس برای همیشه حذف می‌شوند.',
+    undo_item_trashed: '{itemId} به سطل زباله منتقل شد',
+    undo_item_restored: '{itemId} بازیابی شد',
+    undo_epic_restored: 'اپیک «{name}» بازیابی شد',
+    undo_sprint_restored: 'اسپرینت «{name}» بازیابی شد',
+    audit_title: 'گزارش ممیزی',
+    audit_desc: 'همه تغییرات این برد: چه کسی، چه زمانی و مقدار هر فیلد پیش و پس از تغییر.',
+    audit_search_placeholder: 'جستجو بر اساس نام، شناسه یا فیلد',
+    audit_filter_entity: 'نوع رکورد',
+    audit_filter_action: 'عملیات',
+    audit_filter_actor: 'تغییر توسط',
+    audit_filter_allEntities: 'همه انواع رکورد',
+    audit_filter_allActions: 'همه عملیات',
+    audit_filter_allActors: 'همه',
+    audit_actor_system: 'سیستم',
+    audit_entity_work_item: 'آیتم کاری',
+    audit_entity_epic: 'اپیک',
+    audit_entity_sprint: 'اسپرینت',
+    audit_entity_member: 'عضو',
+    audit_entity_invite_code: 'کد دعوت',
+    audit_entity_join_request: 'درخواست عضویت',
+    audit_action_create: 'ایجاد',
+    audit_action_update: 'ویرایش',
+    audit_action_delete: 'حذف',
+    audit_header_when: 'زمان',
+    audit_header_who: 'کاربر',
+    audit_header_what: 'مورد',
+    audit_header_changes: 'تغییرات',
+    audit_empty: 'تغییری یافت نشد.',
+    merge_title: '{itemId} توسط شخص دیگری تغییر کرده است',
+    merge_desc: 'تغییرات شما ذخیره نشد چون آیتم اکنون در نسخه {version} است. برای هر فیلد مقدار مورد نظر را انتخاب کنید ({count} مورد متعارض).',
+    merge_field: 'فیلد',
+    merge_side_base: 'نسخه اولیه',
+    merge_side_mine: 'تغییرات من',
+    merge_side_theirs: 'تغییرات دیگران',
+    merge_conflict: 'هر دو تغییر داده‌اند',
+    merge_noDifferences: 'تفاوتی وجود ندارد؛ ذخیره، آیتم موجود را نگه می‌دارد.',
+    merge_confirm: 'ذخیره نسخه ادغام‌شده',
+    sync_pending: '{count} در انتظار',
+    sync_pendingTitle: 'تغییرات آفلاین که در انتظار ارسال به سرور هستند',
+    sync_conflicts: '{count} تعارض',
+    sync_conflictsTitle: 'تعارض‌های همگام‌سازی',
+    sync_conflictsDesc: 'این رکوردها در زمانی که آفلاین بودید روی سرور تغییر کردند. نسخه‌ای را که می‌خواهید نگه دارید انتخاب کنید.',
+    sync_mine: 'تغییر آفلاین شما',
+    sync_theirs: 'روی سرور',
+    sync_deleted: 'حذف شده',
+    sync_keepMine: 'نگه‌داشتن نسخه من',
+    sync_keepTheirs: 'نگه‌داشتن نسخه سرور',
+    sync_merge: 'ادغام…',
+    sync_resolveFailed: 'اتصال به سرور ممکن نشد. بعداً دوباره تلاش کنید.',
+    sync_noConflicts: 'تعارضی باقی نمانده است.',
+    sync_collection_workItems: 'آیتم کاری',
+    sync_collection_epics: 'اپیک',
+    sync_collection_sprints: 'اسپرینت',
+    sync_collection_teams: 'تیم',
+    sync_collection_other: 'رکورد',
+    workflow_title: 'گردش کار',
+    workflow_desc: 'وضعیت‌ها و ستون‌های این برد و تغییر وضعیت‌های مجاز را تنظیم کنید. انواع آیتمی که روند متفاوتی دارند می‌توانند گردش کار خود را داشته باشند.',
+    workflow_scope: 'اعمال برای',
+    workflow_scope_default: 'همه انواع (پیش‌فرض برد)',
+    workflow_followsDefault: 'آیتم‌های {type} از پیش‌فرض برد پیروی می‌کنند.',
+    workflow_customize: 'سفارشی‌سازی برای {type}',
+    workflow_useDefault: 'استفاده از پیش‌فرض برد',
+    workflow_fromTo: 'از ↓ / به ←',
+    workflow_preview: 'پیش‌نمایش',
+    workflow_issue_unreachable: 'از {start} نمی‌توان به {status} رسید.',
+    workflow_issue_dead_end: 'آیتم‌های {status} هرگز به {final} نمی‌رسند.',
+    workflow_valid: 'همه وضعیت‌ها قابل دسترسی هستند و به یک وضعیت انجام‌شده ختم می‌شوند.',
+    workflow_save: 'ذخیره گردش کار',
+    workflow_discard: 'لغو تغییرات',
+    workflow_restoreDefaults: 'بازگردانی پیش‌فرض‌ها',
+    audit_entity_workflow: 'گردش کار',
+    workflow_statuses: 'وضعیت‌ها (به ترتیب به‌صورت ستون‌های کانبان نمایش داده می‌شوند)',
+    workflow_statusName: 'نام وضعیت',
+    workflow_statusCategory: 'دسته',
+    workflow_category_todo: 'شروع‌نشده',
+    workflow_category_in_progress: 'در حال انجام',
+    workflow_category_done: 'انجام‌شده',
+    workflow_moveEarlier: 'انتقال به قبل',
+    workflow_moveLater: 'انتقال به بعد',
+    workflow_removeStatus: 'حذف وضعیت',
+    workflow_statusUsage: '{count} آیتم',
+    workflow_addStatus: 'افزودن وضعیت',
+    workflow_newStatus: 'وضعیت جدید',
+    workflow_issue_no_todo_status: 'دست‌کم یک وضعیت باید در دسته «شروع‌نشده» باشد.',
+    workflow_issue_no_done_status: 'دست‌کم یک وضعیت باید در دسته «انجام‌شده» باشد.',
+    workflow_issue_invalid_name: 'نام وضعیت‌ها باید پر و یکتا باشد ({status}).',
+    workflow_issue_in_use: '{count} آیتم هنوز در وضعیت {status} هستند. پیش از حذف آن، آن‌ها را به وضعیت دیگری منتقل کنید.',
+    wip_title: 'محدودیت‌های کار در جریان',
+    wip_desc: 'محدودیت ستون‌ها کنار هر وضعیت در بالا تنظیم می‌شود. محدودیت هر نفر، آیتم‌های او در وضعیت‌های در حال انجام را می‌شمارد.',
+    wip_enforcement: 'وقتی جابه‌جایی از محدودیت بگذرد',
+    wip_enforcement_warn: 'هشدار و درخواست دلیل',
+    wip_enforcement_block: 'مسدود کردن (مدیران اسپرینت می‌توانند نادیده بگیرند)',
+    wip_perAssignee: 'برای هر نفر',
+    wip_perPerson: 'محدودیت افراد مشخص',
+    wip_personLimit: 'محدودیت کار در جریان برای {name}',
+    wip_columnLimit: 'محدودیت کار در جریان',
+    wip_noLimit: 'بدون محدودیت',
+    wip_modal_title: 'رسیدن به محدودیت کار در جریان',
+    wip_modal_body: 'انتقال «{title}» به {status} از این محدودیت‌ها می‌گذرد:',
+    wip_breach_column: '{status} شامل {count} آیتم می‌شود (محدودیت {limit})',
+    wip_breach_assignee: '{name} {count} آیتم در حال انجام خواهد داشت (محدودیت {limit})',
+    wip_modal_reason: 'دلیل گذشتن از محدودیت (در گزارش ممیزی ثبت می‌شود)',
+    wip_modal_blocked: 'این برد جابه‌جایی فراتر از محدودیت‌ها را مسدود می‌کند. از یک مدیر اسپرینت بخواهید این جابه‌جایی را انجام دهد.',
+    wip_modal_override: 'در هر صورت منتقل شود',
+    guard_title: 'فیلدهای الزامی',
+    guard_desc: 'آیتم‌ها تا زمانی که شرایط یک وضعیت را نداشته باشند نمی‌توانند وارد آن شوند.',
+    guard_entering: 'ورود به',
+    guard_status: 'وضعیت',
+    guard_type: 'نوع آیتم',
+    guard_allTypes: 'هر آیتم',
+    guard_requires: 'نیاز دارد به',
+    guard_requirement: 'شرط',
+    guard_requirement_assignee: 'مسئول',
+    guard_requirement_estimation: 'امتیاز تخمین',
+    guard_requirement_checklist_done: 'چک‌لیست کامل‌شده',
+    guard_requirement_due_date: 'تاریخ سررسید',
+    guard_requirement_epic: 'اپیک',
+    guard_requirement_sprint: 'اسپرینت',
+    guard_remove: 'حذف قانون',
+    guard_add: 'افزودن قانون',
+    guard_blocked: '«{title}» هنوز نمی‌تواند به {status} منتقل شود:',
+    guard_fix: 'رفع',
+    guard_violation_assignee: 'به یک مسئول نیاز دارد.',
+    guard_violation_estimation: 'به امتیاز تخمین نیاز دارد.',
+    guard_violation_checklist_done: 'همه موارد چک‌لیست باید انجام شده باشند.',
+    guard_violation_due_date: 'به تاریخ سررسید نیاز دارد.',
+    guard_violation_epic: 'باید به یک اپیک تعلق داشته باشد.',
+    guard_violation_sprint: 'باید در یک اسپرینت باشد.',
+    filterbar_groupBy_assignee: 'گروه‌بندی: مسئول',
+    filterbar_groupBy_priority: 'گروه‌بندی: اولویت',
+    filterbar_groupBy_team: 'گروه‌بندی: تیم',
+    filterbar_groupBy_type: 'گروه‌بندی: نوع',
+    filterbar_groupBy_label: 'گروه‌بندی: برچسب',
+    kanban_lane_unassigned: 'بدون مسئول',
+    kanban_lane_noTeam: 'بدون تیم',
+    kanban_lane_noLabel: 'بدون برچسب',
+    kanban_lane_none: 'هیچ',
+    kanban_lane_points: '{points} امتیاز',
+    undo_item_reordered: 'ترتیب {itemId} تغییر کرد',
+    items_sort_rank: 'مرتب‌سازی: ترتیب دستی',
+    items_sort_updated: 'مرتب‌سازی: آخرین تغییر',
+    items_sort_rankHint: 'برای تغییر ترتیب، ردیف‌ها را بکشید یا با Alt+بالا / Alt+پایین آیتم را به ابتدا یا انتهای فهرست ببرید',
+    undo_bulk_edit: 'ویرایش گروهی {count} آیتم',
+    bulk_selected: '{count} انتخاب شده',
+    bulk_field: 'فیلد مورد تغییر',
+    bulk_apply: 'اعمال',
+    bulk_clearSelection: 'پاک کردن انتخاب',
+    bulk_selectAllFiltered: 'انتخاب همه آیتم‌های نمایش‌داده‌شده',
+    bulk_selectItem: 'انتخاب {itemId}',
+    bulk_label_add: 'افزودن برچسب',
+    bulk_label_remove: 'حذف برچسب',
+    bulk_summary_updated: '{count} به‌روزرسانی شد',
+    bulk_summary_unchanged: '{count} از قبل همین مقدار را داشت',
+    bulk_summary_skipped: '{count} رد شد',
+    bulk_skip_permission: 'اجازه ویرایش این آیتم را ندارید',
+    bulk_skip_transition: 'گردش کار این انتقال را از {from} مجاز نمی‌داند',
+    bulk_skip_guard: 'فیلدهای لازم برای این وضعیت تکمیل نشده‌اند',
+    bulk_skip_wip: 'این انتقال از محدودیت WIP این بورد فراتر می‌رود',
+    links_title: 'پیوندها',
+    links_none: 'آیتم پیوندداده‌شده‌ای وجود ندارد.',
+    links_add: 'پیوند',
+    links_remove: 'حذف پیوند',
+    links_item: 'آیتم برای پیوند',
+    links_chooseItem: 'یک آیتم انتخاب کنید…',
+    links_unavailable: 'در دسترس نیست',
+    links_relation_blocks: 'مسدود می‌کند',
+    links_relation_blocked_by: 'مسدود شده توسط',
+    links_relation_relates_to: 'مرتبط با',
+    links_relation_duplicates: 'تکراریِ',
+    links_relation_duplicated_by: 'تکرار شده توسط',
+    links_relation_clones: 'کپیِ',
+    links_relation_cloned_by: 'کپی شده توسط',
+    links_error_self: 'یک آیتم نمی‌تواند به خودش پیوند داده شود.',
+    links_error_exists: 'این آیتم‌ها قبلاً به همین شکل پیوند داده شده‌اند.',
+    links_error_cycle: 'این کار یک چرخه وابستگی ایجاد می‌کند: {cycle}',
+    links_inCycle: 'این آیتم بخشی از یک چرخه وابستگی است: {cycle}',
+    links_blocked: 'مسدود',
+    links_blockedBy: 'مسدود شده توسط {items}',
+    links_sprintWarning: '{count} آیتم توسط کارهای خارج از این اسپرینت مسدود شده است',
+    guard_requirement_subtasks_done: 'انجام همه زیرکارها',
+    guard_violation_subtasks_done: 'ابتدا باید همه زیرکارهای آن انجام شده باشند.',
+    subtasks_title: 'زیرکارها',
+    subtasks_add: 'افزودن زیرکار',
+    subtasks_none: 'هنوز زیرکاری وجود ندارد.',
+    subtasks_progress: '{done} از {total} انجام شده',
+    subtasks_points: 'امتیاز',
+    subtasks_rollup: 'مجموع زیرکارها: {points} امتیاز، {hours} ساعت',
+    subtasks_fromSubtasks: '(+{value} در زیرکارها)',
+    subtasks_parent: 'آیتم والد',
+    subtasks_noParent: 'بدون والد',
+    audit_entity_item_template: 'قالب آیتم',
+    templates_title: 'قالب‌های آیتم',
+    templates_desc: 'نقطه شروع برای آیتم‌های جدید یک نوع: پیشوند عنوان، توضیحات، چک‌لیست، برچسب‌ها، اولویت، مسئولان و تیم.',
+    templates_none: 'این برد هنوز قالبی ندارد.',
+    templates_add: 'افزودن قالب',
+    templates_name: 'نام قالب',
+    templates_titlePrefix: 'پیشوند عنوان',
+    templates_titlePrefix_placeholder: 'مثلاً [باگ] ',
+    templates_assignees: 'مسئولان پیش‌فرض',
+    templates_primary: 'اصلی',
+    templates_placeholders: 'فیلدهای متنی می‌توانند از {variables} استفاده کنند؛ این مقادیر هنگام ایجاد آیتم پر می‌شوند.',
+    templates_save: 'ذخیره قالب',
+    templates_delete: 'حذف قالب',
+    templates_blankItem: 'آیتم خالی',
+    templates_fromTemplate: 'از یک قالب',
+    kanban_newItemInEpic: 'آیتم جدید در این اپیک',
+    recurrence_repeat: 'تکرار',
+    recurrence_none: 'بدون تکرار',
+    recurrence_frequency_sprint: 'هر اسپرینت',
+    recurrence_frequency_weekly: 'هفتگی',
+    recurrence_frequency_monthly: 'ماهانه',
+    recurrence_frequency_cron: 'زمان‌بندی سفارشی (cron)',
+    recurrence_cron: 'عبارت cron',
+    recurrence_cron_hint: 'دقیقه، ساعت، روز ماه، ماه و روز هفته به وقت محلی؛ مثلاً «0 9 * * 1» برای دوشنبه‌ها ساعت ۹:۰۰.',
+    recurrence_cron_invalid: 'این زمان‌بندی معتبر نیست یا هرگز فرا نمی‌رسد.',
+    recurrence_next: 'بعدی: {date}',
+    recurrence_nextSprint: 'بعدی: با شروع اسپرینت بعدی',
+    recurrence_never: 'تکرار بعدی وجود ندارد',
+    recurrence_title: 'تکرار',
+    recurrence_partOf: 'بخشی از سری',
+    recurrence_state_active: 'فعال',
+    recurrence_state_paused: 'متوقف',
+    recurrence_state_ended: 'پایان‌یافته',
+    recurrence_skipping: 'تکرار بعدی رد می‌شود',
+    recurrence_skip: 'رد کردن بعدی',
+    recurrence_unskip: 'رد نکن',
+    recurrence_pause: 'توقف',
+    recurrence_resume: 'ادامه',
+    recurrence_end: 'پایان سری',
+    recurrence_instances: 'نمونه‌ها ({count})',
+    storage_queue_title: 'تغییر آفلاین ذخیره نشد',
+    storage_queue_body: 'تغییری که در حالت آفلاین انجام شد برای ارسال بعدی نگه داشته نشد و با بارگذاری دوباره از دست می‌رود.',
+    storage_queue_quota: 'فضای ذخیره‌سازی مرورگر تمام شده است؛ تغییری که در حالت آفلاین انجام شد برای ارسال بعدی نگه داشته نشد.',
+    migration_failed_noBackup: 'داده‌های ذخیره‌شده «{key}» (نسخه {version}) ارتقا نیافت و پشتیبان‌گیری از آن هم ممکن نبود، پس دست‌نخورده ماند. تا آزاد شدن فضای ذخیره‌سازی و بارگذاری دوباره، تغییرات آن ذخیره نمی‌شود.',
   },
 };
\ No newline at end of file
@@ -12,6 +12,8 @@ export interface DisplayUser {
     avatarUrl: string;
 }
 
+// Ids of the statuses every board starts with. Boards can rename, reorder and add their own
+// (BoardWorkflow.statuses), so a work item's status is any status id of its board.
 export enum Status {
   BACKLOG = 'Backlog',
   TODO = 'To Do',
@@ -20,6 +22,16 @@ export enum Status {
   DONE = 'Done',
 }
 
+// What a status means for reports, progress and "done" checks, whatever the board calls it.
+export type StatusCategory = 'todo' | 'in_progress' | 'done';
+
+export interface BoardStatus {
+    id: string;
+    name: string;
+    category: StatusCategory;
+    wipLimit?: number; // Most items the column may hold
+}
+
 export enum Priority {
   URGENT = 'Urgent',
   HIGH = 'High',
@@ -60,6 +72,39 @@ export interface TeamInfo {
     name: string;
 }
 
+// Where a record came from when it was imported from another tool.
+export interface ExternalRef {
+  source: 'jira' | 'trello';
+  key: string; // Jira issue/sprint key or Trello card short link
+  url?: string;
+}
+
+export type WorkItemLinkType = 'blocks' | 'relates_to' | 'duplicates' | 'clones';
+
+// "This item <type> targetId". The target's side of it (blocked by, duplicated by...) is not stored.
+export interface WorkItemLink {
+  id: string;
+  type: WorkItemLinkType;
+  targetId: string;
+}
+
+export type RecurrenceFrequency = 'sprint' | 'weekly' | 'monthly' | 'cron';
+export type RecurrenceState = 'active' | 'paused' | 'ended';
+
+// How a recurring item repeats (see services/recurrence.ts). It lives on the series' first item;
+// the items generated from it point back with `seriesId`.
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  cron?: string;          // frequency 'cron': "minute hour day-of-month month day-of-week"
+  state: RecurrenceState;
+  startedAt: string;      // Weekly and monthly instances fall on this weekday / day of the month
+  nextAt?: string;        // When the next time-based instance is due
+  lastSprintId?: string;  // frequency 'sprint': the sprint that already has its instance
+  skipNext?: boolean;     // The next occurrence passes without an instance
+  startStatus: string;    // The status instances are created in
+  generated: number;      // Instances created so far
+}
+
 export interface WorkItem {
   id: string;
   boardId: string;
@@ -67,7 +112,7 @@ export interface WorkItem {
   summary: string;
   description: string;
   type: WorkItemType;
-  status: Status;
+  status: string; // A status id of the board's workflow (see Status for the built-in ones)
   assignee?: User; // Represents the Primary Assignee
   assignees: User[]; // All assignees, including the primary
   reporter: User;
@@ -87,12 +132,19 @@ export interface WorkItem {
   createdAt: string;
   updatedAt: string;
   version: number;
+  rank?: string; // Manual order on the board and in the item list (see services/ranking.ts)
   parentId?: string;
   childrenIds?: string[];
   epicId?: string;
   epicInfo?: EpicInfo;
   teamId?: string;
   teamInfo?: TeamInfo;
+  comments?: Comment[]; // Comments brought over by an import
+  externalRef?: ExternalRef;
+  links?: WorkItemLink[]; // Links from this item to others (see services/itemLinks.ts)
+  recurrence?: RecurrenceRule;
+  seriesId?: string; // On items generated by a recurrence rule: the item holding the rule
+  deletedAt?: string; // Set while the item is in the trash
   isUpdated?: boolean; // for real-time highlight
 }
 
@@ -107,8 +159,8 @@ export interface Comment {
 export interface TransitionLog {
     id: string;
     user: DisplayUser;
-    fromStatus: Status;
-    toStatus: Status;
+    fromStatus: string;
+    toStatus: string;
     timestamp: string;
 }
 
@@ -127,6 +179,7 @@ export enum NotificationType {
     
 export interface Notification {
     id: string;
+    boardId: string;
     type: NotificationType;
     actor: User;
     workItem: {
@@ -188,6 +241,7 @@ export interface Conflict {
 
 export interface CalendarEvent {
     id: string;
+    boardId: string;
     title: string;
     start: Date;
     end: Date;
@@ -234,10 +288,12 @@ export interface Epic {
     percentDoneWeighted?: number;
     openItemsCount?: number;
     totalItemsCount?: number;
+    externalRef?: ExternalRef;
 }
 
 export interface Team {
     id: string;
+    boardId: string;
     name: string;
     description: string;
     members: string[]; // array of user IDs
@@ -251,6 +307,7 @@ export enum JoinRequestStatus {
 
 export interface JoinRequest {
     id: string;
+    boardId: string;
     user: User;
     status: JoinRequestStatus;
     requestedAt: string;
@@ -258,6 +315,7 @@ export interface JoinRequest {
 
 export interface InviteCode {
     code: string;
+    boardId: string;
     roleId: string;
     uses: number;
     maxUses: number | null;
@@ -267,6 +325,9 @@ export interface InviteCode {
 }
 
 
+// How the Kanban board groups its cards: one row per epic, or swimlanes by a card field.
+export type KanbanGroupBy = 'status' | 'epic' | 'assignee' | 'priority' | 'team' | 'type' | 'label';
+
 // US-45: Updated FilterSet for multi-select
 export interface FilterSet {
     searchQuery: string;
@@ -284,6 +345,7 @@ export enum ViewVisibility {
 
 export interface SavedView {
     id: string;
+    boardId: string;
     name: string;
     ownerId: string;
     visibility: ViewVisibility;
@@ -298,6 +360,62 @@ export interface Board {
     name: string;
 }
 
+// Allowed moves between statuses: for each status id, the status ids an item may move to.
+export type TransitionMap = Record<string, string[]>;
+
+export interface BoardWorkflow {
+    boardId: string;
+    statuses: BoardStatus[]; // In board order: one Kanban column each
+    transitions: TransitionMap;
+    typeTransitions: Partial<Record<WorkItemType, TransitionMap>>; // Types that flow differently from the board default
+    wip: WipPolicy;
+    guards: TransitionGuard[];
+    updatedAt: string;
+}
+
+// Something an item must have before it may enter a status (see services/transitionGuards.ts).
+export type GuardRequirement = 'assignee' | 'estimation' | 'checklist_done' | 'due_date' | 'epic' | 'sprint' | 'subtasks_done';
+
+export interface TransitionGuard {
+    id: string;
+    toStatus: string;
+    type?: WorkItemType; // Unset to apply to every type
+    requirement: GuardRequirement;
+}
+
+// What a Kanban drop past a WIP limit does: ask for a reason, or refuse unless a sprint manager overrides it.
+export type WipEnforcement = 'warn' | 'block';
+
+export interface WipPolicy {
+    enforcement: WipEnforcement;
+    perAssignee?: number;              // Most in-progress items per person; unset for no limit
+    assignees: Record<string, number>; // User id -> that person's own limit, replacing perAssignee
+}
+
+// A board's pre-filled starting point for new items of one type (see services/itemTemplates.ts).
+// Text fields may hold placeholders such as {sprint} and {date}, filled in when an item is created.
+export interface WorkItemTemplate {
+    id: string;
+    boardId: string;
+    name: string;
+    type: WorkItemType;
+    titlePrefix: string;
+    description: string; // RichTextEditor HTML
+    checklist: ChecklistItem[];
+    labels: string[];
+    priority: Priority;
+    assigneeIds: string[]; // The first one is the primary assignee
+    teamId?: string;
+    updatedAt: string;
+}
+
+// Where a new item starts out: in an epic, under a parent item, from a template.
+export interface NewItemOptions {
+    epicId?: string;
+    parentId?: string;
+    templateId?: string;
+}
+
 export type Permission = 
     | 'item.create'
     | 'item.edit.own'
@@ -318,6 +436,12 @@ export interface BoardMember {
     roleId: string;
 }
 
+// A board's members, one record per board (see BoardContext).
+export interface BoardMembership {
+    boardId: string;
+    members: BoardMember[];
+}
+
 // US-29: Reports & Insights v2
 export enum ReportType {
     BURNDOWN = 'BURNDOWN',
@@ -339,7 +463,6 @@ export interface AssigneeWorkloadData {
     assignee: User;
     open: number;
     inProgress: number;
-    inReview: number;
     totalLoad: number;
     wipBreached: boolean;
 }
@@ -363,4 +486,26 @@ export interface Sprint {
     state: SprintState;
     epicIds: string[];
     deletedAt?: string; // EP-DEL-001
-}
\ No newline at end of file
+    externalRef?: ExternalRef;
+}
+export type AuditEntity = 'work_item' | 'epic' | 'sprint' | 'member' | 'invite_code' | 'join_request' | 'workflow' | 'item_template';
+export type AuditAction = 'create' | 'update' | 'delete';
+
+export interface AuditFieldChange {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+}
+
+// One append-only audit log record; `actor` is null for automatic changes (sprint state, trash purge).
+export interface AuditEntry {
+    id: string;
+    boardId: string;
+    at: string;
+    actor: { id: string; name: string } | null;
+    entity: AuditEntity;
+    entityId: string;
+    entityLabel: string;
+    action: AuditAction;
+    changes: AuditFieldChange[];
+}
@@ -0,0 +1,6 @@
+// Build-time constants injected by define() in vite.config.ts.
+
+// Base URL of the ScrumOwl REST server; empty in browser-only mode.
+declare const __SCRUMOWL_API_URL__: string | undefined;
+// WebSocket URL for live notifications; empty to derive it from the REST server.
+declare const __SCRUMOWL_REALTIME_URL__: string | undefined;
@@ -1,7 +1,16 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '')
+  return {
+    plugins: [react()],
+    define: {
+      // Base URL of a ScrumOwl REST server (npm run server); unset for browser-only mode.
+      __SCRUMOWL_API_URL__: JSON.stringify(env.SCRUMOWL_API_URL || ''),
+      // WebSocket URL for live notifications; defaults to the REST server's /realtime endpoint.
+      __SCRUMOWL_REALTIME_URL__: JSON.stringify(env.SCRUMOWL_REALTIME_URL || ''),
+    },
+  }
 })